@@ -1,9 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, Pressable, ActivityIndicator, TextInput } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { useColorScheme } from '../../components/useColorScheme';
-import Colors from '../../constants/Colors';
-import { supabase } from '../../lib/supabase';
+import { useColorScheme } from '../components/useColorScheme';
+import Colors from '../constants/Colors';
+import { supabase } from '../lib/supabase';
 import { Ionicons } from '@expo/vector-icons';
 
 type ColorScheme = 'light' | 'dark';
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, Pressable, ActivityIndicator, TextInput, ScrollView, Image, Switch } from 'react-native';
 import { useRouter } from 'expo-router';
-import { useColorScheme } from '@/components/useColorScheme';
-import Colors from '@/constants/Colors';
-import { supabase } from '@/lib/supabase';
+import { useColorScheme } from '../components/useColorScheme';
+import Colors from '../constants/Colors';
+import { supabase } from '../lib/supabase';
+import { profilesRepository } from '../repositories/profiles';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { decode } from 'base64-arraybuffer';
@@ -79,16 +80,7 @@ export default function ProfileSetupScreen() {
       }
 
       // Check if profile already exists
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', session.user.id)
-        .single();
-
-      if (profileError && profileError.code !== 'PGRST116') {
-        console.error('Profile error:', profileError);
-        return;
-      }
+      const profile = await profilesRepository.findProfile(session.user.id);
 
       if (profile?.full_name) {
         console.log('Profile already exists, redirecting to tabs');
@@ -238,33 +230,17 @@ export default function ProfileSetupScreen() {
 
       // Check if profile exists
       console.log('Checking if profile exists...');
-      const { data: existingProfile, error: profileError } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('id', user.id)
-        .single();
-
-      if (profileError && profileError.code !== 'PGRST116') {
-        console.error('Error checking profile:', profileError);
-        throw profileError;
-      }
+      const existingProfile = await profilesRepository.findProfile(user.id);
 
       // If profile doesn't exist, create it first
       if (!existingProfile) {
         console.log('Profile does not exist, creating base profile...');
-        const { error: insertError } = await supabase
-          .from('profiles')
-          .insert({
-            id: user.id,
-            phone: user.phone,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          });
-
-        if (insertError) {
-          console.error('Profile creation error:', insertError);
-          throw insertError;
-        }
+        await profilesRepository.createProfile({
+          id: user.id,
+          phone: user.phone,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        });
         console.log('Base profile created successfully');
 
         // Wait a moment to ensure the insert is complete
@@ -304,15 +280,7 @@ export default function ProfileSetupScreen() {
 
       // Update the profile
       console.log('Updating profile with data:', profileData);
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update(profileData)
-        .eq('id', user.id);
-
-      if (updateError) {
-        console.error('Profile update error:', updateError);
-        throw updateError;
-      }
+      await profilesRepository.updateProfile(user.id, profileData);
 
       console.log('Profile updated successfully');
       router.replace('/(tabs)');
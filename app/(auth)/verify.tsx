@@ -1,9 +1,9 @@
 import { useState } from 'react';
 import { View, Text, StyleSheet, TextInput, Pressable, ActivityIndicator } from 'react-native';
 import { router } from 'expo-router';
-import { useColorScheme } from '../../components/useColorScheme';
-import Colors from '../../constants/Colors';
-import { supabase } from '../../lib/supabase';
+import { useColorScheme } from '../components/useColorScheme';
+import Colors from '../constants/Colors';
+import { supabase } from '../lib/supabase';
 import { Ionicons } from '@expo/vector-icons';
 
 type ColorScheme = 'light' | 'dark';
@@ -5,6 +5,7 @@ import { colors } from '../theme/colors';
 import { typography } from '../theme/typography';
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { chatsRepository } from '../repositories/chats';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 export default function TabLayout() {
@@ -20,15 +21,7 @@ export default function TabLayout() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
-        const { data: chats, error } = await supabase
-          .from('chats')
-          .select('unread_count')
-          .or(`user_id.eq.${user.id},other_user_id.eq.${user.id}`);
-        
-        if (error) throw error;
-        
-        const total = chats?.reduce((sum, chat) => sum + (chat.unread_count || 0), 0) || 0;
-        setUnreadCount(total);
+        setUnreadCount(await chatsRepository.getUnreadCount(user.id));
       }
     } catch (error) {
       console.error('Error loading unread count:', error);
@@ -97,6 +90,26 @@ export default function TabLayout() {
         }}
       />
 
+      <Tabs.Screen
+        name="trips"
+        options={{
+          title: 'Trips',
+          tabBarIcon: ({ color, size }) => (
+            <Ionicons name="ticket-outline" size={size} color={color} />
+          ),
+        }}
+      />
+
+      <Tabs.Screen
+        name="my-rides"
+        options={{
+          title: 'My Rides',
+          tabBarIcon: ({ color, size }) => (
+            <Ionicons name="car-outline" size={size} color={color} />
+          ),
+        }}
+      />
+
       <Tabs.Screen
         name="profile"
         options={{
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, FlatList, Text, Pressable, RefreshControl, TextInput, ViewStyle, TextStyle, ScrollView } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, FlatList, Text, Pressable, RefreshControl, ViewStyle, TextStyle, ScrollView, ActivityIndicator } from 'react-native';
 import { useColorScheme } from '../components/useColorScheme';
 import Colors from '../constants/Colors';
 import { typography } from '../theme/typography';
@@ -7,95 +7,120 @@ import { colors } from '../theme/colors';
 import { gradients } from '../theme/gradients';
 import { buttonStyles } from '../theme/components/buttons';
 import RideCard from '../components/RideCard';
-import { supabase } from '../lib/supabase';
+import RideMap from '../components/RideMap';
+import RideFilterSheet, { EMPTY_RIDE_FILTERS } from '../components/RideFilterSheet';
+import { bookingService, BookingError } from '../services/bookingService';
+import { Ride, RideFilters, RideRouteMatch, RideSearchQuery, RideSortOption } from '../types/ride';
+import { ridesRepository, RIDE_SEARCH_PAGE_SIZE } from '../repositories/rides';
+import { findCity } from '../constants/cities';
+import { findRideFeature } from '../constants/rideFeatures';
 import { Ionicons } from '@expo/vector-icons';
-import { router } from 'expo-router';
-import { format } from 'date-fns';
+import { router, useLocalSearchParams } from 'expo-router';
+import { addDays, format, startOfDay } from 'date-fns';
 import { LinearGradient } from 'expo-linear-gradient';
 import DateTimePicker from '@react-native-community/datetimepicker';
 
-type Driver = {
-  id: string;
-  full_name: string;
-  avatar_url: string | null;
-  rating: number;
-  total_rides: number;
-  vehicle_details: {
-    type: string;
-    color: string;
-    plate_number: string;
-    year: number;
-    seats: number;
-  };
-  rating_count: number;
-  verification_badges: Array<{
-    type: 'phone' | 'email' | 'id' | 'license';
-    verified: boolean;
-  }>;
-};
-
-type Ride = {
-  id: string;
-  driver: Driver;
-  origin_address: string;
-  destination_address: string;
-  departure_time: string;
-  price_per_seat: number;
-  available_seats: number;
-  status: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
-};
-
-type SortOption = 'price_asc' | 'price_desc' | 'date_asc' | 'date_desc' | 'seats_asc' | 'seats_desc';
+// Typing a price shouldn't send a search per keystroke
+const SEARCH_DELAY_MS = 400;
+
+// Set on rides found along the route rather than by exact city names
+type SearchResult = Ride & { match?: RideRouteMatch };
+
+// An active filter, shown under the sort buttons so it can be dropped in a tap
+type FilterChip = { key: string; label: string; onRemove: () => void };
 
 export default function FindRideScreen() {
   const colorScheme = useColorScheme();
-  const [rides, setRides] = useState<Ride[]>([]);
+  const params = useLocalSearchParams<{ origin?: string; destination?: string }>();
+  const [originCity, setOriginCity] = useState<string | null>(params.origin || null);
+  const [destinationCity, setDestinationCity] = useState<string | null>(params.destination || null);
+  const [rides, setRides] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
-  const [sortBy, setSortBy] = useState<SortOption>('date_asc');
+  const [sortBy, setSortBy] = useState<RideSortOption>('date_asc');
   const [showFilters, setShowFilters] = useState(false);
-  const [minPrice, setMinPrice] = useState<number | null>(null);
-  const [maxPrice, setMaxPrice] = useState<number | null>(null);
-  const [minSeats, setMinSeats] = useState<number | null>(null);
+  const [filters, setFilters] = useState<RideFilters>(EMPTY_RIDE_FILTERS);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
+  // Both views show the same search results, so filters carry across
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  // Each new search bumps this so a slow response to an older one is dropped
+  const searchIdRef = useRef(0);
 
+  // The home screen pushes a new route onto the already-mounted tab
   useEffect(() => {
-    loadRides();
-  }, []);
+    setOriginCity(params.origin || null);
+    setDestinationCity(params.destination || null);
+  }, [params.origin, params.destination]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadRides(), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [originCity, destinationCity, sortBy, filters, selectedDate]);
+
+  const buildSearch = (offset: number): RideSearchQuery => ({
+    origin_city: originCity ?? undefined,
+    destination_city: destinationCity ?? undefined,
+    departs_after: selectedDate ? startOfDay(selectedDate) : undefined,
+    departs_before: selectedDate ? addDays(startOfDay(selectedDate), 1) : undefined,
+    min_seats: filters.min_seats ?? undefined,
+    min_price: filters.min_price ?? undefined,
+    max_price: filters.max_price ?? undefined,
+    features: filters.features,
+    min_driver_rating: filters.min_driver_rating ?? undefined,
+    verified_only: filters.verified_only,
+    women_only: filters.women_only,
+    sort: sortBy,
+    offset,
+    limit: RIDE_SEARCH_PAGE_SIZE,
+  });
+
+  // With both ends of the trip known, also find rides passing through them
+  const fetchPage = (offset: number): Promise<SearchResult[]> => {
+    const pickup = originCity ? findCity(originCity) : undefined;
+    const dropoff = destinationCity ? findCity(destinationCity) : undefined;
+
+    return pickup && dropoff
+      ? ridesRepository.searchAlongRoute(pickup, dropoff, buildSearch(offset))
+      : ridesRepository.searchRides(buildSearch(offset));
+  };
 
   const loadRides = async () => {
+    const searchId = ++searchIdRef.current;
     try {
       setLoading(true);
-      
-      let query = supabase
-        .from('rides')
-        .select(`
-          *,
-          driver:profiles!rides_driver_id_fkey (
-            id,
-            full_name,
-            avatar_url,
-            rating,
-            total_rides,
-            vehicle_details
-          )
-        `)
-        .eq('status', 'pending')
-        .gte('departure_time', new Date().toISOString())
-        .gt('available_seats', 0);
-
-      const { data, error } = await query;
-      
-      if (error) throw error;
-      
-      setRides(data || []);
-      setLoading(false);
-      setRefreshing(false);
+      const page = await fetchPage(0);
+      if (searchId !== searchIdRef.current) return;
+
+      setRides(page);
+      setHasMore(page.length === RIDE_SEARCH_PAGE_SIZE);
     } catch (error) {
       console.error('Error loading rides:', error);
-      setLoading(false);
-      setRefreshing(false);
+    } finally {
+      if (searchId === searchIdRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  };
+
+  const loadMoreRides = async () => {
+    if (!hasMore || loading || loadingMore) return;
+
+    const searchId = searchIdRef.current;
+    try {
+      setLoadingMore(true);
+      const page = await fetchPage(rides.length);
+      if (searchId !== searchIdRef.current) return;
+
+      setRides((current) => [...current, ...page]);
+      setHasMore(page.length === RIDE_SEARCH_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more rides:', error);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
@@ -104,83 +129,126 @@ export default function FindRideScreen() {
     loadRides();
   };
 
+  // Rare routes may have nothing today; let the passenger hear when a ride is posted
+  const handleCreateAlert = () => {
+    router.push({
+      pathname: '/saved-searches/[id]',
+      params: {
+        id: 'new',
+        origin: originCity ?? '',
+        destination: destinationCity ?? '',
+        date: selectedDate ? format(selectedDate, 'yyyy-MM-dd') : '',
+        maxPrice: filters.max_price ? String(filters.max_price) : '',
+        minSeats: filters.min_seats ? String(filters.min_seats) : '',
+      },
+    });
+  };
+
+  const clearRoute = () => {
+    setOriginCity(null);
+    setDestinationCity(null);
+    router.setParams({ origin: '', destination: '' });
+  };
+
+  const updateFilters = (changes: Partial<RideFilters>) => setFilters((current) => ({ ...current, ...changes }));
+
+  const resetFilters = () => {
+    setFilters(EMPTY_RIDE_FILTERS);
+    setSelectedDate(null);
+  };
+
+  const getFilterChips = (): FilterChip[] => {
+    const chips: FilterChip[] = [];
+    const { min_price, max_price } = filters;
+
+    if (selectedDate) {
+      chips.push({ key: 'date', label: format(selectedDate, 'MMM d'), onRemove: () => setSelectedDate(null) });
+    }
+    if (min_price || max_price) {
+      chips.push({
+        key: 'price',
+        label: min_price && max_price
+          ? `UGX ${min_price.toLocaleString()}–${max_price.toLocaleString()}`
+          : min_price
+            ? `From UGX ${min_price.toLocaleString()}`
+            : `Up to UGX ${max_price!.toLocaleString()}`,
+        onRemove: () => updateFilters({ min_price: null, max_price: null }),
+      });
+    }
+    if (filters.min_seats) {
+      chips.push({ key: 'seats', label: `${filters.min_seats}+ seats`, onRemove: () => updateFilters({ min_seats: null }) });
+    }
+    if (filters.min_driver_rating) {
+      chips.push({
+        key: 'rating',
+        label: `Rated ${filters.min_driver_rating}+`,
+        onRemove: () => updateFilters({ min_driver_rating: null }),
+      });
+    }
+    if (filters.verified_only) {
+      chips.push({ key: 'verified', label: 'Verified drivers', onRemove: () => updateFilters({ verified_only: false }) });
+    }
+    if (filters.women_only) {
+      chips.push({ key: 'women', label: 'Women only', onRemove: () => updateFilters({ women_only: false }) });
+    }
+    filters.features.forEach((feature) => {
+      chips.push({
+        key: feature,
+        label: findRideFeature(feature)?.label ?? feature,
+        onRemove: () => updateFilters({ features: filters.features.filter((selected) => selected !== feature) }),
+      });
+    });
+
+    return chips;
+  };
+
   const handleBookRide = async (rideId: string) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { error } = await supabase
-        .from('bookings')
-        .insert({
-          ride_id: rideId,
-          passenger_id: user.id,
-          seats_booked: 1,
-          status: 'pending'
-        });
-
-      if (error) throw error;
-      router.push(`/booking/${rideId}`);
+      const booking = await bookingService.bookRide(rideId);
+      router.push({
+        pathname: '/booking/[rideId]',
+        params: { rideId, bookingId: booking.id },
+      });
     } catch (error) {
-      console.error('Error booking ride:', error);
+      // Let the booking screen explain why the seat could not be reserved
+      const code = error instanceof BookingError ? error.code : 'UNKNOWN';
+      router.push({
+        pathname: '/booking/[rideId]',
+        params: { rideId, error: code },
+      });
     }
   };
 
-  const sortRides = (rides: Ride[]) => {
-    return [...rides].sort((a, b) => {
-      switch (sortBy) {
-        case 'price_asc':
-          return a.price_per_seat - b.price_per_seat;
-        case 'price_desc':
-          return b.price_per_seat - a.price_per_seat;
-        case 'date_asc':
-          return new Date(a.departure_time).getTime() - new Date(b.departure_time).getTime();
-        case 'date_desc':
-          return new Date(b.departure_time).getTime() - new Date(a.departure_time).getTime();
-        case 'seats_asc':
-          return a.available_seats - b.available_seats;
-        case 'seats_desc':
-          return b.available_seats - a.available_seats;
-        default:
-          return 0;
-      }
-    });
+  const describeMatch = (match: RideRouteMatch) => {
+    if (match.trip_share >= 0.99 && match.detour_km < 1) return undefined;
+    const offRouteKm = Math.max(1, Math.round(Math.max(match.pickup_distance_km, match.dropoff_distance_km)));
+    return `Passes within ${offRouteKm} km of your stops`;
   };
 
-  const filterRides = (rides: Ride[]) => {
-    return rides.filter(ride => {
-      if (minPrice && ride.price_per_seat < minPrice) return false;
-      if (maxPrice && ride.price_per_seat > maxPrice) return false;
-      if (minSeats && ride.available_seats < minSeats) return false;
-      if (selectedDate) {
-        const rideDate = new Date(ride.departure_time);
-        const selected = new Date(selectedDate);
-        if (
-          rideDate.getDate() !== selected.getDate() ||
-          rideDate.getMonth() !== selected.getMonth() ||
-          rideDate.getFullYear() !== selected.getFullYear()
-        ) {
-          return false;
-        }
-      }
-      return true;
-    });
-  };
+  const renderRide = ({ item }: { item: SearchResult }) => {
+    if (!item.driver) return null;
 
-  const renderRide = ({ item }: { item: Ride }) => (
-    <RideCard
-      originAddress={item.origin_address}
-      destinationAddress={item.destination_address}
-      departureTime={item.departure_time}
-      pricePerSeat={item.price_per_seat}
-      availableSeats={item.available_seats}
-      driver={item.driver}
-      status={item.status}
-      primaryActionText="Book Now"
-      onPrimaryAction={() => handleBookRide(item.id)}
-    />
-  );
+    return (
+      <RideCard
+        originAddress={item.origin.address}
+        destinationAddress={item.destination.address}
+        departureTime={item.departure_time}
+        pricePerSeat={item.price_per_seat}
+        availableSeats={item.available_seats}
+        note={item.match && describeMatch(item.match)}
+        driver={{
+          ...item.driver,
+          rating_count: 0,
+          verification_badges: item.driver.is_verified ? [{ type: 'id', verified: true }] : [],
+        }}
+        status={item.status}
+        primaryActionText="Book Now"
+        onPrimaryAction={() => handleBookRide(item.id)}
+      />
+    );
+  };
 
-  const renderSortButton = (option: SortOption, icon: keyof typeof Ionicons.glyphMap, label: string) => (
+  const renderSortButton = (option: RideSortOption, icon: keyof typeof Ionicons.glyphMap, label: string) => (
     <Pressable 
       style={[
         styles.filterButton,
@@ -202,6 +270,10 @@ export default function FindRideScreen() {
     </Pressable>
   );
 
+  const filterChips = getFilterChips();
+  // The date has its own button, so it isn't counted on the filters one
+  const sheetFilterCount = filterChips.filter((chip) => chip.key !== 'date').length;
+
   return (
     <View style={styles.container}>
       <LinearGradient
@@ -210,7 +282,42 @@ export default function FindRideScreen() {
         end={gradients.primary.end}
         style={styles.header}
       >
-        <Text style={styles.headerTitle}>Available Rides</Text>
+        <View style={styles.headerRow}>
+          <Text style={styles.headerTitle}>Available Rides</Text>
+          <View style={styles.viewToggle}>
+            {(['list', 'map'] as const).map((mode) => (
+              <Pressable
+                key={mode}
+                style={[styles.viewToggleButton, viewMode === mode && styles.viewToggleButtonActive]}
+                onPress={() => setViewMode(mode)}
+              >
+                <Ionicons
+                  name={mode === 'list' ? 'list' : 'map'}
+                  size={18}
+                  color={viewMode === mode ? colors.text.primary : colors.text.inverse}
+                />
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
+        {(originCity || destinationCity) && (
+          <View style={styles.routeRow}>
+            <Ionicons name="navigate" size={18} color={colors.text.inverse} />
+            <Text style={styles.routeText} numberOfLines={1}>
+              {originCity || 'Anywhere'} → {destinationCity || 'Anywhere'}
+            </Text>
+            {originCity && destinationCity && (
+              <Pressable style={styles.alertButton} onPress={handleCreateAlert} hitSlop={8}>
+                <Ionicons name="notifications-outline" size={16} color={colors.text.inverse} />
+                <Text style={styles.alertButtonText}>Alert me</Text>
+              </Pressable>
+            )}
+            <Pressable onPress={clearRoute} hitSlop={8}>
+              <Ionicons name="close-circle" size={20} color={colors.text.inverse} />
+            </Pressable>
+          </View>
+        )}
         
         {/* Sort Controls */}
         <View style={styles.controls}>
@@ -230,40 +337,15 @@ export default function FindRideScreen() {
 
         {/* Filter Section */}
         <View style={styles.filterSection}>
-          <View style={styles.filterGroup}>
-            <Text style={styles.filterLabel}>Price Range</Text>
-            <View style={styles.priceInputs}>
-              <TextInput
-                style={styles.priceInput}
-                placeholder="Min"
-                value={minPrice?.toString()}
-                onChangeText={(text) => setMinPrice(text ? parseInt(text) : null)}
-                keyboardType="numeric"
-                placeholderTextColor={colors.text.disabled}
-              />
-              <Text style={styles.filterLabel}>-</Text>
-              <TextInput
-                style={styles.priceInput}
-                placeholder="Max"
-                value={maxPrice?.toString()}
-                onChangeText={(text) => setMaxPrice(text ? parseInt(text) : null)}
-                keyboardType="numeric"
-                placeholderTextColor={colors.text.disabled}
-              />
-            </View>
-          </View>
-
-          <View style={styles.filterGroup}>
-            <Text style={styles.filterLabel}>Min Seats</Text>
-            <TextInput
-              style={styles.seatsInput}
-              placeholder="1"
-              value={minSeats?.toString()}
-              onChangeText={(text) => setMinSeats(text ? parseInt(text) : null)}
-              keyboardType="numeric"
-              placeholderTextColor={colors.text.disabled}
-            />
-          </View>
+          <Pressable style={styles.dateButton} onPress={() => setShowFilters(true)}>
+            <Ionicons name="options-outline" size={20} color={colors.text.inverse} />
+            <Text style={styles.dateButtonText}>Filters</Text>
+            {sheetFilterCount > 0 && (
+              <View style={styles.filterCount}>
+                <Text style={styles.filterCountText}>{sheetFilterCount}</Text>
+              </View>
+            )}
+          </Pressable>
 
           <Pressable 
             style={styles.dateButton}
@@ -273,31 +355,83 @@ export default function FindRideScreen() {
             <Text style={styles.dateButtonText}>
               {selectedDate ? format(selectedDate, 'MMM d, yyyy') : 'Select Date'}
             </Text>
+            {selectedDate && (
+              <Pressable onPress={() => setSelectedDate(null)} hitSlop={8}>
+                <Ionicons name="close" size={18} color={colors.text.inverse} />
+              </Pressable>
+            )}
           </Pressable>
         </View>
+
+        {filterChips.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.filterChips}
+          >
+            {filterChips.map((chip) => (
+              <Pressable key={chip.key} style={styles.filterChip} onPress={chip.onRemove}>
+                <Text style={styles.filterChipText}>{chip.label}</Text>
+                <Ionicons name="close" size={14} color={colors.text.primary} />
+              </Pressable>
+            ))}
+            <Pressable style={styles.resetChip} onPress={resetFilters}>
+              <Ionicons name="refresh" size={14} color={colors.text.inverse} />
+              <Text style={styles.resetChipText}>Reset</Text>
+            </Pressable>
+          </ScrollView>
+        )}
       </LinearGradient>
 
-      {/* Rides List */}
-      <FlatList
-        data={sortRides(filterRides(rides))}
-        renderItem={renderRide}
-        keyExtractor={(item) => item.id}
-        contentContainerStyle={styles.list}
-        refreshControl={
-          <RefreshControl 
-            refreshing={refreshing} 
-            onRefresh={handleRefresh}
-            tintColor={colors.text.primary}
-          />
-        }
-        ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <Ionicons name="car-outline" size={48} color={colors.text.secondary} />
-            <Text style={styles.emptyText}>
-              {loading ? 'Finding available rides...' : 'No rides available'}
-            </Text>
-          </View>
-        }
+      {viewMode === 'map' ? (
+        <RideMap
+          rides={rides}
+          onBookRide={handleBookRide}
+          hasMore={hasMore}
+          loadingMore={loadingMore}
+          onLoadMore={loadMoreRides}
+        />
+      ) : (
+        <FlatList
+          data={rides}
+          renderItem={renderRide}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          onEndReached={loadMoreRides}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator style={styles.footerLoader} color={colors.text.primary} /> : null
+          }
+          refreshControl={
+            <RefreshControl 
+              refreshing={refreshing} 
+              onRefresh={handleRefresh}
+              tintColor={colors.text.primary}
+            />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="car-outline" size={48} color={colors.text.secondary} />
+              <Text style={styles.emptyText}>
+                {loading
+                  ? 'Finding available rides...'
+                  : originCity || destinationCity
+                    ? 'No rides on this route yet'
+                    : 'No rides available'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      <RideFilterSheet
+        visible={showFilters}
+        filters={filters}
+        onApply={(applied) => {
+          setFilters(applied);
+          setShowFilters(false);
+        }}
+        onClose={() => setShowFilters(false)}
       />
 
       {showDatePicker && (
@@ -327,12 +461,59 @@ const styles = StyleSheet.create({
     borderBottomLeftRadius: 20,
     borderBottomRightRadius: 20,
   } as ViewStyle,
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  } as ViewStyle,
   headerTitle: {
     fontSize: typography.sizes.h2,
     fontFamily: typography.fonts.primary,
     fontWeight: '700',
     color: colors.text.inverse,
+  } as TextStyle,
+  viewToggle: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 20,
+    padding: 3,
+  } as ViewStyle,
+  viewToggleButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 17,
+  } as ViewStyle,
+  viewToggleButtonActive: {
+    backgroundColor: colors.background.primary,
+  } as ViewStyle,
+  routeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
     marginBottom: 16,
+  } as ViewStyle,
+  routeText: {
+    flex: 1,
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  } as TextStyle,
+  alertButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  } as ViewStyle,
+  alertButtonText: {
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
   } as TextStyle,
   controls: {
     marginBottom: 16,
@@ -363,42 +544,59 @@ const styles = StyleSheet.create({
     color: colors.text.inverse,
   } as TextStyle,
   filterSection: {
-    backgroundColor: colors.background.secondary,
-    borderRadius: 12,
-    padding: 16,
-    gap: 16,
-  } as ViewStyle,
-  filterGroup: {
+    flexDirection: 'row',
     gap: 8,
   } as ViewStyle,
-  filterLabel: {
+  filterCount: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: colors.background.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  } as ViewStyle,
+  filterCountText: {
     fontSize: typography.sizes.caption,
     fontFamily: typography.fonts.primary,
-    fontWeight: '500',
-    color: colors.text.inverse,
+    fontWeight: '700',
+    color: colors.text.primary,
   } as TextStyle,
-  priceInputs: {
-    flexDirection: 'row',
-    alignItems: 'center',
+  filterChips: {
     gap: 8,
+    paddingTop: 12,
+    paddingRight: 20,
   } as ViewStyle,
-  priceInput: {
-    flex: 1,
-    height: 40,
-    backgroundColor: colors.background.primary,
-    borderRadius: 8,
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
     paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.background.primary,
+  } as ViewStyle,
+  filterChipText: {
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '500',
     color: colors.text.primary,
-    fontSize: typography.sizes.body2,
   } as TextStyle,
-  seatsInput: {
-    height: 40,
-    backgroundColor: colors.background.primary,
-    borderRadius: 8,
+  resetChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
     paddingHorizontal: 12,
-    color: colors.text.primary,
-    fontSize: typography.sizes.body2,
-    width: 80,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.text.inverse,
+  } as ViewStyle,
+  resetChipText: {
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
   } as TextStyle,
   dateButton: {
     flexDirection: 'row',
@@ -419,6 +617,9 @@ const styles = StyleSheet.create({
   list: {
     padding: 16,
   } as ViewStyle,
+  footerLoader: {
+    paddingVertical: 16,
+  } as ViewStyle,
   emptyContainer: {
     padding: 40,
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { View, StyleSheet, ScrollView, Text, Pressable, Image, RefreshControl, StyleProp, ViewStyle, TextStyle, ImageStyle } from 'react-native';
 import { useColorScheme } from '../components/useColorScheme';
 import { typography } from '../theme/typography';
@@ -6,20 +6,17 @@ import { colors } from '../theme/colors';
 import { gradients } from '../theme/gradients';
 import { buttonStyles } from '../theme/components/buttons';
 import { supabase } from '../lib/supabase';
+import { profilesRepository } from '../repositories/profiles';
+import { notificationsRepository } from '../repositories/notifications';
 import { Ionicons } from '@expo/vector-icons';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import { format } from 'date-fns';
 import { LinearGradient } from 'expo-linear-gradient';
 import Avatar from '../components/Avatar';
 import CityInput from '../components/CityInput';
+import { City, findCity } from '../constants/cities';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-type City = {
-  id: string;
-  name: string;
-  region: string;
-};
-
 type PopularDestination = {
   id: string;
   name: string;
@@ -64,6 +61,7 @@ export default function HomeScreen() {
   const [destination, setDestination] = useState<City | null>(null);
   const [profile, setProfile] = useState<any>(null);
   const [mounted, setMounted] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
   const insets = useSafeAreaInsets();
 
   useEffect(() => {
@@ -72,16 +70,28 @@ export default function HomeScreen() {
     return () => setMounted(false);
   }, []);
 
+  useFocusEffect(
+    useCallback(() => {
+      loadUnreadCount();
+    }, [])
+  );
+
+  const loadUnreadCount = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        setUnreadCount(await notificationsRepository.getUnreadCount(user.id));
+      }
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  };
+
   const loadProfile = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
-        const { data } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', user.id)
-          .single();
-        setProfile(data);
+        setProfile(await profilesRepository.getProfile(user.id));
       }
     } catch (error) {
       console.error('Error loading profile:', error);
@@ -122,22 +132,35 @@ export default function HomeScreen() {
             <Text style={styles.brandName}>Makela</Text>
             <Text style={styles.brandTagline}>Your trusted carpooling companion</Text>
           </View>
-          <Pressable 
-            style={styles.profileButton}
-            onPress={() => router.push('/profile')}
-          >
-            <Avatar
-              size={44}
-              imageUrl={profile?.avatar_url}
-              name={profile?.full_name || ''}
-            />
-            <View style={styles.welcomeContent}>
-              <Text style={styles.welcomeText}>Welcome back,</Text>
-              <Text style={styles.userName} numberOfLines={1}>
-                {profile?.full_name?.split(' ')[0] || 'Traveler'}
-              </Text>
-            </View>
-          </Pressable>
+          <View style={styles.headerActions}>
+            <Pressable 
+              style={styles.notificationButton}
+              onPress={() => router.push('/notifications')}
+            >
+              <Ionicons name="notifications-outline" size={24} color={colors.text.inverse} />
+              {unreadCount > 0 && (
+                <View style={styles.notificationBadge}>
+                  <Text style={styles.notificationBadgeText}>{unreadCount > 9 ? '9+' : unreadCount}</Text>
+                </View>
+              )}
+            </Pressable>
+            <Pressable 
+              style={styles.profileButton}
+              onPress={() => router.push('/profile')}
+            >
+              <Avatar
+                size={44}
+                imageUrl={profile?.avatar_url}
+                name={profile?.full_name || ''}
+              />
+              <View style={styles.welcomeContent}>
+                <Text style={styles.welcomeText}>Welcome back,</Text>
+                <Text style={styles.userName} numberOfLines={1}>
+                  {profile?.full_name?.split(' ')[0] || 'Traveler'}
+                </Text>
+              </View>
+            </Pressable>
+          </View>
         </View>
 
         <Text style={styles.heroTitle}>Where are you going?</Text>
@@ -191,11 +214,7 @@ export default function HomeScreen() {
               key={route.id}
               style={styles.routeCard}
               onPress={() => {
-                setDestination({
-                  id: route.id,
-                  name: route.name,
-                  region: route.address.split(' ')[0]
-                });
+                setDestination(findCity(route.name.split(' to ')[1]) ?? null);
                 router.push('/(tabs)/find-ride');
               }}
             >
@@ -377,6 +396,37 @@ const styles = StyleSheet.create({
     opacity: 0.9,
     marginTop: 4,
   } as TextStyle,
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  } as ViewStyle,
+  notificationButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  } as ViewStyle,
+  notificationBadge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: colors.status.error,
+    alignItems: 'center',
+    justifyContent: 'center',
+  } as ViewStyle,
+  notificationBadgeText: {
+    fontSize: 10,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '700',
+    color: colors.text.inverse,
+  } as TextStyle,
   profileButton: {
     flexDirection: 'row',
     alignItems: 'center',
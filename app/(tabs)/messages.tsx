@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, FlatList, Pressable, Image, RefreshControl, ActivityIndicator, ViewStyle, TextStyle, ImageStyle } from 'react-native';
-import { useColorScheme } from '../../components/useColorScheme';
-import Colors from '../../constants/Colors';
-import { supabase } from '../../lib/supabase';
+import { useColorScheme } from '../components/useColorScheme';
+import Colors from '../constants/Colors';
+import { supabase } from '../lib/supabase';
+import { chatsRepository } from '../repositories/chats';
+import { ChatPreview } from '../types/chat';
 import { router } from 'expo-router';
 import { format } from 'date-fns';
 import { colors } from '../theme/colors';
@@ -12,38 +14,6 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 type ColorScheme = 'light' | 'dark';
 
-interface ChatPreview {
-  id: string;
-  other_user: {
-    id: string;
-    full_name: string;
-    avatar_url: string | null;
-  };
-  last_message: {
-    content: string;
-    type: 'text' | 'image' | 'location';
-    created_at: string;
-  };
-  unread_count: number;
-  ride_id: string;
-}
-
-interface SupabaseChatResponse {
-  id: string;
-  ride_id: string;
-  other_user: {
-    id: string;
-    full_name: string;
-    avatar_url: string | null;
-  };
-  messages: Array<{
-    content: string;
-    type: 'text' | 'image' | 'location';
-    created_at: string;
-  }>;
-  unread_count: number;
-}
-
 export default function MessagesScreen() {
   const colorScheme = useColorScheme() as ColorScheme;
   const insets = useSafeAreaInsets();
@@ -56,47 +26,7 @@ export default function MessagesScreen() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data, error } = await supabase
-        .from('chats')
-        .select(`
-          id,
-          ride_id,
-          other_user:profiles!chats_other_user_id_fkey(
-            id,
-            full_name,
-            avatar_url
-          ),
-          messages!chat_id_fkey(
-            content,
-            type,
-            created_at
-          ),
-          unread_count
-        `)
-        .eq('user_id', user.id)
-        .order('last_message_at', { ascending: false })
-        .returns<SupabaseChatResponse[]>();
-
-      if (error) throw error;
-      
-      // Transform the data to match the ChatPreview type
-      const transformedChats: ChatPreview[] = (data || []).map(chat => ({
-        id: chat.id,
-        ride_id: chat.ride_id,
-        other_user: {
-          id: chat.other_user.id,
-          full_name: chat.other_user.full_name || '',
-          avatar_url: chat.other_user.avatar_url || null,
-        },
-        last_message: {
-          content: chat.messages?.[0]?.content || '',
-          type: chat.messages?.[0]?.type || 'text',
-          created_at: chat.messages?.[0]?.created_at || new Date().toISOString(),
-        },
-        unread_count: chat.unread_count || 0,
-      }));
-
-      setChats(transformedChats);
+      setChats(await chatsRepository.getChats(user.id));
     } catch (error) {
       console.error('Error loading chats:', error);
     } finally {
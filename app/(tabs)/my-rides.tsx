@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, FlatList, Text, Pressable, RefreshControl, ViewStyle, TextStyle } from 'react-native';
+import { typography } from '../theme/typography';
+import { colors } from '../theme/colors';
+import { gradients } from '../theme/gradients';
+import RideCard from '../components/RideCard';
+import { supabase } from '../lib/supabase';
+import { Ride } from '../types/ride';
+import { profilesRepository } from '../repositories/profiles';
+import { ridesRepository } from '../repositories/rides';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+
+type Driver = {
+  id: string;
+  full_name: string;
+  avatar_url: string | null;
+  rating: number;
+  rating_count: number;
+  verification_badges: Array<{
+    type: 'phone' | 'email' | 'id' | 'license';
+    verified: boolean;
+  }>;
+};
+
+type RideFilter = 'upcoming' | 'past';
+
+export default function MyRidesScreen() {
+  const [rides, setRides] = useState<Ride[]>([]);
+  const [driver, setDriver] = useState<Driver | null>(null);
+  const [filter, setFilter] = useState<RideFilter>('upcoming');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadRides();
+  }, []);
+
+  const loadRides = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const [profile, driverRides] = await Promise.all([
+        profilesRepository.getProfile(user.id),
+        ridesRepository.getDriverRides(user.id),
+      ]);
+
+      setDriver({
+        id: profile.id,
+        full_name: profile.full_name || '',
+        avatar_url: profile.avatar_url,
+        rating: profile.rating || 0,
+        rating_count: 0,
+        verification_badges: [],
+      });
+      setRides(driverRides);
+    } catch (error) {
+      console.error('Error loading driver rides:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadRides();
+  };
+
+  const now = Date.now();
+  const upcomingRides = rides.filter(ride => new Date(ride.departure_time).getTime() >= now);
+  // Most recent trips first in the history
+  const pastRides = rides
+    .filter(ride => new Date(ride.departure_time).getTime() < now)
+    .reverse();
+
+  const renderRide = ({ item }: { item: Ride }) => {
+    if (!driver) return null;
+
+    return (
+      <View style={styles.rideItem}>
+        <RideCard
+          originAddress={item.origin.address}
+          destinationAddress={item.destination.address}
+          departureTime={item.departure_time}
+          pricePerSeat={item.price_per_seat}
+          availableSeats={item.available_seats}
+          driver={driver}
+          status={item.status}
+          secondaryActionText="View Manifest"
+          onSecondaryAction={() => router.push(`/driver/ride/${item.id}`)}
+        />
+      </View>
+    );
+  };
+
+  const renderFilterButton = (value: RideFilter, label: string, count: number) => (
+    <Pressable
+      style={[styles.filterButton, filter === value && styles.filterButtonActive]}
+      onPress={() => setFilter(value)}
+    >
+      <Text style={[styles.filterButtonText, filter === value && styles.filterButtonTextActive]}>
+        {label} ({count})
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[gradients.primary.colors[0], gradients.primary.colors[1]]}
+        start={gradients.primary.start}
+        end={gradients.primary.end}
+        style={styles.header}
+      >
+        <View style={styles.headerRow}>
+          <Text style={styles.headerTitle}>My Rides</Text>
+          <View style={styles.headerActions}>
+            <Pressable style={styles.headerButton} onPress={() => router.push('/driver/requests')}>
+              <Ionicons name="people-outline" size={22} color={colors.text.inverse} />
+            </Pressable>
+            <Pressable style={styles.headerButton} onPress={() => router.push('/post-ride')}>
+              <Ionicons name="add" size={22} color={colors.text.inverse} />
+            </Pressable>
+          </View>
+        </View>
+
+        <View style={styles.filters}>
+          {renderFilterButton('upcoming', 'Upcoming', upcomingRides.length)}
+          {renderFilterButton('past', 'Past', pastRides.length)}
+        </View>
+      </LinearGradient>
+
+      <FlatList
+        data={filter === 'upcoming' ? upcomingRides : pastRides}
+        renderItem={renderRide}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.text.primary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="car-outline" size={48} color={colors.text.secondary} />
+            <Text style={styles.emptyText}>
+              {loading
+                ? 'Loading your rides...'
+                : filter === 'upcoming'
+                  ? "You haven't posted any upcoming rides"
+                  : 'No past rides yet'}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  } as ViewStyle,
+  header: {
+    padding: 20,
+    paddingTop: 60,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  } as ViewStyle,
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  } as ViewStyle,
+  headerTitle: {
+    fontSize: typography.sizes.h2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '700',
+    color: colors.text.inverse,
+  } as TextStyle,
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  } as ViewStyle,
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  } as ViewStyle,
+  filters: {
+    flexDirection: 'row',
+    gap: 8,
+  } as ViewStyle,
+  filterButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: colors.background.primary,
+  } as ViewStyle,
+  filterButtonActive: {
+    backgroundColor: colors.primary.deepPurple,
+  } as ViewStyle,
+  filterButtonText: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '500',
+    color: colors.text.primary,
+  } as TextStyle,
+  filterButtonTextActive: {
+    color: colors.text.inverse,
+  } as TextStyle,
+  list: {
+    padding: 16,
+  } as ViewStyle,
+  rideItem: {
+    marginBottom: 16,
+  } as ViewStyle,
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  } as ViewStyle,
+  emptyText: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '400',
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginTop: 16,
+  } as TextStyle,
+});
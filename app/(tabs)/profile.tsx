@@ -1,17 +1,23 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, Alert, TextInput, Image, ViewStyle, TextStyle, ImageStyle, Text, Platform } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useFocusEffect, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { decode } from 'base64-arraybuffer';
 import { colors } from '../theme/colors';
 import { typography } from '../theme/typography';
-import { supabase } from '../../lib/supabase';
-import Avatar from '../../components/Avatar';
+import { supabase } from '../lib/supabase';
+import { profilesRepository } from '../repositories/profiles';
+import { savedSearchesRepository } from '../repositories/savedSearches';
+import { notificationService } from '../services/notificationService';
+import { Json } from '../types/database';
+import { SavedSearch } from '../types/ride';
+import Avatar from '../components/Avatar';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useColorScheme } from '@/components/useColorScheme';
-import Colors from '@/constants/Colors';
+import { useColorScheme } from '../components/useColorScheme';
+import Colors from '../constants/Colors';
+import { format } from 'date-fns';
 
 interface VehicleData {
   make: string;
@@ -42,32 +48,62 @@ export default function ProfileScreen() {
   const [isEditing, setIsEditing] = useState(false);
   const [editedProfile, setEditedProfile] = useState<UserProfile | null>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
 
   useEffect(() => {
     loadProfile();
   }, []);
 
+  // Alerts are edited on their own screen, so reload when coming back
+  useFocusEffect(
+    useCallback(() => {
+      loadSavedSearches();
+    }, [])
+  );
+
+  const loadSavedSearches = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setSavedSearches(await savedSearchesRepository.getSavedSearches(user.id));
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+    }
+  };
+
+  const describeSavedSearch = (search: SavedSearch) => {
+    const parts = [];
+    if (search.departs_after || search.departs_before) {
+      const from = search.departs_after ? format(new Date(search.departs_after), 'MMM d') : 'Now';
+      // departs_before is exclusive, so the last day is the one before it
+      const until = search.departs_before
+        ? format(new Date(new Date(search.departs_before).getTime() - 1), 'MMM d')
+        : 'any time';
+      parts.push(`${from} – ${until}`);
+    } else {
+      parts.push('Any date');
+    }
+    if (search.max_price) parts.push(`up to UGX ${Number(search.max_price).toLocaleString()}`);
+    if (search.min_seats > 1) parts.push(`${search.min_seats} seats`);
+    return parts.join(' · ');
+  };
+
   const loadProfile = async () => {
     try {
       setLoading(true);
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not found');
 
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', user.id)
-        .single();
+      const data = await profilesRepository.getProfile(user.id);
 
-      if (error) throw error;
-      
       const profileData: UserProfile = {
         id: data.id,
         full_name: data.full_name || '',
         avatar_url: data.avatar_url,
-        phone_number: data.phone_number || '',
+        phone_number: data.phone || '',
         email: data.email || '',
-        vehicle: data.vehicle || null,
+        vehicle: data.vehicle_details as VehicleData | null,
       };
       
       setProfile(profileData);
@@ -81,6 +117,7 @@ export default function ProfileScreen() {
 
   const handleLogout = async () => {
     try {
+      await notificationService.unregisterForPush();
       await supabase.auth.signOut();
     } catch (error) {
       console.error('Error signing out:', error);
@@ -126,12 +163,7 @@ export default function ProfileScreen() {
         .from('avatars')
         .getPublicUrl(filePath);
 
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ avatar_url: publicUrl })
-        .eq('id', user.id);
-
-      if (updateError) throw updateError;
+      await profilesRepository.updateProfile(user.id, { avatar_url: publicUrl });
 
       if (profile) {
         const updatedProfile = { ...profile, avatar_url: publicUrl };
@@ -150,16 +182,11 @@ export default function ProfileScreen() {
 
     try {
       setLoading(true);
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          full_name: editedProfile.full_name,
-          phone_number: editedProfile.phone_number,
-          vehicle: editedProfile.vehicle,
-        })
-        .eq('id', editedProfile.id);
-
-      if (error) throw error;
+      await profilesRepository.updateProfile(editedProfile.id, {
+        full_name: editedProfile.full_name,
+        phone: editedProfile.phone_number,
+        vehicle_details: editedProfile.vehicle as Json,
+      });
 
       setProfile(editedProfile);
       setIsEditing(false);
@@ -250,6 +277,19 @@ export default function ProfileScreen() {
           <Text style={styles.actionText}>History</Text>
         </Pressable>
 
+        <Pressable
+          style={styles.actionButton}
+          onPress={() => router.push('/driver/requests')}
+        >
+          <LinearGradient
+            colors={['#F72585', '#4361EE']}
+            style={styles.actionIcon}
+          >
+            <Ionicons name="people" size={24} color="#fff" />
+          </LinearGradient>
+          <Text style={styles.actionText}>Requests</Text>
+        </Pressable>
+
         <Pressable
           style={styles.actionButton}
           onPress={() => setIsEditing(!isEditing)}
@@ -388,6 +428,38 @@ export default function ProfileScreen() {
         </View>
       )}
 
+      {/* Saved Searches */}
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, styles.sectionHeaderTitle]}>Ride Alerts</Text>
+          <Pressable onPress={() => router.push('/saved-searches/new')} hitSlop={8}>
+            <Ionicons name="add-circle" size={24} color={Colors[colorScheme].tint} />
+          </Pressable>
+        </View>
+        {savedSearches.length === 0 ? (
+          <Text style={styles.emptyText}>
+            Save a search to be notified when a ride on your route is posted.
+          </Text>
+        ) : (
+          savedSearches.map((search) => (
+            <Pressable
+              key={search.id}
+              style={styles.savedSearchRow}
+              onPress={() => router.push({ pathname: '/saved-searches/[id]', params: { id: search.id } })}
+            >
+              <Ionicons name="notifications" size={20} color={Colors[colorScheme].text} />
+              <View style={styles.savedSearchContent}>
+                <Text style={styles.savedSearchRoute}>
+                  {search.origin_city} → {search.destination_city}
+                </Text>
+                <Text style={styles.savedSearchDetails}>{describeSavedSearch(search)}</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={Colors[colorScheme].text} />
+            </Pressable>
+          ))
+        )}
+      </View>
+
       {/* Action Buttons */}
       <View style={styles.actions}>
         {isEditing ? (
@@ -567,6 +639,40 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  sectionHeaderTitle: {
+    marginBottom: 0,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.light.text,
+    opacity: 0.7,
+  },
+  savedSearchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  savedSearchContent: {
+    flex: 1,
+  },
+  savedSearchRoute: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.light.text,
+  },
+  savedSearchDetails: {
+    fontSize: 13,
+    color: Colors.light.text,
+    opacity: 0.7,
+    marginTop: 2,
+  },
   infoText: {
     fontSize: 16,
     color: Colors.light.text,
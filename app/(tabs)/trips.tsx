@@ -0,0 +1,457 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, SectionList, Text, Pressable, RefreshControl, ActivityIndicator, Alert, ViewStyle, TextStyle } from 'react-native';
+import { typography } from '../theme/typography';
+import { colors } from '../theme/colors';
+import { gradients } from '../theme/gradients';
+import Avatar from '../components/Avatar';
+import RatingModal from '../components/RatingModal';
+import { supabase } from '../lib/supabase';
+import {
+  bookingService,
+  BookingError,
+  BOOKING_STATUS_LABELS,
+  canTransition,
+  getPaymentState,
+} from '../services/bookingService';
+import { BookingStatus, Trip } from '../types/booking';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { format, isToday, startOfToday } from 'date-fns';
+import { RealtimeChannel } from '@supabase/supabase-js';
+
+type TripSection = {
+  title: string;
+  data: Trip[];
+};
+
+const TERMINAL_STATUSES: BookingStatus[] = [
+  'declined',
+  'completed',
+  'cancelled_by_passenger',
+  'cancelled_by_driver',
+  'no_show',
+];
+
+const RECEIPT_STATUSES: BookingStatus[] = ['paid', 'boarded', 'completed'];
+
+const departureOf = (trip: Trip) => new Date(trip.ride.departure_time).getTime();
+
+const groupTrips = (trips: Trip[]): TripSection[] => {
+  const today: Trip[] = [];
+  const upcoming: Trip[] = [];
+  const history: Trip[] = [];
+  const startOfDay = startOfToday().getTime();
+
+  [...trips]
+    .sort((a, b) => departureOf(a) - departureOf(b))
+    .forEach(trip => {
+      if (TERMINAL_STATUSES.includes(trip.status) || departureOf(trip) < startOfDay) {
+        history.push(trip);
+      } else if (isToday(departureOf(trip))) {
+        today.push(trip);
+      } else {
+        upcoming.push(trip);
+      }
+    });
+
+  // Most recent trips first in the history
+  history.reverse();
+
+  return [
+    { title: 'Today', data: today },
+    { title: 'Upcoming', data: upcoming },
+    { title: 'History', data: history },
+  ].filter(section => section.data.length > 0);
+};
+
+export default function TripsScreen() {
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [ratingTrip, setRatingTrip] = useState<Trip | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  useEffect(() => {
+    loadTrips();
+
+    return () => {
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+      }
+    };
+  }, []);
+
+  const loadTrips = async () => {
+    try {
+      const data = await bookingService.getTrips();
+      setTrips(data);
+      await subscribeToTrips(data);
+    } catch (error) {
+      console.error('Error loading trips:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const refreshTrip = async (bookingId: string) => {
+    try {
+      const trip = await bookingService.getTrip(bookingId);
+      setTrips(current => current.map(item => (item.id === trip.id ? trip : item)));
+    } catch (error) {
+      console.error('Error refreshing trip:', error);
+    }
+  };
+
+  // Re-fetch a trip whenever the driver changes the ride or the booking
+  const subscribeToTrips = async (data: Trip[]) => {
+    if (channelRef.current) {
+      await supabase.removeChannel(channelRef.current);
+      channelRef.current = null;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || data.length === 0) return;
+
+    const rideIds = [...new Set(data.map(trip => trip.ride_id))];
+
+    channelRef.current = supabase
+      .channel(`trips:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'rides', filter: `id=in.(${rideIds.join(',')})` },
+        payload => {
+          data
+            .filter(trip => trip.ride_id === payload.new.id)
+            .forEach(trip => refreshTrip(trip.id));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'bookings', filter: `passenger_id=eq.${user.id}` },
+        payload => refreshTrip(payload.new.id)
+      )
+      .subscribe();
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadTrips();
+  };
+
+  const handlePay = (trip: Trip) => {
+    router.push({
+      pathname: '/booking/[rideId]',
+      params: { rideId: trip.ride_id, bookingId: trip.id },
+    });
+  };
+
+  const handleReceipt = (trip: Trip) => {
+    router.push({
+      pathname: '/wallet/transaction/[id]',
+      params: { id: trip.id, kind: 'booking' },
+    });
+  };
+
+  const handleSplit = (trip: Trip) => {
+    router.push({
+      pathname: '/wallet/split/[bookingId]',
+      params: { bookingId: trip.id },
+    });
+  };
+
+  const handleCancel = async (trip: Trip) => {
+    let refundNote = '';
+    try {
+      setProcessingId(trip.id);
+      const quote = await bookingService.getCancellationQuote(trip.id);
+      if (quote.paid) {
+        refundNote = quote.refund > 0
+          ? ` UGX ${quote.refund.toLocaleString()} of your UGX ${quote.total.toLocaleString()} fare will be refunded to your wallet.`
+          : ' Your fare will not be refunded.';
+        if (quote.description) refundNote += `\n\n${quote.description}.`;
+      }
+    } catch (error) {
+      const message = error instanceof BookingError ? error.message : 'Failed to load the cancellation policy';
+      Alert.alert('Error', message);
+      return;
+    } finally {
+      setProcessingId(null);
+    }
+
+    Alert.alert(
+      'Cancel booking',
+      `Are you sure you want to cancel this trip? Your seats will be released.${refundNote}`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Trip',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setProcessingId(trip.id);
+              await bookingService.transitionBooking(trip.id, 'cancelled_by_passenger');
+              await refreshTrip(trip.id);
+            } catch (error) {
+              const message = error instanceof BookingError ? error.message : 'Failed to cancel booking';
+              Alert.alert('Error', message);
+            } finally {
+              setProcessingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleChat = (trip: Trip) => {
+    router.push({
+      pathname: '/chat/[userId]',
+      params: { userId: trip.ride.driver.id, ride: trip.ride_id },
+    });
+  };
+
+  const handleSubmitRating = async (rating: number, comment: string) => {
+    if (!ratingTrip) return;
+
+    try {
+      await bookingService.rateTrip(ratingTrip, rating, comment);
+      await refreshTrip(ratingTrip.id);
+      setRatingTrip(null);
+    } catch (error) {
+      console.error('Error rating trip:', error);
+      Alert.alert('Error', 'Failed to submit your rating');
+    }
+  };
+
+  const renderAction = (icon: keyof typeof Ionicons.glyphMap, label: string, onPress: () => void, color: string = colors.primary.electricIndigo) => (
+    <Pressable key={label} style={styles.actionButton} onPress={onPress}>
+      <Ionicons name={icon} size={18} color={color} />
+      <Text style={styles.actionText}>{label}</Text>
+    </Pressable>
+  );
+
+  const renderTrip = ({ item }: { item: Trip }) => {
+    const terminal = TERMINAL_STATUSES.includes(item.status);
+    const actions = [];
+
+    if (getPaymentState(item.status) === 'unpaid') {
+      actions.push(renderAction('card-outline', 'Pay', () => handlePay(item)));
+    }
+    if (!terminal) {
+      actions.push(renderAction('chatbubble-outline', 'Chat', () => handleChat(item)));
+    }
+    if (item.status === 'completed' && !item.rating) {
+      actions.push(renderAction('star-outline', 'Rate', () => setRatingTrip(item), colors.status.warning));
+    }
+    if (RECEIPT_STATUSES.includes(item.status)) {
+      actions.push(renderAction('receipt-outline', 'Receipt', () => handleReceipt(item)));
+      actions.push(renderAction('people-outline', 'Split', () => handleSplit(item)));
+    }
+    if (canTransition(item.status, 'cancelled_by_passenger', 'passenger')) {
+      actions.push(renderAction('close-circle-outline', 'Cancel', () => handleCancel(item), colors.status.error));
+    }
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.route} numberOfLines={1}>
+            {item.ride.origin_address} → {item.ride.destination_address}
+          </Text>
+          <View style={[styles.statusBadge, terminal && styles.statusBadgeInactive]}>
+            <Text style={styles.statusText}>{BOOKING_STATUS_LABELS[item.status]}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.metaText}>
+          {format(new Date(item.ride.departure_time), 'EEE, MMM d • h:mm a')} • {item.seats_booked} {item.seats_booked === 1 ? 'seat' : 'seats'} • UGX {item.total_amount.toLocaleString()}
+        </Text>
+
+        <View style={styles.driverRow}>
+          <Avatar
+            size={32}
+            imageUrl={item.ride.driver.avatar_url}
+            name={item.ride.driver.full_name || ''}
+          />
+          <Text style={styles.driverName}>{item.ride.driver.full_name || 'Driver'}</Text>
+          {item.rating && (
+            <View style={styles.ratingRow}>
+              <Ionicons name="star" size={14} color={colors.status.warning} />
+              <Text style={styles.metaText}>You rated {item.rating.rating}</Text>
+            </View>
+          )}
+        </View>
+
+        {actions.length > 0 && (
+          <View style={styles.actions}>
+            {actions}
+            {processingId === item.id && <ActivityIndicator color={colors.primary.electricIndigo} />}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={[gradients.primary.colors[0], gradients.primary.colors[1]]}
+        start={gradients.primary.start}
+        end={gradients.primary.end}
+        style={styles.header}
+      >
+        <Text style={styles.headerTitle}>My Trips</Text>
+      </LinearGradient>
+
+      <SectionList
+        sections={groupTrips(trips)}
+        renderItem={renderTrip}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+        )}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        stickySectionHeadersEnabled={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.text.primary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="ticket-outline" size={48} color={colors.text.secondary} />
+            <Text style={styles.emptyText}>
+              {loading ? 'Loading your trips...' : "You haven't booked any trips yet"}
+            </Text>
+          </View>
+        }
+      />
+
+      <RatingModal
+        visible={!!ratingTrip}
+        name={ratingTrip?.ride.driver.full_name || 'your driver'}
+        onSubmit={handleSubmitRating}
+        onClose={() => setRatingTrip(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  } as ViewStyle,
+  header: {
+    padding: 20,
+    paddingTop: 60,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  } as ViewStyle,
+  headerTitle: {
+    fontSize: typography.sizes.h2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '700',
+    color: colors.text.inverse,
+  } as TextStyle,
+  list: {
+    padding: 16,
+  } as ViewStyle,
+  sectionTitle: {
+    fontSize: typography.sizes.h3,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginBottom: 12,
+    marginTop: 8,
+  } as TextStyle,
+  card: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+    marginBottom: 16,
+  } as ViewStyle,
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  } as ViewStyle,
+  route: {
+    flex: 1,
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.primary,
+  } as TextStyle,
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    backgroundColor: colors.primary.electricIndigo,
+  } as ViewStyle,
+  statusBadgeInactive: {
+    backgroundColor: colors.text.disabled,
+  } as ViewStyle,
+  statusText: {
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  } as TextStyle,
+  metaText: {
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.disabled,
+  } as TextStyle,
+  driverRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  } as ViewStyle,
+  driverName: {
+    flex: 1,
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '500',
+    color: colors.text.primary,
+  } as TextStyle,
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  } as ViewStyle,
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 16,
+  } as ViewStyle,
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  } as ViewStyle,
+  actionText: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '500',
+    color: colors.text.primary,
+  } as TextStyle,
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  } as ViewStyle,
+  emptyText: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '400',
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginTop: 16,
+  } as TextStyle,
+});
@@ -8,10 +8,12 @@ import { Ionicons } from '@expo/vector-icons';
 import type { NativeStackHeaderProps } from '@react-navigation/native-stack';
 import { typography } from './theme/typography';
 import { colors } from './theme/colors';
-import { supabase } from '../lib/supabase';
+import { supabase } from './lib/supabase';
+import { profilesRepository } from './repositories/profiles';
+import { usePushNotifications } from './components/usePushNotifications';
 
 // Auth protected segments start with (tabs) or have specific paths we want to protect
-const protectedSegments = ['(tabs)', 'post-ride', 'booking', 'chat', 'wallet'] as const;
+const protectedSegments = ['(tabs)', 'post-ride', 'booking', 'chat', 'wallet', 'driver', 'notifications', 'saved-searches'] as const;
 type ProtectedSegment = typeof protectedSegments[number];
 
 export default function RootLayout() {
@@ -21,13 +23,15 @@ export default function RootLayout() {
   const [initializing, setInitializing] = useState(true);
   const [session, setSession] = useState<any>(null);
 
+  usePushNotifications(session?.user?.id ?? null);
+
   useEffect(() => {
     if (initializing) return;
 
     const isAuthGroup = segments[0] === '(auth)';
     const firstSegment = segments[0] || '';
     const inProtectedRoute = firstSegment === '(tabs)' || 
-      ['post-ride', 'booking', 'chat', 'wallet'].includes(firstSegment);
+      ['post-ride', 'booking', 'chat', 'wallet', 'driver', 'notifications', 'saved-searches'].includes(firstSegment);
 
     if (!session && inProtectedRoute) {
       // If there's no session and we're in a protected route, redirect to verify
@@ -55,11 +59,7 @@ export default function RootLayout() {
 
   async function checkProfile(userId: string) {
     try {
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('full_name')
-        .eq('id', userId)
-        .single();
+      const profile = await profilesRepository.findProfile(userId);
 
       if (profile?.full_name) {
         router.replace('/(tabs)');
@@ -178,12 +178,74 @@ export default function RootLayout() {
               animation: 'slide_from_bottom',
             }}
           />
+          <Stack.Screen 
+            name="wallet/transfer" 
+            options={{
+              title: 'Send Money',
+              presentation: 'modal',
+              animation: 'slide_from_bottom',
+            }}
+          />
+          <Stack.Screen 
+            name="wallet/split/[bookingId]" 
+            options={{
+              title: 'Split Fare',
+            }}
+          />
+          <Stack.Screen 
+            name="wallet/referrals" 
+            options={{
+              title: 'Invite Friends',
+            }}
+          />
+          <Stack.Screen 
+            name="wallet/pin" 
+            options={{
+              title: 'Wallet PIN',
+            }}
+          />
           <Stack.Screen 
             name="wallet/history" 
             options={{
               title: 'Transaction History',
             }}
           />
+          <Stack.Screen 
+            name="wallet/statement" 
+            options={{
+              title: 'Wallet Statement',
+            }}
+          />
+          <Stack.Screen 
+            name="wallet/transaction/[id]" 
+            options={{
+              title: 'Transaction Details',
+            }}
+          />
+          <Stack.Screen 
+            name="notifications" 
+            options={{
+              title: 'Notifications',
+            }}
+          />
+          <Stack.Screen 
+            name="saved-searches/[id]" 
+            options={{
+              title: 'Ride Alert',
+            }}
+          />
+          <Stack.Screen 
+            name="driver/requests" 
+            options={{
+              title: 'Booking Requests',
+            }}
+          />
+          <Stack.Screen 
+            name="driver/ride/[rideId]" 
+            options={{
+              title: 'Passenger Manifest',
+            }}
+          />
         </Stack>
       </ThemeProvider>
     </SafeAreaProvider>
@@ -1,57 +1,103 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, Image } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, Image, TextInput } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useColorScheme } from '../components/useColorScheme';
 import Colors from '../constants/Colors';
-import { supabase } from '../lib/supabase';
 import { Ionicons } from '@expo/vector-icons';
 import Avatar from '../components/Avatar';
+import PaymentSelection from '../components/PaymentSelection';
+import { getPaymentFailureMessage, useTransactionSettlement } from '../components/useTransactionSettlement';
+import { useIdempotencyKey } from '../components/useIdempotencyKey';
+import { useWalletPin } from '../components/useWalletPin';
+import WalletPinPrompt from '../components/WalletPinPrompt';
+import { bookingService, BookingError, BOOKING_STATUS_LABELS } from '../services/bookingService';
+import { paymentService } from '../services/paymentService';
+import { pricingService } from '../services/pricingService';
+import { promotionService, PromoError } from '../services/promotionService';
+import { Booking } from '../types/booking';
+import { FareQuote } from '../types/pricing';
+import { RideWithDriver } from '../types/ride';
+import { supabase } from '../lib/supabase';
+import { bookingsRepository } from '../repositories/bookings';
+import { ridesRepository } from '../repositories/rides';
+import { TransactionRow, walletRepository } from '../repositories/wallet';
 
-type RideDetails = {
-  id: string;
-  driver_id: string;
-  origin_address: string;
-  destination_address: string;
-  departure_time: string;
-  price_per_seat: number;
-  driver: {
-    full_name: string;
-    avatar_url: string | null;
-    rating: number;
-    phone_number: string;
-  };
-};
+type PaymentMethodId = 'wallet' | 'mtn' | 'airtel';
 
 export default function BookingConfirmationScreen() {
-  const { rideId } = useLocalSearchParams();
+  const params = useLocalSearchParams<{ rideId: string; bookingId?: string; error?: string }>();
+  const { rideId } = params;
   const colorScheme = useColorScheme();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
-  const [ride, setRide] = useState<RideDetails | null>(null);
+  const [ride, setRide] = useState<RideWithDriver | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [bookingError, setBookingError] = useState<BookingError | null>(
+    params.error ? BookingError.fromCode(params.error) : null
+  );
+  const [reserving, setReserving] = useState(false);
+  const [pickupNote, setPickupNote] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethodId>('wallet');
+  const [walletBalance, setWalletBalance] = useState<number | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [paying, setPaying] = useState(false);
+  // Price of a seat before booking; afterwards the booking carries its own quote
+  const [previewQuote, setPreviewQuote] = useState<FareQuote | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
 
   useEffect(() => {
     loadRideDetails();
   }, [rideId]);
 
-  const loadRideDetails = async () => {
+  useEffect(() => {
+    loadWalletBalance();
+  }, []);
+
+  useEffect(() => {
+    if (params.bookingId) {
+      loadBooking(params.bookingId);
+    }
+  }, [params.bookingId]);
+
+  const loadBooking = async (bookingId: string) => {
     try {
-      const { data: rideData, error: rideError } = await supabase
-        .from('rides')
-        .select(`
-          *,
-          driver:profiles!rides_driver_id_fkey (
-            full_name,
-            avatar_url,
-            rating,
-            phone_number
-          )
-        `)
-        .eq('id', rideId)
-        .single();
+      const data = await bookingsRepository.getBooking(bookingId);
+      setBooking(data);
+      setPickupNote(data.pickup_note || '');
+    } catch (error) {
+      console.error('Error loading booking:', error);
+    }
+  };
 
-      if (rideError) throw rideError;
-      setRide(rideData);
+  const loadWalletBalance = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        const wallet = await walletRepository.getWallet(user.id);
+        setWalletBalance(wallet.balance);
+      }
+    } catch (error) {
+      console.error('Error loading wallet balance:', error);
+    }
+  };
+
+  const loadPreviewQuote = async (pricePerSeat: number) => {
+    try {
+      setPreviewQuote(await pricingService.quoteFare(pricePerSeat));
+    } catch (error) {
+      console.error('Error loading fare quote:', error);
+    }
+  };
+
+  const loadRideDetails = async () => {
+    try {
+      const data = await ridesRepository.getRide(rideId);
+      setRide(data);
+      loadPreviewQuote(data.price_per_seat);
     } catch (error) {
       console.error('Error loading ride details:', error);
       setError('Failed to load ride details');
@@ -60,30 +106,154 @@ export default function BookingConfirmationScreen() {
     }
   };
 
-  const handlePayment = async () => {
-    // Implement payment logic here
-    // For now, just show success and navigate to chat
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim()) return;
+
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+      setApplyingPromo(true);
+      setPromoError(null);
+      setPreviewQuote(await promotionService.quoteBooking(rideId, 1, promoInput.trim()));
+      setPromoInput('');
+    } catch (error) {
+      setPromoError(error instanceof PromoError ? error.message : 'Failed to apply promo code');
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    setPromoError(null);
+    if (ride) loadPreviewQuote(ride.price_per_seat);
+  };
+
+  const handleReserve = async () => {
+    try {
+      setReserving(true);
+      setBookingError(null);
+      setBooking(await bookingService.bookRide(rideId, 1, previewQuote?.promo_code));
+    } catch (error) {
+      const bookingError = error instanceof BookingError ? error : new BookingError('UNKNOWN');
+      setBookingError(bookingError);
+      // The code ran out or stopped applying since it was previewed
+      if (bookingError.code.startsWith('PROMO_')) handleRemovePromo();
+    } finally {
+      setReserving(false);
+    }
+  };
+
+  const handleSaveNote = async () => {
+    if (!booking) return;
+
+    try {
+      setSavingNote(true);
+      setBooking(await bookingService.updatePickupNote(booking.id, pickupNote));
+    } catch (error) {
+      console.error('Error saving pickup note:', error);
+      setError('Failed to save pickup note');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handlePaid = (paidBooking: Booking) => {
+    setBooking(paidBooking);
+    // Navigate to chat with driver
+    router.push(`/chat/${ride?.driver_id}`);
+  };
 
-      // Update booking status to paid
-      const { error } = await supabase
-        .from('passenger_requests')
-        .update({ status: 'paid' })
-        .eq('ride_id', rideId)
-        .eq('passenger_id', user.id);
+  // Mobile money settles into the wallet and is then charged to the booking on
+  // the server, so reload the booking to see whether that went through
+  const handleSettled = async (transaction: TransactionRow) => {
+    setPaying(false);
+    renewIdempotencyKey();
 
-      if (error) throw error;
+    if (transaction.status !== 'completed') {
+      setError(getPaymentFailureMessage(transaction));
+      return;
+    }
+
+    loadWalletBalance();
+    if (!booking) return;
 
-      // Navigate to chat with driver
-      router.push(`/chat/${ride?.driver_id}`);
+    try {
+      const updated = await bookingsRepository.getBooking(booking.id);
+      if (updated.status === 'paid') {
+        handlePaid(updated);
+      } else {
+        setBooking(updated);
+        setError('Your payment was added to your wallet, but this booking can no longer be paid.');
+      }
     } catch (error) {
-      console.error('Error processing payment:', error);
-      setError('Failed to process payment');
+      console.error('Error loading booking:', error);
     }
   };
 
+  const { pendingReference, waitForSettlement } = useTransactionSettlement(handleSettled);
+
+  // Retrying the same mobile money payment reuses the key, so it can't be charged twice
+  const { idempotencyKey, renewIdempotencyKey } = useIdempotencyKey([booking?.id, paymentMethod, phoneNumber]);
+
+  const { requestPinToken, pinPromptProps } = useWalletPin();
+
+  // Larger fares need the wallet PIN; the server decides, so only ask when it does
+  const payFromWallet = async (bookingId: string) => {
+    try {
+      return await bookingService.payBooking(bookingId);
+    } catch (error) {
+      if (!(error instanceof BookingError) || error.code !== 'PIN_REQUIRED') throw error;
+
+      const pinToken = await requestPinToken();
+      if (!pinToken) return null;
+      return bookingService.payBooking(bookingId, pinToken);
+    }
+  };
+
+  const handlePayment = async () => {
+    if (!booking) return;
+
+    setError(null);
+
+    if (paymentMethod === 'wallet') {
+      try {
+        setPaying(true);
+        const paidBooking = await payFromWallet(booking.id);
+        if (paidBooking) handlePaid(paidBooking);
+      } catch (error) {
+        console.error('Error processing payment:', error);
+        setError(error instanceof BookingError ? error.message : 'Failed to process payment');
+      } finally {
+        setPaying(false);
+      }
+      return;
+    }
+
+    if (!phoneNumber) {
+      setError('Please enter your mobile money number');
+      return;
+    }
+
+    setPaying(true);
+    const response = await paymentService.processPayment({
+      amount: booking.total_amount,
+      phone_number: phoneNumber,
+      provider: paymentMethod === 'mtn' ? 'MTN' : 'AIRTEL',
+      description: 'Booking payment',
+      booking_id: booking.id,
+      idempotency_key: idempotencyKey,
+    });
+
+    if (response.status === 'error' || !response.data) {
+      if (!response.retryable) renewIdempotencyKey();
+      setError(response.message || 'Failed to process payment');
+      setPaying(false);
+      return;
+    }
+
+    await waitForSettlement(response.data.transaction_id);
+  };
+
+  const quote = booking?.quote ?? previewQuote;
+
   if (loading) {
     return (
       <View style={[styles.container, { backgroundColor: Colors[colorScheme].background }]}>
@@ -109,6 +279,13 @@ export default function BookingConfirmationScreen() {
     >
       <Text style={[styles.title, { color: Colors[colorScheme].text }]}>Booking Confirmation</Text>
 
+      {bookingError && (
+        <View style={styles.bookingErrorCard}>
+          <Ionicons name="alert-circle" size={24} color="#ff0000" />
+          <Text style={styles.bookingErrorText}>{bookingError.message}</Text>
+        </View>
+      )}
+
       {/* Driver Info */}
       <View style={styles.driverCard}>
         <Avatar
@@ -125,6 +302,11 @@ export default function BookingConfirmationScreen() {
             <Text style={[styles.ratingText, { color: Colors[colorScheme].text }]}>
               {ride.driver.rating?.toFixed(1) || 'New'}
             </Text>
+            {ride.driver.reliability_score !== null && (
+              <Text style={[styles.ratingText, { color: Colors[colorScheme].text }]}>
+                • {Math.round(ride.driver.reliability_score * 100)}% reliable
+              </Text>
+            )}
           </View>
         </View>
       </View>
@@ -139,7 +321,7 @@ export default function BookingConfirmationScreen() {
           <View style={styles.detailTexts}>
             <Text style={[styles.detailLabel, { color: Colors[colorScheme].text }]}>From</Text>
             <Text style={[styles.detailValue, { color: Colors[colorScheme].text }]}>
-              {ride.origin_address}
+              {ride.origin.address}
             </Text>
           </View>
         </View>
@@ -148,7 +330,7 @@ export default function BookingConfirmationScreen() {
           <View style={styles.detailTexts}>
             <Text style={[styles.detailLabel, { color: Colors[colorScheme].text }]}>To</Text>
             <Text style={[styles.detailValue, { color: Colors[colorScheme].text }]}>
-              {ride.destination_address}
+              {ride.destination.address}
             </Text>
           </View>
         </View>
@@ -168,55 +350,190 @@ export default function BookingConfirmationScreen() {
         <Text style={[styles.sectionTitle, { color: Colors[colorScheme].text }]}>
           Payment Details
         </Text>
-        <View style={styles.priceRow}>
-          <Text style={[styles.priceLabel, { color: Colors[colorScheme].text }]}>Price per seat</Text>
-          <Text style={[styles.priceValue, { color: Colors[colorScheme].text }]}>
-            UGX {ride.price_per_seat.toLocaleString()}
-          </Text>
-        </View>
-        <View style={styles.priceRow}>
-          <Text style={[styles.priceLabel, { color: Colors[colorScheme].text }]}>Service fee</Text>
-          <Text style={[styles.priceValue, { color: Colors[colorScheme].text }]}>
-            UGX {(ride.price_per_seat * 0.1).toLocaleString()}
-          </Text>
-        </View>
-        <View style={[styles.priceRow, styles.totalRow]}>
-          <Text style={[styles.totalLabel, { color: Colors[colorScheme].text }]}>Total</Text>
-          <Text style={[styles.totalValue, { color: Colors[colorScheme].text }]}>
-            UGX {(ride.price_per_seat * 1.1).toLocaleString()}
-          </Text>
-        </View>
+        {quote ? (
+          <>
+            <View style={styles.priceRow}>
+              <Text style={[styles.priceLabel, { color: Colors[colorScheme].text }]}>
+                {quote.seats} × UGX {quote.price_per_seat.toLocaleString()}
+              </Text>
+              <Text style={[styles.priceValue, { color: Colors[colorScheme].text }]}>
+                UGX {quote.subtotal.toLocaleString()}
+              </Text>
+            </View>
+            <View style={styles.priceRow}>
+              <Text style={[styles.priceLabel, { color: Colors[colorScheme].text }]}>Service fee</Text>
+              <Text style={[styles.priceValue, { color: Colors[colorScheme].text }]}>
+                UGX {quote.service_fee.toLocaleString()}
+              </Text>
+            </View>
+            {quote.discount > 0 && (
+              <View style={styles.priceRow}>
+                <Text style={[styles.priceLabel, { color: Colors[colorScheme].text }]}>
+                  {quote.promo_code ? `Discount (${quote.promo_code})` : 'Discount'}
+                </Text>
+                <Text style={[styles.priceValue, { color: Colors[colorScheme].text }]}>
+                  − UGX {quote.discount.toLocaleString()}
+                </Text>
+              </View>
+            )}
+            <View style={[styles.priceRow, styles.totalRow]}>
+              <Text style={[styles.totalLabel, { color: Colors[colorScheme].text }]}>Total</Text>
+              <Text style={[styles.totalValue, { color: Colors[colorScheme].text }]}>
+                UGX {quote.total.toLocaleString()}
+              </Text>
+            </View>
+          </>
+        ) : (
+          <View style={styles.priceRow}>
+            <Text style={[styles.priceLabel, { color: Colors[colorScheme].text }]}>Price per seat</Text>
+            <Text style={[styles.priceValue, { color: Colors[colorScheme].text }]}>
+              UGX {ride.price_per_seat.toLocaleString()}
+            </Text>
+          </View>
+        )}
+        {!booking && (
+          previewQuote?.promo_code ? (
+            <View style={styles.promoApplied}>
+              <Ionicons name="pricetag" size={16} color={Colors[colorScheme].tint} />
+              <Text style={[styles.promoAppliedText, { color: Colors[colorScheme].text }]}>
+                {previewQuote.promo_description || `${previewQuote.promo_code} applied`}
+              </Text>
+              <Pressable onPress={handleRemovePromo} disabled={reserving}>
+                <Ionicons name="close-circle" size={20} color={Colors[colorScheme].tabIconDefault} />
+              </Pressable>
+            </View>
+          ) : (
+            <View style={styles.promoRow}>
+              <TextInput
+                style={[styles.promoInput, { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }]}
+                placeholder="Promo code"
+                placeholderTextColor={Colors[colorScheme].tabIconDefault}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                value={promoInput}
+                onChangeText={setPromoInput}
+                onSubmitEditing={handleApplyPromo}
+              />
+              <Pressable onPress={handleApplyPromo} disabled={applyingPromo || !promoInput.trim()}>
+                {applyingPromo ? (
+                  <ActivityIndicator color={Colors[colorScheme].tint} />
+                ) : (
+                  <Text style={[styles.saveNoteText, styles.promoApplyText, { color: Colors[colorScheme].tint }]}>
+                    Apply
+                  </Text>
+                )}
+              </Pressable>
+            </View>
+          )
+        )}
+        {promoError && (
+          <Text style={styles.promoErrorText}>{promoError}</Text>
+        )}
+        <Text style={[styles.escrowNote, { color: Colors[colorScheme].text }]}>
+          Your payment is held securely and only released to the driver once the trip is completed.
+        </Text>
       </View>
 
       {/* Payment Methods */}
-      <View style={styles.paymentMethodsCard}>
-        <Text style={[styles.sectionTitle, { color: Colors[colorScheme].text }]}>
-          Payment Methods
-        </Text>
-        <Pressable style={styles.paymentMethod}>
-          <Ionicons name="phone-portrait" size={24} color={Colors[colorScheme].text} />
-          <Text style={[styles.paymentMethodText, { color: Colors[colorScheme].text }]}>
-            Mobile Money
-          </Text>
-        </Pressable>
-        <Pressable style={styles.paymentMethod}>
-          <Ionicons name="wallet" size={24} color={Colors[colorScheme].text} />
-          <Text style={[styles.paymentMethodText, { color: Colors[colorScheme].text }]}>
-            Wallet Balance
-          </Text>
-        </Pressable>
-      </View>
+      {booking?.status === 'accepted' && (
+        <View style={styles.paymentMethodsCard}>
+          <PaymentSelection
+            paymentMethods={[
+              { id: 'wallet', name: 'Wallet Balance', type: 'wallet', balance: walletBalance ?? undefined },
+              { id: 'mtn', name: 'MTN Mobile Money', type: 'mobile_money', provider: 'mtn' },
+              { id: 'airtel', name: 'Airtel Money', type: 'mobile_money', provider: 'airtel' },
+            ]}
+            selectedMethodId={paymentMethod}
+            onSelect={(methodId) => setPaymentMethod(methodId as PaymentMethodId)}
+          />
+          {paymentMethod !== 'wallet' && (
+            <TextInput
+              style={[styles.phoneInput, { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }]}
+              placeholder="Mobile money number"
+              placeholderTextColor={Colors[colorScheme].tabIconDefault}
+              keyboardType="phone-pad"
+              value={phoneNumber}
+              onChangeText={setPhoneNumber}
+            />
+          )}
+        </View>
+      )}
 
-      <Pressable
-        style={styles.payButton}
-        onPress={handlePayment}
-      >
-        <Text style={styles.payButtonText}>Pay Now</Text>
-      </Pressable>
+      {booking ? (
+        <>
+          <View style={styles.statusRow}>
+            <Text style={[styles.statusLabel, { color: Colors[colorScheme].text }]}>Booking status</Text>
+            <Text style={[styles.statusValue, { color: Colors[colorScheme].tint }]}>
+              {BOOKING_STATUS_LABELS[booking.status]}
+            </Text>
+          </View>
+          <View style={styles.noteCard}>
+            <Text style={[styles.sectionTitle, { color: Colors[colorScheme].text }]}>
+              Pickup Note
+            </Text>
+            <TextInput
+              style={[styles.noteInput, { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }]}
+              placeholder="e.g. I'll wait at the Shell station on Bombo Road"
+              placeholderTextColor={Colors[colorScheme].tabIconDefault}
+              value={pickupNote}
+              onChangeText={setPickupNote}
+              multiline
+            />
+            {pickupNote !== (booking.pickup_note || '') && (
+              <Pressable onPress={handleSaveNote} disabled={savingNote}>
+                <Text style={[styles.saveNoteText, { color: Colors[colorScheme].tint }]}>
+                  {savingNote ? 'Saving...' : 'Save note'}
+                </Text>
+              </Pressable>
+            )}
+          </View>
+          {booking.status === 'requested' && (
+            <Text style={[styles.statusHint, { color: Colors[colorScheme].text }]}>
+              The driver reviews every request for this ride. You can pay once they accept.
+            </Text>
+          )}
+          {booking.status === 'accepted' && (
+            <Pressable
+              style={[styles.payButton, paying && styles.payButtonDisabled]}
+              onPress={handlePayment}
+              disabled={paying}
+            >
+              {paying ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.payButtonText}>
+                  Pay UGX {booking.total_amount.toLocaleString()}
+                </Text>
+              )}
+            </Pressable>
+          )}
+          {pendingReference && (
+            <Text style={[styles.statusHint, { color: Colors[colorScheme].text }]}>
+              Check your phone and enter your mobile money PIN to approve the payment.
+            </Text>
+          )}
+        </>
+      ) : (
+        <Pressable
+          style={[styles.payButton, reserving && styles.payButtonDisabled]}
+          onPress={handleReserve}
+          disabled={reserving}
+        >
+          {reserving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.payButtonText}>
+              {bookingError ? 'Try Again' : 'Reserve Seat'}
+            </Text>
+          )}
+        </Pressable>
+      )}
 
       {error && (
         <Text style={styles.errorText}>{error}</Text>
       )}
+
+      <WalletPinPrompt {...pinPromptProps} />
     </ScrollView>
   );
 }
@@ -324,23 +641,56 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
-  paymentMethodsCard: {
-    padding: 16,
-    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+  promoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  promoInput: {
+    flex: 1,
+    height: 44,
+    borderWidth: 1,
     borderRadius: 8,
-    marginBottom: 16,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+  promoApplyText: {
+    marginTop: 0,
   },
-  paymentMethod: {
+  promoApplied: {
     flexDirection: 'row',
     alignItems: 'center',
-    padding: 12,
-    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+    gap: 8,
+    marginTop: 8,
+  },
+  promoAppliedText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  promoErrorText: {
+    color: '#ff0000',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  escrowNote: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 8,
+  },
+  paymentMethodsCard: {
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
     borderRadius: 8,
-    marginBottom: 8,
+    marginBottom: 16,
   },
-  paymentMethodText: {
+  phoneInput: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
     fontSize: 16,
-    marginLeft: 12,
+    marginHorizontal: 16,
+    marginBottom: 16,
   },
   payButton: {
     backgroundColor: '#32CD32',
@@ -349,11 +699,66 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  noteCard: {
+    padding: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  noteInput: {
+    minHeight: 60,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    textAlignVertical: 'top',
+  },
+  saveNoteText: {
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'right',
+    marginTop: 8,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  statusLabel: {
+    fontSize: 16,
+  },
+  statusValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  statusHint: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  payButtonDisabled: {
+    opacity: 0.7,
+  },
   payButtonText: {
     color: '#fff',
     fontSize: 18,
     fontWeight: '600',
   },
+  bookingErrorCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: 'rgba(255, 0, 0, 0.08)',
+    borderRadius: 8,
+    marginBottom: 16,
+    gap: 12,
+  },
+  bookingErrorText: {
+    flex: 1,
+    color: '#ff0000',
+    fontSize: 16,
+  },
   errorText: {
     color: '#ff0000',
     textAlign: 'center',
@@ -7,7 +7,11 @@ import { supabase } from '../lib/supabase';
 import MessageBubble, { MessageType } from '../components/chat/MessageBubble';
 import InputToolbar from '../components/chat/InputToolbar';
 import { Ionicons } from '@expo/vector-icons';
-import { User } from '@supabase/supabase-js';
+import { RealtimeChannel, User } from '@supabase/supabase-js';
+import { RideWithDriver } from '../types/ride';
+import { chatsRepository } from '../repositories/chats';
+import { profilesRepository } from '../repositories/profiles';
+import { ridesRepository } from '../repositories/rides';
 
 type ColorScheme = 'light' | 'dark';
 
@@ -27,119 +31,69 @@ interface Message {
   };
 }
 
-interface RideDetails {
-  id: string;
-  origin: string;
-  destination: string;
-  date: string;
-  driver: {
-    id: string;
-    full_name: string;
-  };
-}
-
-interface RideResponse {
-  id: string;
-  origin: string;
-  destination: string;
-  date: string;
-  driver: {
-    id: string;
-    full_name: string;
-  };
-}
-
 export default function ChatScreen() {
   const colorScheme = useColorScheme() as ColorScheme;
-  const { userId, ride } = useLocalSearchParams<{ userId: string; ride: string }>();
+  const { userId, ride } = useLocalSearchParams<{ userId: string; ride?: string }>();
   const router = useRouter();
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
-  const [rideDetails, setRideDetails] = useState<RideDetails | null>(null);
+  const [rideDetails, setRideDetails] = useState<RideWithDriver | null>(null);
   const [otherUser, setOtherUser] = useState<{ id: string; full_name: string } | null>(null);
   const [isTyping, setIsTyping] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [chatId, setChatId] = useState<string | null>(null);
   const flatListRef = useRef<FlatList>(null);
 
   useEffect(() => {
-    loadCurrentUser();
-    loadMessages();
     loadRideDetails();
     loadUserDetails();
-    subscribeToMessages();
-    subscribeToTyping();
-  }, []);
+    const unsubscribeTyping = subscribeToTyping();
 
-  const loadCurrentUser = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    setCurrentUser(user);
-  };
+    let channel: RealtimeChannel | null = null;
+    loadChat().then(result => {
+      channel = result;
+    });
 
-  const loadMessages = async () => {
-    try {
-      if (!currentUser) return;
-
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('id', currentUser.id)
-        .single();
+    return () => {
+      unsubscribeTyping();
+      if (channel) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, []);
 
-      if (!profile) return;
+  const loadChat = async (): Promise<RealtimeChannel | null> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+      setCurrentUser(user);
 
-      const { data: messages, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('chat_id', `${profile.id}_${userId}`)
-        .order('created_at', { ascending: true });
+      const chat = await chatsRepository.getOrCreateChat(user.id, userId, ride);
+      if (!chat) return null;
+      setChatId(chat.id);
 
-      if (error) throw error;
-      setMessages(messages || []);
+      const rows = await chatsRepository.getMessages(chat.id);
+      setMessages(rows as Message[]);
 
       // Mark messages as read
-      if (messages?.length) {
-        await supabase
-          .from('messages')
-          .update({ status: 'read' })
-          .eq('sender_id', userId)
-          .eq('status', 'delivered');
+      if (rows.length) {
+        await chatsRepository.markMessagesRead(chat.id, userId);
       }
+
+      return subscribeToMessages(chat.id);
     } catch (error) {
       console.error('Error loading messages:', error);
+      return null;
     } finally {
       setLoading(false);
     }
   };
 
   const loadRideDetails = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('rides')
-        .select(`
-          id,
-          origin,
-          destination,
-          date,
-          driver:profiles!driver_id(id, full_name)
-        `)
-        .eq('id', ride)
-        .single();
+    if (!ride) return;
 
-      if (error) throw error;
-      if (data) {
-        const rideData = {
-          id: data.id as string,
-          origin: data.origin as string,
-          destination: data.destination as string,
-          date: data.date as string,
-          driver: {
-            id: (data.driver as any).id as string,
-            full_name: (data.driver as any).full_name as string,
-          },
-        } satisfies RideResponse;
-
-        setRideDetails(rideData);
-      }
+    try {
+      setRideDetails(await ridesRepository.getRide(ride));
     } catch (error) {
       console.error('Error loading ride details:', error);
     }
@@ -147,73 +101,43 @@ export default function ChatScreen() {
 
   const loadUserDetails = async () => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, full_name')
-        .eq('id', userId)
-        .single();
-
-      if (error) throw error;
-      if (data) {
-        setOtherUser({
-          id: data.id,
-          full_name: data.full_name,
-        });
-      }
+      const profile = await profilesRepository.getProfile(userId);
+      setOtherUser({
+        id: profile.id,
+        full_name: profile.full_name || '',
+      });
     } catch (error) {
       console.error('Error loading user details:', error);
     }
   };
 
-  const subscribeToMessages = () => {
-    if (!currentUser) return;
-
-    // Get profile ID first
+  const subscribeToMessages = (chatId: string) =>
     supabase
-      .from('profiles')
-      .select('id')
-      .eq('id', currentUser.id)
-      .single()
-      .then(({ data: profile }) => {
-        if (!profile) return;
-
-        const channel = supabase
-          .channel('chat_messages')
-          .on(
-            'postgres_changes',
-            {
-              event: 'INSERT',
-              schema: 'public',
-              table: 'messages',
-              filter: `chat_id=eq.${profile.id}_${userId}`,
-            },
-            async (payload: { new: Message }) => {
-              const newMessage = payload.new;
-              setMessages(prev => [...prev, newMessage]);
-              
-              // Mark message as delivered
-              if (newMessage.sender_id === userId) {
-                await supabase
-                  .from('messages')
-                  .update({ status: 'delivered' })
-                  .eq('id', newMessage.id);
-              }
-
-              // Scroll to bottom
-              flatListRef.current?.scrollToEnd({ animated: true });
-            }
-          )
-          .subscribe();
-
-        return () => {
-          supabase.removeChannel(channel);
-        };
-      });
-  };
+      .channel(`chat_messages_${chatId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        async (payload: { new: Message }) => {
+          const newMessage = payload.new;
+          setMessages(prev => [...prev, newMessage]);
+
+          // Mark message as delivered
+          if (newMessage.sender_id === userId) {
+            await chatsRepository.markMessageDelivered(newMessage.id);
+          }
+
+          // Scroll to bottom
+          flatListRef.current?.scrollToEnd({ animated: true });
+        }
+      )
+      .subscribe();
 
   const subscribeToTyping = () => {
-    if (!currentUser) return;
-
     const channel = supabase
       .channel(`typing_${userId}`)
       .on('broadcast', { event: 'typing' }, () => {
@@ -230,29 +154,17 @@ export default function ChatScreen() {
 
   const handleSend = async (message: { type: MessageType; content: string; metadata?: any }) => {
     try {
-      if (!currentUser) return;
-
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('id', currentUser.id)
-        .single();
-
-      if (!profile) return;
-
-      const { error } = await supabase
-        .from('messages')
-        .insert({
-          chat_id: `${profile.id}_${userId}`,
-          sender_id: profile.id,
-          receiver_id: userId,
-          type: message.type,
-          content: message.content,
-          metadata: message.metadata,
-          status: 'sent',
-        });
-
-      if (error) throw error;
+      if (!currentUser || !chatId) return;
+
+      await chatsRepository.sendMessage({
+        chat_id: chatId,
+        sender_id: currentUser.id,
+        receiver_id: userId,
+        type: message.type,
+        content: message.content,
+        metadata: message.metadata,
+        status: 'sent',
+      });
     } catch (error) {
       console.error('Error sending message:', error);
     }
@@ -274,7 +186,7 @@ export default function ChatScreen() {
       >
         <View>
           <Text style={[styles.rideTitle, { color: Colors[colorScheme].text }]}>
-            {rideDetails?.origin} → {rideDetails?.destination}
+            {rideDetails?.origin.city} → {rideDetails?.destination.city}
           </Text>
           <Text style={[styles.rideSubtitle, { color: Colors[colorScheme].tabIconDefault }]}>
             {rideDetails?.driver.id === userId ? 'Driver' : 'Passenger'}
@@ -1,34 +1,9 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { View, Text, TextInput, FlatList, Pressable, StyleSheet, ViewStyle, TextStyle } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { colors } from '../theme/colors';
 import { typography } from '../theme/typography';
-
-// List of major Ugandan cities and towns
-const UGANDAN_CITIES = [
-  { id: '1', name: 'Kampala', region: 'Central' },
-  { id: '2', name: 'Gulu', region: 'Northern' },
-  { id: '3', name: 'Mbarara', region: 'Western' },
-  { id: '4', name: 'Jinja', region: 'Eastern' },
-  { id: '5', name: 'Arua', region: 'Northern' },
-  { id: '6', name: 'Fort Portal', region: 'Western' },
-  { id: '7', name: 'Masaka', region: 'Central' },
-  { id: '8', name: 'Mbale', region: 'Eastern' },
-  { id: '9', name: 'Kasese', region: 'Western' },
-  { id: '10', name: 'Lira', region: 'Northern' },
-  { id: '11', name: 'Entebbe', region: 'Central' },
-  { id: '12', name: 'Hoima', region: 'Western' },
-  { id: '13', name: 'Soroti', region: 'Eastern' },
-  { id: '14', name: 'Tororo', region: 'Eastern' },
-  { id: '15', name: 'Kabale', region: 'Western' },
-  // Add more cities as needed
-];
-
-type City = {
-  id: string;
-  name: string;
-  region: string;
-};
+import { City, UGANDAN_CITIES } from '../constants/cities';
 
 type CityInputProps = {
   placeholder: string;
@@ -38,9 +13,14 @@ type CityInputProps = {
 };
 
 export default function CityInput({ placeholder, value, onCitySelect, containerStyle }: CityInputProps) {
-  const [searchText, setSearchText] = useState('');
+  const [searchText, setSearchText] = useState(value?.name ?? '');
   const [showSuggestions, setShowSuggestions] = useState(false);
 
+  // Show a city chosen elsewhere, e.g. a popular route or a saved search being edited
+  useEffect(() => {
+    if (value) setSearchText(value.name);
+  }, [value?.id]);
+
   const filteredCities = UGANDAN_CITIES.filter(city => 
     city.name.toLowerCase().includes(searchText.toLowerCase()) ||
     city.region.toLowerCase().includes(searchText.toLowerCase())
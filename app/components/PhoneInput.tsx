@@ -45,7 +45,7 @@ export function PhoneInput({ onChangePhone, error }: PhoneInputProps) {
       <Text style={styles.label}>Phone Number</Text>
       <View style={[
         styles.inputContainer,
-        { borderColor: error ? Colors.status.error : Colors[colorScheme].border }
+        { borderColor: error ? colors.status.error : Colors[colorScheme].border }
       ]}>
         <Text style={[styles.prefix, { color: Colors[colorScheme].text }]}>+256</Text>
         <TextInput
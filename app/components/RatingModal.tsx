@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Pressable, Modal, TextInput, ActivityIndicator, ViewStyle, TextStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../theme/colors';
+import { typography } from '../theme/typography';
+
+export type RatingModalProps = {
+  /** Whether the modal is shown */
+  visible: boolean;
+  /** Name of the person being rated */
+  name: string;
+  /** Called with the chosen rating and optional comment */
+  onSubmit: (rating: number, comment: string) => Promise<void>;
+  /** Called when the modal is dismissed */
+  onClose: () => void;
+};
+
+/**
+ * A bottom sheet for rating a completed trip with 1-5 stars
+ * and an optional comment.
+ */
+export default function RatingModal({ visible, name, onSubmit, onClose }: RatingModalProps) {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setRating(0);
+      setComment('');
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!rating) return;
+
+    try {
+      setSubmitting(true);
+      await onSubmit(rating, comment.trim());
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={styles.sheet}>
+        <Text style={styles.title}>Rate your trip with {name}</Text>
+
+        <View style={styles.stars}>
+          {[1, 2, 3, 4, 5].map(value => (
+            <Pressable key={value} onPress={() => setRating(value)} hitSlop={8}>
+              <Ionicons
+                name={value <= rating ? 'star' : 'star-outline'}
+                size={36}
+                color={colors.status.warning}
+              />
+            </Pressable>
+          ))}
+        </View>
+
+        <TextInput
+          style={styles.input}
+          placeholder="Anything you'd like to share? (optional)"
+          placeholderTextColor={colors.text.disabled}
+          value={comment}
+          onChangeText={setComment}
+          multiline
+        />
+
+        <Pressable
+          style={[styles.submitButton, (!rating || submitting) && styles.submitButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={!rating || submitting}
+        >
+          {submitting ? (
+            <ActivityIndicator color={colors.text.inverse} />
+          ) : (
+            <Text style={styles.submitText}>Submit Rating</Text>
+          )}
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  } as ViewStyle,
+  sheet: {
+    backgroundColor: colors.background.primary,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: 40,
+    gap: 20,
+  } as ViewStyle,
+  title: {
+    fontSize: typography.sizes.h3,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.primary,
+    textAlign: 'center',
+  } as TextStyle,
+  stars: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+  } as ViewStyle,
+  input: {
+    minHeight: 80,
+    backgroundColor: colors.background.secondary,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.primary,
+    textAlignVertical: 'top',
+  } as TextStyle,
+  submitButton: {
+    height: 52,
+    borderRadius: 12,
+    backgroundColor: colors.primary.electricIndigo,
+    alignItems: 'center',
+    justifyContent: 'center',
+  } as ViewStyle,
+  submitButtonDisabled: {
+    opacity: 0.6,
+  } as ViewStyle,
+  submitText: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  } as TextStyle,
+});
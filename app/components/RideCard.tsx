@@ -4,6 +4,7 @@ import { useColorScheme } from './useColorScheme';
 import Colors from '../constants/Colors';
 import { Ionicons } from '@expo/vector-icons';
 import UserProfileCard from './UserProfileCard';
+import { RideStatus } from '../types/ride';
 
 type Driver = {
   id: string;
@@ -28,10 +29,12 @@ export type RideCardProps = {
   pricePerSeat: number;
   /** Number of available seats */
   availableSeats: number;
+  /** Extra line under the price, such as how a partial trip fits the route */
+  note?: string;
   /** Driver information */
   driver: Driver;
   /** Ride status */
-  status?: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
+  status?: RideStatus;
   /** Primary action button text */
   primaryActionText?: string;
   /** Secondary action button text */
@@ -62,8 +65,9 @@ export default function RideCard({
   departureTime,
   pricePerSeat,
   availableSeats,
+  note,
   driver,
-  status = 'pending',
+  status = 'active',
   primaryActionText,
   secondaryActionText,
   onPrimaryAction,
@@ -74,7 +78,7 @@ export default function RideCard({
 
   const getStatusColor = () => {
     switch (status) {
-      case 'confirmed':
+      case 'active':
         return '#32CD32';
       case 'in_progress':
         return '#4A90E2';
@@ -137,6 +141,14 @@ export default function RideCard({
           </Text>
         </View>
       </View>
+      {note && (
+        <View style={styles.infoItem}>
+          <Ionicons name="git-branch-outline" size={16} color={Colors[colorScheme].text} />
+          <Text style={[styles.infoText, { color: Colors[colorScheme].text }]}>
+            {note}
+          </Text>
+        </View>
+      )}
     </View>
   );
 
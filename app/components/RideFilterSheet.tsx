@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Pressable, Modal, TextInput, ScrollView, Switch, ViewStyle, TextStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../theme/colors';
+import { typography } from '../theme/typography';
+import { RIDE_FEATURE_OPTIONS } from '../constants/rideFeatures';
+import { RideFeature, RideFilters } from '../types/ride';
+
+export const EMPTY_RIDE_FILTERS: RideFilters = {
+  min_price: null,
+  max_price: null,
+  min_seats: null,
+  features: [],
+  min_driver_rating: null,
+  verified_only: false,
+  women_only: false,
+};
+
+const RATING_OPTIONS: (number | null)[] = [null, 3, 4, 4.5];
+
+export type RideFilterSheetProps = {
+  /** Whether the sheet is shown */
+  visible: boolean;
+  /** The filters in effect, which the sheet starts from each time it opens */
+  filters: RideFilters;
+  /** Called with the edited filters from "Show rides" */
+  onApply: (filters: RideFilters) => void;
+  /** Called when the sheet is dismissed without applying */
+  onClose: () => void;
+};
+
+/**
+ * A bottom sheet for narrowing the ride search by price, seats, car features
+ * and the driver. Edits stay in the sheet until they're applied.
+ */
+export default function RideFilterSheet({ visible, filters, onApply, onClose }: RideFilterSheetProps) {
+  const [draft, setDraft] = useState<RideFilters>(filters);
+
+  useEffect(() => {
+    if (visible) setDraft(filters);
+  }, [visible]);
+
+  const update = (changes: Partial<RideFilters>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const toggleFeature = (feature: RideFeature) =>
+    setDraft((current) => ({
+      ...current,
+      features: current.features.includes(feature)
+        ? current.features.filter((selected) => selected !== feature)
+        : [...current.features, feature],
+    }));
+
+  const parseNumber = (text: string) => {
+    const value = parseInt(text.replace(/[^0-9]/g, ''), 10);
+    return value > 0 ? value : null;
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={styles.sheet}>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>Filters</Text>
+          <Pressable onPress={() => setDraft(EMPTY_RIDE_FILTERS)} hitSlop={8}>
+            <Text style={styles.linkText}>Reset</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.group}>
+            <Text style={styles.label}>Price per seat (UGX)</Text>
+            <View style={styles.row}>
+              <TextInput
+                style={styles.input}
+                placeholder="Min"
+                value={draft.min_price?.toString() ?? ''}
+                onChangeText={(text) => update({ min_price: parseNumber(text) })}
+                keyboardType="numeric"
+                placeholderTextColor={colors.text.disabled}
+              />
+              <Text style={styles.label}>-</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Max"
+                value={draft.max_price?.toString() ?? ''}
+                onChangeText={(text) => update({ max_price: parseNumber(text) })}
+                keyboardType="numeric"
+                placeholderTextColor={colors.text.disabled}
+              />
+            </View>
+          </View>
+
+          <View style={styles.group}>
+            <Text style={styles.label}>Seats needed</Text>
+            <TextInput
+              style={[styles.input, styles.seatsInput]}
+              placeholder="1"
+              value={draft.min_seats?.toString() ?? ''}
+              onChangeText={(text) => update({ min_seats: parseNumber(text) })}
+              keyboardType="number-pad"
+              maxLength={1}
+              placeholderTextColor={colors.text.disabled}
+            />
+          </View>
+
+          <View style={styles.group}>
+            <Text style={styles.label}>Driver rating</Text>
+            <View style={styles.row}>
+              {RATING_OPTIONS.map((rating) => {
+                const selected = draft.min_driver_rating === rating;
+                return (
+                  <Pressable
+                    key={rating ?? 'any'}
+                    style={[styles.option, selected && styles.optionActive]}
+                    onPress={() => update({ min_driver_rating: rating })}
+                  >
+                    {rating !== null && (
+                      <Ionicons name="star" size={14} color={selected ? colors.text.inverse : colors.primary.deepPurple} />
+                    )}
+                    <Text style={[styles.optionText, selected && styles.optionTextActive]}>
+                      {rating === null ? 'Any' : `${rating}+`}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.group}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchInfo}>
+                <Text style={styles.switchLabel}>Verified drivers only</Text>
+                <Text style={styles.switchDescription}>ID and vehicle checked</Text>
+              </View>
+              <Switch value={draft.verified_only} onValueChange={(value) => update({ verified_only: value })} />
+            </View>
+            <View style={styles.switchRow}>
+              <View style={styles.switchInfo}>
+                <Text style={styles.switchLabel}>Women-only rides</Text>
+                <Text style={styles.switchDescription}>Offered by women, for women passengers</Text>
+              </View>
+              <Switch value={draft.women_only} onValueChange={(value) => update({ women_only: value })} />
+            </View>
+          </View>
+
+          <View style={styles.group}>
+            <Text style={styles.label}>Car features</Text>
+            {RIDE_FEATURE_OPTIONS.map(({ feature, label, icon }) => {
+              const checked = draft.features.includes(feature);
+              return (
+                <Pressable key={feature} style={styles.checkboxRow} onPress={() => toggleFeature(feature)}>
+                  <Ionicons name={icon} size={20} color={colors.text.secondary} />
+                  <Text style={styles.checkboxLabel}>{label}</Text>
+                  <Ionicons
+                    name={checked ? 'checkbox' : 'square-outline'}
+                    size={22}
+                    color={checked ? colors.primary.deepPurple : colors.text.disabled}
+                  />
+                </Pressable>
+              );
+            })}
+          </View>
+        </ScrollView>
+
+        <Pressable style={styles.applyButton} onPress={() => onApply(draft)}>
+          <Text style={styles.applyText}>Show rides</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  } as ViewStyle,
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: colors.background.primary,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: 40,
+    gap: 16,
+  } as ViewStyle,
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  } as ViewStyle,
+  title: {
+    fontSize: typography.sizes.h3,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.primary,
+  } as TextStyle,
+  linkText: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.primary.deepPurple,
+  } as TextStyle,
+  content: {
+    gap: 24,
+  } as ViewStyle,
+  group: {
+    gap: 8,
+  } as ViewStyle,
+  label: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.primary,
+  } as TextStyle,
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  } as ViewStyle,
+  input: {
+    flex: 1,
+    height: 44,
+    backgroundColor: colors.background.secondary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    color: colors.text.primary,
+    fontSize: typography.sizes.body2,
+  } as TextStyle,
+  seatsInput: {
+    flex: 0,
+    width: 80,
+  } as TextStyle,
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: colors.background.secondary,
+  } as ViewStyle,
+  optionActive: {
+    backgroundColor: colors.primary.deepPurple,
+  } as ViewStyle,
+  optionText: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '500',
+    color: colors.text.primary,
+  } as TextStyle,
+  optionTextActive: {
+    color: colors.text.inverse,
+  } as TextStyle,
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  } as ViewStyle,
+  switchInfo: {
+    flex: 1,
+    marginRight: 16,
+  } as ViewStyle,
+  switchLabel: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.primary,
+  } as TextStyle,
+  switchDescription: {
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.secondary,
+  } as TextStyle,
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  } as ViewStyle,
+  checkboxLabel: {
+    flex: 1,
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.primary,
+  } as TextStyle,
+  applyButton: {
+    height: 52,
+    borderRadius: 12,
+    backgroundColor: colors.primary.deepPurple,
+    justifyContent: 'center',
+    alignItems: 'center',
+  } as ViewStyle,
+  applyText: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  } as TextStyle,
+});
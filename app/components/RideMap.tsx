@@ -0,0 +1,324 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Pressable, FlatList, ActivityIndicator } from 'react-native';
+import MapView, { Marker, Polyline, PROVIDER_GOOGLE, Region } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import Colors from '../constants/Colors';
+import { useColorScheme } from './useColorScheme';
+import RideCard from './RideCard';
+import { Ride } from '../types/ride';
+import { clusterByRegion, isStackedCluster, MapCluster } from '../utils/mapClusters';
+
+export type RideMapProps = {
+  /** Rides to plot, as already searched and filtered for the list */
+  rides: Ride[];
+  /** Called from the selected ride's card */
+  onBookRide: (rideId: string) => void;
+  /** Whether the search has more pages than are plotted */
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+};
+
+// All of Uganda, until there are rides to fit
+const UGANDA_REGION: Region = {
+  latitude: 1.3733,
+  longitude: 32.2903,
+  latitudeDelta: 5.5,
+  longitudeDelta: 5.5,
+};
+
+const EDGE_PADDING = { top: 60, right: 40, bottom: 220, left: 40 };
+
+const originOf = (ride: Ride) => ({ latitude: ride.origin.latitude, longitude: ride.origin.longitude });
+const routeOf = (ride: Ride) => [
+  originOf(ride),
+  { latitude: ride.destination.latitude, longitude: ride.destination.longitude },
+];
+
+/**
+ * Search results on a map: each ride's origin as a marker, clustered when
+ * zoomed out, and its route as a line. Tapping a marker or line highlights
+ * that ride's route and shows its card; tapping a cluster zooms in, or lists
+ * its rides when they all leave from the same place.
+ */
+export default function RideMap({ rides, onBookRide, hasMore, loadingMore, onLoadMore }: RideMapProps) {
+  const colorScheme = useColorScheme();
+  const mapRef = useRef<MapView>(null);
+  const [region, setRegion] = useState<Region>(UGANDA_REGION);
+  const [selectedRideId, setSelectedRideId] = useState<string | null>(null);
+  // Rides shown in the card strip: a tapped cluster's, or just the selected ride
+  const [panelRideIds, setPanelRideIds] = useState<string[]>([]);
+  const fittedSearchRef = useRef<string | null>(null);
+
+  const plottedRides = useMemo(() => rides.filter((ride) => ride.driver), [rides]);
+  const clusters = useMemo(() => clusterByRegion(plottedRides, originOf, region), [plottedRides, region]);
+  const selectedRide = plottedRides.find((ride) => ride.id === selectedRideId);
+  const panelRides = plottedRides.filter((ride) => panelRideIds.includes(ride.id));
+
+  // Fit each new search once; later pages and the user's own panning are left alone
+  useEffect(() => {
+    const searchKey = plottedRides[0]?.id ?? null;
+    if (!searchKey || fittedSearchRef.current === searchKey) return;
+
+    fittedSearchRef.current = searchKey;
+    setSelectedRideId(null);
+    setPanelRideIds([]);
+    mapRef.current?.fitToCoordinates(plottedRides.flatMap(routeOf), {
+      edgePadding: EDGE_PADDING,
+      animated: true,
+    });
+  }, [plottedRides]);
+
+  // Drop a selection the filters have since removed
+  useEffect(() => {
+    if (selectedRideId && !selectedRide) setSelectedRideId(null);
+  }, [selectedRide, selectedRideId]);
+
+  const selectRide = (rideId: string, panel = [rideId]) => {
+    setSelectedRideId(rideId);
+    setPanelRideIds(panel);
+  };
+
+  const handleClusterPress = (cluster: MapCluster<Ride>) => {
+    if (cluster.items.length === 1) {
+      selectRide(cluster.items[0].id);
+      return;
+    }
+
+    if (isStackedCluster(cluster, originOf)) {
+      selectRide(cluster.items[0].id, cluster.items.map((ride) => ride.id));
+      return;
+    }
+
+    mapRef.current?.fitToCoordinates(cluster.items.map(originOf), {
+      edgePadding: EDGE_PADDING,
+      animated: true,
+    });
+  };
+
+  const clearSelection = () => {
+    setSelectedRideId(null);
+    setPanelRideIds([]);
+  };
+
+  const tint = Colors[colorScheme].tint;
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        provider={PROVIDER_GOOGLE}
+        initialRegion={UGANDA_REGION}
+        onRegionChangeComplete={setRegion}
+        showsCompass
+        loadingEnabled
+        cacheEnabled={true}
+      >
+        {plottedRides.map((ride) => (
+          <Polyline
+            key={`route-${ride.id}`}
+            coordinates={routeOf(ride)}
+            strokeWidth={ride.id === selectedRideId ? 5 : 2}
+            strokeColor={ride.id === selectedRideId ? tint : tint + '55'}
+            zIndex={ride.id === selectedRideId ? 2 : 1}
+            tappable
+            onPress={() => selectRide(ride.id)}
+          />
+        ))}
+
+        {clusters.map((cluster) => (
+          <Marker
+            key={cluster.id}
+            coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+            onPress={() => handleClusterPress(cluster)}
+            tracksViewChanges={false}
+          >
+            {cluster.items.length > 1 ? (
+              <View style={[styles.clusterMarker, { backgroundColor: tint }]}>
+                <Text style={styles.clusterText}>{cluster.items.length}</Text>
+              </View>
+            ) : (
+              <View
+                style={[
+                  styles.rideMarker,
+                  { backgroundColor: cluster.items[0].id === selectedRideId ? tint : '#fff', borderColor: tint },
+                ]}
+              >
+                <Ionicons
+                  name="car"
+                  size={16}
+                  color={cluster.items[0].id === selectedRideId ? '#fff' : tint}
+                />
+              </View>
+            )}
+          </Marker>
+        ))}
+
+        {selectedRide && (
+          <Marker
+            coordinate={routeOf(selectedRide)[1]}
+            tracksViewChanges={false}
+          >
+            <View style={[styles.rideMarker, { backgroundColor: '#F44336', borderColor: '#F44336' }]}>
+              <Ionicons name="flag" size={16} color="#fff" />
+            </View>
+          </Marker>
+        )}
+      </MapView>
+
+      {hasMore && onLoadMore && (
+        <Pressable
+          style={[styles.loadMoreButton, { backgroundColor: Colors[colorScheme].background }]}
+          onPress={onLoadMore}
+          disabled={loadingMore}
+        >
+          {loadingMore ? (
+            <ActivityIndicator size="small" color={tint} />
+          ) : (
+            <Text style={[styles.loadMoreText, { color: tint }]}>
+              Showing {plottedRides.length} rides · Load more
+            </Text>
+          )}
+        </Pressable>
+      )}
+
+      {panelRides.length > 0 && (
+        <Pressable
+          style={[styles.closeButton, { backgroundColor: Colors[colorScheme].background }]}
+          onPress={clearSelection}
+          hitSlop={8}
+        >
+          <Ionicons name="close" size={18} color={Colors[colorScheme].text} />
+        </Pressable>
+      )}
+
+      {panelRides.length > 0 && (
+        <FlatList
+          style={styles.panel}
+          contentContainerStyle={styles.panelContent}
+          data={panelRides}
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          keyExtractor={(ride) => ride.id}
+          renderItem={({ item }) => (
+            <Pressable
+              style={[styles.panelCard, item.id === selectedRideId && { borderColor: tint }]}
+              onPress={() => setSelectedRideId(item.id)}
+            >
+              <RideCard
+                compact
+                originAddress={item.origin.address}
+                destinationAddress={item.destination.address}
+                departureTime={item.departure_time}
+                pricePerSeat={item.price_per_seat}
+                availableSeats={item.available_seats}
+                driver={{
+                  ...item.driver!,
+                  rating_count: 0,
+                  verification_badges: item.driver!.is_verified ? [{ type: 'id', verified: true }] : [],
+                }}
+                status={item.status}
+              />
+              <Pressable style={[styles.bookButton, { backgroundColor: tint }]} onPress={() => onBookRide(item.id)}>
+                <Text style={styles.bookButtonText}>Book Now</Text>
+              </Pressable>
+            </Pressable>
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  map: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  clusterMarker: {
+    minWidth: 36,
+    height: 36,
+    borderRadius: 18,
+    paddingHorizontal: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 3,
+    borderColor: 'rgba(255, 255, 255, 0.8)',
+  },
+  clusterText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  rideMarker: {
+    padding: 6,
+    borderRadius: 16,
+    borderWidth: 2,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  loadMoreButton: {
+    position: 'absolute',
+    top: 16,
+    alignSelf: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  closeButton: {
+    position: 'absolute',
+    right: 16,
+    bottom: 200,
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+  },
+  panel: {
+    position: 'absolute',
+    bottom: 16,
+    left: 0,
+    right: 0,
+  },
+  panelContent: {
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  panelCard: {
+    width: 300,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    overflow: 'hidden',
+  },
+  bookButton: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  bookButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Pressable, Modal, TextInput, ActivityIndicator, ViewStyle, TextStyle } from 'react-native';
+import { colors } from '../theme/colors';
+import { typography } from '../theme/typography';
+import { walletPinService, WalletPinError } from '../services/walletPinService';
+
+export type WalletPinPromptProps = {
+  /** Whether the prompt is shown */
+  visible: boolean;
+  /** Called with the step-up token once the PIN checks out */
+  onVerified: (token: string) => void;
+  /** Called when the prompt is dismissed without a PIN */
+  onCancel: () => void;
+  /** Called from the "Forgot PIN?" link */
+  onForgotPin: () => void;
+};
+
+/**
+ * A bottom sheet asking for the wallet PIN before money leaves the wallet.
+ * Usually driven by `useWalletPin`, which tries biometrics first.
+ */
+export default function WalletPinPrompt({ visible, onVerified, onCancel, onForgotPin }: WalletPinPromptProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setPin('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleVerify = async () => {
+    if (pin.length < 4) return;
+
+    try {
+      setVerifying(true);
+      setError(null);
+      onVerified(await walletPinService.verifyPin(pin));
+    } catch (error) {
+      setPin('');
+      setError(error instanceof WalletPinError ? error.message : 'Failed to check your PIN');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+      <Pressable style={styles.backdrop} onPress={onCancel} />
+      <View style={styles.sheet}>
+        <Text style={styles.title}>Enter your wallet PIN</Text>
+
+        <TextInput
+          style={styles.input}
+          value={pin}
+          onChangeText={(value) => setPin(value.replace(/[^0-9]/g, ''))}
+          onSubmitEditing={handleVerify}
+          keyboardType="number-pad"
+          maxLength={6}
+          secureTextEntry
+          autoFocus
+        />
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <Pressable
+          style={[styles.submitButton, (pin.length < 4 || verifying) && styles.submitButtonDisabled]}
+          onPress={handleVerify}
+          disabled={pin.length < 4 || verifying}
+        >
+          {verifying ? (
+            <ActivityIndicator color={colors.text.inverse} />
+          ) : (
+            <Text style={styles.submitText}>Confirm</Text>
+          )}
+        </Pressable>
+
+        <Pressable onPress={onForgotPin} hitSlop={8}>
+          <Text style={styles.linkText}>Forgot PIN?</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  } as ViewStyle,
+  sheet: {
+    backgroundColor: colors.background.primary,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    paddingBottom: 40,
+    gap: 20,
+  } as ViewStyle,
+  title: {
+    fontSize: typography.sizes.h3,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.primary,
+    textAlign: 'center',
+  } as TextStyle,
+  input: {
+    height: 56,
+    backgroundColor: colors.background.secondary,
+    borderRadius: 12,
+    fontSize: typography.sizes.h3,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.primary,
+    textAlign: 'center',
+    letterSpacing: 12,
+  } as TextStyle,
+  errorText: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    color: colors.status.error,
+    textAlign: 'center',
+  } as TextStyle,
+  submitButton: {
+    height: 52,
+    borderRadius: 12,
+    backgroundColor: colors.primary.electricIndigo,
+    alignItems: 'center',
+    justifyContent: 'center',
+  } as ViewStyle,
+  submitButtonDisabled: {
+    opacity: 0.6,
+  } as ViewStyle,
+  submitText: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  } as TextStyle,
+  linkText: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    color: colors.primary.electricIndigo,
+    textAlign: 'center',
+  } as TextStyle,
+});
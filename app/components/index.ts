@@ -1,4 +1,11 @@
 export { default as Avatar } from './Avatar';
 export { default as ThemedText, type ThemedTextProps } from './ThemedText';
 export { default as ThemedView, type ThemedViewProps } from './ThemedView';
-export { useColorScheme } from './useColorScheme'; 
\ No newline at end of file
+export { useColorScheme } from './useColorScheme';
+export { useTransactionSettlement, getPaymentFailureMessage } from './useTransactionSettlement';
+export { useIdempotencyKey } from './useIdempotencyKey';
+export { default as WalletPinPrompt, type WalletPinPromptProps } from './WalletPinPrompt';
+export { useWalletPin } from './useWalletPin';
+export { usePushNotifications, openNotification } from './usePushNotifications';
+export { default as RideMap, type RideMapProps } from './RideMap';
+export { default as RideFilterSheet, EMPTY_RIDE_FILTERS, type RideFilterSheetProps } from './RideFilterSheet';
\ No newline at end of file
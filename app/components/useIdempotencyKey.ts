@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as Crypto from 'expo-crypto';
+
+/**
+ * An idempotency key for one payment attempt. It stays the same across
+ * retries so the server can recognise a repeat, and changes whenever the
+ * payment details in `deps` change or `renew` is called after an outcome.
+ */
+export function useIdempotencyKey(deps: unknown[]) {
+  const [key, setKey] = useState(() => Crypto.randomUUID());
+
+  const renew = useCallback(() => setKey(Crypto.randomUUID()), []);
+
+  useEffect(renew, deps);
+
+  return { idempotencyKey: key, renewIdempotencyKey: renew };
+}
+
+export default useIdempotencyKey;
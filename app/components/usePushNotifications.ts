@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+import * as Notifications from 'expo-notifications';
+import { Router, useRouter } from 'expo-router';
+import { notificationService } from '../services/notificationService';
+import { notificationsRepository } from '../repositories/notifications';
+import { NotificationData } from '../types/notifications';
+
+/** Opens what a notification is about, from the feed or a tapped push */
+export const openNotification = (router: Router, data: NotificationData) => {
+  if (data.ride_id) {
+    router.push({ pathname: '/booking/[rideId]', params: { rideId: data.ride_id } });
+  }
+};
+
+/**
+ * Registers the device for push once someone is signed in, and opens the
+ * ride behind a tapped push, including the one that launched the app.
+ */
+export function usePushNotifications(userId: string | null) {
+  const router = useRouter();
+  // The launching push stays the "last response" until another is tapped
+  const handledRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    notificationService.registerForPush();
+
+    const handleResponse = (response: Notifications.NotificationResponse) => {
+      if (handledRef.current === response.notification.request.identifier) return;
+      handledRef.current = response.notification.request.identifier;
+
+      const data = response.notification.request.content.data as NotificationData & { notification_id?: string };
+      if (data.notification_id) {
+        notificationsRepository.markRead([data.notification_id]).catch((error) =>
+          console.error('Error marking notification read:', error)
+        );
+      }
+      openNotification(router, data);
+    };
+
+    Notifications.getLastNotificationResponseAsync().then((response) => {
+      if (response) handleResponse(response);
+    });
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+    return () => subscription.remove();
+  }, [userId]);
+}
+
+export default usePushNotifications;
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { TransactionRow, walletRepository } from '../repositories/wallet';
+
+export const PAYMENT_FAILURE_MESSAGES: Record<string, string> = {
+  INSUFFICIENT_FUNDS: 'Your mobile money balance is too low for this payment.',
+  REJECTED: 'The payment was declined on your phone.',
+  TIMEOUT: 'The payment was not approved in time.',
+  PAYER_NOT_FOUND: 'This number is not registered for mobile money.',
+};
+
+export const getPaymentFailureMessage = (transaction: TransactionRow) => {
+  const reason = (transaction.metadata as { reason?: string } | null)?.reason;
+  return (reason && PAYMENT_FAILURE_MESSAGES[reason]) || 'The payment could not be completed. Please try again.';
+};
+
+/**
+ * Waits for a mobile money transaction to be settled by the server. The payer
+ * approves on their handset, so the outcome arrives later through realtime
+ * rather than in the `request-payment` response.
+ */
+export function useTransactionSettlement(onSettled: (transaction: TransactionRow) => void) {
+  const [pendingReference, setPendingReference] = useState<string | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const onSettledRef = useRef(onSettled);
+  onSettledRef.current = onSettled;
+
+  useEffect(() => {
+    return () => {
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+      }
+    };
+  }, []);
+
+  const handleUpdate = (transaction: TransactionRow) => {
+    if (transaction.status === 'pending' || !channelRef.current) return;
+
+    supabase.removeChannel(channelRef.current);
+    channelRef.current = null;
+    setPendingReference(null);
+    onSettledRef.current(transaction);
+  };
+
+  const waitForSettlement = async (reference: string) => {
+    setPendingReference(reference);
+
+    channelRef.current = supabase
+      .channel(`payment:${reference}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'transactions', filter: `reference=eq.${reference}` },
+        (payload) => handleUpdate(payload.new as TransactionRow)
+      )
+      .subscribe();
+
+    // It may have settled before the subscription was live
+    try {
+      handleUpdate(await walletRepository.getTransactionByReference(reference));
+    } catch (error) {
+      console.error('Error loading transaction:', error);
+    }
+  };
+
+  return { pendingReference, waitForSettlement };
+}
+
+export default useTransactionSettlement;
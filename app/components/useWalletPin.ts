@@ -0,0 +1,69 @@
+import { useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { walletPinService, WalletPinError } from '../services/walletPinService';
+import { WalletPinPromptProps } from './WalletPinPrompt';
+
+/**
+ * Asks for the wallet PIN before a money movement. `requestPinToken` tries
+ * biometric unlock first if it's on, otherwise shows the `WalletPinPrompt`
+ * rendered with `pinPromptProps`, and resolves with a step-up token or null
+ * if the user backs out. Users without a PIN are sent to set one up.
+ */
+export function useWalletPin() {
+  const router = useRouter();
+  const [visible, setVisible] = useState(false);
+  const resolveRef = useRef<((token: string | null) => void) | null>(null);
+
+  const settle = (token: string | null) => {
+    setVisible(false);
+    resolveRef.current?.(token);
+    resolveRef.current = null;
+  };
+
+  const requestPinToken = async (): Promise<string | null> => {
+    try {
+      const status = await walletPinService.getStatus();
+
+      if (!status.has_pin) {
+        Alert.alert(
+          'Set Up a Wallet PIN',
+          'You need a wallet PIN to move money out of your wallet.',
+          [
+            { text: 'Not Now', style: 'cancel' },
+            { text: 'Set Up PIN', onPress: () => router.push('/wallet/pin') },
+          ]
+        );
+        return null;
+      }
+
+      if (await walletPinService.isBiometricEnabled()) {
+        const token = await walletPinService.unlockWithBiometric();
+        if (token) return token;
+      }
+    } catch (error) {
+      console.error('Error unlocking wallet:', error);
+      Alert.alert('Error', error instanceof WalletPinError ? error.message : 'Failed to check your wallet PIN');
+      return null;
+    }
+
+    return new Promise((resolve) => {
+      resolveRef.current = resolve;
+      setVisible(true);
+    });
+  };
+
+  const pinPromptProps: WalletPinPromptProps = {
+    visible,
+    onVerified: settle,
+    onCancel: () => settle(null),
+    onForgotPin: () => {
+      settle(null);
+      router.push('/wallet/pin');
+    },
+  };
+
+  return { requestPinToken, pinPromptProps };
+}
+
+export default useWalletPin;
@@ -0,0 +1,30 @@
+export type City = {
+  id: string;
+  name: string;
+  region: string;
+  latitude: number;
+  longitude: number;
+};
+
+// Major Ugandan cities and towns with their town-centre coordinates
+export const UGANDAN_CITIES: City[] = [
+  { id: '1', name: 'Kampala', region: 'Central', latitude: 0.3476, longitude: 32.5825 },
+  { id: '2', name: 'Gulu', region: 'Northern', latitude: 2.7747, longitude: 32.299 },
+  { id: '3', name: 'Mbarara', region: 'Western', latitude: -0.6071, longitude: 30.6545 },
+  { id: '4', name: 'Jinja', region: 'Eastern', latitude: 0.4478, longitude: 33.2027 },
+  { id: '5', name: 'Arua', region: 'Northern', latitude: 3.0201, longitude: 30.911 },
+  { id: '6', name: 'Fort Portal', region: 'Western', latitude: 0.671, longitude: 30.275 },
+  { id: '7', name: 'Masaka', region: 'Central', latitude: -0.3338, longitude: 31.7341 },
+  { id: '8', name: 'Mbale', region: 'Eastern', latitude: 1.0821, longitude: 34.175 },
+  { id: '9', name: 'Kasese', region: 'Western', latitude: 0.1833, longitude: 30.0833 },
+  { id: '10', name: 'Lira', region: 'Northern', latitude: 2.2499, longitude: 32.8999 },
+  { id: '11', name: 'Entebbe', region: 'Central', latitude: 0.0512, longitude: 32.4637 },
+  { id: '12', name: 'Hoima', region: 'Western', latitude: 1.4331, longitude: 31.3524 },
+  { id: '13', name: 'Soroti', region: 'Eastern', latitude: 1.7146, longitude: 33.6111 },
+  { id: '14', name: 'Tororo', region: 'Eastern', latitude: 0.6928, longitude: 34.1809 },
+  { id: '15', name: 'Kabale', region: 'Western', latitude: -1.2486, longitude: 29.9899 },
+  { id: '16', name: 'Luweero', region: 'Central', latitude: 0.8492, longitude: 32.4731 },
+];
+
+export const findCity = (name: string): City | undefined =>
+  UGANDAN_CITIES.find(city => city.name.toLowerCase() === name.trim().toLowerCase());
@@ -0,0 +1,26 @@
+import { Ionicons } from '@expo/vector-icons';
+import { CarFeatures, RideFeature } from '../types/ride';
+
+export type RideFeatureOption = {
+  feature: RideFeature;
+  /** The matching switch in `car_details.features` */
+  flag: keyof CarFeatures;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+};
+
+// In the order the post-ride form and the filter sheet list them
+export const RIDE_FEATURE_OPTIONS: RideFeatureOption[] = [
+  { feature: 'air_con', flag: 'hasAirCon', label: 'Air Conditioning', icon: 'snow-outline' },
+  { feature: 'luggage_space', flag: 'hasLuggageSpace', label: 'Luggage Space', icon: 'briefcase-outline' },
+  { feature: 'wifi', flag: 'hasWifi', label: 'WiFi', icon: 'wifi-outline' },
+  { feature: 'smoking', flag: 'allowsSmoking', label: 'Smoking Allowed', icon: 'leaf-outline' },
+  { feature: 'pets', flag: 'allowsPets', label: 'Pets Allowed', icon: 'paw-outline' },
+  { feature: 'child_seat', flag: 'hasChildSeat', label: 'Child Seat', icon: 'car-sport-outline' },
+  { feature: 'charger', flag: 'hasCharger', label: 'Phone Charger', icon: 'phone-portrait-outline' },
+  { feature: 'refreshments', flag: 'hasRefreshments', label: 'Refreshments', icon: 'cafe-outline' },
+  { feature: 'music', flag: 'hasMusicSystem', label: 'Music System', icon: 'musical-notes-outline' },
+];
+
+export const findRideFeature = (feature: RideFeature) =>
+  RIDE_FEATURE_OPTIONS.find((option) => option.feature === feature);
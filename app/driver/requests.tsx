@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, Pressable, RefreshControl, ActivityIndicator, Alert, ViewStyle, TextStyle } from 'react-native';
+import { Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { colors } from '../theme/colors';
+import { typography } from '../theme/typography';
+import Avatar from '../components/Avatar';
+import { bookingService, BookingError } from '../services/bookingService';
+import { BookingRequest } from '../types/booking';
+
+export default function BookingRequestsScreen() {
+  const [requests, setRequests] = useState<BookingRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRequests();
+  }, []);
+
+  const loadRequests = async () => {
+    try {
+      const data = await bookingService.getPendingRequests();
+      setRequests(data);
+    } catch (error) {
+      console.error('Error loading booking requests:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadRequests();
+  };
+
+  const handleDecision = async (request: BookingRequest, accept: boolean) => {
+    try {
+      setProcessingId(request.id);
+      if (accept) {
+        await bookingService.acceptBooking(request.id);
+      } else {
+        await bookingService.declineBooking(request.id);
+      }
+      setRequests(prev => prev.filter(item => item.id !== request.id));
+    } catch (error) {
+      const message = error instanceof BookingError ? error.message : 'Failed to update booking';
+      Alert.alert('Error', message);
+      loadRequests();
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const renderRequest = ({ item }: { item: BookingRequest }) => {
+    const processing = processingId === item.id;
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.passengerRow}>
+          <Avatar
+            size={48}
+            imageUrl={item.passenger.avatar_url}
+            name={item.passenger.full_name || ''}
+          />
+          <View style={styles.passengerInfo}>
+            <Text style={styles.passengerName}>{item.passenger.full_name || 'Passenger'}</Text>
+            <View style={styles.ratingRow}>
+              <Ionicons name="star" size={14} color={colors.status.warning} />
+              <Text style={styles.metaText}>
+                {item.passenger.rating ? item.passenger.rating.toFixed(1) : 'New'}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.seats}>
+            {item.seats_booked} {item.seats_booked === 1 ? 'seat' : 'seats'}
+          </Text>
+        </View>
+
+        <Text style={styles.route}>
+          {item.ride.origin_address} → {item.ride.destination_address}
+        </Text>
+        <Text style={styles.metaText}>
+          {format(new Date(item.ride.departure_time), 'EEE, MMM d • h:mm a')}
+        </Text>
+
+        <View style={styles.actions}>
+          <Pressable
+            style={[styles.actionButton, styles.declineButton]}
+            onPress={() => handleDecision(item, false)}
+            disabled={processing}
+          >
+            <Text style={[styles.actionText, { color: colors.status.error }]}>Decline</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.actionButton, styles.acceptButton]}
+            onPress={() => handleDecision(item, true)}
+            disabled={processing}
+          >
+            {processing ? (
+              <ActivityIndicator color={colors.text.inverse} />
+            ) : (
+              <Text style={[styles.actionText, { color: colors.text.inverse }]}>Accept</Text>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Booking Requests' }} />
+      <FlatList
+        style={styles.container}
+        data={requests}
+        renderItem={renderRequest}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.text.primary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            {loading ? (
+              <ActivityIndicator size="large" color={colors.primary.electricIndigo} />
+            ) : (
+              <>
+                <Ionicons name="checkmark-done-outline" size={48} color={colors.text.disabled} />
+                <Text style={styles.emptyText}>No booking requests waiting for you</Text>
+              </>
+            )}
+          </View>
+        }
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  } as ViewStyle,
+  list: {
+    padding: 16,
+    gap: 16,
+  } as ViewStyle,
+  card: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+  } as ViewStyle,
+  passengerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  } as ViewStyle,
+  passengerInfo: {
+    flex: 1,
+  } as ViewStyle,
+  passengerName: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.primary,
+  } as TextStyle,
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  } as ViewStyle,
+  seats: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.primary.deepPurple,
+  } as TextStyle,
+  route: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.primary,
+  } as TextStyle,
+  metaText: {
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.disabled,
+  } as TextStyle,
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  } as ViewStyle,
+  actionButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  } as ViewStyle,
+  acceptButton: {
+    backgroundColor: colors.primary.electricIndigo,
+  } as ViewStyle,
+  declineButton: {
+    borderWidth: 1,
+    borderColor: colors.status.error,
+  } as ViewStyle,
+  actionText: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+  } as TextStyle,
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  } as ViewStyle,
+  emptyText: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginTop: 16,
+  } as TextStyle,
+});
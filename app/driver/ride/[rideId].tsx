@@ -0,0 +1,435 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, Pressable, RefreshControl, ActivityIndicator, Alert, ViewStyle, TextStyle } from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { colors } from '../../theme/colors';
+import { typography } from '../../theme/typography';
+import Avatar from '../../components/Avatar';
+import { ridesRepository } from '../../repositories/rides';
+import {
+  bookingService,
+  BookingError,
+  BOOKING_STATUS_LABELS,
+  canTransition,
+  getPaymentState,
+} from '../../services/bookingService';
+import { BookingStatus, ManifestEntry, PaymentState } from '../../types/booking';
+import { Ride } from '../../types/ride';
+
+const PAYMENT_LABELS: Record<PaymentState, string> = {
+  awaiting_approval: 'Awaiting approval',
+  unpaid: 'Not paid',
+  paid: 'Paid',
+  none: '—',
+};
+
+const PAYMENT_COLORS: Record<PaymentState, string> = {
+  awaiting_approval: colors.status.info,
+  unpaid: colors.status.warning,
+  paid: colors.status.success,
+  none: colors.text.disabled,
+};
+
+export default function RideManifestScreen() {
+  const { rideId } = useLocalSearchParams<{ rideId: string }>();
+  const [ride, setRide] = useState<Ride | null>(null);
+  const [manifest, setManifest] = useState<ManifestEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [cancellingRide, setCancellingRide] = useState(false);
+
+  useEffect(() => {
+    loadManifest();
+  }, [rideId]);
+
+  const loadManifest = async () => {
+    try {
+      const [rideData, entries] = await Promise.all([
+        ridesRepository.getRide(rideId),
+        bookingService.getRideManifest(rideId),
+      ]);
+
+      setRide(rideData);
+      setManifest(entries);
+    } catch (error) {
+      console.error('Error loading ride manifest:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadManifest();
+  };
+
+  const updateStatus = async (entry: ManifestEntry, status: BookingStatus) => {
+    try {
+      setProcessingId(entry.id);
+      await bookingService.transitionBooking(entry.id, status);
+      await loadManifest();
+    } catch (error) {
+      const message = error instanceof BookingError ? error.message : 'Failed to update booking';
+      Alert.alert('Error', message);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleRemove = async (entry: ManifestEntry) => {
+    // Pending requests are declined, confirmed bookings are cancelled by the driver
+    const status: BookingStatus = entry.status === 'requested' ? 'declined' : 'cancelled_by_driver';
+    const name = entry.passenger.full_name || 'this passenger';
+    let message = `Remove ${name} from the ride? Their seats will be released.`;
+
+    if (status === 'cancelled_by_driver') {
+      try {
+        setProcessingId(entry.id);
+        const quote = await bookingService.getCancellationQuote(entry.id);
+        if (quote.paid) {
+          message += ` UGX ${quote.refund.toLocaleString()} will be refunded to them.`;
+        }
+        message += ' Cancelling a confirmed booking lowers your reliability score.';
+      } catch (error) {
+        Alert.alert('Error', error instanceof BookingError ? error.message : 'Failed to load the cancellation policy');
+        return;
+      } finally {
+        setProcessingId(null);
+      }
+    }
+
+    Alert.alert(
+      'Remove passenger',
+      message,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => updateStatus(entry, status) },
+      ]
+    );
+  };
+
+  const cancelRide = async () => {
+    try {
+      setCancellingRide(true);
+      await bookingService.cancelRide(rideId);
+      await loadManifest();
+    } catch (error) {
+      const message = error instanceof BookingError ? error.message : 'Failed to cancel ride';
+      Alert.alert('Error', message);
+    } finally {
+      setCancellingRide(false);
+    }
+  };
+
+  const handleCancelRide = async () => {
+    let message = 'Cancel this ride? It will no longer take bookings.';
+
+    try {
+      setCancellingRide(true);
+      const quote = await bookingService.getRideCancellationQuote(rideId);
+      if (quote.passengers > 0) {
+        message += ` ${quote.passengers} confirmed ${quote.passengers === 1 ? 'passenger' : 'passengers'} will be cancelled`;
+        message += quote.refund > 0 ? ` and refunded UGX ${quote.refund.toLocaleString()} in total.` : '.';
+        message += ' This lowers your reliability score.';
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof BookingError ? error.message : 'Failed to load the cancellation policy');
+      return;
+    } finally {
+      setCancellingRide(false);
+    }
+
+    Alert.alert(
+      'Cancel ride',
+      message,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Cancel Ride', style: 'destructive', onPress: cancelRide },
+      ]
+    );
+  };
+
+  const handleMessage = (entry: ManifestEntry) => {
+    router.push({
+      pathname: '/chat/[userId]',
+      params: { userId: entry.passenger.id, ride: rideId },
+    });
+  };
+
+  const bookedSeats = manifest
+    .filter(entry => entry.status !== 'requested')
+    .reduce((sum, entry) => sum + entry.seats_booked, 0);
+
+  const renderHeader = () => ride && (
+    <View style={styles.summaryCard}>
+      <Text style={styles.route}>
+        {ride.origin.address} → {ride.destination.address}
+      </Text>
+      <Text style={styles.metaText}>
+        {format(new Date(ride.departure_time), 'EEE, MMM d • h:mm a')}
+      </Text>
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{bookedSeats}</Text>
+          <Text style={styles.metaText}>Seats booked</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{ride.available_seats}</Text>
+          <Text style={styles.metaText}>Seats left</Text>
+        </View>
+      </View>
+      {ride.status === 'cancelled' && (
+        <Text style={styles.cancelledText}>This ride has been cancelled</Text>
+      )}
+      {ride.status === 'active' && (
+        <Pressable style={styles.cancelRideButton} onPress={handleCancelRide} disabled={cancellingRide}>
+          {cancellingRide ? (
+            <ActivityIndicator color={colors.text.inverse} />
+          ) : (
+            <>
+              <Ionicons name="close-circle-outline" size={18} color={colors.text.inverse} />
+              <Text style={styles.cancelRideText}>Cancel ride</Text>
+            </>
+          )}
+        </Pressable>
+      )}
+    </View>
+  );
+
+  const hasDeparted = ride ? new Date(ride.departure_time) <= new Date() : false;
+
+  const renderEntry = ({ item }: { item: ManifestEntry }) => {
+    const paymentState = getPaymentState(item.status);
+    const processing = processingId === item.id;
+    // Boarding releases the fare to the driver, so the server only allows it after departure
+    const canBoard = hasDeparted && canTransition(item.status, 'boarded', 'driver');
+    const canRemove = canTransition(item.status, 'declined', 'driver') ||
+      canTransition(item.status, 'cancelled_by_driver', 'driver');
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.passengerRow}>
+          <Avatar
+            size={48}
+            imageUrl={item.passenger.avatar_url}
+            name={item.passenger.full_name || ''}
+          />
+          <View style={styles.passengerInfo}>
+            <Text style={styles.passengerName}>{item.passenger.full_name || 'Passenger'}</Text>
+            <Text style={styles.metaText}>
+              {item.seats_booked} {item.seats_booked === 1 ? 'seat' : 'seats'} • {BOOKING_STATUS_LABELS[item.status]}
+            </Text>
+          </View>
+          <View style={[styles.paymentBadge, { backgroundColor: PAYMENT_COLORS[paymentState] }]}>
+            <Text style={styles.paymentBadgeText}>{PAYMENT_LABELS[paymentState]}</Text>
+          </View>
+        </View>
+
+        {item.pickup_note && (
+          <View style={styles.noteRow}>
+            <Ionicons name="location-outline" size={16} color={colors.text.secondary} />
+            <Text style={styles.noteText}>{item.pickup_note}</Text>
+          </View>
+        )}
+
+        <View style={styles.actions}>
+          <Pressable style={styles.actionButton} onPress={() => handleMessage(item)}>
+            <Ionicons name="chatbubble-outline" size={18} color={colors.primary.electricIndigo} />
+            <Text style={styles.actionText}>Message</Text>
+          </Pressable>
+          {canBoard && (
+            <Pressable
+              style={styles.actionButton}
+              onPress={() => updateStatus(item, 'boarded')}
+              disabled={processing}
+            >
+              <Ionicons name="checkmark-circle-outline" size={18} color={colors.status.success} />
+              <Text style={styles.actionText}>Boarded</Text>
+            </Pressable>
+          )}
+          {canRemove && (
+            <Pressable
+              style={styles.actionButton}
+              onPress={() => handleRemove(item)}
+              disabled={processing}
+            >
+              <Ionicons name="person-remove-outline" size={18} color={colors.status.error} />
+              <Text style={styles.actionText}>Remove</Text>
+            </Pressable>
+          )}
+          {processing && <ActivityIndicator color={colors.primary.electricIndigo} />}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Passenger Manifest' }} />
+      <FlatList
+        style={styles.container}
+        data={manifest}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={renderHeader}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.text.primary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            {loading ? (
+              <ActivityIndicator size="large" color={colors.primary.electricIndigo} />
+            ) : (
+              <>
+                <Ionicons name="people-outline" size={48} color={colors.text.disabled} />
+                <Text style={styles.emptyText}>No passengers have booked this ride yet</Text>
+              </>
+            )}
+          </View>
+        }
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  } as ViewStyle,
+  list: {
+    padding: 16,
+    gap: 16,
+  } as ViewStyle,
+  summaryCard: {
+    backgroundColor: colors.primary.deepPurple,
+    borderRadius: 12,
+    padding: 16,
+    gap: 4,
+  } as ViewStyle,
+  route: {
+    fontSize: typography.sizes.h3,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  } as TextStyle,
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 32,
+    marginTop: 12,
+  } as ViewStyle,
+  summaryItem: {
+    gap: 2,
+  } as ViewStyle,
+  summaryValue: {
+    fontSize: typography.sizes.metrics,
+    fontFamily: typography.fonts.metrics,
+    fontWeight: '700',
+    color: colors.text.inverse,
+  } as TextStyle,
+  cancelledText: {
+    marginTop: 12,
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  } as TextStyle,
+  cancelRideButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: colors.status.error,
+  } as ViewStyle,
+  cancelRideText: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  } as TextStyle,
+  card: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  } as ViewStyle,
+  passengerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  } as ViewStyle,
+  passengerInfo: {
+    flex: 1,
+  } as ViewStyle,
+  passengerName: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.primary,
+  } as TextStyle,
+  metaText: {
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.disabled,
+  } as TextStyle,
+  paymentBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  } as ViewStyle,
+  paymentBadgeText: {
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '600',
+    color: colors.text.inverse,
+  } as TextStyle,
+  noteRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  } as ViewStyle,
+  noteText: {
+    flex: 1,
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.secondary,
+  } as TextStyle,
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  } as ViewStyle,
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  } as ViewStyle,
+  actionText: {
+    fontSize: typography.sizes.body2,
+    fontFamily: typography.fonts.primary,
+    fontWeight: '500',
+    color: colors.text.primary,
+  } as TextStyle,
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  } as ViewStyle,
+  emptyText: {
+    fontSize: typography.sizes.body1,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginTop: 16,
+  } as TextStyle,
+});
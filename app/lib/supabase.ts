@@ -1,20 +1,58 @@
 import 'react-native-url-polyfill/auto';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createClient } from '@supabase/supabase-js';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import * as aesjs from 'aes-js';
 import Constants from 'expo-constants';
+import { Database } from '../types/database';
 
-const ExpoSecureStoreAdapter = {
-  getItem: (key: string) => {
-    return SecureStore.getItemAsync(key);
-  },
-  setItem: (key: string, value: string) => {
-    return SecureStore.setItemAsync(key, value);
-  },
-  removeItem: (key: string) => {
-    return SecureStore.deleteItemAsync(key);
-  },
-};
+/**
+ * Sessions are too big for SecureStore's 2048-byte values, so each one is
+ * AES-encrypted into AsyncStorage and only its key goes in the keychain/
+ * keystore. A session saved in plain text by an older version is read as-is
+ * and encrypted the next time it's refreshed, so nobody is signed out.
+ */
+class LargeSecureStore {
+  private async encrypt(key: string, value: string) {
+    const encryptionKey = Crypto.getRandomBytes(256 / 8);
+    const cipher = new aesjs.ModeOfOperation.ctr(encryptionKey, new aesjs.Counter(1));
+    const encryptedBytes = cipher.encrypt(aesjs.utils.utf8.toBytes(value));
+
+    await SecureStore.setItemAsync(key, aesjs.utils.hex.fromBytes(encryptionKey));
+    return aesjs.utils.hex.fromBytes(encryptedBytes);
+  }
+
+  private async decrypt(key: string, value: string) {
+    const encryptionKeyHex = await SecureStore.getItemAsync(key);
+    if (!encryptionKeyHex) return value.startsWith('{') ? value : null;
+
+    const cipher = new aesjs.ModeOfOperation.ctr(aesjs.utils.hex.toBytes(encryptionKeyHex), new aesjs.Counter(1));
+    const decryptedBytes = cipher.decrypt(aesjs.utils.hex.toBytes(value));
+    return aesjs.utils.utf8.fromBytes(decryptedBytes);
+  }
+
+  async getItem(key: string) {
+    const encrypted = await AsyncStorage.getItem(key);
+    if (!encrypted) return encrypted;
+
+    return this.decrypt(key, encrypted);
+  }
+
+  async setItem(key: string, value: string) {
+    const encrypted = await this.encrypt(key, value);
+    await AsyncStorage.setItem(key, encrypted);
+  }
+
+  async removeItem(key: string) {
+    await AsyncStorage.removeItem(key);
+    await SecureStore.deleteItemAsync(key);
+  }
+}
+
+// SecureStore isn't available on web, where the browser's storage is used as before
+const sessionStorage = Platform.OS === 'web' ? AsyncStorage : new LargeSecureStore();
 
 // Get the localhost IP for iOS simulator
 const localhostUrl = '10.0.2.2'; // Android emulator
@@ -31,9 +69,9 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 console.log('Connecting to Supabase URL:', supabaseUrl);
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   auth: {
-    storage: AsyncStorage,
+    storage: sessionStorage,
     autoRefreshToken: true,
     persistSession: true,
     detectSessionInUrl: false,
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { View, FlatList, StyleSheet, Pressable, ActivityIndicator, RefreshControl } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { useColorScheme, ThemedText, ThemedView, openNotification } from './components';
+import Colors from './constants/Colors';
+import { supabase } from './lib/supabase';
+import { notificationsRepository } from './repositories/notifications';
+import { AppNotification } from './types/notifications';
+
+export default function NotificationsScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+
+    const subscribe = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      channel = supabase
+        .channel(`notifications:${user.id}`)
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+          (payload) => setNotifications((current) => [payload.new as AppNotification, ...current])
+        )
+        .subscribe();
+    };
+
+    loadNotifications();
+    subscribe();
+
+    return () => {
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const loadNotifications = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not found');
+
+      setNotifications(await notificationsRepository.getNotifications(user.id));
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadNotifications();
+  };
+
+  const markRead = async (notificationIds?: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((notification) =>
+        !notification.read_at && (!notificationIds || notificationIds.includes(notification.id))
+          ? { ...notification, read_at: readAt }
+          : notification
+      )
+    );
+
+    try {
+      await notificationsRepository.markRead(notificationIds);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const handlePress = (notification: AppNotification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    openNotification(router, notification.data);
+  };
+
+  const hasUnread = notifications.some((notification) => !notification.read_at);
+
+  const renderNotification = ({ item }: { item: AppNotification }) => (
+    <Pressable onPress={() => handlePress(item)}>
+      <ThemedView style={[styles.item, { borderBottomColor: Colors[colorScheme].border }]}>
+        <View style={styles.iconContainer}>
+          <Ionicons name="car" size={22} color={Colors[colorScheme].tint} />
+        </View>
+        <View style={styles.itemContent}>
+          <ThemedText style={[styles.itemTitle, !item.read_at && styles.unreadTitle]}>{item.title}</ThemedText>
+          <ThemedText style={styles.itemBody}>{item.body}</ThemedText>
+          <ThemedText style={styles.itemTime}>
+            {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+          </ThemedText>
+        </View>
+        {!item.read_at && <View style={[styles.unreadDot, { backgroundColor: Colors[colorScheme].tint }]} />}
+      </ThemedView>
+    </Pressable>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors[colorScheme].tint} />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={notifications}
+      renderItem={renderNotification}
+      keyExtractor={(item) => item.id}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      ListHeaderComponent={
+        hasUnread ? (
+          <Pressable style={styles.markAllButton} onPress={() => markRead()}>
+            <ThemedText style={[styles.markAllText, { color: Colors[colorScheme].tint }]}>Mark all as read</ThemedText>
+          </Pressable>
+        ) : null
+      }
+      ListEmptyComponent={
+        <View style={styles.emptyContainer}>
+          <Ionicons name="notifications-outline" size={48} color={Colors[colorScheme].text} />
+          <ThemedText style={styles.emptyText}>
+            No notifications yet. Save a search to hear about new rides on your route.
+          </ThemedText>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  markAllButton: {
+    alignSelf: 'flex-end',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  markAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 16,
+    gap: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(67, 97, 238, 0.1)',
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    marginBottom: 4,
+  },
+  unreadTitle: {
+    fontWeight: 'bold',
+  },
+  itemBody: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  itemTime: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 6,
+  },
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    opacity: 0.7,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, ScrollView, StyleSheet, TextInput, Pressable, Switch, ViewStyle, TextStyle, Alert } from 'react-native';
 import { Stack, router } from 'expo-router';
 import { colors } from './theme/colors';
@@ -9,24 +9,15 @@ import CityInput from './components/CityInput';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { format } from 'date-fns';
 import { supabase } from './lib/supabase';
-
-type City = {
-  id: string;
-  name: string;
-  region: string;
-};
-
-type CarFeatures = {
-  hasAirCon: boolean;
-  hasLuggageSpace: boolean;
-  hasWifi: boolean;
-  allowsSmoking: boolean;
-  allowsPets: boolean;
-  hasChildSeat: boolean;
-  hasCharger: boolean;
-  hasRefreshments: boolean;
-  hasMusicSystem: boolean;
-};
+import { BookingMode } from './types/booking';
+import { CarFeatures } from './types/ride';
+import { City } from './constants/cities';
+import { RIDE_FEATURE_OPTIONS } from './constants/rideFeatures';
+import { cityToLocation } from './utils/rides';
+import { profilesRepository } from './repositories/profiles';
+import { ridesRepository } from './repositories/rides';
+import { getDriverEarnings, pricingService } from './services/pricingService';
+import { PricingRules } from './types/pricing';
 
 type ValidationErrors = {
   origin?: string;
@@ -46,6 +37,7 @@ export default function PostRideScreen() {
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
   const [pricePerSeat, setPricePerSeat] = useState('');
+  const [pricingRules, setPricingRules] = useState<PricingRules | null>(null);
   const [availableSeats, setAvailableSeats] = useState('');
   const [carMake, setCarMake] = useState('');
   const [carModel, setCarModel] = useState('');
@@ -68,12 +60,35 @@ export default function PostRideScreen() {
   const [pickupLocation, setPickupLocation] = useState('');
   const [dropoffLocation, setDropoffLocation] = useState('');
   const [carPlateNumber, setCarPlateNumber] = useState('');
-  const [additionalFeatures, setAdditionalFeatures] = useState<CarFeatures>({
-    ...carFeatures,
-    hasCharger: false,
-    hasRefreshments: false,
-    hasMusicSystem: false,
-  });
+  const [bookingMode, setBookingMode] = useState<BookingMode>('instant');
+  const [womenOnly, setWomenOnly] = useState(false);
+  // Only women can offer women-only rides
+  const [canOfferWomenOnly, setCanOfferWomenOnly] = useState(false);
+
+  useEffect(() => {
+    loadPricingRules();
+    loadDriverProfile();
+  }, []);
+
+  const loadDriverProfile = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const profile = await profilesRepository.getProfile(user.id);
+      setCanOfferWomenOnly(profile.gender === 'female');
+    } catch (error) {
+      console.error('Error loading profile:', error);
+    }
+  };
+
+  const loadPricingRules = async () => {
+    try {
+      setPricingRules(await pricingService.getRules());
+    } catch (error) {
+      console.error('Error loading pricing rules:', error);
+    }
+  };
 
   const validateForm = () => {
     const newErrors: ValidationErrors = {};
@@ -103,12 +118,7 @@ export default function PostRideScreen() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('No user found');
 
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('id', user.id)
-        .single();
-      if (!profile) throw new Error('No profile found');
+      const profile = await profilesRepository.getProfile(user.id);
 
       const departureDateTime = new Date(
         departureDate.getFullYear(),
@@ -118,32 +128,28 @@ export default function PostRideScreen() {
         departureTime.getMinutes()
       );
 
-      const { data: ride, error } = await supabase
-        .from('rides')
-        .insert({
-          driver_id: profile.id,
-          origin_city: origin.name,
-          destination_city: destination.name,
-          departure_time: departureDateTime.toISOString(),
-          price_per_seat: parseInt(pricePerSeat),
-          available_seats: parseInt(availableSeats),
-          description,
-          pickup_location: pickupLocation,
-          dropoff_location: dropoffLocation,
-          car_details: {
-            make: carMake,
-            model: carModel,
-            year: parseInt(carYear),
-            color: carColor,
-            plate_number: carPlateNumber,
-            features: additionalFeatures,
-          },
-          status: 'active',
-        })
-        .select()
-        .single();
+      await ridesRepository.createRide({
+        driver_id: profile.id,
+        origin: cityToLocation(origin),
+        destination: cityToLocation(destination),
+        departure_time: departureDateTime.toISOString(),
+        price_per_seat: parseInt(pricePerSeat),
+        available_seats: parseInt(availableSeats),
+        booking_mode: bookingMode,
+        description,
+        pickup_location: pickupLocation,
+        dropoff_location: dropoffLocation,
+        car_details: {
+          make: carMake,
+          model: carModel,
+          year: parseInt(carYear),
+          color: carColor,
+          plate_number: carPlateNumber,
+          features: carFeatures,
+        },
+        women_only: canOfferWomenOnly && womenOnly,
+      });
 
-      if (error) throw error;
       Alert.alert('Success', 'Your ride has been posted successfully!');
       router.push('/(tabs)');
     } catch (error) {
@@ -277,6 +283,11 @@ export default function PostRideScreen() {
                 onChangeText={setPricePerSeat}
                 keyboardType="numeric"
               />
+              {pricingRules && parseInt(pricePerSeat) > 0 && (
+                <Text style={styles.hintText}>
+                  You receive UGX {getDriverEarnings(pricingRules, parseInt(pricePerSeat)).toLocaleString()} per seat
+                </Text>
+              )}
             </View>
             <View style={styles.halfInput}>
               <Text style={styles.label}>Available seats</Text>
@@ -291,6 +302,33 @@ export default function PostRideScreen() {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Booking Preferences</Text>
+          <View style={styles.switchContainer}>
+            <View style={styles.switchInfo}>
+              <Text style={styles.switchLabel}>Instant booking</Text>
+              <Text style={styles.switchDescription}>
+                {bookingMode === 'instant'
+                  ? 'Passengers are confirmed as soon as they book'
+                  : 'You approve or decline each booking request'}
+              </Text>
+            </View>
+            <Switch
+              value={bookingMode === 'instant'}
+              onValueChange={(value) => setBookingMode(value ? 'instant' : 'manual')}
+            />
+          </View>
+          {canOfferWomenOnly && (
+            <View style={styles.switchContainer}>
+              <View style={styles.switchInfo}>
+                <Text style={styles.switchLabel}>Women only</Text>
+                <Text style={styles.switchDescription}>Only women passengers can book a seat</Text>
+              </View>
+              <Switch value={womenOnly} onValueChange={setWomenOnly} />
+            </View>
+          )}
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Vehicle Details</Text>
           <View style={styles.row}>
@@ -353,104 +391,18 @@ export default function PostRideScreen() {
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Vehicle Features</Text>
           <View style={styles.featuresList}>
-            <View style={styles.featureItem}>
-              <View style={styles.featureInfo}>
-                <Ionicons name="snow-outline" size={24} color={colors.text.primary} />
-                <Text style={styles.featureLabel}>Air Conditioning</Text>
-              </View>
-              <Switch
-                value={carFeatures.hasAirCon}
-                onValueChange={(value) => setCarFeatures(prev => ({ ...prev, hasAirCon: value }))}
-              />
-            </View>
-
-            <View style={styles.featureItem}>
-              <View style={styles.featureInfo}>
-                <Ionicons name="briefcase-outline" size={24} color={colors.text.primary} />
-                <Text style={styles.featureLabel}>Luggage Space</Text>
-              </View>
-              <Switch
-                value={carFeatures.hasLuggageSpace}
-                onValueChange={(value) => setCarFeatures(prev => ({ ...prev, hasLuggageSpace: value }))}
-              />
-            </View>
-
-            <View style={styles.featureItem}>
-              <View style={styles.featureInfo}>
-                <Ionicons name="wifi-outline" size={24} color={colors.text.primary} />
-                <Text style={styles.featureLabel}>WiFi</Text>
-              </View>
-              <Switch
-                value={carFeatures.hasWifi}
-                onValueChange={(value) => setCarFeatures(prev => ({ ...prev, hasWifi: value }))}
-              />
-            </View>
-
-            <View style={styles.featureItem}>
-              <View style={styles.featureInfo}>
-                <Ionicons name="leaf-outline" size={24} color={colors.text.primary} />
-                <Text style={styles.featureLabel}>Smoking Allowed</Text>
-              </View>
-              <Switch
-                value={carFeatures.allowsSmoking}
-                onValueChange={(value) => setCarFeatures(prev => ({ ...prev, allowsSmoking: value }))}
-              />
-            </View>
-
-            <View style={styles.featureItem}>
-              <View style={styles.featureInfo}>
-                <Ionicons name="paw-outline" size={24} color={colors.text.primary} />
-                <Text style={styles.featureLabel}>Pets Allowed</Text>
-              </View>
-              <Switch
-                value={carFeatures.allowsPets}
-                onValueChange={(value) => setCarFeatures(prev => ({ ...prev, allowsPets: value }))}
-              />
-            </View>
-
-            <View style={styles.featureItem}>
-              <View style={styles.featureInfo}>
-                <Ionicons name="car-sport-outline" size={24} color={colors.text.primary} />
-                <Text style={styles.featureLabel}>Child Seat</Text>
-              </View>
-              <Switch
-                value={carFeatures.hasChildSeat}
-                onValueChange={(value) => setCarFeatures(prev => ({ ...prev, hasChildSeat: value }))}
-              />
-            </View>
-
-            <View style={styles.featureItem}>
-              <View style={styles.featureInfo}>
-                <Ionicons name="phone-portrait-outline" size={24} color={colors.text.primary} />
-                <Text style={styles.featureLabel}>Phone Charger</Text>
-              </View>
-              <Switch
-                value={additionalFeatures.hasCharger}
-                onValueChange={(value) => setAdditionalFeatures(prev => ({ ...prev, hasCharger: value }))}
-              />
-            </View>
-
-            <View style={styles.featureItem}>
-              <View style={styles.featureInfo}>
-                <Ionicons name="cafe-outline" size={24} color={colors.text.primary} />
-                <Text style={styles.featureLabel}>Refreshments</Text>
-              </View>
-              <Switch
-                value={additionalFeatures.hasRefreshments}
-                onValueChange={(value) => setAdditionalFeatures(prev => ({ ...prev, hasRefreshments: value }))}
-              />
-            </View>
-
-            <View style={styles.featureItem}>
-              <View style={styles.featureInfo}>
-                <Ionicons name="musical-notes-outline" size={24} color={colors.text.primary} />
-                <Text style={styles.featureLabel}>Music System</Text>
+            {RIDE_FEATURE_OPTIONS.map(({ flag, label, icon }) => (
+              <View key={flag} style={styles.featureItem}>
+                <View style={styles.featureInfo}>
+                  <Ionicons name={icon} size={24} color={colors.text.primary} />
+                  <Text style={styles.featureLabel}>{label}</Text>
+                </View>
+                <Switch
+                  value={carFeatures[flag]}
+                  onValueChange={(value) => setCarFeatures(prev => ({ ...prev, [flag]: value }))}
+                />
               </View>
-              <Switch
-                value={additionalFeatures.hasMusicSystem}
-                onValueChange={(value) => setAdditionalFeatures(prev => ({ ...prev, hasMusicSystem: value }))}
-              />
-            </View>
+            ))}
           </View>
         </View>
 
@@ -580,6 +532,12 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: colors.status.error,
   } as TextStyle,
+  hintText: {
+    color: colors.text.secondary,
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    marginTop: 4,
+  } as TextStyle,
   errorText: {
     color: colors.status.error,
     fontSize: typography.sizes.caption,
@@ -593,9 +551,19 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: 16,
   } as ViewStyle,
+  switchInfo: {
+    flex: 1,
+    marginRight: 16,
+  } as ViewStyle,
   switchLabel: {
     fontSize: typography.sizes.body1,
     fontFamily: typography.fonts.primary,
     color: colors.text.primary,
   } as TextStyle,
+  switchDescription: {
+    fontSize: typography.sizes.caption,
+    fontFamily: typography.fonts.primary,
+    color: colors.text.disabled,
+    marginTop: 4,
+  } as TextStyle,
 }); 
\ No newline at end of file
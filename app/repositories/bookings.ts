@@ -0,0 +1,177 @@
+import { supabase } from '../lib/supabase';
+import { Booking, BookingRequest, BookingStatus, CancellationQuote, ManifestEntry, Trip } from '../types/booking';
+import { TablesInsert } from '../types/database';
+
+/** Bookings that belong on a ride manifest */
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ['requested', 'accepted', 'paid', 'boarded', 'completed'];
+
+const TRIP_SELECT = `
+  *,
+  ride:rides!inner (
+    id,
+    origin_address,
+    destination_address,
+    departure_time,
+    price_per_seat,
+    status,
+    driver:profiles!rides_driver_id_fkey (
+      id,
+      full_name,
+      avatar_url,
+      rating
+    )
+  ),
+  rating:ride_ratings (
+    rating
+  )
+`;
+
+class BookingsRepository {
+  /**
+   * Reserves seats through the `book_ride` RPC, which locks the ride row,
+   * decrements `available_seats` and inserts the booking atomically.
+   */
+  async bookRide(rideId: string, seats: number, promoCode?: string): Promise<Booking> {
+    const { data, error } = await supabase.rpc('book_ride', {
+      p_ride_id: rideId,
+      p_seats: seats,
+      p_promo_code: promoCode ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async transitionBooking(bookingId: string, status: BookingStatus): Promise<Booking> {
+    const { data, error } = await supabase.rpc('transition_booking', {
+      p_booking_id: bookingId,
+      p_status: status,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  /** Moves the fare from the passenger's wallet into escrow and marks the booking paid */
+  async payBooking(bookingId: string, pinToken?: string): Promise<Booking> {
+    const { data, error } = await supabase.rpc('pay_booking', {
+      p_booking_id: bookingId,
+      p_pin_token: pinToken ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  /** What cancelling the booking now would refund, from `cancellation_policy_tiers` */
+  async getCancellationQuote(bookingId: string): Promise<CancellationQuote> {
+    const { data, error } = await supabase.rpc('cancellation_quote', {
+      p_booking_id: bookingId,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updatePickupNote(bookingId: string, note: string): Promise<Booking> {
+    const { data, error } = await supabase.rpc('update_pickup_note', {
+      p_booking_id: bookingId,
+      p_note: note,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getBooking(bookingId: string): Promise<Booking> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('*')
+      .eq('id', bookingId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /** Passengers holding seats on a ride, visible to its driver */
+  async getRideManifest(rideId: string): Promise<ManifestEntry[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        *,
+        passenger:profiles!bookings_passenger_id_fkey (
+          id,
+          full_name,
+          avatar_url
+        )
+      `)
+      .eq('ride_id', rideId)
+      .in('status', ACTIVE_BOOKING_STATUSES)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data as ManifestEntry[];
+  }
+
+  /** Every booking made by a passenger */
+  async getPassengerTrips(passengerId: string): Promise<Trip[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(TRIP_SELECT)
+      .eq('passenger_id', passengerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as Trip[];
+  }
+
+  async getTrip(bookingId: string): Promise<Trip> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(TRIP_SELECT)
+      .eq('id', bookingId)
+      .single();
+
+    if (error) throw error;
+    return data as Trip;
+  }
+
+  /** Booking requests on a driver's rides that are waiting for approval */
+  async getPendingRequests(driverId: string): Promise<BookingRequest[]> {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        *,
+        passenger:profiles!bookings_passenger_id_fkey (
+          id,
+          full_name,
+          avatar_url,
+          rating
+        ),
+        ride:rides!inner (
+          id,
+          origin_address,
+          destination_address,
+          departure_time,
+          driver_id
+        )
+      `)
+      .eq('status', 'requested')
+      .eq('ride.driver_id', driverId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data as BookingRequest[];
+  }
+
+  async createRating(rating: TablesInsert<'ride_ratings'>): Promise<void> {
+    const { error } = await supabase
+      .from('ride_ratings')
+      .insert(rating);
+
+    if (error) throw error;
+  }
+}
+
+export const bookingsRepository = new BookingsRepository();
@@ -0,0 +1,153 @@
+import { supabase } from '../lib/supabase';
+import { ChatMessageType, ChatPreview } from '../types/chat';
+import { Tables, TablesInsert } from '../types/database';
+
+export type ChatRow = Tables<'chats'>;
+export type MessageRow = Tables<'messages'>;
+
+const participantFilter = (userId: string) =>
+  `user_id.eq.${userId},other_user_id.eq.${userId}`;
+
+class ChatsRepository {
+  /** The user's conversations, most recent first, with the latest message of each */
+  async getChats(userId: string): Promise<ChatPreview[]> {
+    const { data, error } = await supabase
+      .from('chats')
+      .select(`
+        id,
+        ride_id,
+        unread_count,
+        user:profiles!chats_user_id_fkey (
+          id,
+          full_name,
+          avatar_url
+        ),
+        other_user:profiles!chats_other_user_id_fkey (
+          id,
+          full_name,
+          avatar_url
+        ),
+        messages (
+          content,
+          type,
+          created_at
+        )
+      `)
+      .or(participantFilter(userId))
+      .order('last_message_at', { ascending: false })
+      .order('created_at', { referencedTable: 'messages', ascending: false })
+      .limit(1, { referencedTable: 'messages' });
+
+    if (error) throw error;
+
+    return data.map(chat => {
+      // Either side of the chat can be the signed-in user
+      const other = chat.user.id === userId ? chat.other_user : chat.user;
+      const lastMessage = chat.messages[0];
+
+      return {
+        id: chat.id,
+        ride_id: chat.ride_id,
+        other_user: {
+          id: other.id,
+          full_name: other.full_name || '',
+          avatar_url: other.avatar_url,
+        },
+        last_message: {
+          content: lastMessage?.content || '',
+          type: (lastMessage?.type || 'text') as ChatMessageType,
+          created_at: lastMessage?.created_at || new Date().toISOString(),
+        },
+        unread_count: chat.unread_count || 0,
+      };
+    });
+  }
+
+  async getUnreadCount(userId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('chats')
+      .select('unread_count')
+      .or(participantFilter(userId));
+
+    if (error) throw error;
+    return data.reduce((sum, chat) => sum + (chat.unread_count || 0), 0);
+  }
+
+  /**
+   * The chat between two users, optionally about a specific ride. A new chat is
+   * only started when a ride is given, since every chat belongs to one.
+   */
+  async getOrCreateChat(userId: string, otherUserId: string, rideId?: string): Promise<ChatRow | null> {
+    let query = supabase
+      .from('chats')
+      .select('*')
+      .or(
+        `and(user_id.eq.${userId},other_user_id.eq.${otherUserId}),` +
+        `and(user_id.eq.${otherUserId},other_user_id.eq.${userId})`
+      )
+      .order('last_message_at', { ascending: false })
+      .limit(1);
+
+    if (rideId) {
+      query = query.eq('ride_id', rideId);
+    }
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    if (data || !rideId) return data;
+
+    const { data: chat, error: insertError } = await supabase
+      .from('chats')
+      .insert({
+        user_id: userId,
+        other_user_id: otherUserId,
+        ride_id: rideId,
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+    return chat;
+  }
+
+  async getMessages(chatId: string): Promise<MessageRow[]> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('chat_id', chatId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async sendMessage(message: TablesInsert<'messages'>): Promise<void> {
+    const { error } = await supabase
+      .from('messages')
+      .insert(message);
+
+    if (error) throw error;
+  }
+
+  async markMessagesRead(chatId: string, senderId: string): Promise<void> {
+    const { error } = await supabase
+      .from('messages')
+      .update({ status: 'read' })
+      .eq('chat_id', chatId)
+      .eq('sender_id', senderId)
+      .neq('status', 'read');
+
+    if (error) throw error;
+  }
+
+  async markMessageDelivered(messageId: string): Promise<void> {
+    const { error } = await supabase
+      .from('messages')
+      .update({ status: 'delivered' })
+      .eq('id', messageId);
+
+    if (error) throw error;
+  }
+}
+
+export const chatsRepository = new ChatsRepository();
@@ -0,0 +1,55 @@
+import { supabase } from '../lib/supabase';
+import { AppNotification, PushPlatform } from '../types/notifications';
+
+class NotificationsRepository {
+  async getNotifications(userId: string, limit = 50): Promise<AppNotification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) throw error;
+    return count ?? 0;
+  }
+
+  /** Marks the given notifications read, or all of them when no ids are passed */
+  async markRead(notificationIds?: string[]): Promise<void> {
+    const { error } = await supabase.rpc('mark_notifications_read', {
+      p_ids: notificationIds ?? null,
+    });
+
+    if (error) throw error;
+  }
+
+  async registerPushToken(token: string, platform: PushPlatform): Promise<void> {
+    const { error } = await supabase.rpc('register_push_token', {
+      p_token: token,
+      p_platform: platform,
+    });
+
+    if (error) throw error;
+  }
+
+  async unregisterPushToken(token: string): Promise<void> {
+    const { error } = await supabase.rpc('unregister_push_token', {
+      p_token: token,
+    });
+
+    if (error) throw error;
+  }
+}
+
+export const notificationsRepository = new NotificationsRepository();
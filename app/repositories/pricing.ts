@@ -0,0 +1,28 @@
+import { supabase } from '../lib/supabase';
+import { FareQuote, PricingRules } from '../types/pricing';
+
+class PricingRepository {
+  async getRules(): Promise<PricingRules> {
+    const { data, error } = await supabase
+      .from('pricing_rules')
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /** Prices a fare with the current rules through the `quote_fare` RPC */
+  async quoteFare(pricePerSeat: number, seats: number, discount = 0): Promise<FareQuote> {
+    const { data, error } = await supabase.rpc('quote_fare', {
+      p_price_per_seat: pricePerSeat,
+      p_seats: seats,
+      p_discount: discount,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+}
+
+export const pricingRepository = new PricingRepository();
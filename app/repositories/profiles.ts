@@ -0,0 +1,71 @@
+import { supabase } from '../lib/supabase';
+import { Tables, TablesInsert, TablesUpdate } from '../types/database';
+
+export type ProfileRow = Tables<'profiles'>;
+
+class ProfilesRepository {
+  async getProfile(userId: string): Promise<ProfileRow> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /** Like `getProfile`, but resolves to null when the profile hasn't been created yet */
+  async findProfile(userId: string): Promise<ProfileRow | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Finds the user registered with a phone number in +256 form. Auth stores
+   * numbers without the leading +, so both spellings are matched.
+   */
+  async findProfileByPhone(phone: string): Promise<ProfileRow | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .in('phone', [phone, phone.replace(/^\+/, '')])
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createProfile(profile: TablesInsert<'profiles'>): Promise<void> {
+    const { error } = await supabase
+      .from('profiles')
+      .insert(profile);
+
+    if (error) throw error;
+  }
+
+  async updateProfile(userId: string, updates: TablesUpdate<'profiles'>): Promise<void> {
+    const { error } = await supabase
+      .from('profiles')
+      .update(updates)
+      .eq('id', userId);
+
+    if (error) throw error;
+  }
+
+  async upsertProfile(profile: TablesInsert<'profiles'>): Promise<void> {
+    const { error } = await supabase
+      .from('profiles')
+      .upsert(profile);
+
+    if (error) throw error;
+  }
+}
+
+export const profilesRepository = new ProfilesRepository();
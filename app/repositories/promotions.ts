@@ -0,0 +1,67 @@
+import { supabase } from '../lib/supabase';
+import { FareQuote } from '../types/pricing';
+import { Referral } from '../types/promotions';
+
+const REFERRAL_SELECT = `
+  *,
+  referee:profiles!referrals_referee_id_fkey (
+    id,
+    full_name,
+    avatar_url
+  )
+`;
+
+class PromotionsRepository {
+  /** Prices a booking for the signed-in user through the `quote_booking` RPC */
+  async quoteBooking(rideId: string, seats: number, promoCode?: string): Promise<FareQuote> {
+    const { data, error } = await supabase.rpc('quote_booking', {
+      p_ride_id: rideId,
+      p_seats: seats,
+      p_promo_code: promoCode ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getReferralCode(): Promise<string> {
+    const { data, error } = await supabase.rpc('my_referral_code');
+
+    if (error) throw error;
+    return data;
+  }
+
+  async redeemReferralCode(code: string): Promise<void> {
+    const { error } = await supabase.rpc('redeem_referral_code', {
+      p_code: code,
+    });
+
+    if (error) throw error;
+  }
+
+  /** People who joined with the user's code, newest first */
+  async getReferrals(referrerId: string): Promise<Referral[]> {
+    const { data, error } = await supabase
+      .from('referrals')
+      .select(REFERRAL_SELECT)
+      .eq('referrer_id', referrerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as Referral[];
+  }
+
+  /** The referral the user signed up with, if any */
+  async getOwnReferral(refereeId: string): Promise<Referral | null> {
+    const { data, error } = await supabase
+      .from('referrals')
+      .select(REFERRAL_SELECT)
+      .eq('referee_id', refereeId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Referral | null;
+  }
+}
+
+export const promotionsRepository = new PromotionsRepository();
@@ -0,0 +1,202 @@
+import { supabase } from '../lib/supabase';
+import { RideCancellationQuote } from '../types/booking';
+import {
+  Ride,
+  RideDraft,
+  RideLocation,
+  RideRouteMatch,
+  RideSearchQuery,
+  RideSortOption,
+  RideWithDriver,
+  RideWithRouteMatch,
+} from '../types/ride';
+import { RIDE_SELECT, RIDE_SELECT_FILTERING_DRIVER, toRide, toRideInsert, toRides } from '../utils/rides';
+
+export const RIDE_SEARCH_PAGE_SIZE = 20;
+
+/** How far a ride's route may pass from the pickup and drop-off to match */
+export const ROUTE_MATCH_RADIUS_KM = 15;
+
+type Coordinates = Pick<RideLocation, 'latitude' | 'longitude'>;
+
+const toRouteMatch = (row: RideRouteMatch): RideRouteMatch => ({
+  ride_id: row.ride_id,
+  pickup_distance_km: Number(row.pickup_distance_km),
+  dropoff_distance_km: Number(row.dropoff_distance_km),
+  detour_km: Number(row.detour_km),
+  trip_share: Number(row.trip_share),
+});
+
+const SORT_COLUMNS: Record<RideSortOption, { column: string; ascending: boolean }> = {
+  price_asc: { column: 'price_per_seat', ascending: true },
+  price_desc: { column: 'price_per_seat', ascending: false },
+  date_asc: { column: 'departure_time', ascending: true },
+  date_desc: { column: 'departure_time', ascending: false },
+  seats_asc: { column: 'available_seats', ascending: true },
+  seats_desc: { column: 'available_seats', ascending: false },
+};
+
+class RidesRepository {
+  /**
+   * One page of open rides matching the search. Ties are broken by departure
+   * time and id so rows don't shift between pages.
+   */
+  async searchRides(search: RideSearchQuery = {}): Promise<RideWithDriver[]> {
+    const now = new Date();
+    const departsAfter = search.departs_after && search.departs_after > now ? search.departs_after : now;
+    const { column, ascending } = SORT_COLUMNS[search.sort ?? 'date_asc'];
+    const offset = search.offset ?? 0;
+    const limit = search.limit ?? RIDE_SEARCH_PAGE_SIZE;
+    const filtersDriver = Boolean(search.min_driver_rating || search.verified_only);
+
+    let query = supabase
+      .from('rides')
+      .select(filtersDriver ? RIDE_SELECT_FILTERING_DRIVER : RIDE_SELECT)
+      .eq('status', 'active')
+      .gte('departure_time', departsAfter.toISOString())
+      .gte('available_seats', Math.max(search.min_seats ?? 1, 1));
+
+    if (search.origin_city) {
+      query = query.eq('origin_city', search.origin_city);
+    }
+    if (search.destination_city) {
+      query = query.eq('destination_city', search.destination_city);
+    }
+    if (search.departs_before) {
+      query = query.lt('departure_time', search.departs_before.toISOString());
+    }
+    if (search.min_price) {
+      query = query.gte('price_per_seat', search.min_price);
+    }
+    if (search.max_price) {
+      query = query.lte('price_per_seat', search.max_price);
+    }
+    if (search.features?.length) {
+      query = query.contains('features', search.features);
+    }
+    if (search.women_only) {
+      query = query.eq('women_only', true);
+    }
+    if (search.min_driver_rating) {
+      query = query.gte('driver.rating', search.min_driver_rating);
+    }
+    if (search.verified_only) {
+      query = query.eq('driver.is_verified', true);
+    }
+
+    query = query.order(column, { ascending });
+    if (column !== 'departure_time') {
+      query = query.order('departure_time', { ascending: true });
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return toRides(data) as RideWithDriver[];
+  }
+
+  /**
+   * One page of open rides passing near both the pickup and the drop-off, in
+   * that order, through `search_rides_along_route`. Covers exact route
+   * matches too, with no detour. Prices in the search apply to the estimate.
+   */
+  async searchAlongRoute(
+    pickup: Coordinates,
+    dropoff: Coordinates,
+    search: RideSearchQuery = {},
+    radiusKm = ROUTE_MATCH_RADIUS_KM
+  ): Promise<RideWithRouteMatch[]> {
+    const { data: matches, error } = await supabase.rpc('search_rides_along_route', {
+      p_pickup_lat: pickup.latitude,
+      p_pickup_lng: pickup.longitude,
+      p_dropoff_lat: dropoff.latitude,
+      p_dropoff_lng: dropoff.longitude,
+      p_radius_km: radiusKm,
+      p_departs_after: search.departs_after?.toISOString() ?? null,
+      p_departs_before: search.departs_before?.toISOString() ?? null,
+      p_min_seats: search.min_seats ?? 1,
+      p_min_price: search.min_price ?? null,
+      p_max_price: search.max_price ?? null,
+      p_features: search.features?.length ? search.features : null,
+      p_min_driver_rating: search.min_driver_rating ?? null,
+      p_verified_only: search.verified_only ?? false,
+      p_women_only: search.women_only ?? false,
+      p_sort: search.sort ?? 'date_asc',
+      p_limit: search.limit ?? RIDE_SEARCH_PAGE_SIZE,
+      p_offset: search.offset ?? 0,
+    });
+
+    if (error) throw error;
+    if (!matches.length) return [];
+
+    const { data, error: ridesError } = await supabase
+      .from('rides')
+      .select(RIDE_SELECT)
+      .in('id', matches.map((match) => match.ride_id));
+
+    if (ridesError) throw ridesError;
+    const rides = new Map(toRides(data).map((ride) => [ride.id, ride as RideWithDriver]));
+
+    // Keep the search's order; a ride cancelled in between is dropped
+    return matches.flatMap((match) => {
+      const ride = rides.get(match.ride_id);
+      return ride ? [{ ...ride, match: toRouteMatch(match) }] : [];
+    });
+  }
+
+  async getRide(rideId: string): Promise<RideWithDriver> {
+    const { data, error } = await supabase
+      .from('rides')
+      .select(RIDE_SELECT)
+      .eq('id', rideId)
+      .single();
+
+    if (error) throw error;
+    return toRide(data) as RideWithDriver;
+  }
+
+  async getDriverRides(driverId: string): Promise<Ride[]> {
+    const { data, error } = await supabase
+      .from('rides')
+      .select('*')
+      .eq('driver_id', driverId)
+      .order('departure_time', { ascending: true });
+
+    if (error) throw error;
+    return toRides(data);
+  }
+
+  async createRide(draft: RideDraft): Promise<Ride> {
+    const { data, error } = await supabase
+      .from('rides')
+      .insert(toRideInsert(draft))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toRide(data);
+  }
+
+  /** Cancels the ride through `cancel_ride`; a trigger then cancels its bookings */
+  async cancelRide(rideId: string): Promise<Ride> {
+    const { data, error } = await supabase.rpc('cancel_ride', {
+      p_ride_id: rideId,
+    });
+
+    if (error) throw error;
+    return toRide(data);
+  }
+
+  async getCancellationQuote(rideId: string): Promise<RideCancellationQuote> {
+    const { data, error } = await supabase.rpc('ride_cancellation_quote', {
+      p_ride_id: rideId,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+}
+
+export const ridesRepository = new RidesRepository();
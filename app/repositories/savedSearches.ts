@@ -0,0 +1,74 @@
+import { supabase } from '../lib/supabase';
+import { TablesInsert } from '../types/database';
+import { SavedSearch, SavedSearchDraft } from '../types/ride';
+
+const toSavedSearchColumns = (draft: SavedSearchDraft): Omit<TablesInsert<'saved_searches'>, 'user_id'> => ({
+  origin_city: draft.origin.city,
+  origin_lat: draft.origin.latitude,
+  origin_lng: draft.origin.longitude,
+  destination_city: draft.destination.city,
+  destination_lat: draft.destination.latitude,
+  destination_lng: draft.destination.longitude,
+  departs_after: draft.departs_after?.toISOString() ?? null,
+  departs_before: draft.departs_before?.toISOString() ?? null,
+  max_price: draft.max_price,
+  min_seats: draft.min_seats,
+});
+
+class SavedSearchesRepository {
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getSavedSearch(savedSearchId: string): Promise<SavedSearch> {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('id', savedSearchId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createSavedSearch(userId: string, draft: SavedSearchDraft): Promise<SavedSearch> {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .insert({ ...toSavedSearchColumns(draft), user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateSavedSearch(savedSearchId: string, draft: SavedSearchDraft): Promise<SavedSearch> {
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .update(toSavedSearchColumns(draft))
+      .eq('id', savedSearchId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteSavedSearch(savedSearchId: string): Promise<void> {
+    const { error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', savedSearchId);
+
+    if (error) throw error;
+  }
+}
+
+export const savedSearchesRepository = new SavedSearchesRepository();
@@ -0,0 +1,32 @@
+import { supabase } from '../lib/supabase';
+import { Json, Tables } from '../types/database';
+
+export type UserSettingsRow = Tables<'user_settings'>;
+
+class SettingsRepository {
+  /** Resolves to null when the user hasn't saved any settings yet */
+  async getSettings(userId: string): Promise<UserSettingsRow | null> {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async saveSettings(userId: string, settings: Json): Promise<void> {
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({
+        user_id: userId,
+        settings,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) throw error;
+  }
+}
+
+export const settingsRepository = new SettingsRepository();
@@ -0,0 +1,110 @@
+import { supabase } from '../lib/supabase';
+import { Tables } from '../types/database';
+import { SplitRequest, WalletTransfer } from '../types/payment';
+
+export type WalletTransferRow = Tables<'wallet_transfers'>;
+
+const PARTY_FIELDS = `
+  id,
+  full_name,
+  avatar_url,
+  phone
+`;
+
+const TRANSFER_SELECT = `
+  *,
+  sender:profiles!wallet_transfers_sender_id_fkey (${PARTY_FIELDS}),
+  recipient:profiles!wallet_transfers_recipient_id_fkey (${PARTY_FIELDS})
+`;
+
+const SPLIT_REQUEST_SELECT = `
+  *,
+  requester:profiles!split_requests_requester_id_fkey (${PARTY_FIELDS}),
+  payer:profiles!split_requests_payer_id_fkey (${PARTY_FIELDS})
+`;
+
+class TransfersRepository {
+  /** Transfers the user sent or received, newest first */
+  async getTransfers(userId: string, limit?: number): Promise<WalletTransfer[]> {
+    let query = supabase
+      .from('wallet_transfers')
+      .select(TRANSFER_SELECT)
+      .or(`sender_id.eq.${userId},recipient_id.eq.${userId}`)
+      .order('created_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data as WalletTransfer[];
+  }
+
+  /** Moves money between wallets through the `transfer_to_wallet` RPC */
+  async transferToWallet(recipientId: string, amount: number, note: string | undefined, pinToken: string): Promise<WalletTransferRow> {
+    const { data, error } = await supabase.rpc('transfer_to_wallet', {
+      p_recipient_id: recipientId,
+      p_amount: amount,
+      p_note: note ?? null,
+      p_pin_token: pinToken,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  /** Split requests the user has been asked to pay that are still open */
+  async getPendingSplitRequests(payerId: string): Promise<SplitRequest[]> {
+    const { data, error } = await supabase
+      .from('split_requests')
+      .select(SPLIT_REQUEST_SELECT)
+      .eq('payer_id', payerId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as SplitRequest[];
+  }
+
+  /** Every share requested for a booking, whatever its status */
+  async getBookingSplitRequests(bookingId: string): Promise<SplitRequest[]> {
+    const { data, error } = await supabase
+      .from('split_requests')
+      .select(SPLIT_REQUEST_SELECT)
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data as SplitRequest[];
+  }
+
+  async splitBooking(bookingId: string, payerIds: string[]): Promise<void> {
+    const { error } = await supabase.rpc('split_booking', {
+      p_booking_id: bookingId,
+      p_payer_ids: payerIds,
+    });
+
+    if (error) throw error;
+  }
+
+  async respondToSplitRequest(requestId: string, accept: boolean, pinToken?: string): Promise<void> {
+    const { error } = await supabase.rpc('respond_to_split_request', {
+      p_request_id: requestId,
+      p_accept: accept,
+      p_pin_token: pinToken ?? null,
+    });
+
+    if (error) throw error;
+  }
+
+  async cancelSplitRequest(requestId: string): Promise<void> {
+    const { error } = await supabase.rpc('cancel_split_request', {
+      p_request_id: requestId,
+    });
+
+    if (error) throw error;
+  }
+}
+
+export const transfersRepository = new TransfersRepository();
@@ -0,0 +1,128 @@
+import { supabase } from '../lib/supabase';
+import { Tables } from '../types/database';
+import { WalletStatement } from '../types/payment';
+
+export type WalletRow = Tables<'wallets'>;
+export type TransactionRow = Tables<'transactions'>;
+export type PayoutRow = Tables<'payouts'>;
+export type JournalEntryRow = Tables<'journal_entries'>;
+
+export type TransactionQuery = {
+  type?: TransactionRow['type'];
+  status?: TransactionRow['status'];
+  /** Only transactions created at or after this time */
+  since?: Date;
+  limit?: number;
+};
+
+class WalletRepository {
+  async getWallet(userId: string): Promise<WalletRow> {
+    const { data, error } = await supabase
+      .from('wallets')
+      .select('*')
+      .eq('user_id', userId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getTransactions(userId: string, options: TransactionQuery = {}): Promise<TransactionRow[]> {
+    let query = supabase
+      .from('transactions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (options.type) {
+      query = query.eq('type', options.type);
+    }
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+    if (options.since) {
+      query = query.gte('created_at', options.since.toISOString());
+    }
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data;
+  }
+
+  async getTransaction(transactionId: string): Promise<TransactionRow> {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('id', transactionId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getTransactionByReference(reference: string): Promise<TransactionRow> {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('reference', reference)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getPayouts(userId: string, limit?: number): Promise<PayoutRow[]> {
+    let query = supabase
+      .from('payouts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data;
+  }
+
+  async getPayout(payoutId: string): Promise<PayoutRow> {
+    const { data, error } = await supabase
+      .from('payouts')
+      .select('*')
+      .eq('id', payoutId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /** Ledger entries posted for these references that touch the user's own accounts */
+  async getJournalEntries(references: string[]): Promise<JournalEntryRow[]> {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select('*')
+      .in('reference', references)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data;
+  }
+
+  /** The signed-in user's statement for [from, to), built from the ledger */
+  async getStatement(from: Date, to: Date): Promise<WalletStatement> {
+    const { data, error } = await supabase.rpc('wallet_statement', {
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+    });
+
+    if (error) throw error;
+    return data;
+  }
+}
+
+export const walletRepository = new WalletRepository();
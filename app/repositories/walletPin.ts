@@ -0,0 +1,31 @@
+import { supabase } from '../lib/supabase';
+import { WalletPinStatus, WalletPinVerification } from '../types/payment';
+
+class WalletPinRepository {
+  async getStatus(): Promise<WalletPinStatus> {
+    const { data, error } = await supabase.rpc('wallet_pin_status');
+
+    if (error) throw error;
+    return data;
+  }
+
+  async setPin(pin: string): Promise<void> {
+    const { error } = await supabase.rpc('set_wallet_pin', {
+      p_pin: pin,
+    });
+
+    if (error) throw error;
+  }
+
+  /** Checks the PIN through `verify_wallet_pin`, which counts failed attempts */
+  async verifyPin(pin: string): Promise<WalletPinVerification> {
+    const { data, error } = await supabase.rpc('verify_wallet_pin', {
+      p_pin: pin,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+}
+
+export const walletPinRepository = new WalletPinRepository();
@@ -0,0 +1,360 @@
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, Alert, TextInput } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import { useColorScheme, ThemedText, ThemedView } from '../components';
+import CityInput from '../components/CityInput';
+import Colors from '../constants/Colors';
+import { City, findCity } from '../constants/cities';
+import { supabase } from '../lib/supabase';
+import { savedSearchesRepository } from '../repositories/savedSearches';
+import { cityToLocation } from '../utils/rides';
+
+type DateField = 'after' | 'before';
+
+/**
+ * Creates (`/saved-searches/new`) or edits a ride alert. A new alert can be
+ * prefilled from the find-ride screen's current search.
+ */
+export default function SavedSearchScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const params = useLocalSearchParams<{
+    id: string;
+    origin?: string;
+    destination?: string;
+    date?: string;
+    maxPrice?: string;
+    minSeats?: string;
+  }>();
+  const isNew = params.id === 'new';
+  const [loading, setLoading] = useState(!isNew);
+  const [saving, setSaving] = useState(false);
+  const [origin, setOrigin] = useState<City | null>(() => (params.origin ? findCity(params.origin) ?? null : null));
+  const [destination, setDestination] = useState<City | null>(() =>
+    params.destination ? findCity(params.destination) ?? null : null
+  );
+  // The window's end is exclusive; a single day from find-ride covers that whole day
+  const [departsAfter, setDepartsAfter] = useState<Date | null>(() =>
+    params.date ? startOfDay(parseISO(params.date)) : null
+  );
+  const [departsBefore, setDepartsBefore] = useState<Date | null>(() =>
+    params.date ? addDays(startOfDay(parseISO(params.date)), 1) : null
+  );
+  const [maxPrice, setMaxPrice] = useState(params.maxPrice ?? '');
+  const [minSeats, setMinSeats] = useState(params.minSeats ?? '1');
+  const [showPicker, setShowPicker] = useState<DateField | null>(null);
+
+  useEffect(() => {
+    if (!isNew) loadSavedSearch();
+  }, [params.id]);
+
+  const loadSavedSearch = async () => {
+    try {
+      const search = await savedSearchesRepository.getSavedSearch(params.id);
+      setOrigin(findCity(search.origin_city) ?? null);
+      setDestination(findCity(search.destination_city) ?? null);
+      setDepartsAfter(search.departs_after ? new Date(search.departs_after) : null);
+      setDepartsBefore(search.departs_before ? new Date(search.departs_before) : null);
+      setMaxPrice(search.max_price ? String(search.max_price) : '');
+      setMinSeats(String(search.min_seats));
+    } catch (error) {
+      console.error('Error loading saved search:', error);
+      Alert.alert('Error', 'Failed to load this alert', [{ text: 'OK', onPress: () => router.back() }]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const validate = (): string | null => {
+    if (!origin || !destination) return 'Choose where you are leaving from and going to';
+    if (origin.id === destination.id) return 'Pick two different cities';
+    if (departsAfter && departsBefore && departsBefore <= departsAfter) return 'The end date must be after the start date';
+    const seats = parseInt(minSeats, 10);
+    if (!(seats >= 1 && seats <= 8)) return 'Seats must be between 1 and 8';
+    if (maxPrice && !(parseInt(maxPrice, 10) > 0)) return 'Enter a valid maximum price';
+    return null;
+  };
+
+  const handleSave = async () => {
+    const error = validate();
+    if (error || !origin || !destination) {
+      Alert.alert('Error', error ?? 'Please check the form');
+      return;
+    }
+
+    const draft = {
+      origin: cityToLocation(origin),
+      destination: cityToLocation(destination),
+      departs_after: departsAfter,
+      departs_before: departsBefore,
+      max_price: maxPrice ? parseInt(maxPrice, 10) : null,
+      min_seats: parseInt(minSeats, 10),
+    };
+
+    try {
+      setSaving(true);
+      if (isNew) {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('User not found');
+        await savedSearchesRepository.createSavedSearch(user.id, draft);
+      } else {
+        await savedSearchesRepository.updateSavedSearch(params.id, draft);
+      }
+
+      Alert.alert(
+        'Alert Saved',
+        `We'll let you know when a ride from ${origin.name} to ${destination.name} is posted.`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error saving search:', error);
+      Alert.alert('Error', 'Failed to save this alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert('Delete Alert', "You won't be told about new rides on this route any more.", [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setSaving(true);
+            await savedSearchesRepository.deleteSavedSearch(params.id);
+            router.back();
+          } catch (error) {
+            console.error('Error deleting saved search:', error);
+            Alert.alert('Error', 'Failed to delete this alert');
+            setSaving(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors[colorScheme].tint} />
+      </View>
+    );
+  }
+
+  const inputStyle = [
+    styles.input,
+    { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }
+  ];
+
+  const renderDateField = (field: DateField, label: string, value: Date | null, clear: () => void) => (
+    <Pressable
+      style={[styles.dateField, { borderColor: Colors[colorScheme].border }]}
+      onPress={() => setShowPicker(field)}
+    >
+      <ThemedText style={styles.dateLabel}>{label}</ThemedText>
+      <View style={styles.dateValue}>
+        <Ionicons name="calendar-outline" size={18} color={Colors[colorScheme].text} />
+        <ThemedText style={styles.dateText}>{value ? format(value, 'MMM d, yyyy') : 'Any time'}</ThemedText>
+        {value && (
+          <Pressable onPress={clear} hitSlop={8}>
+            <Ionicons name="close-circle" size={18} color={Colors[colorScheme].text} />
+          </Pressable>
+        )}
+      </View>
+    </Pressable>
+  );
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.title}>{isNew ? 'New Ride Alert' : 'Edit Ride Alert'}</ThemedText>
+        <ThemedText style={styles.hint}>
+          We'll notify you when a driver posts a ride that matches, including rides passing through both cities.
+        </ThemedText>
+
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.label}>From</ThemedText>
+          <CityInput placeholder="Leaving from" value={origin} onCitySelect={setOrigin} />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.label}>To</ThemedText>
+          <CityInput placeholder="Going to" value={destination} onCitySelect={setDestination} />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.label}>Travel dates</ThemedText>
+          <View style={styles.dateFields}>
+            {renderDateField('after', 'From', departsAfter, () => setDepartsAfter(null))}
+            {renderDateField('before', 'Until', departsBefore && addDays(departsBefore, -1), () => setDepartsBefore(null))}
+          </View>
+        </View>
+
+        <View style={styles.row}>
+          <View style={[styles.inputContainer, styles.rowItem]}>
+            <ThemedText style={styles.label}>Max price per seat</ThemedText>
+            <TextInput
+              style={inputStyle}
+              placeholder="Any"
+              placeholderTextColor={Colors[colorScheme].text + '80'}
+              keyboardType="numeric"
+              value={maxPrice}
+              onChangeText={(value) => setMaxPrice(value.replace(/[^0-9]/g, ''))}
+            />
+          </View>
+          <View style={[styles.inputContainer, styles.rowItem]}>
+            <ThemedText style={styles.label}>Seats needed</ThemedText>
+            <TextInput
+              style={inputStyle}
+              keyboardType="number-pad"
+              maxLength={1}
+              value={minSeats}
+              onChangeText={(value) => setMinSeats(value.replace(/[^0-9]/g, ''))}
+            />
+          </View>
+        </View>
+
+        <Pressable
+          style={[styles.saveButton, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="notifications" size={22} color="#fff" />
+              <ThemedText style={styles.saveButtonText}>Save Alert</ThemedText>
+            </>
+          )}
+        </Pressable>
+
+        {!isNew && (
+          <Pressable style={styles.deleteButton} onPress={handleDelete} disabled={saving}>
+            <ThemedText style={styles.deleteButtonText}>Delete Alert</ThemedText>
+          </Pressable>
+        )}
+      </ThemedView>
+
+      {showPicker && (
+        <DateTimePicker
+          value={(showPicker === 'after' ? departsAfter : departsBefore && addDays(departsBefore, -1)) ?? new Date()}
+          mode="date"
+          display="default"
+          minimumDate={new Date()}
+          onChange={(event, selectedDate) => {
+            const field = showPicker;
+            setShowPicker(null);
+            if (!selectedDate) return;
+
+            if (field === 'after') setDepartsAfter(startOfDay(selectedDate));
+            else setDepartsBefore(addDays(startOfDay(selectedDate), 1));
+          }}
+        />
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    margin: 16,
+    padding: 20,
+    borderRadius: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowItem: {
+    flex: 1,
+  },
+  dateFields: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateField: {
+    flex: 1,
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  dateLabel: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginBottom: 4,
+  },
+  dateValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  dateText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    marginTop: 8,
+  },
+  deleteButtonText: {
+    color: '#F44336',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -6,6 +6,8 @@ import * as ImagePicker from 'expo-image-picker';
 import { useColorScheme, Avatar, ThemedText, ThemedView } from '../../components';
 import Colors from '../../constants/Colors';
 import { supabase } from '../../lib/supabase';
+import { profilesRepository } from '../../repositories/profiles';
+import { Json } from '../../types/database';
 
 interface VehicleDetails {
   make: string;
@@ -43,19 +45,13 @@ export default function ProfileEdit() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not found');
 
-      const { data: profile, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', user.id)
-        .single();
+      const profile = await profilesRepository.getProfile(user.id);
 
-      if (error) throw error;
-
-      setFullName(profile.full_name);
+      setFullName(profile.full_name ?? '');
       setAvatarUrl(profile.avatar_url);
-      setIsDriver(profile.is_driver);
+      setIsDriver(profile.is_driver ?? false);
       if (profile.vehicle_details) {
-        setVehicleDetails(profile.vehicle_details);
+        setVehicleDetails(profile.vehicle_details as unknown as VehicleDetails);
       }
       setIdPhotoUrl(profile.id_photo_url);
       setVehiclePhotoUrl(profile.vehicle_photo_url);
@@ -132,22 +128,16 @@ export default function ProfileEdit() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not found');
 
-      const updates = {
+      await profilesRepository.upsertProfile({
         id: user.id,
         full_name: fullName.trim(),
         avatar_url: avatarUrl,
         is_driver: isDriver,
-        vehicle_details: isDriver ? vehicleDetails : null,
+        vehicle_details: isDriver ? (vehicleDetails as unknown as Json) : null,
         id_photo_url: idPhotoUrl,
         vehicle_photo_url: isDriver ? vehiclePhotoUrl : null,
         updated_at: new Date().toISOString(),
-      };
-
-      const { error } = await supabase
-        .from('profiles')
-        .upsert(updates);
-
-      if (error) throw error;
+      });
 
       Alert.alert('Success', 'Profile updated successfully');
       router.back();
@@ -5,6 +5,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useColorScheme, Avatar, ThemedText, ThemedView } from '../../components';
 import Colors from '../../constants/Colors';
 import { supabase } from '../../lib/supabase';
+import { profilesRepository } from '../../repositories/profiles';
 
 interface UserProfile {
   id: string;
@@ -44,24 +45,18 @@ export default function ProfileView() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not found');
 
-      const { data: profileData, error } = await supabase
-        .from('profiles')
-        .select(`
-          id,
-          full_name,
-          avatar_url,
-          phone_number,
-          is_driver,
-          vehicle_details,
-          rating,
-          total_rides,
-          verification_status
-        `)
-        .eq('id', user.id)
-        .single();
-
-      if (error) throw error;
-      setProfile(profileData);
+      const data = await profilesRepository.getProfile(user.id);
+      setProfile({
+        id: data.id,
+        full_name: data.full_name ?? '',
+        avatar_url: data.avatar_url,
+        phone_number: data.phone ?? '',
+        is_driver: data.is_driver ?? false,
+        vehicle_details: (data.vehicle_details ?? undefined) as UserProfile['vehicle_details'],
+        rating: data.rating ?? 0,
+        total_rides: data.total_rides ?? 0,
+        verification_status: data.verification_status as UserProfile['verification_status'],
+      });
     } catch (error) {
       console.error('Error loading profile:', error);
     } finally {
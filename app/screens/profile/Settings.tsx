@@ -5,6 +5,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { useColorScheme, ThemedText, ThemedView } from '../../components';
 import Colors from '../../constants/Colors';
 import { supabase } from '../../lib/supabase';
+import { settingsRepository } from '../../repositories/settings';
+import { notificationService } from '../../services/notificationService';
+import { Json } from '../../types/database';
 
 interface Settings {
   notifications: {
@@ -50,21 +53,12 @@ export default function Settings() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not found');
 
-      const { data, error } = await supabase
-        .from('user_settings')
-        .select('*')
-        .eq('user_id', user.id)
-        .single();
-
-      if (error) {
-        if (error.code === 'PGRST116') {
-          // Settings don't exist yet, create with defaults
-          await saveSettings(settings);
-        } else {
-          throw error;
-        }
-      } else if (data) {
-        setSettings(data.settings);
+      const data = await settingsRepository.getSettings(user.id);
+      if (data) {
+        setSettings(data.settings as unknown as Settings);
+      } else {
+        // Settings don't exist yet, create with defaults
+        await saveSettings(settings);
       }
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -77,15 +71,7 @@ export default function Settings() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not found');
 
-      const { error } = await supabase
-        .from('user_settings')
-        .upsert({
-          user_id: user.id,
-          settings: newSettings,
-          updated_at: new Date().toISOString(),
-        });
-
-      if (error) throw error;
+      await settingsRepository.saveSettings(user.id, newSettings as unknown as Json);
     } catch (error) {
       console.error('Error saving settings:', error);
       Alert.alert('Error', 'Failed to save settings');
@@ -127,6 +113,7 @@ export default function Settings() {
 
   const handleLogout = async () => {
     try {
+      await notificationService.unregisterForPush();
       const { error } = await supabase.auth.signOut();
       if (error) throw error;
       router.replace('/verify');
@@ -218,6 +205,15 @@ export default function Settings() {
         </View>
       </ThemedView>
 
+      {/* Security Section */}
+      <ThemedView style={styles.section}>
+        <ThemedText style={styles.sectionTitle}>Security</ThemedText>
+        <Pressable style={styles.helpButton} onPress={() => router.push('/wallet/pin')}>
+          <ThemedText style={styles.helpButtonText}>Wallet PIN</ThemedText>
+          <Ionicons name="chevron-forward" size={24} color={Colors[colorScheme].text} />
+        </Pressable>
+      </ThemedView>
+
       {/* Help Section */}
       <ThemedView style={styles.section}>
         <ThemedText style={styles.sectionTitle}>Support</ThemedText>
@@ -0,0 +1,248 @@
+import {
+  Booking,
+  BookingActor,
+  BookingErrorCode,
+  BookingRequest,
+  BookingStatus,
+  CancellationQuote,
+  ManifestEntry,
+  PaymentState,
+  RideCancellationQuote,
+  Trip,
+} from '../types/booking';
+import { supabase } from '../lib/supabase';
+import { bookingsRepository } from '../repositories/bookings';
+import { ridesRepository } from '../repositories/rides';
+import { Ride } from '../types/ride';
+import { PROMO_CODE_ERROR_MESSAGES } from './promotionService';
+import { getErrorMessage } from '../utils/errors';
+
+export const BOOKING_ERROR_MESSAGES: Record<BookingErrorCode, string> = {
+  NOT_AUTHENTICATED: 'Please sign in to book a ride.',
+  INVALID_SEATS: 'Please choose at least one seat.',
+  RIDE_NOT_FOUND: 'This ride no longer exists.',
+  OWN_RIDE: "You can't book a seat on your own ride.",
+  RIDE_DEPARTED: 'This ride has already departed.',
+  RIDE_NOT_DEPARTED: "Passengers can only be marked boarded or no-show once the ride has left.",
+  RIDE_UNAVAILABLE: 'This ride is no longer taking bookings.',
+  SOLD_OUT: 'Sorry, this ride is sold out.',
+  WOMEN_ONLY_RIDE: 'This ride is for women only, and opens to you once your ID has been verified.',
+  BOOKING_NOT_FOUND: 'This booking no longer exists.',
+  NOT_ALLOWED: "You don't have permission to change this booking.",
+  INVALID_TRANSITION: 'This booking can no longer be changed that way.',
+  BOOKING_NOT_PAYABLE: 'This booking is not awaiting payment.',
+  INSUFFICIENT_BALANCE: 'Your wallet balance is too low for this booking.',
+  RIDE_NOT_CANCELLABLE: 'This ride has already started and can no longer be cancelled.',
+  PIN_REQUIRED: 'Please confirm this payment with your wallet PIN.',
+  ...PROMO_CODE_ERROR_MESSAGES,
+  UNKNOWN: 'Failed to book ride. Please try again.',
+};
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  requested: 'Awaiting approval',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  paid: 'Paid',
+  boarded: 'On board',
+  completed: 'Completed',
+  cancelled_by_passenger: 'Cancelled',
+  cancelled_by_driver: 'Cancelled by driver',
+  no_show: 'No show',
+};
+
+/**
+ * Mirror of the `booking_status_transitions` table, used to decide which
+ * actions to offer. The database remains the authority and rejects anything
+ * not listed there.
+ */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, Partial<Record<BookingStatus, BookingActor[]>>> = {
+  requested: {
+    accepted: ['driver'],
+    declined: ['driver'],
+    cancelled_by_passenger: ['passenger'],
+  },
+  accepted: {
+    paid: ['system'],
+    cancelled_by_passenger: ['passenger'],
+    cancelled_by_driver: ['driver'],
+  },
+  declined: {},
+  paid: {
+    boarded: ['driver'],
+    no_show: ['driver'],
+    cancelled_by_passenger: ['passenger'],
+    cancelled_by_driver: ['driver'],
+  },
+  boarded: {
+    completed: ['driver', 'system'],
+  },
+  completed: {},
+  cancelled_by_passenger: {},
+  cancelled_by_driver: {},
+  no_show: {},
+};
+
+export const getPaymentState = (status: BookingStatus): PaymentState => {
+  switch (status) {
+    case 'requested':
+      return 'awaiting_approval';
+    case 'accepted':
+      return 'unpaid';
+    case 'paid':
+    case 'boarded':
+    case 'completed':
+      return 'paid';
+    default:
+      return 'none';
+  }
+};
+
+const isBookingErrorCode = (value: string): value is BookingErrorCode =>
+  value in BOOKING_ERROR_MESSAGES;
+
+export class BookingError extends Error {
+  code: BookingErrorCode;
+
+  constructor(code: BookingErrorCode, message?: string) {
+    super(message || BOOKING_ERROR_MESSAGES[code]);
+    this.name = 'BookingError';
+    this.code = code;
+  }
+
+  static fromCode(code: string | string[] | undefined): BookingError {
+    const value = Array.isArray(code) ? code[0] : code;
+    return new BookingError(value && isBookingErrorCode(value) ? value : 'UNKNOWN');
+  }
+}
+
+export const canTransition = (from: BookingStatus, to: BookingStatus, actor: BookingActor) =>
+  BOOKING_TRANSITIONS[from][to]?.includes(actor) ?? false;
+
+class BookingService {
+  /**
+   * Reserves seats on a ride. Instant-book rides come back `accepted`,
+   * manual rides `requested`. A promo code's discount is fixed into the
+   * booking's quote.
+   */
+  async bookRide(rideId: string, seats = 1, promoCode?: string): Promise<Booking> {
+    try {
+      return await bookingsRepository.bookRide(rideId, seats, promoCode);
+    } catch (error) {
+      console.error('Error booking ride:', error);
+      throw BookingError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  async transitionBooking(bookingId: string, status: BookingStatus): Promise<Booking> {
+    try {
+      return await bookingsRepository.transitionBooking(bookingId, status);
+    } catch (error) {
+      console.error('Error updating booking:', error);
+      throw BookingError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  /**
+   * Pays for an accepted booking from the passenger's wallet. The fare is held
+   * in escrow until the trip completes, then released to the driver. Fares
+   * over `pin_required_above` raise `PIN_REQUIRED` without a wallet PIN token.
+   */
+  async payBooking(bookingId: string, pinToken?: string): Promise<Booking> {
+    try {
+      return await bookingsRepository.payBooking(bookingId, pinToken);
+    } catch (error) {
+      console.error('Error paying for booking:', error);
+      throw BookingError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  /**
+   * What cancelling a booking now would refund under the cancellation policy,
+   * for the signed-in passenger or driver to confirm first
+   */
+  async getCancellationQuote(bookingId: string): Promise<CancellationQuote> {
+    try {
+      return await bookingsRepository.getCancellationQuote(bookingId);
+    } catch (error) {
+      console.error('Error loading cancellation quote:', error);
+      throw BookingError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  async getRideCancellationQuote(rideId: string): Promise<RideCancellationQuote> {
+    try {
+      return await ridesRepository.getCancellationQuote(rideId);
+    } catch (error) {
+      console.error('Error loading ride cancellation quote:', error);
+      throw BookingError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  /**
+   * Cancels one of the driver's rides along with every booking on it. Paid
+   * passengers are refunded in full, and each confirmed booking counts
+   * against the driver's reliability score.
+   */
+  async cancelRide(rideId: string): Promise<Ride> {
+    try {
+      return await ridesRepository.cancelRide(rideId);
+    } catch (error) {
+      console.error('Error cancelling ride:', error);
+      throw BookingError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  acceptBooking(bookingId: string) {
+    return this.transitionBooking(bookingId, 'accepted');
+  }
+
+  declineBooking(bookingId: string) {
+    return this.transitionBooking(bookingId, 'declined');
+  }
+
+  async updatePickupNote(bookingId: string, note: string): Promise<Booking> {
+    try {
+      return await bookingsRepository.updatePickupNote(bookingId, note);
+    } catch (error) {
+      console.error('Error updating pickup note:', error);
+      throw BookingError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  /** Every booking made by the signed-in passenger */
+  async getTrips(): Promise<Trip[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new BookingError('NOT_AUTHENTICATED');
+
+    return bookingsRepository.getPassengerTrips(user.id);
+  }
+
+  getTrip(bookingId: string): Promise<Trip> {
+    return bookingsRepository.getTrip(bookingId);
+  }
+
+  rateTrip(trip: Trip, rating: number, comment?: string): Promise<void> {
+    return bookingsRepository.createRating({
+      booking_id: trip.id,
+      ride_id: trip.ride.id,
+      rater_id: trip.passenger_id,
+      ratee_id: trip.ride.driver.id,
+      rating,
+      comment: comment || null,
+    });
+  }
+
+  getRideManifest(rideId: string): Promise<ManifestEntry[]> {
+    return bookingsRepository.getRideManifest(rideId);
+  }
+
+  /** Booking requests waiting for the signed-in driver's approval */
+  async getPendingRequests(): Promise<BookingRequest[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new BookingError('NOT_AUTHENTICATED');
+
+    return bookingsRepository.getPendingRequests(user.id);
+  }
+}
+
+export const bookingService = new BookingService();
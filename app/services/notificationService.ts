@@ -0,0 +1,66 @@
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { notificationsRepository } from '../repositories/notifications';
+
+// Alerts that arrive while the app is open are shown like any other
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+const getProjectId = () =>
+  Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+
+class NotificationService {
+  /**
+   * Asks for permission and registers this device's Expo push token for the
+   * signed-in user. Returns null when push isn't available, e.g. permission
+   * was refused or the app runs on the web or a simulator.
+   */
+  async registerForPush(): Promise<string | null> {
+    if (Platform.OS !== 'ios' && Platform.OS !== 'android') return null;
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync('default', {
+        name: 'Default',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    let { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') return null;
+
+    try {
+      const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId: getProjectId() });
+      await notificationsRepository.registerPushToken(token, Platform.OS);
+      return token;
+    } catch (error) {
+      console.error('Error registering for push notifications:', error);
+      return null;
+    }
+  }
+
+  /** Stops pushing the signed-in user's alerts to this device; call before signing out */
+  async unregisterForPush(): Promise<void> {
+    if (Platform.OS !== 'ios' && Platform.OS !== 'android') return;
+
+    try {
+      const { status } = await Notifications.getPermissionsAsync();
+      if (status !== 'granted') return;
+
+      const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId: getProjectId() });
+      await notificationsRepository.unregisterPushToken(token);
+    } catch (error) {
+      console.error('Error unregistering push notifications:', error);
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
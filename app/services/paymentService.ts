@@ -1,100 +1,72 @@
-import { PaymentRequest, PaymentResponse } from '../types/payment';
+import { FunctionsFetchError } from '@supabase/supabase-js';
+import { PaymentRequest, PaymentResponse, PayoutRequest, PayoutResponse } from '../types/payment';
 import { supabase } from '../lib/supabase';
-
-const MTN_API_KEY = process.env.EXPO_PUBLIC_MTN_API_KEY;
-const MTN_API_SECRET = process.env.EXPO_PUBLIC_MTN_API_SECRET;
-const AIRTEL_API_KEY = process.env.EXPO_PUBLIC_AIRTEL_API_KEY;
-const AIRTEL_API_SECRET = process.env.EXPO_PUBLIC_AIRTEL_API_SECRET;
-
-const COMMISSION_RATE = 0.02; // 2% commission
+import { getErrorMessage } from '../utils/errors';
 
 class PaymentService {
-  private async generateReference(): Promise<string> {
-    return `TXN_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
-  private calculateCommission(amount: number): number {
-    return amount * COMMISSION_RATE;
-  }
-
-  private async createTransaction(data: {
-    amount: number;
-    phone_number: string;
-    provider: string;
-    reference: string;
-    user_id?: string;
-    description?: string;
-  }) {
-    const { error } = await supabase.from('transactions').insert({
-      ...data,
-      status: 'pending',
-      metadata: {
-        commission: this.calculateCommission(data.amount),
-      },
-    });
-
-    if (error) throw error;
-  }
-
+  /**
+   * Asks the `request-payment` edge function to start a mobile money
+   * collection. Provider credentials never leave the server; a `pending`
+   * response means the payer still has to approve on their handset.
+   * Repeating a request with the same `idempotency_key` returns the original
+   * transaction, so it is safe after a dropped connection.
+   */
   async processPayment(request: PaymentRequest): Promise<PaymentResponse> {
     try {
-      const reference = await this.generateReference();
-      
-      // Create transaction record
-      await this.createTransaction({
-        amount: request.amount,
-        phone_number: request.phone_number,
-        provider: request.provider,
-        reference,
-        user_id: request.userId,
-        description: request.description,
+      const { data, error } = await supabase.functions.invoke<PaymentResponse>('request-payment', {
+        body: request,
       });
 
-      // In sandbox/development mode, we'll simulate a successful payment
-      if (process.env.EXPO_PUBLIC_PAYMENT_MODE === 'sandbox') {
-        // Simulate processing delay
-        await new Promise(resolve => setTimeout(resolve, 2000));
+      if (error instanceof FunctionsFetchError) throw error;
+      if (error) {
+        // Non-2xx responses still carry the function's JSON error body
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.message || error.message);
+      }
+      if (!data) throw new Error('Empty response from payment service');
 
-        // Update transaction status
-        await supabase
-          .from('transactions')
-          .update({
-            status: 'completed',
-            metadata: {
-              provider_reference: `SANDBOX_${reference}`,
-              commission: this.calculateCommission(request.amount),
-            },
-          })
-          .eq('reference', reference);
+      return data;
+    } catch (error) {
+      console.error('Payment Error:', error);
+      return {
+        status: 'error',
+        message: getErrorMessage(error) || 'Payment processing failed',
+        retryable: error instanceof FunctionsFetchError,
+      };
+    }
+  }
 
-        // Update wallet balance
-        if (request.userId) {
-          await supabase.rpc('update_wallet_balance', {
-            p_user_id: request.userId,
-            p_amount: request.amount,
-          });
-        }
+  /**
+   * Withdraws from the wallet to mobile money through the `request-payout`
+   * edge function, with a wallet PIN token in `pin_token`. A
+   * `REAUTH_REQUIRED` error means the user has to verify an OTP again before
+   * retrying.
+   */
+  async requestPayout(request: PayoutRequest): Promise<PayoutResponse> {
+    try {
+      const { data, error } = await supabase.functions.invoke<PayoutResponse>('request-payout', {
+        body: request,
+      });
 
+      if (error) {
+        const body = await error.context?.json?.().catch(() => null);
         return {
-          status: 'success',
-          message: 'Payment processed successfully',
-          data: {
-            transaction_id: reference,
-            provider_reference: `SANDBOX_${reference}`,
-          },
+          status: 'error',
+          code: body?.code,
+          message: body?.message || error.message,
         };
       }
+      if (!data) throw new Error('Empty response from payout service');
 
-      // In production, we would integrate with actual MTN and Airtel APIs here
-      throw new Error('Production payment processing not implemented yet');
-    } catch (error: any) {
-      console.error('Payment Error:', error);
+      return data;
+    } catch (error) {
+      console.error('Payout Error:', error);
       return {
         status: 'error',
-        message: error.message || 'Payment processing failed',
+        message: getErrorMessage(error) || 'Withdrawal failed',
       };
     }
   }
 }
 
-export const paymentService = new PaymentService(); 
\ No newline at end of file
+export const paymentService = new PaymentService();
@@ -0,0 +1,33 @@
+import { pricingRepository } from '../repositories/pricing';
+import { FareQuote, PricingRules } from '../types/pricing';
+
+/**
+ * Mirror of `payout_fee()` for previewing a withdrawal as the user types.
+ * The database applies the same rules when the payout is created.
+ */
+export const getPayoutFee = (rules: PricingRules, amount: number) =>
+  Math.max(rules.payout_fee_min, Math.round(amount * rules.payout_fee_rate));
+
+/** Mirror of the commission in `quote_fare()`: what a driver keeps of each seat */
+export const getDriverEarnings = (rules: PricingRules, pricePerSeat: number) =>
+  pricePerSeat - Math.round(pricePerSeat * rules.commission_rate);
+
+class PricingService {
+  /**
+   * Fee settings are edited by ops in `pricing_rules`, so they're read
+   * fresh rather than bundled with the app.
+   */
+  getRules(): Promise<PricingRules> {
+    return pricingRepository.getRules();
+  }
+
+  /**
+   * What a booking would cost right now. Once booked, use the booking's own
+   * `quote` instead; it is what was actually charged.
+   */
+  quoteFare(pricePerSeat: number, seats = 1, discount = 0): Promise<FareQuote> {
+    return pricingRepository.quoteFare(pricePerSeat, seats, discount);
+  }
+}
+
+export const pricingService = new PricingService();
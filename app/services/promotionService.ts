@@ -0,0 +1,92 @@
+import { supabase } from '../lib/supabase';
+import { promotionsRepository } from '../repositories/promotions';
+import { FareQuote } from '../types/pricing';
+import { PromoCodeErrorCode, PromoErrorCode, Referral } from '../types/promotions';
+import { getErrorMessage } from '../utils/errors';
+
+export const PROMO_CODE_ERROR_MESSAGES: Record<PromoCodeErrorCode, string> = {
+  PROMO_NOT_FOUND: "This promo code doesn't exist.",
+  PROMO_EXPIRED: 'This promo code has expired.',
+  PROMO_EXHAUSTED: 'This promo code has been fully used.',
+  PROMO_ALREADY_USED: "You've already used this promo code.",
+  PROMO_FIRST_RIDE_ONLY: 'This promo code is only for your first ride.',
+  PROMO_ROUTE_MISMATCH: "This promo code isn't valid on this route.",
+};
+
+export const PROMO_ERROR_MESSAGES: Record<PromoErrorCode, string> = {
+  ...PROMO_CODE_ERROR_MESSAGES,
+  NOT_AUTHENTICATED: 'Please sign in first.',
+  RIDE_NOT_FOUND: 'This ride no longer exists.',
+  REFERRAL_NOT_FOUND: "This referral code doesn't exist.",
+  OWN_REFERRAL: "You can't use your own referral code.",
+  REFERRAL_ALREADY_USED: "You've already used a referral code.",
+  NOT_NEW_USER: 'Referral codes are only for new riders.',
+  UNKNOWN: 'Something went wrong. Please try again.',
+};
+
+const isPromoErrorCode = (value: string): value is PromoErrorCode =>
+  value in PROMO_ERROR_MESSAGES;
+
+export class PromoError extends Error {
+  code: PromoErrorCode;
+
+  constructor(code: PromoErrorCode, message?: string) {
+    super(message || PROMO_ERROR_MESSAGES[code]);
+    this.name = 'PromoError';
+    this.code = code;
+  }
+
+  static fromCode(code: string | undefined): PromoError {
+    return new PromoError(code && isPromoErrorCode(code) ? code : 'UNKNOWN');
+  }
+}
+
+const getUserId = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new PromoError('NOT_AUTHENTICATED');
+  return user.id;
+};
+
+class PromotionService {
+  /**
+   * What booking a ride would cost the signed-in user with a promo code.
+   * `book_ride` checks the code again, so a code can still be refused if
+   * it runs out in between.
+   */
+  async quoteBooking(rideId: string, seats = 1, promoCode?: string): Promise<FareQuote> {
+    try {
+      return await promotionsRepository.quoteBooking(rideId, seats, promoCode);
+    } catch (error) {
+      console.error('Error applying promo code:', error);
+      throw PromoError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  /** The signed-in user's code to share; created the first time it's asked for */
+  getReferralCode(): Promise<string> {
+    return promotionsRepository.getReferralCode();
+  }
+
+  /**
+   * Records who referred the signed-in user. Both of them are credited once
+   * the user completes their first ride with another driver.
+   */
+  async redeemReferralCode(code: string): Promise<void> {
+    try {
+      await promotionsRepository.redeemReferralCode(code);
+    } catch (error) {
+      console.error('Error redeeming referral code:', error);
+      throw PromoError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  async getReferrals(): Promise<Referral[]> {
+    return promotionsRepository.getReferrals(await getUserId());
+  }
+
+  async getOwnReferral(): Promise<Referral | null> {
+    return promotionsRepository.getOwnReferral(await getUserId());
+  }
+}
+
+export const promotionService = new PromotionService();
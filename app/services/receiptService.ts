@@ -0,0 +1,251 @@
+import { format } from 'date-fns';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { bookingsRepository } from '../repositories/bookings';
+import { JournalEntryRow, PayoutRow, TransactionRow, walletRepository } from '../repositories/wallet';
+import { colors } from '../theme/colors';
+import { Trip } from '../types/booking';
+import { PaymentProvider, Receipt, ReceiptEvent } from '../types/payment';
+
+const ENTRY_LABELS: Partial<Record<JournalEntryRow['kind'], string>> = {
+  top_up: 'Added to wallet',
+  booking_payment: 'Paid into escrow',
+  escrow_release: 'Released to driver',
+  refund: 'Refunded to wallet',
+  payout: 'Taken from wallet',
+  payout_reversal: 'Returned to wallet',
+};
+
+export const RECEIPT_STATUS_LABELS: Record<Receipt['status'], string> = {
+  pending: 'Pending',
+  completed: 'Completed',
+  failed: 'Failed',
+  refunded: 'Refunded',
+};
+
+const formatUGX = (amount: number) => `UGX ${amount.toLocaleString()}`;
+
+const formatDateTime = (value: string) => format(new Date(value), 'MMM d, yyyy • h:mm a');
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const toTimeline = (first: ReceiptEvent, entries: JournalEntryRow[]): ReceiptEvent[] => [
+  first,
+  ...entries.flatMap((entry) => {
+    const label = ENTRY_LABELS[entry.kind];
+    return label ? [{ label, at: entry.created_at }] : [];
+  }),
+];
+
+const findEntry = (entries: JournalEntryRow[], kind: JournalEntryRow['kind']) =>
+  entries.find((entry) => entry.kind === kind);
+
+const toReceiptBooking = (trip: Trip): Receipt['booking'] => ({
+  id: trip.id,
+  ride_id: trip.ride_id,
+  origin_address: trip.ride.origin_address,
+  destination_address: trip.ride.destination_address,
+  departure_time: trip.ride.departure_time,
+  seats: trip.seats_booked,
+  driver_name: trip.ride.driver.full_name,
+});
+
+const getProviderReference = (transaction: TransactionRow): string | null => {
+  const metadata = transaction.metadata as { provider_reference?: string } | null;
+  return metadata?.provider_reference ?? null;
+};
+
+const getPayoutStatus = (payout: PayoutRow): Receipt['status'] => {
+  switch (payout.status) {
+    case 'paid':
+      return 'completed';
+    case 'failed':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+};
+
+/** Adds the failure, which has no ledger entry of its own, in time order */
+const withFailure = (timeline: ReceiptEvent[], failedAt: string | null): ReceiptEvent[] =>
+  failedAt
+    ? [...timeline, { label: 'Failed', at: failedAt }].sort((a, b) => a.at.localeCompare(b.at))
+    : timeline;
+
+/** The booking's quote as receipt lines, so receipts match what was charged */
+const toFareLines = (trip: Trip): Receipt['lines'] => {
+  const { quote } = trip;
+  const lines = [
+    { label: `Fare (${quote.seats} × ${formatUGX(quote.price_per_seat)})`, amount: quote.subtotal },
+    { label: 'Service fee', amount: quote.service_fee },
+  ];
+  if (quote.discount > 0) {
+    lines.push({ label: 'Discount', amount: -quote.discount });
+  }
+  return lines;
+};
+
+/**
+ * Renders a receipt as a standalone HTML page, which `expo-print` turns into
+ * a PDF on the device.
+ */
+export const renderReceiptHtml = (receipt: Receipt): string => {
+  const rows = receipt.lines
+    .map((line) => `<tr><td>${escapeHtml(line.label)}</td><td class="amount">${formatUGX(line.amount)}</td></tr>`)
+    .join('');
+
+  const details = [
+    ['Date', formatDateTime(receipt.created_at)],
+    ['Status', RECEIPT_STATUS_LABELS[receipt.status]],
+    ['Reference', receipt.reference],
+    receipt.provider && ['Provider', receipt.provider === 'MTN' ? 'MTN Mobile Money' : 'Airtel Money'],
+    receipt.provider_reference && ['Provider reference', receipt.provider_reference],
+    receipt.phone_number && ['Phone number', receipt.phone_number],
+    receipt.booking && ['Trip', `${receipt.booking.origin_address} → ${receipt.booking.destination_address}`],
+    receipt.booking && ['Departure', formatDateTime(receipt.booking.departure_time)],
+    receipt.booking?.driver_name && ['Driver', receipt.booking.driver_name],
+  ]
+    .filter((detail): detail is string[] => !!detail)
+    .map(([label, value]) => `<tr><td>${label}</td><td class="amount">${escapeHtml(value)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: ${colors.text.primary}; margin: 0; }
+  header { background: ${colors.primary.deepPurple}; color: ${colors.text.inverse}; padding: 24px 32px; }
+  header h1 { margin: 0; font-size: 28px; letter-spacing: 1px; }
+  header p { margin: 4px 0 0; opacity: 0.8; }
+  main { padding: 24px 32px; }
+  .total { font-size: 32px; font-weight: 700; color: ${colors.primary.electricIndigo}; margin: 8px 0 24px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+  td { padding: 8px 0; border-bottom: 1px solid ${colors.background.secondary}; }
+  td.amount { text-align: right; }
+  .verification { background: ${colors.background.secondary}; padding: 16px; border-radius: 8px; font-size: 13px; }
+  .verification code { font-size: 15px; font-weight: 600; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Makela</h1>
+  <p>${escapeHtml(receipt.title)}</p>
+</header>
+<main>
+  <div class="total">${formatUGX(receipt.total)}</div>
+  <table>${rows}</table>
+  <table>${details}</table>
+  ${receipt.verification_code ? `<div class="verification">
+    Verification code<br /><code>${receipt.verification_code}</code><br />
+    Quote this code to Makela support to confirm this receipt is genuine.
+  </div>` : ''}
+</main>
+</body>
+</html>`;
+};
+
+class ReceiptService {
+  /** A mobile money top-up, or a booking paid by mobile money */
+  async getTransactionReceipt(transactionId: string): Promise<Receipt> {
+    const transaction = await walletRepository.getTransaction(transactionId);
+    const trip = transaction.booking_id ? await bookingsRepository.getTrip(transaction.booking_id) : null;
+
+    const kind = trip ? 'booking_payment' : 'top_up';
+    const references = [transaction.reference, trip?.id].filter((reference): reference is string => !!reference);
+    const entries = await walletRepository.getJournalEntries(references);
+
+    return {
+      kind,
+      title: trip ? 'Booking payment' : 'Wallet top-up',
+      status: findEntry(entries, 'refund') ? 'refunded' : transaction.status,
+      total: transaction.amount,
+      lines: trip ? toFareLines(trip) : [{ label: 'Top-up', amount: transaction.amount }],
+      reference: transaction.reference ?? transaction.id,
+      verification_code: findEntry(entries, kind)?.id ?? null,
+      provider: transaction.provider as PaymentProvider | null,
+      provider_reference: getProviderReference(transaction),
+      phone_number: transaction.phone_number,
+      created_at: transaction.created_at,
+      timeline: withFailure(
+        toTimeline({ label: 'Requested', at: transaction.created_at }, entries),
+        transaction.status === 'failed' ? transaction.updated_at : null,
+      ),
+      booking: trip && toReceiptBooking(trip),
+    };
+  }
+
+  /** A booking paid straight from the wallet */
+  async getBookingReceipt(bookingId: string): Promise<Receipt> {
+    const [trip, entries] = await Promise.all([
+      bookingsRepository.getTrip(bookingId),
+      walletRepository.getJournalEntries([bookingId]),
+    ]);
+    const payment = findEntry(entries, 'booking_payment');
+
+    return {
+      kind: 'booking_payment',
+      title: 'Booking payment',
+      status: findEntry(entries, 'refund') ? 'refunded' : payment ? 'completed' : 'pending',
+      total: trip.total_amount,
+      lines: toFareLines(trip),
+      reference: trip.id,
+      verification_code: payment?.id ?? null,
+      provider: null,
+      provider_reference: null,
+      phone_number: null,
+      created_at: payment?.created_at ?? trip.created_at,
+      timeline: toTimeline({ label: 'Booked', at: trip.created_at }, entries),
+      booking: toReceiptBooking(trip),
+    };
+  }
+
+  /** A withdrawal to mobile money */
+  async getPayoutReceipt(payoutId: string): Promise<Receipt> {
+    const payout = await walletRepository.getPayout(payoutId);
+    const entries = await walletRepository.getJournalEntries([payout.reference]);
+
+    const timeline = toTimeline({ label: 'Requested', at: payout.created_at }, entries);
+    if (payout.status === 'paid') {
+      timeline.push({ label: `Sent to ${payout.phone_number}`, at: payout.updated_at });
+    }
+
+    return {
+      kind: 'payout',
+      title: 'Withdrawal',
+      status: getPayoutStatus(payout),
+      total: payout.amount + payout.fee,
+      lines: [
+        { label: 'Sent to phone', amount: payout.amount },
+        { label: 'Withdrawal fee', amount: payout.fee },
+      ],
+      reference: payout.reference,
+      verification_code: findEntry(entries, 'payout')?.id ?? null,
+      provider: payout.provider,
+      provider_reference: payout.provider_reference,
+      phone_number: payout.phone_number,
+      created_at: payout.created_at,
+      timeline: withFailure(timeline, payout.status === 'failed' ? payout.updated_at : null),
+      booking: null,
+    };
+  }
+
+  /** Renders the receipt to a PDF and opens the share sheet */
+  async shareReceipt(receipt: Receipt): Promise<void> {
+    const { uri } = await Print.printToFileAsync({ html: renderReceiptHtml(receipt) });
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: `Makela receipt ${receipt.reference}`,
+    });
+  }
+}
+
+export const receiptService = new ReceiptService();
@@ -0,0 +1,68 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { supabase } from '../lib/supabase';
+import { profilesRepository } from '../repositories/profiles';
+import { walletRepository } from '../repositories/wallet';
+import { WalletStatement } from '../types/payment';
+import {
+  renderStatementCsv,
+  renderStatementHtml,
+  statementFileName,
+} from '../../supabase/functions/_shared/statements';
+
+const shareFile = async (uri: string, mimeType: string, UTI: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(uri, { mimeType, UTI, dialogTitle: 'Wallet statement' });
+};
+
+class StatementService {
+  /** Statement for [from, to), with opening and closing balances */
+  getStatement(from: Date, to: Date): Promise<WalletStatement> {
+    return walletRepository.getStatement(from, to);
+  }
+
+  async shareCsv(statement: WalletStatement): Promise<void> {
+    const uri = `${FileSystem.cacheDirectory}${statementFileName(statement, 'csv')}`;
+    await FileSystem.writeAsStringAsync(uri, renderStatementCsv(statement));
+    await shareFile(uri, 'text/csv', 'public.comma-separated-values-text');
+  }
+
+  /** Prints the statement to a PDF named after its period and shares it */
+  async sharePdf(statement: WalletStatement): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not found');
+
+    const profile = await profilesRepository.findProfile(user.id);
+    const html = renderStatementHtml(statement, {
+      name: profile?.full_name ?? null,
+      phone: profile?.phone ?? user.phone ?? null,
+    });
+
+    const { uri: printed } = await Print.printToFileAsync({ html });
+    const uri = `${FileSystem.cacheDirectory}${statementFileName(statement, 'pdf')}`;
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    await FileSystem.moveAsync({ from: printed, to: uri });
+
+    await shareFile(uri, 'application/pdf', 'com.adobe.pdf');
+  }
+
+  /** Asks the `wallet-statement` function to email the statement to the user */
+  async emailStatement(from: Date, to: Date): Promise<string> {
+    const { data, error } = await supabase.functions.invoke<{ message: string }>('wallet-statement', {
+      body: { from: from.toISOString(), to: to.toISOString() },
+    });
+
+    if (error) {
+      const body = await error.context?.json?.().catch(() => null);
+      throw new Error(body?.message || error.message);
+    }
+
+    return data?.message ?? 'Statement sent';
+  }
+}
+
+export const statementService = new StatementService();
@@ -0,0 +1,138 @@
+import { supabase } from '../lib/supabase';
+import { profilesRepository } from '../repositories/profiles';
+import { transfersRepository, WalletTransferRow } from '../repositories/transfers';
+import { SplitRequest, TransferErrorCode, WalletRecipient, WalletTransfer } from '../types/payment';
+import { formatUgandaPhone, isValidUgandaPhone } from '../utils/validation';
+import { getErrorMessage } from '../utils/errors';
+
+export const TRANSFER_ERROR_MESSAGES: Record<TransferErrorCode, string> = {
+  NOT_AUTHENTICATED: 'Please sign in to send money.',
+  RECIPIENT_NOT_FOUND: 'No Makela account uses this phone number.',
+  OWN_WALLET: "You can't send money to your own wallet.",
+  TRANSFER_BELOW_MINIMUM: 'This amount is below the minimum transfer.',
+  INSUFFICIENT_BALANCE: 'Your wallet balance is too low for this transfer.',
+  BOOKING_NOT_FOUND: 'This booking no longer exists.',
+  NOT_ALLOWED: "You don't have permission to do that.",
+  BOOKING_NOT_PAID: 'Only paid bookings can be split.',
+  INVALID_PAYERS: 'Add each co-traveller once.',
+  ALREADY_SPLIT: 'This booking has already been split.',
+  REQUEST_NOT_FOUND: 'This payment request no longer exists.',
+  REQUEST_NOT_PENDING: 'This payment request has already been answered.',
+  BOOKING_CANCELLED: 'This trip was cancelled, so there is nothing to pay.',
+  PIN_REQUIRED: 'Please confirm with your wallet PIN.',
+  UNKNOWN: 'Something went wrong. Please try again.',
+};
+
+const isTransferErrorCode = (value: string): value is TransferErrorCode =>
+  value in TRANSFER_ERROR_MESSAGES;
+
+export class TransferError extends Error {
+  code: TransferErrorCode;
+
+  constructor(code: TransferErrorCode, message?: string) {
+    super(message || TRANSFER_ERROR_MESSAGES[code]);
+    this.name = 'TransferError';
+    this.code = code;
+  }
+
+  static fromCode(code: string | undefined): TransferError {
+    return new TransferError(code && isTransferErrorCode(code) ? code : 'UNKNOWN');
+  }
+}
+
+const getUserId = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new TransferError('NOT_AUTHENTICATED');
+  return user.id;
+};
+
+class TransferService {
+  /**
+   * Looks up another Makela user by phone number, in any of the spellings
+   * `formatUgandaPhone` understands, so the sender can confirm who it is.
+   */
+  async findRecipient(phone: string): Promise<WalletRecipient> {
+    const formatted = formatUgandaPhone(phone);
+    if (!isValidUgandaPhone(formatted)) {
+      throw new TransferError('RECIPIENT_NOT_FOUND', 'Please enter a valid Uganda phone number.');
+    }
+
+    const [userId, profile] = await Promise.all([
+      getUserId(),
+      profilesRepository.findProfileByPhone(formatted),
+    ]);
+
+    if (!profile) throw new TransferError('RECIPIENT_NOT_FOUND');
+    if (profile.id === userId) throw new TransferError('OWN_WALLET');
+
+    return {
+      id: profile.id,
+      full_name: profile.full_name,
+      avatar_url: profile.avatar_url,
+      phone: profile.phone,
+    };
+  }
+
+  /**
+   * Sends money from the signed-in user's wallet; it arrives immediately.
+   * `pinToken` comes from verifying the wallet PIN.
+   */
+  async sendTransfer(recipientId: string, amount: number, note: string | undefined, pinToken: string): Promise<WalletTransferRow> {
+    try {
+      return await transfersRepository.transferToWallet(recipientId, amount, note, pinToken);
+    } catch (error) {
+      console.error('Error sending transfer:', error);
+      throw TransferError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  async getTransfers(limit?: number): Promise<WalletTransfer[]> {
+    return transfersRepository.getTransfers(await getUserId(), limit);
+  }
+
+  /** Shares of other passengers' bookings the signed-in user has been asked to pay */
+  async getPendingSplitRequests(): Promise<SplitRequest[]> {
+    return transfersRepository.getPendingSplitRequests(await getUserId());
+  }
+
+  getBookingSplitRequests(bookingId: string): Promise<SplitRequest[]> {
+    return transfersRepository.getBookingSplitRequests(bookingId);
+  }
+
+  /**
+   * Asks each co-traveller for an equal share of a paid booking. The
+   * passenger keeps a share too, so the fare is divided by payers + 1.
+   */
+  async splitBooking(bookingId: string, payerIds: string[]): Promise<void> {
+    try {
+      await transfersRepository.splitBooking(bookingId, payerIds);
+    } catch (error) {
+      console.error('Error splitting booking:', error);
+      throw TransferError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  /**
+   * Accepting pays the share from the wallet to the passenger who booked, and
+   * needs a wallet PIN token; declining doesn't.
+   */
+  async respondToSplitRequest(requestId: string, accept: boolean, pinToken?: string): Promise<void> {
+    try {
+      await transfersRepository.respondToSplitRequest(requestId, accept, pinToken);
+    } catch (error) {
+      console.error('Error answering split request:', error);
+      throw TransferError.fromCode(getErrorMessage(error));
+    }
+  }
+
+  async cancelSplitRequest(requestId: string): Promise<void> {
+    try {
+      await transfersRepository.cancelSplitRequest(requestId);
+    } catch (error) {
+      console.error('Error cancelling split request:', error);
+      throw TransferError.fromCode(getErrorMessage(error));
+    }
+  }
+}
+
+export const transferService = new TransferService();
@@ -0,0 +1,177 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { getErrorMessage } from '../utils/errors';
+import { walletPinRepository } from '../repositories/walletPin';
+import { WalletPinErrorCode, WalletPinStatus } from '../types/payment';
+
+export const WALLET_PIN_ERROR_MESSAGES: Record<WalletPinErrorCode, string> = {
+  NOT_AUTHENTICATED: 'Please sign in first.',
+  PIN_INVALID: 'Your PIN must be 4 to 6 digits.',
+  PIN_NOT_SET: "You haven't set a wallet PIN yet.",
+  PIN_INCORRECT: 'Incorrect PIN.',
+  PIN_LOCKED: 'Too many wrong attempts. Reset your PIN or try again later.',
+  REAUTH_REQUIRED: "Please confirm it's you before changing your PIN.",
+  UNKNOWN: 'Something went wrong. Please try again.',
+};
+
+const isWalletPinErrorCode = (value: string): value is WalletPinErrorCode =>
+  value in WALLET_PIN_ERROR_MESSAGES;
+
+export class WalletPinError extends Error {
+  code: WalletPinErrorCode;
+
+  constructor(code: WalletPinErrorCode, message?: string) {
+    super(message || WALLET_PIN_ERROR_MESSAGES[code]);
+    this.name = 'WalletPinError';
+    this.code = code;
+  }
+
+  static fromCode(code: string | undefined): WalletPinError {
+    return new WalletPinError(code && isWalletPinErrorCode(code) ? code : 'UNKNOWN');
+  }
+}
+
+const lockedMessage = (lockedUntil: string | null | undefined) =>
+  lockedUntil
+    ? `Too many wrong attempts. Try again after ${format(new Date(lockedUntil), 'h:mm a')}, or reset your PIN.`
+    : WALLET_PIN_ERROR_MESSAGES.PIN_LOCKED;
+
+// `verify_wallet_pin` puts the lockout time in the error's details
+const lockedUntil = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'details' in error && typeof error.details === 'string'
+    ? error.details
+    : undefined;
+
+// The PIN is kept on the device only when biometric unlock is turned on. The
+// keystore itself asks for biometrics before handing it back, and a separate
+// flag records that it's on so checking never touches the PIN
+const biometricKeys = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new WalletPinError('NOT_AUTHENTICATED');
+  return { pin: `wallet_pin.${user.id}`, enabled: `wallet_pin_biometric.${user.id}` };
+};
+
+const storePinForBiometric = (key: string, pin: string) =>
+  SecureStore.setItemAsync(key, pin, {
+    requireAuthentication: true,
+    authenticationPrompt: 'Save your wallet PIN for biometric unlock',
+  });
+
+class WalletPinService {
+  getStatus(): Promise<WalletPinStatus> {
+    return walletPinRepository.getStatus();
+  }
+
+  /**
+   * Sets or resets the PIN. The server wants a sign-in or OTP check from the
+   * last five minutes, and raises `REAUTH_REQUIRED` otherwise.
+   */
+  async setPin(pin: string): Promise<void> {
+    try {
+      await walletPinRepository.setPin(pin);
+    } catch (error) {
+      console.error('Error setting wallet PIN:', error);
+      throw WalletPinError.fromCode(getErrorMessage(error));
+    }
+
+    // A biometric unlock holding the old PIN would only ever fail now
+    if (await this.isBiometricEnabled()) {
+      await storePinForBiometric((await biometricKeys()).pin, pin);
+    }
+  }
+
+  /** Checks the PIN and returns a step-up token for one money movement */
+  async verifyPin(pin: string): Promise<string> {
+    let result;
+    try {
+      result = await walletPinRepository.verifyPin(pin);
+    } catch (error) {
+      console.error('Error verifying wallet PIN:', error);
+      const pinError = WalletPinError.fromCode(getErrorMessage(error));
+      throw pinError.code === 'PIN_LOCKED' ? new WalletPinError('PIN_LOCKED', lockedMessage(lockedUntil(error))) : pinError;
+    }
+
+    if (result.verified) return result.token;
+
+    if (result.locked_until) {
+      throw new WalletPinError('PIN_LOCKED', lockedMessage(result.locked_until));
+    }
+    throw new WalletPinError(
+      'PIN_INCORRECT',
+      `Incorrect PIN. ${result.attempts_left} ${result.attempts_left === 1 ? 'attempt' : 'attempts'} left.`
+    );
+  }
+
+  async isBiometricAvailable(): Promise<boolean> {
+    const [hasHardware, isEnrolled] = await Promise.all([
+      LocalAuthentication.hasHardwareAsync(),
+      LocalAuthentication.isEnrolledAsync(),
+    ]);
+    return hasHardware && isEnrolled && SecureStore.canUseBiometricAuthentication();
+  }
+
+  async isBiometricEnabled(): Promise<boolean> {
+    return (await SecureStore.getItemAsync((await biometricKeys()).enabled)) !== null;
+  }
+
+  /** Turns on biometric unlock; the PIN is checked first so a typo isn't stored */
+  async enableBiometric(pin: string): Promise<void> {
+    await this.verifyPin(pin);
+
+    const keys = await biometricKeys();
+    try {
+      await storePinForBiometric(keys.pin, pin);
+    } catch (error) {
+      console.error('Error storing wallet PIN for biometric unlock:', error);
+      throw new WalletPinError('UNKNOWN', "Biometric unlock couldn't be turned on.");
+    }
+    await SecureStore.setItemAsync(keys.enabled, 'true');
+  }
+
+  async disableBiometric(): Promise<void> {
+    const keys = await biometricKeys();
+    await SecureStore.deleteItemAsync(keys.enabled);
+    await SecureStore.deleteItemAsync(keys.pin);
+  }
+
+  /**
+   * Unlocks with the device's biometrics instead of typing the PIN. Returns
+   * null if the user cancels, so they can fall back to the PIN.
+   */
+  async unlockWithBiometric(): Promise<string | null> {
+    const keys = await biometricKeys();
+    let pin: string | null;
+    try {
+      pin = await SecureStore.getItemAsync(keys.pin, {
+        requireAuthentication: true,
+        authenticationPrompt: 'Confirm with your wallet PIN',
+      });
+    } catch (error) {
+      // Cancelled, or the keystore dropped the PIN after the enrolled
+      // biometrics changed; either way the user types the PIN instead
+      console.error('Error reading wallet PIN for biometric unlock:', error);
+      return null;
+    }
+
+    // The flag outlived the PIN, e.g. after a reinstall
+    if (!pin) {
+      await this.disableBiometric();
+      return null;
+    }
+
+    try {
+      return await this.verifyPin(pin);
+    } catch (error) {
+      // The PIN was changed on another device
+      if (error instanceof WalletPinError && error.code === 'PIN_INCORRECT') {
+        await this.disableBiometric();
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+export const walletPinService = new WalletPinService();
@@ -40,4 +40,24 @@ export const colors = {
     secondary: '#F5F5F8',
     dark: '#151420',
   }
-}; 
\ No newline at end of file
+};
+
+// Palettes for screens that follow the system light/dark setting
+export const colorSchemes = {
+  light: {
+    text: '#000',
+    background: '#fff',
+    tint: '#32CD32',
+    tabIconDefault: '#ccc',
+    tabIconSelected: '#32CD32',
+    border: '#E1E1E1',
+  },
+  dark: {
+    text: '#fff',
+    background: '#000',
+    tint: '#4ADE4A',
+    tabIconDefault: '#666',
+    tabIconSelected: '#4ADE4A',
+    border: '#333',
+  },
+} as const; 
\ No newline at end of file
@@ -6,13 +6,13 @@ export * from './components/buttons';
 import { colors } from './colors';
 import { typography } from './typography';
 import { gradients } from './gradients';
-import { buttons } from './components/buttons';
+import { buttonStyles } from './components/buttons';
 
 const theme = {
   colors,
   typography,
   gradients,
-  buttons,
+  buttons: buttonStyles,
 };
 
 export default theme; 
\ No newline at end of file
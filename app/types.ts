@@ -16,16 +16,7 @@ export type Driver = {
   }>;
 };
 
-export type Ride = {
-  id: string;
-  driver: Driver;
-  origin_address: string;
-  destination_address: string;
-  departure_time: string;
-  price_per_seat: number;
-  available_seats: number;
-  status: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
-};
+export type { Ride } from './types/ride';
 
 export type Profile = {
   id: string;
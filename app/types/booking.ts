@@ -0,0 +1,116 @@
+import { FareQuote } from './pricing';
+import { PromoCodeErrorCode } from './promotions';
+
+export type BookingStatus =
+  | 'requested'
+  | 'accepted'
+  | 'declined'
+  | 'paid'
+  | 'boarded'
+  | 'completed'
+  | 'cancelled_by_passenger'
+  | 'cancelled_by_driver'
+  | 'no_show';
+
+export type BookingMode = 'instant' | 'manual';
+
+export type BookingActor = 'passenger' | 'driver' | 'system';
+
+export type BookingErrorCode =
+  | 'NOT_AUTHENTICATED'
+  | 'INVALID_SEATS'
+  | 'RIDE_NOT_FOUND'
+  | 'OWN_RIDE'
+  | 'RIDE_DEPARTED'
+  | 'RIDE_NOT_DEPARTED'
+  | 'RIDE_UNAVAILABLE'
+  | 'SOLD_OUT'
+  | 'WOMEN_ONLY_RIDE'
+  | 'BOOKING_NOT_FOUND'
+  | 'NOT_ALLOWED'
+  | 'INVALID_TRANSITION'
+  | 'BOOKING_NOT_PAYABLE'
+  | 'INSUFFICIENT_BALANCE'
+  | 'RIDE_NOT_CANCELLABLE'
+  | 'PIN_REQUIRED'
+  | PromoCodeErrorCode
+  | 'UNKNOWN';
+
+export interface Booking {
+  id: string;
+  ride_id: string;
+  passenger_id: string;
+  seats_booked: number;
+  total_amount: number;
+  /** How total_amount was priced, fixed when the booking was made */
+  quote: FareQuote;
+  status: BookingStatus;
+  status_changed_at: string;
+  pickup_note: string | null;
+  created_at: string;
+}
+
+export type PaymentState = 'awaiting_approval' | 'unpaid' | 'paid' | 'none';
+
+/** Who a cancellation is charged to, matching `cancellation_policy_tiers.actor` */
+export type CancellationActor = 'passenger' | 'driver';
+
+/** What cancelling a booking now would refund, from `cancellation_quote` */
+export interface CancellationQuote {
+  actor: CancellationActor;
+  /** Whether the fare is held in escrow; unpaid bookings have nothing to refund */
+  paid: boolean;
+  total: number;
+  refund_rate: number;
+  refund: number;
+  /** The policy tier that applies, or null when none does */
+  description: string | null;
+}
+
+/** What cancelling a whole ride would do, from `ride_cancellation_quote` */
+export interface RideCancellationQuote {
+  /** Passengers holding accepted or paid seats */
+  passengers: number;
+  refund: number;
+}
+
+export interface ManifestEntry extends Booking {
+  passenger: {
+    id: string;
+    full_name: string | null;
+    avatar_url: string | null;
+  };
+}
+
+export interface BookingRequest extends Booking {
+  passenger: {
+    id: string;
+    full_name: string | null;
+    avatar_url: string | null;
+    rating: number | null;
+  };
+  ride: {
+    id: string;
+    origin_address: string;
+    destination_address: string;
+    departure_time: string;
+  };
+}
+
+export interface Trip extends Booking {
+  ride: {
+    id: string;
+    origin_address: string;
+    destination_address: string;
+    departure_time: string;
+    price_per_seat: number;
+    status: string;
+    driver: {
+      id: string;
+      full_name: string | null;
+      avatar_url: string | null;
+      rating: number | null;
+    };
+  };
+  rating: { rating: number } | null;
+}
@@ -0,0 +1,17 @@
+export type ChatMessageType = 'text' | 'image' | 'location';
+
+export type ChatPreview = {
+  id: string;
+  ride_id: string;
+  other_user: {
+    id: string;
+    full_name: string;
+    avatar_url: string | null;
+  };
+  last_message: {
+    content: string;
+    type: ChatMessageType;
+    created_at: string;
+  };
+  unread_count: number;
+};
@@ -0,0 +1,1641 @@
+/**
+ * Database schema for the Supabase client, kept in step with
+ * `supabase/migrations`. Columns with a CHECK constraint use the matching
+ * union instead of `string`.
+ */
+import type { CancellationQuote, RideCancellationQuote } from './booking';
+import type { AppNotification, NotificationData, NotificationKind, PushPlatform } from './notifications';
+import type { WalletPinStatus, WalletPinVerification, WalletStatement } from './payment';
+import type { FareQuote } from './pricing';
+import type { Gender, RideFeature, RideRouteMatch, RideSortOption } from './ride';
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+type BookingStatus =
+  | 'requested'
+  | 'accepted'
+  | 'declined'
+  | 'paid'
+  | 'boarded'
+  | 'completed'
+  | 'cancelled_by_passenger'
+  | 'cancelled_by_driver'
+  | 'no_show';
+
+type TransactionStatus = 'pending' | 'completed' | 'failed';
+
+type PayoutStatus = 'pending' | 'processing' | 'paid' | 'failed';
+
+type LedgerAccountType =
+  | 'user_wallet'
+  | 'escrow'
+  | 'platform_commission'
+  | 'provider_clearing'
+  | 'promotions'
+  | 'opening_balance';
+
+type JournalEntryKind =
+  | 'top_up'
+  | 'booking_payment'
+  | 'escrow_release'
+  | 'refund'
+  | 'payout'
+  | 'payout_reversal'
+  | 'transfer'
+  | 'referral_reward'
+  | 'opening_balance';
+
+type SplitRequestStatus = 'pending' | 'paid' | 'declined' | 'cancelled';
+
+type ReferralStatus = 'pending' | 'rewarded';
+
+export type Database = {
+  public: {
+    Tables: {
+      profiles: {
+        Row: {
+          id: string;
+          phone: string | null;
+          full_name: string | null;
+          avatar_url: string | null;
+          email: string | null;
+          is_driver: boolean | null;
+          rating: number | null;
+          total_rides: number | null;
+          reliability_score: number | null;
+          vehicle_details: Json | null;
+          id_photo_url: string | null;
+          vehicle_photo_url: string | null;
+          verification_status: Json;
+          referral_code: string | null;
+          gender: Gender | null;
+          /** Generated: both the ID and the vehicle are verified */
+          is_verified: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          phone?: string | null;
+          full_name?: string | null;
+          avatar_url?: string | null;
+          email?: string | null;
+          is_driver?: boolean | null;
+          rating?: number | null;
+          total_rides?: number | null;
+          reliability_score?: number | null;
+          vehicle_details?: Json | null;
+          id_photo_url?: string | null;
+          vehicle_photo_url?: string | null;
+          verification_status?: Json;
+          referral_code?: string | null;
+          gender?: Gender | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          phone?: string | null;
+          full_name?: string | null;
+          avatar_url?: string | null;
+          email?: string | null;
+          is_driver?: boolean | null;
+          rating?: number | null;
+          total_rides?: number | null;
+          reliability_score?: number | null;
+          vehicle_details?: Json | null;
+          id_photo_url?: string | null;
+          vehicle_photo_url?: string | null;
+          verification_status?: Json;
+          referral_code?: string | null;
+          gender?: Gender | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      rides: {
+        Row: {
+          id: string;
+          driver_id: string;
+          origin_city: string;
+          destination_city: string;
+          origin_address: string;
+          destination_address: string;
+          origin_lat: number;
+          origin_lng: number;
+          destination_lat: number;
+          destination_lng: number;
+          departure_time: string;
+          price_per_seat: number;
+          available_seats: number;
+          status: 'active' | 'in_progress' | 'completed' | 'cancelled';
+          booking_mode: 'instant' | 'manual';
+          description: string | null;
+          pickup_location: string | null;
+          dropoff_location: string | null;
+          car_details: Json | null;
+          /** The ride's path as a PostGIS line; filled in from the coordinates when left out */
+          route: string;
+          /** The car_details features that are on, kept in step by a trigger */
+          features: RideFeature[];
+          women_only: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          driver_id: string;
+          origin_city: string;
+          destination_city: string;
+          origin_address: string;
+          destination_address: string;
+          origin_lat: number;
+          origin_lng: number;
+          destination_lat: number;
+          destination_lng: number;
+          departure_time: string;
+          price_per_seat: number;
+          available_seats: number;
+          status?: 'active' | 'in_progress' | 'completed' | 'cancelled';
+          booking_mode?: 'instant' | 'manual';
+          description?: string | null;
+          pickup_location?: string | null;
+          dropoff_location?: string | null;
+          car_details?: Json | null;
+          route?: string | null;
+          features?: RideFeature[];
+          women_only?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          driver_id?: string;
+          origin_city?: string;
+          destination_city?: string;
+          origin_address?: string;
+          destination_address?: string;
+          origin_lat?: number;
+          origin_lng?: number;
+          destination_lat?: number;
+          destination_lng?: number;
+          departure_time?: string;
+          price_per_seat?: number;
+          available_seats?: number;
+          status?: 'active' | 'in_progress' | 'completed' | 'cancelled';
+          booking_mode?: 'instant' | 'manual';
+          description?: string | null;
+          pickup_location?: string | null;
+          dropoff_location?: string | null;
+          car_details?: Json | null;
+          route?: string | null;
+          features?: RideFeature[];
+          women_only?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'rides_driver_id_fkey';
+            columns: ['driver_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      bookings: {
+        Row: {
+          id: string;
+          ride_id: string;
+          passenger_id: string;
+          seats_booked: number;
+          total_amount: number;
+          quote: FareQuote;
+          status: BookingStatus;
+          status_changed_at: string;
+          pickup_note: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          ride_id: string;
+          passenger_id: string;
+          seats_booked: number;
+          total_amount: number;
+          quote: FareQuote;
+          status?: BookingStatus;
+          status_changed_at?: string;
+          pickup_note?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          ride_id?: string;
+          passenger_id?: string;
+          seats_booked?: number;
+          total_amount?: number;
+          quote?: FareQuote;
+          status?: BookingStatus;
+          status_changed_at?: string;
+          pickup_note?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'bookings_ride_id_fkey';
+            columns: ['ride_id'];
+            isOneToOne: false;
+            referencedRelation: 'rides';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'bookings_passenger_id_fkey';
+            columns: ['passenger_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      booking_status_transitions: {
+        Row: {
+          from_status: BookingStatus;
+          to_status: BookingStatus;
+          actor: 'passenger' | 'driver' | 'system';
+        };
+        Insert: {
+          from_status: BookingStatus;
+          to_status: BookingStatus;
+          actor: 'passenger' | 'driver' | 'system';
+        };
+        Update: {
+          from_status?: BookingStatus;
+          to_status?: BookingStatus;
+          actor?: 'passenger' | 'driver' | 'system';
+        };
+        Relationships: [];
+      };
+      ride_ratings: {
+        Row: {
+          id: string;
+          booking_id: string;
+          ride_id: string;
+          rater_id: string;
+          ratee_id: string;
+          rating: number;
+          comment: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          ride_id: string;
+          rater_id: string;
+          ratee_id: string;
+          rating: number;
+          comment?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          booking_id?: string;
+          ride_id?: string;
+          rater_id?: string;
+          ratee_id?: string;
+          rating?: number;
+          comment?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ride_ratings_booking_id_fkey';
+            columns: ['booking_id'];
+            isOneToOne: true;
+            referencedRelation: 'bookings';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ride_ratings_ride_id_fkey';
+            columns: ['ride_id'];
+            isOneToOne: false;
+            referencedRelation: 'rides';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ride_ratings_rater_id_fkey';
+            columns: ['rater_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ride_ratings_ratee_id_fkey';
+            columns: ['ratee_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      chats: {
+        Row: {
+          id: string;
+          user_id: string;
+          other_user_id: string;
+          ride_id: string;
+          last_message_at: string;
+          unread_count: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          other_user_id: string;
+          ride_id: string;
+          last_message_at?: string;
+          unread_count?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          other_user_id?: string;
+          ride_id?: string;
+          last_message_at?: string;
+          unread_count?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'chats_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'chats_other_user_id_fkey';
+            columns: ['other_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'chats_ride_id_fkey';
+            columns: ['ride_id'];
+            isOneToOne: false;
+            referencedRelation: 'rides';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      messages: {
+        Row: {
+          id: string;
+          chat_id: string;
+          sender_id: string;
+          receiver_id: string;
+          type: string;
+          content: string;
+          metadata: Json | null;
+          status: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          chat_id: string;
+          sender_id: string;
+          receiver_id: string;
+          type: string;
+          content: string;
+          metadata?: Json | null;
+          status?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          chat_id?: string;
+          sender_id?: string;
+          receiver_id?: string;
+          type?: string;
+          content?: string;
+          metadata?: Json | null;
+          status?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'messages_chat_id_fkey';
+            columns: ['chat_id'];
+            isOneToOne: false;
+            referencedRelation: 'chats';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_sender_id_fkey';
+            columns: ['sender_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_receiver_id_fkey';
+            columns: ['receiver_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      recent_locations: {
+        Row: {
+          id: string;
+          user_id: string;
+          address: string;
+          latitude: number;
+          longitude: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          address: string;
+          latitude: number;
+          longitude: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          address?: string;
+          latitude?: number;
+          longitude?: number;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      ledger_accounts: {
+        Row: {
+          id: string;
+          type: LedgerAccountType;
+          user_id: string | null;
+          provider: 'MTN' | 'AIRTEL' | null;
+          currency: string;
+          balance: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          type: LedgerAccountType;
+          user_id?: string | null;
+          provider?: 'MTN' | 'AIRTEL' | null;
+          currency?: string;
+          balance?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          type?: LedgerAccountType;
+          user_id?: string | null;
+          provider?: 'MTN' | 'AIRTEL' | null;
+          currency?: string;
+          balance?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ledger_accounts_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      journal_entries: {
+        Row: {
+          id: string;
+          kind: JournalEntryKind;
+          reference: string;
+          description: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          kind: JournalEntryKind;
+          reference: string;
+          description?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          kind?: JournalEntryKind;
+          reference?: string;
+          description?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      journal_lines: {
+        Row: {
+          id: string;
+          entry_id: string;
+          account_id: string;
+          direction: 'debit' | 'credit';
+          amount: number;
+        };
+        Insert: {
+          id?: string;
+          entry_id: string;
+          account_id: string;
+          direction: 'debit' | 'credit';
+          amount: number;
+        };
+        Update: {
+          id?: string;
+          entry_id?: string;
+          account_id?: string;
+          direction?: 'debit' | 'credit';
+          amount?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'journal_lines_entry_id_fkey';
+            columns: ['entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'journal_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'journal_lines_account_id_fkey';
+            columns: ['account_id'];
+            isOneToOne: false;
+            referencedRelation: 'ledger_accounts';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      transactions: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: 'credit' | 'debit';
+          amount: number;
+          phone_number: string | null;
+          provider: string | null;
+          reference: string | null;
+          description: string | null;
+          status: TransactionStatus;
+          booking_id: string | null;
+          idempotency_key: string | null;
+          metadata: Json | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type?: 'credit' | 'debit';
+          amount: number;
+          phone_number?: string | null;
+          provider?: string | null;
+          reference?: string | null;
+          description?: string | null;
+          status?: TransactionStatus;
+          booking_id?: string | null;
+          idempotency_key?: string | null;
+          metadata?: Json | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: 'credit' | 'debit';
+          amount?: number;
+          phone_number?: string | null;
+          provider?: string | null;
+          reference?: string | null;
+          description?: string | null;
+          status?: TransactionStatus;
+          booking_id?: string | null;
+          idempotency_key?: string | null;
+          metadata?: Json | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'transactions_booking_id_fkey';
+            columns: ['booking_id'];
+            isOneToOne: false;
+            referencedRelation: 'bookings';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      payment_requests: {
+        Row: {
+          id: string;
+          user_id: string;
+          amount: number;
+          phone_number: string;
+          payment_method: 'mtn' | 'airtel';
+          status: TransactionStatus;
+          reference: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          amount: number;
+          phone_number: string;
+          payment_method: 'mtn' | 'airtel';
+          status?: TransactionStatus;
+          reference?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          amount?: number;
+          phone_number?: string;
+          payment_method?: 'mtn' | 'airtel';
+          status?: TransactionStatus;
+          reference?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'payment_requests_reference_fkey';
+            columns: ['reference'];
+            isOneToOne: true;
+            referencedRelation: 'transactions';
+            referencedColumns: ['reference'];
+          },
+        ];
+      };
+      payouts: {
+        Row: {
+          id: string;
+          user_id: string;
+          reference: string;
+          amount: number;
+          fee: number;
+          phone_number: string;
+          provider: 'MTN' | 'AIRTEL';
+          status: PayoutStatus;
+          provider_reference: string | null;
+          failure_reason: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          reference?: string;
+          amount: number;
+          fee?: number;
+          phone_number: string;
+          provider: 'MTN' | 'AIRTEL';
+          status?: PayoutStatus;
+          provider_reference?: string | null;
+          failure_reason?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          reference?: string;
+          amount?: number;
+          fee?: number;
+          phone_number?: string;
+          provider?: 'MTN' | 'AIRTEL';
+          status?: PayoutStatus;
+          provider_reference?: string | null;
+          failure_reason?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      pricing_rules: {
+        Row: {
+          id: boolean;
+          service_fee_rate: number;
+          service_fee_min: number;
+          commission_rate: number;
+          payout_fee_rate: number;
+          payout_fee_min: number;
+          payout_minimum: number;
+          transfer_minimum: number;
+          referral_reward_referrer: number;
+          referral_reward_referee: number;
+          pin_required_above: number;
+          updated_at: string;
+        };
+        Insert: {
+          id?: boolean;
+          service_fee_rate?: number;
+          service_fee_min?: number;
+          commission_rate?: number;
+          payout_fee_rate?: number;
+          payout_fee_min?: number;
+          payout_minimum?: number;
+          transfer_minimum?: number;
+          referral_reward_referrer?: number;
+          referral_reward_referee?: number;
+          pin_required_above?: number;
+          updated_at?: string;
+        };
+        Update: {
+          id?: boolean;
+          service_fee_rate?: number;
+          service_fee_min?: number;
+          commission_rate?: number;
+          payout_fee_rate?: number;
+          payout_fee_min?: number;
+          payout_minimum?: number;
+          transfer_minimum?: number;
+          referral_reward_referrer?: number;
+          referral_reward_referee?: number;
+          pin_required_above?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      cancellation_policy_tiers: {
+        Row: {
+          id: string;
+          actor: 'passenger' | 'driver';
+          min_hours_before_departure: number | null;
+          refund_rate: number;
+          description: string;
+        };
+        Insert: {
+          id?: string;
+          actor: 'passenger' | 'driver';
+          min_hours_before_departure?: number | null;
+          refund_rate: number;
+          description: string;
+        };
+        Update: {
+          id?: string;
+          actor?: 'passenger' | 'driver';
+          min_hours_before_departure?: number | null;
+          refund_rate?: number;
+          description?: string;
+        };
+        Relationships: [];
+      };
+      driver_cancellations: {
+        Row: {
+          booking_id: string;
+          driver_id: string;
+          ride_id: string;
+          created_at: string;
+        };
+        Insert: {
+          booking_id: string;
+          driver_id: string;
+          ride_id: string;
+          created_at?: string;
+        };
+        Update: {
+          booking_id?: string;
+          driver_id?: string;
+          ride_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      split_requests: {
+        Row: {
+          id: string;
+          booking_id: string;
+          requester_id: string;
+          payer_id: string;
+          amount: number;
+          description: string;
+          departure_time: string;
+          status: SplitRequestStatus;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          requester_id: string;
+          payer_id: string;
+          amount: number;
+          description: string;
+          departure_time: string;
+          status?: SplitRequestStatus;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          booking_id?: string;
+          requester_id?: string;
+          payer_id?: string;
+          amount?: number;
+          description?: string;
+          departure_time?: string;
+          status?: SplitRequestStatus;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'split_requests_booking_id_fkey';
+            columns: ['booking_id'];
+            isOneToOne: false;
+            referencedRelation: 'bookings';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'split_requests_requester_id_fkey';
+            columns: ['requester_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'split_requests_payer_id_fkey';
+            columns: ['payer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      wallet_transfers: {
+        Row: {
+          id: string;
+          sender_id: string;
+          recipient_id: string;
+          amount: number;
+          note: string | null;
+          split_request_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          sender_id: string;
+          recipient_id: string;
+          amount: number;
+          note?: string | null;
+          split_request_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          sender_id?: string;
+          recipient_id?: string;
+          amount?: number;
+          note?: string | null;
+          split_request_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'wallet_transfers_sender_id_fkey';
+            columns: ['sender_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'wallet_transfers_recipient_id_fkey';
+            columns: ['recipient_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'wallet_transfers_split_request_id_fkey';
+            columns: ['split_request_id'];
+            isOneToOne: true;
+            referencedRelation: 'split_requests';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      promo_codes: {
+        Row: {
+          id: string;
+          code: string;
+          description: string | null;
+          discount_type: 'percentage' | 'fixed';
+          discount_value: number;
+          max_discount: number | null;
+          max_uses: number | null;
+          max_uses_per_user: number;
+          starts_at: string;
+          expires_at: string | null;
+          first_ride_only: boolean;
+          origin_city: string | null;
+          destination_city: string | null;
+          active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          description?: string | null;
+          discount_type: 'percentage' | 'fixed';
+          discount_value: number;
+          max_discount?: number | null;
+          max_uses?: number | null;
+          max_uses_per_user?: number;
+          starts_at?: string;
+          expires_at?: string | null;
+          first_ride_only?: boolean;
+          origin_city?: string | null;
+          destination_city?: string | null;
+          active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          code?: string;
+          description?: string | null;
+          discount_type?: 'percentage' | 'fixed';
+          discount_value?: number;
+          max_discount?: number | null;
+          max_uses?: number | null;
+          max_uses_per_user?: number;
+          starts_at?: string;
+          expires_at?: string | null;
+          first_ride_only?: boolean;
+          origin_city?: string | null;
+          destination_city?: string | null;
+          active?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      promo_redemptions: {
+        Row: {
+          id: string;
+          promo_code_id: string;
+          user_id: string;
+          booking_id: string;
+          discount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          promo_code_id: string;
+          user_id: string;
+          booking_id: string;
+          discount: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          promo_code_id?: string;
+          user_id?: string;
+          booking_id?: string;
+          discount?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'promo_redemptions_promo_code_id_fkey';
+            columns: ['promo_code_id'];
+            isOneToOne: false;
+            referencedRelation: 'promo_codes';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'promo_redemptions_booking_id_fkey';
+            columns: ['booking_id'];
+            isOneToOne: true;
+            referencedRelation: 'bookings';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      referrals: {
+        Row: {
+          id: string;
+          referrer_id: string;
+          referee_id: string;
+          status: ReferralStatus;
+          referrer_reward: number | null;
+          referee_reward: number | null;
+          created_at: string;
+          rewarded_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          referrer_id: string;
+          referee_id: string;
+          status?: ReferralStatus;
+          referrer_reward?: number | null;
+          referee_reward?: number | null;
+          created_at?: string;
+          rewarded_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          referrer_id?: string;
+          referee_id?: string;
+          status?: ReferralStatus;
+          referrer_reward?: number | null;
+          referee_reward?: number | null;
+          created_at?: string;
+          rewarded_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'referrals_referrer_id_fkey';
+            columns: ['referrer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'referrals_referee_id_fkey';
+            columns: ['referee_id'];
+            isOneToOne: true;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      wallet_pins: {
+        Row: {
+          user_id: string;
+          pin_hash: string;
+          failed_attempts: number;
+          locked_until: string | null;
+          step_up_token: string | null;
+          step_up_expires_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          pin_hash: string;
+          failed_attempts?: number;
+          locked_until?: string | null;
+          step_up_token?: string | null;
+          step_up_expires_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          pin_hash?: string;
+          failed_attempts?: number;
+          locked_until?: string | null;
+          step_up_token?: string | null;
+          step_up_expires_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      user_settings: {
+        Row: {
+          user_id: string;
+          settings: Json;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          settings?: Json;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          settings?: Json;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      saved_places: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          type: 'home' | 'work' | 'other';
+          address: string;
+          latitude: number;
+          longitude: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          type?: 'home' | 'work' | 'other';
+          address: string;
+          latitude: number;
+          longitude: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          type?: 'home' | 'work' | 'other';
+          address?: string;
+          latitude?: number;
+          longitude?: number;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      notifications: {
+        Row: AppNotification;
+        Insert: {
+          id?: string;
+          user_id: string;
+          kind: NotificationKind;
+          title: string;
+          body: string;
+          data?: NotificationData;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          kind?: NotificationKind;
+          title?: string;
+          body?: string;
+          data?: NotificationData;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      push_tokens: {
+        Row: {
+          token: string;
+          user_id: string;
+          platform: PushPlatform;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          token: string;
+          user_id: string;
+          platform: PushPlatform;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          token?: string;
+          user_id?: string;
+          platform?: PushPlatform;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'push_tokens_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      saved_searches: {
+        Row: {
+          id: string;
+          user_id: string;
+          origin_city: string;
+          origin_lat: number;
+          origin_lng: number;
+          destination_city: string;
+          destination_lat: number;
+          destination_lng: number;
+          departs_after: string | null;
+          departs_before: string | null;
+          max_price: number | null;
+          min_seats: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          origin_city: string;
+          origin_lat: number;
+          origin_lng: number;
+          destination_city: string;
+          destination_lat: number;
+          destination_lng: number;
+          departs_after?: string | null;
+          departs_before?: string | null;
+          max_price?: number | null;
+          min_seats?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          origin_city?: string;
+          origin_lat?: number;
+          origin_lng?: number;
+          destination_city?: string;
+          destination_lat?: number;
+          destination_lng?: number;
+          departs_after?: string | null;
+          departs_before?: string | null;
+          max_price?: number | null;
+          min_seats?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'saved_searches_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      wallets: {
+        Row: {
+          id: string;
+          user_id: string;
+          balance: number;
+          currency: string;
+          last_updated: string;
+          created_at: string;
+        };
+        Relationships: [];
+      };
+      ledger_trial_balance: {
+        Row: {
+          type: LedgerAccountType;
+          provider: 'MTN' | 'AIRTEL' | null;
+          accounts: number;
+          balance: number;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      book_ride: {
+        Args: {
+          p_ride_id: string;
+          p_seats?: number;
+          p_promo_code?: string | null;
+        };
+        Returns: Database['public']['Tables']['bookings']['Row'];
+      };
+      transition_booking: {
+        Args: {
+          p_booking_id: string;
+          p_status: BookingStatus;
+        };
+        Returns: Database['public']['Tables']['bookings']['Row'];
+      };
+      update_pickup_note: {
+        Args: {
+          p_booking_id: string;
+          p_note: string;
+        };
+        Returns: Database['public']['Tables']['bookings']['Row'];
+      };
+      pay_booking: {
+        Args: {
+          p_booking_id: string;
+          p_pin_token?: string | null;
+        };
+        Returns: Database['public']['Tables']['bookings']['Row'];
+      };
+      charge_booking: {
+        Args: {
+          p_booking_id: string;
+        };
+        Returns: Database['public']['Tables']['bookings']['Row'];
+      };
+      booking_refund_amount: {
+        Args: {
+          p_booking_id: string;
+          p_status: BookingStatus;
+        };
+        Returns: number;
+      };
+      settle_booking_escrow: {
+        Args: {
+          p_booking_id: string;
+          p_refund: number;
+        };
+        Returns: undefined;
+      };
+      cancellation_quote: {
+        Args: {
+          p_booking_id: string;
+        };
+        Returns: CancellationQuote;
+      };
+      ride_cancellation_quote: {
+        Args: {
+          p_ride_id: string;
+        };
+        Returns: RideCancellationQuote;
+      };
+      search_rides_along_route: {
+        Args: {
+          p_pickup_lat: number;
+          p_pickup_lng: number;
+          p_dropoff_lat: number;
+          p_dropoff_lng: number;
+          p_radius_km?: number;
+          p_departs_after?: string | null;
+          p_departs_before?: string | null;
+          p_min_seats?: number;
+          p_min_price?: number | null;
+          p_max_price?: number | null;
+          p_features?: RideFeature[] | null;
+          p_min_driver_rating?: number | null;
+          p_verified_only?: boolean;
+          p_women_only?: boolean;
+          p_sort?: RideSortOption;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: RideRouteMatch[];
+      };
+      cancel_ride: {
+        Args: {
+          p_ride_id: string;
+        };
+        Returns: Database['public']['Tables']['rides']['Row'];
+      };
+      quote_fare: {
+        Args: {
+          p_price_per_seat: number;
+          p_seats: number;
+          p_discount?: number;
+        };
+        Returns: FareQuote;
+      };
+      ledger_account_id: {
+        Args: {
+          p_type: string;
+          p_user_id?: string | null;
+          p_provider?: string | null;
+        };
+        Returns: string;
+      };
+      post_journal_entry: {
+        Args: {
+          p_kind: string;
+          p_reference: string;
+          p_description: string | null;
+          p_lines: Json;
+        };
+        Returns: Database['public']['Tables']['journal_entries']['Row'];
+      };
+      post_opening_balance: {
+        Args: {
+          p_user_id: string;
+          p_amount: number;
+        };
+        Returns: Database['public']['Tables']['journal_entries']['Row'];
+      };
+      payout_minimum: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      payout_fee: {
+        Args: {
+          p_amount: number;
+        };
+        Returns: number;
+      };
+      create_payout: {
+        Args: {
+          p_user_id: string;
+          p_amount: number;
+          p_phone_number: string;
+          p_provider: string;
+          p_daily_limit?: number | null;
+          p_pin_token?: string | null;
+        };
+        Returns: Database['public']['Tables']['payouts']['Row'];
+      };
+      settle_payout: {
+        Args: {
+          p_reference: string;
+          p_status: string;
+          p_provider_reference?: string | null;
+          p_reason?: string | null;
+        };
+        Returns: Database['public']['Tables']['payouts']['Row'];
+      };
+      statement_for: {
+        Args: {
+          p_user_id: string;
+          p_from: string;
+          p_to: string;
+        };
+        Returns: WalletStatement;
+      };
+      wallet_statement: {
+        Args: {
+          p_from: string;
+          p_to: string;
+        };
+        Returns: WalletStatement;
+      };
+      transfer_minimum: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      create_transfer: {
+        Args: {
+          p_sender_id: string;
+          p_recipient_id: string;
+          p_amount: number;
+          p_note?: string | null;
+          p_split_request_id?: string | null;
+        };
+        Returns: Database['public']['Tables']['wallet_transfers']['Row'];
+      };
+      transfer_to_wallet: {
+        Args: {
+          p_recipient_id: string;
+          p_amount: number;
+          p_note?: string | null;
+          p_pin_token?: string | null;
+        };
+        Returns: Database['public']['Tables']['wallet_transfers']['Row'];
+      };
+      split_booking: {
+        Args: {
+          p_booking_id: string;
+          p_payer_ids: string[];
+        };
+        Returns: Database['public']['Tables']['split_requests']['Row'][];
+      };
+      respond_to_split_request: {
+        Args: {
+          p_request_id: string;
+          p_accept: boolean;
+          p_pin_token?: string | null;
+        };
+        Returns: Database['public']['Tables']['split_requests']['Row'];
+      };
+      cancel_split_request: {
+        Args: {
+          p_request_id: string;
+        };
+        Returns: Database['public']['Tables']['split_requests']['Row'];
+      };
+      promo_quote: {
+        Args: {
+          p_code: string;
+          p_user_id: string;
+          p_ride_id: string;
+          p_seats: number;
+        };
+        Returns: Json;
+      };
+      quote_booking: {
+        Args: {
+          p_ride_id: string;
+          p_seats?: number;
+          p_promo_code?: string | null;
+        };
+        Returns: FareQuote;
+      };
+      my_referral_code: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      redeem_referral_code: {
+        Args: {
+          p_code: string;
+        };
+        Returns: Database['public']['Tables']['referrals']['Row'];
+      };
+      reward_referral: {
+        Args: {
+          p_referee_id: string;
+        };
+        Returns: undefined;
+      };
+      authenticated_within: {
+        Args: {
+          p_window: string;
+        };
+        Returns: boolean;
+      };
+      wallet_pin_status: {
+        Args: Record<PropertyKey, never>;
+        Returns: WalletPinStatus;
+      };
+      set_wallet_pin: {
+        Args: {
+          p_pin: string;
+        };
+        Returns: undefined;
+      };
+      verify_wallet_pin: {
+        Args: {
+          p_pin: string;
+        };
+        Returns: WalletPinVerification;
+      };
+      use_pin_token: {
+        Args: {
+          p_user_id: string;
+          p_token: string | null;
+        };
+        Returns: undefined;
+      };
+      register_push_token: {
+        Args: {
+          p_token: string;
+          p_platform: PushPlatform;
+        };
+        Returns: undefined;
+      };
+      unregister_push_token: {
+        Args: {
+          p_token: string;
+        };
+        Returns: undefined;
+      };
+      mark_notifications_read: {
+        Args: {
+          p_ids?: string[] | null;
+        };
+        Returns: undefined;
+      };
+      settle_transaction: {
+        Args: {
+          p_reference: string;
+          p_status: string;
+          p_provider_reference?: string | null;
+          p_reason?: string | null;
+        };
+        Returns: Database['public']['Tables']['transactions']['Row'];
+      };
+      record_verification: {
+        Args: {
+          p_user_id: string;
+          p_check: string;
+          p_verified: boolean;
+          p_gender?: Gender | null;
+        };
+        Returns: Database['public']['Tables']['profiles']['Row'];
+      };
+    };
+    Enums: {
+      booking_status: BookingStatus;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+type PublicRelations = PublicSchema['Tables'] & PublicSchema['Views'];
+
+export type Tables<T extends keyof PublicRelations> = PublicRelations[T]['Row'];
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
+export type Enums<T extends keyof PublicSchema['Enums']> = PublicSchema['Enums'][T];
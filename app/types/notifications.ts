@@ -0,0 +1,21 @@
+export type NotificationKind = 'ride_alert';
+
+/** What the app opens when a notification is tapped */
+export type NotificationData = {
+  ride_id?: string;
+  saved_search_id?: string;
+};
+
+/** An entry in the in-app notification feed; each one is also pushed */
+export type AppNotification = {
+  id: string;
+  user_id: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  data: NotificationData;
+  read_at: string | null;
+  created_at: string;
+};
+
+export type PushPlatform = 'ios' | 'android';
@@ -1,3 +1,9 @@
+export type {
+  StatementEntry,
+  StatementEntryKind,
+  WalletStatement,
+} from '../../supabase/functions/_shared/statements';
+
 export type PaymentProvider = 'MTN' | 'AIRTEL';
 
 export interface PaymentRequest {
@@ -5,18 +11,114 @@ export interface PaymentRequest {
   amount: number;
   provider: PaymentProvider;
   description?: string;
-  userId?: string;
+  /** Pays for this booking instead of topping up; the server charges its total */
+  booking_id?: string;
+  /**
+   * Generated once per payment and sent again on every retry of it, so a
+   * repeated request returns the original transaction instead of charging
+   * twice
+   */
+  idempotency_key: string;
 }
 
 export interface PaymentResponse {
-  status: 'success' | 'error';
+  status: 'success' | 'pending' | 'error';
   message: string;
+  /**
+   * The request may not have reached the server, so it should be retried with
+   * the same idempotency key rather than a new one
+   */
+  retryable?: boolean;
   data?: {
     transaction_id: string;
     provider_reference?: string;
   };
 }
 
+export type PayoutStatus = 'pending' | 'processing' | 'paid' | 'failed';
+
+export interface PayoutRequest {
+  /** What should reach the phone; the fee comes out of the wallet on top */
+  amount: number;
+  phone_number: string;
+  provider: PaymentProvider;
+  /** Step-up token from `verify_wallet_pin` */
+  pin_token?: string;
+}
+
+export type PayoutErrorCode =
+  | 'REAUTH_REQUIRED'
+  | 'PIN_REQUIRED'
+  | 'PAYOUT_BELOW_MINIMUM'
+  | 'DAILY_LIMIT_EXCEEDED'
+  | 'INSUFFICIENT_BALANCE';
+
+export interface PayoutResponse {
+  status: 'success' | 'pending' | 'error';
+  message: string;
+  code?: PayoutErrorCode;
+  data?: {
+    payout_id: string;
+    reference: string;
+  };
+}
+
+export type TransferErrorCode =
+  | 'NOT_AUTHENTICATED'
+  | 'RECIPIENT_NOT_FOUND'
+  | 'OWN_WALLET'
+  | 'TRANSFER_BELOW_MINIMUM'
+  | 'INSUFFICIENT_BALANCE'
+  | 'BOOKING_NOT_FOUND'
+  | 'NOT_ALLOWED'
+  | 'BOOKING_NOT_PAID'
+  | 'INVALID_PAYERS'
+  | 'ALREADY_SPLIT'
+  | 'REQUEST_NOT_FOUND'
+  | 'REQUEST_NOT_PENDING'
+  | 'BOOKING_CANCELLED'
+  | 'PIN_REQUIRED'
+  | 'UNKNOWN';
+
+/** Another Makela user, found by phone number, that money can be sent to */
+export interface WalletRecipient {
+  id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  phone: string | null;
+}
+
+export interface WalletTransfer {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  amount: number;
+  note: string | null;
+  split_request_id: string | null;
+  created_at: string;
+  sender: WalletRecipient;
+  recipient: WalletRecipient;
+}
+
+export type SplitRequestStatus = 'pending' | 'paid' | 'declined' | 'cancelled';
+
+/** A co-traveller's share of a booking, owed to the passenger who paid for it */
+export interface SplitRequest {
+  id: string;
+  booking_id: string;
+  requester_id: string;
+  payer_id: string;
+  amount: number;
+  /** The trip's route, e.g. "Kampala → Jinja" */
+  description: string;
+  departure_time: string;
+  status: SplitRequestStatus;
+  created_at: string;
+  updated_at: string;
+  requester: WalletRecipient;
+  payer: WalletRecipient;
+}
+
 export interface Transaction {
   id: string;
   amount: number;
@@ -37,4 +139,67 @@ export interface Wallet {
   balance: number;
   created_at: string;
   updated_at: string;
-} 
\ No newline at end of file
+} 
+export type ReceiptKind = 'top_up' | 'booking_payment' | 'payout';
+
+export interface ReceiptLine {
+  label: string;
+  amount: number;
+}
+
+export interface ReceiptEvent {
+  label: string;
+  at: string;
+}
+
+/** Everything the transaction detail screen and a shared receipt show */
+export interface Receipt {
+  kind: ReceiptKind;
+  title: string;
+  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  /** Charged to the user, or credited for a top-up */
+  total: number;
+  /** Breakdown of the total: fare and fees, or amount and fee */
+  lines: ReceiptLine[];
+  /** The payment's own reference, also used with the provider */
+  reference: string;
+  /** Id of the ledger entry that moved the money; support looks receipts up by it */
+  verification_code: string | null;
+  provider: PaymentProvider | null;
+  provider_reference: string | null;
+  phone_number: string | null;
+  created_at: string;
+  timeline: ReceiptEvent[];
+  booking: {
+    id: string;
+    ride_id: string;
+    origin_address: string;
+    destination_address: string;
+    departure_time: string;
+    seats: number;
+    driver_name: string | null;
+  } | null;
+}
+
+export type WalletPinErrorCode =
+  | 'NOT_AUTHENTICATED'
+  | 'PIN_INVALID'
+  | 'PIN_NOT_SET'
+  | 'PIN_INCORRECT'
+  | 'PIN_LOCKED'
+  | 'REAUTH_REQUIRED'
+  | 'UNKNOWN';
+
+/** From `wallet_pin_status` */
+export interface WalletPinStatus {
+  has_pin: boolean;
+  /** Set while too many wrong attempts have locked the PIN */
+  locked_until: string | null;
+  /** Wallet-funded bookings above this many UGX need the PIN */
+  required_above: number;
+}
+
+/** From `verify_wallet_pin`; the token authorizes one money movement */
+export type WalletPinVerification =
+  | { verified: true; token: string; expires_at: string }
+  | { verified: false; attempts_left: number; locked_until: string | null };
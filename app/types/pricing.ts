@@ -0,0 +1,42 @@
+/** The editable fee settings in `pricing_rules` */
+export interface PricingRules {
+  service_fee_rate: number;
+  service_fee_min: number;
+  commission_rate: number;
+  payout_fee_rate: number;
+  payout_fee_min: number;
+  payout_minimum: number;
+  transfer_minimum: number;
+  /** Wallet credit for the user whose code was used, in UGX */
+  referral_reward_referrer: number;
+  /** Wallet credit for the new user, in UGX */
+  referral_reward_referee: number;
+  /** Wallet-funded bookings above this need the wallet PIN */
+  pin_required_above: number;
+  updated_at: string;
+}
+
+/**
+ * A fare priced by `quote_fare`, in whole UGX. Bookings store the quote they
+ * were charged, so receipts show exactly these figures.
+ */
+export interface FareQuote {
+  seats: number;
+  price_per_seat: number;
+  /** seats × price_per_seat */
+  subtotal: number;
+  service_fee: number;
+  /** Paid for by the promotions account, so the driver's earnings are unchanged */
+  discount: number;
+  /** What the passenger pays: subtotal + service_fee − discount */
+  total: number;
+  /** Kept from the driver's subtotal */
+  commission: number;
+  /** What the driver receives when the trip completes: subtotal − commission */
+  driver_earnings: number;
+  service_fee_rate: number;
+  commission_rate: number;
+  /** The promo code the discount came from, if any */
+  promo_code?: string;
+  promo_description?: string | null;
+}
@@ -0,0 +1,38 @@
+/** Why a promo code can't be applied, raised by `promo_quote` */
+export type PromoCodeErrorCode =
+  | 'PROMO_NOT_FOUND'
+  | 'PROMO_EXPIRED'
+  | 'PROMO_EXHAUSTED'
+  | 'PROMO_ALREADY_USED'
+  | 'PROMO_FIRST_RIDE_ONLY'
+  | 'PROMO_ROUTE_MISMATCH';
+
+export type PromoErrorCode =
+  | PromoCodeErrorCode
+  | 'NOT_AUTHENTICATED'
+  | 'RIDE_NOT_FOUND'
+  | 'REFERRAL_NOT_FOUND'
+  | 'OWN_REFERRAL'
+  | 'REFERRAL_ALREADY_USED'
+  | 'NOT_NEW_USER'
+  | 'UNKNOWN';
+
+export type ReferralStatus = 'pending' | 'rewarded';
+
+/** Someone who signed up with the user's referral code, or who referred them */
+export interface Referral {
+  id: string;
+  referrer_id: string;
+  referee_id: string;
+  status: ReferralStatus;
+  /** Fixed when the reward is paid; null while pending */
+  referrer_reward: number | null;
+  referee_reward: number | null;
+  created_at: string;
+  rewarded_at: string | null;
+  referee: {
+    id: string;
+    full_name: string | null;
+    avatar_url: string | null;
+  };
+}
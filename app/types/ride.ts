@@ -0,0 +1,172 @@
+import { BookingMode } from './booking';
+import { Json, Tables } from './database';
+
+export type RideStatus = 'active' | 'in_progress' | 'completed' | 'cancelled';
+
+export type CarFeatures = {
+  hasAirCon: boolean;
+  hasLuggageSpace: boolean;
+  hasWifi: boolean;
+  allowsSmoking: boolean;
+  allowsPets: boolean;
+  hasChildSeat: boolean;
+  hasCharger: boolean;
+  hasRefreshments: boolean;
+  hasMusicSystem: boolean;
+};
+
+/** A `CarFeatures` flag as stored in `rides.features`, for searching by */
+export type RideFeature =
+  | 'air_con'
+  | 'luggage_space'
+  | 'wifi'
+  | 'smoking'
+  | 'pets'
+  | 'child_seat'
+  | 'charger'
+  | 'refreshments'
+  | 'music';
+
+/** Recorded by `record_verification` from the ID document; women-only rides are offered and booked by women */
+export type Gender = 'female' | 'male';
+
+export type CarDetails = {
+  make: string;
+  model: string;
+  year: number;
+  color: string;
+  plate_number: string;
+  features: CarFeatures;
+};
+
+export type RideLocation = {
+  city: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+};
+
+export type RideDriver = {
+  id: string;
+  full_name: string;
+  avatar_url: string | null;
+  phone: string | null;
+  rating: number;
+  total_rides: number;
+  /** Share of accepted bookings the driver completed rather than cancelled; null for new drivers */
+  reliability_score: number | null;
+  vehicle_details: Json | null;
+  /** ID and vehicle both verified */
+  is_verified: boolean;
+};
+
+/** A ride as the app works with it, whichever screen loaded it */
+export type Ride = {
+  id: string;
+  driver_id: string;
+  origin: RideLocation;
+  destination: RideLocation;
+  departure_time: string;
+  price_per_seat: number;
+  available_seats: number;
+  status: RideStatus;
+  booking_mode: BookingMode;
+  description: string | null;
+  pickup_location: string | null;
+  dropoff_location: string | null;
+  car_details: CarDetails | null;
+  features: RideFeature[];
+  /** Only women can book it */
+  women_only: boolean;
+  created_at: string;
+  driver?: RideDriver;
+};
+
+/** A ride loaded with `RIDE_SELECT`, which always joins the driver */
+export type RideWithDriver = Ride & { driver: RideDriver };
+
+/** A row of the `rides` table, with the driver joined by `RIDE_SELECT` */
+export type RideRow = Tables<'rides'> & {
+  driver?: Pick<
+    Tables<'profiles'>,
+    'id' | 'full_name' | 'avatar_url' | 'phone' | 'rating' | 'total_rides' | 'reliability_score' | 'vehicle_details'
+    | 'is_verified'
+  > | null;
+};
+
+export type RideSortOption = 'price_asc' | 'price_desc' | 'date_asc' | 'date_desc' | 'seats_asc' | 'seats_desc';
+
+/** What the find-ride screen searches by; fields left out don't narrow the search */
+export type RideSearchQuery = {
+  origin_city?: string;
+  destination_city?: string;
+  /** Earliest departure; rides that have already left are never returned */
+  departs_after?: Date;
+  departs_before?: Date;
+  min_seats?: number;
+  min_price?: number;
+  max_price?: number;
+  /** Rides offering all of these */
+  features?: RideFeature[];
+  min_driver_rating?: number;
+  verified_only?: boolean;
+  women_only?: boolean;
+  sort?: RideSortOption;
+  /** Rows to skip, for loading the next page */
+  offset?: number;
+  limit?: number;
+};
+
+/** What the find-ride filter sheet narrows the search by; empty values don't narrow it */
+export type RideFilters = {
+  min_price: number | null;
+  max_price: number | null;
+  min_seats: number | null;
+  features: RideFeature[];
+  min_driver_rating: number | null;
+  verified_only: boolean;
+  women_only: boolean;
+};
+
+/** How a ride's route lines up with a passenger's trip, from `search_rides_along_route` */
+export type RideRouteMatch = {
+  ride_id: string;
+  /** How far the pickup is from the ride's route */
+  pickup_distance_km: number;
+  dropoff_distance_km: number;
+  /** What the driver adds by leaving the route and coming back, at both ends */
+  detour_km: number;
+  /** Part of the route the passenger rides, from 0 to 1 */
+  trip_share: number;
+};
+
+export type RideWithRouteMatch = RideWithDriver & { match: RideRouteMatch };
+
+/** A route the passenger is alerted about when a matching ride is posted */
+export type SavedSearch = Tables<'saved_searches'>;
+
+/** What the saved-search form fills in; unset fields don't narrow the alert */
+export type SavedSearchDraft = {
+  origin: RideLocation;
+  destination: RideLocation;
+  departs_after: Date | null;
+  departs_before: Date | null;
+  max_price: number | null;
+  min_seats: number;
+};
+
+/** What a driver fills in on the post-ride form */
+export type RideDraft = {
+  driver_id: string;
+  origin: RideLocation;
+  destination: RideLocation;
+  departure_time: string;
+  price_per_seat: number;
+  available_seats: number;
+  booking_mode: BookingMode;
+  description?: string;
+  pickup_location?: string;
+  dropoff_location?: string;
+  car_details: CarDetails;
+  women_only?: boolean;
+};
@@ -0,0 +1,8 @@
+/**
+ * The message of whatever was thrown, when it has one. Supabase errors are
+ * plain objects rather than `Error`s, so this checks the shape instead.
+ */
+export const getErrorMessage = (error: unknown): string | undefined =>
+  typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string'
+    ? error.message
+    : undefined;
@@ -0,0 +1,55 @@
+import type { LatLng, Region } from 'react-native-maps';
+
+/** Points close together at the current zoom, drawn as one marker */
+export type MapCluster<T> = {
+  /** Stable while the grid cell is the same, for use as a React key */
+  id: string;
+  latitude: number;
+  longitude: number;
+  items: T[];
+};
+
+/** Below this many degrees across, the map is zoomed in enough to show every point */
+const MIN_CLUSTER_DELTA = 0.05;
+
+/**
+ * Groups points that fall in the same cell of a grid laid over the visible
+ * region, `cellsAcross` cells wide. Cells are aligned to fixed multiples of
+ * their size, so clusters don't jump around while the map is panned.
+ */
+export const clusterByRegion = <T>(
+  items: T[],
+  getCoordinate: (item: T) => LatLng,
+  region: Region,
+  cellsAcross = 6
+): MapCluster<T>[] => {
+  const clustering = region.longitudeDelta >= MIN_CLUSTER_DELTA;
+  const cellSize = region.longitudeDelta / cellsAcross;
+  const cells = new Map<string, T[]>();
+
+  items.forEach((item, index) => {
+    const { latitude, longitude } = getCoordinate(item);
+    const key = clustering
+      ? `${Math.floor(latitude / cellSize)}:${Math.floor(longitude / cellSize)}`
+      : `item:${index}`;
+    cells.set(key, [...(cells.get(key) ?? []), item]);
+  });
+
+  return Array.from(cells, ([key, members]) => {
+    const coordinates = members.map(getCoordinate);
+    return {
+      id: key,
+      latitude: coordinates.reduce((sum, point) => sum + point.latitude, 0) / coordinates.length,
+      longitude: coordinates.reduce((sum, point) => sum + point.longitude, 0) / coordinates.length,
+      items: members,
+    };
+  });
+};
+
+/** Whether every point in the cluster is in the same place, so zooming in won't split it */
+export const isStackedCluster = <T>(cluster: MapCluster<T>, getCoordinate: (item: T) => LatLng) => {
+  const [first, ...rest] = cluster.items.map(getCoordinate);
+  return rest.every(
+    (point) => Math.abs(point.latitude - first.latitude) < 1e-4 && Math.abs(point.longitude - first.longitude) < 1e-4
+  );
+};
@@ -0,0 +1,104 @@
+import { City } from '../constants/cities';
+import { CarDetails, Ride, RideDraft, RideDriver, RideLocation, RideRow } from '../types/ride';
+import { TablesInsert } from '../types/database';
+
+const RIDE_DRIVER_COLUMNS = `
+    id,
+    full_name,
+    avatar_url,
+    phone,
+    rating,
+    total_rides,
+    reliability_score,
+    vehicle_details,
+    is_verified
+`;
+
+/** Ride columns plus the driver profile, for queries that map through `toRide` */
+export const RIDE_SELECT = `
+  *,
+  driver:profiles!rides_driver_id_fkey (${RIDE_DRIVER_COLUMNS})
+` as const;
+
+/**
+ * `RIDE_SELECT` with the driver inner-joined, so a filter on the driver's
+ * columns drops the ride rather than just leaving its driver out.
+ */
+export const RIDE_SELECT_FILTERING_DRIVER = `
+  *,
+  driver:profiles!rides_driver_id_fkey!inner (${RIDE_DRIVER_COLUMNS})
+` as const;
+
+export const cityToLocation = (city: City, address?: string): RideLocation => ({
+  city: city.name,
+  address: address?.trim() || city.name,
+  latitude: city.latitude,
+  longitude: city.longitude,
+});
+
+const toRideDriver = (driver: NonNullable<RideRow['driver']>): RideDriver => ({
+  id: driver.id,
+  full_name: driver.full_name || '',
+  avatar_url: driver.avatar_url,
+  phone: driver.phone,
+  rating: driver.rating ?? 0,
+  total_rides: driver.total_rides ?? 0,
+  reliability_score: driver.reliability_score,
+  vehicle_details: driver.vehicle_details,
+  is_verified: driver.is_verified ?? false,
+});
+
+export const toRide = (row: RideRow): Ride => ({
+  id: row.id,
+  driver_id: row.driver_id,
+  origin: {
+    city: row.origin_city,
+    address: row.origin_address,
+    latitude: row.origin_lat,
+    longitude: row.origin_lng,
+  },
+  destination: {
+    city: row.destination_city,
+    address: row.destination_address,
+    latitude: row.destination_lat,
+    longitude: row.destination_lng,
+  },
+  departure_time: row.departure_time,
+  price_per_seat: Number(row.price_per_seat),
+  available_seats: row.available_seats,
+  status: row.status,
+  booking_mode: row.booking_mode,
+  description: row.description,
+  pickup_location: row.pickup_location,
+  dropoff_location: row.dropoff_location,
+  car_details: row.car_details as CarDetails | null,
+  features: row.features ?? [],
+  women_only: row.women_only ?? false,
+  created_at: row.created_at,
+  driver: row.driver ? toRideDriver(row.driver) : undefined,
+});
+
+export const toRides = (rows: RideRow[] | null): Ride[] => (rows || []).map(toRide);
+
+/** Columns to insert into `rides` for a newly posted ride */
+export const toRideInsert = (draft: RideDraft): TablesInsert<'rides'> => ({
+  driver_id: draft.driver_id,
+  origin_city: draft.origin.city,
+  destination_city: draft.destination.city,
+  origin_address: draft.origin.address,
+  destination_address: draft.destination.address,
+  origin_lat: draft.origin.latitude,
+  origin_lng: draft.origin.longitude,
+  destination_lat: draft.destination.latitude,
+  destination_lng: draft.destination.longitude,
+  departure_time: draft.departure_time,
+  price_per_seat: draft.price_per_seat,
+  available_seats: draft.available_seats,
+  status: 'active',
+  booking_mode: draft.booking_mode,
+  description: draft.description || null,
+  pickup_location: draft.pickup_location || null,
+  dropoff_location: draft.dropoff_location || null,
+  car_details: draft.car_details,
+  women_only: draft.women_only ?? false,
+});
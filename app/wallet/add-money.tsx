@@ -2,11 +2,17 @@ import React, { useState } from 'react';
 import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, Alert, TextInput } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useColorScheme } from '@/components/useColorScheme';
-import { ThemedText } from '@/components/ThemedText';
-import { ThemedView } from '@/components/ThemedView';
-import Colors from '@/constants/Colors';
-import { supabase } from '@/lib/supabase';
+import {
+  useColorScheme,
+  ThemedText,
+  ThemedView,
+  useTransactionSettlement,
+  getPaymentFailureMessage,
+  useIdempotencyKey,
+} from '../components';
+import Colors from '../constants/Colors';
+import { TransactionRow } from '../repositories/wallet';
+import { paymentService } from '../services/paymentService';
 
 type PaymentMethod = 'mtn' | 'airtel';
 
@@ -26,6 +32,32 @@ export default function AddMoneyScreen() {
     method: 'mtn',
   });
 
+  // Retrying the same top-up reuses the key, so it can't be charged twice
+  const { idempotencyKey, renewIdempotencyKey } = useIdempotencyKey([
+    paymentDetails.amount,
+    paymentDetails.phoneNumber,
+    paymentDetails.method,
+  ]);
+
+  const handleSettled = (transaction: TransactionRow) => {
+    setLoading(false);
+    renewIdempotencyKey();
+
+    if (transaction.status === 'completed') {
+      Alert.alert(
+        'Success',
+        'Money added successfully!',
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } else {
+      Alert.alert('Payment Failed', getPaymentFailureMessage(transaction));
+    }
+  };
+
+  // The payer approves on their handset, so wait for the server to settle the
+  // transaction instead of assuming an outcome
+  const { pendingReference, waitForSettlement } = useTransactionSettlement(handleSettled);
+
   const handlePayment = async () => {
     try {
       if (!paymentDetails.amount || !paymentDetails.phoneNumber) {
@@ -41,69 +73,22 @@ export default function AddMoneyScreen() {
 
       setLoading(true);
 
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not found');
-
-      // Initialize payment request
-      const { data: paymentRequest, error: paymentError } = await supabase
-        .from('payment_requests')
-        .insert({
-          user_id: user.id,
-          amount,
-          phone_number: paymentDetails.phoneNumber,
-          payment_method: paymentDetails.method,
-          status: 'pending',
-        })
-        .select()
-        .single();
+      const response = await paymentService.processPayment({
+        amount,
+        phone_number: paymentDetails.phoneNumber,
+        provider: paymentDetails.method === 'mtn' ? 'MTN' : 'AIRTEL',
+        description: `Added money via ${paymentDetails.method.toUpperCase()}`,
+        idempotency_key: idempotencyKey,
+      });
 
-      if (paymentError) throw paymentError;
-
-      // In a real app, you would integrate with a payment gateway here
-      // For demo purposes, we'll simulate a successful payment after 2 seconds
-      setTimeout(async () => {
-        try {
-          // Update payment request status
-          const { error: updateError } = await supabase
-            .from('payment_requests')
-            .update({ status: 'completed' })
-            .eq('id', paymentRequest.id);
-
-          if (updateError) throw updateError;
-
-          // Create transaction record
-          const { error: transactionError } = await supabase
-            .from('transactions')
-            .insert({
-              user_id: user.id,
-              type: 'credit',
-              amount,
-              description: `Added money via ${paymentDetails.method.toUpperCase()}`,
-              status: 'completed',
-            });
-
-          if (transactionError) throw transactionError;
-
-          // Update wallet balance
-          const { error: walletError } = await supabase.rpc('update_wallet_balance', {
-            p_user_id: user.id,
-            p_amount: amount,
-          });
-
-          if (walletError) throw walletError;
+      if (response.status === 'error' || !response.data) {
+        if (!response.retryable) renewIdempotencyKey();
+        Alert.alert('Error', response.message || 'Failed to initiate payment. Please try again.');
+        setLoading(false);
+        return;
+      }
 
-          Alert.alert(
-            'Success',
-            'Money added successfully!',
-            [{ text: 'OK', onPress: () => router.back() }]
-          );
-        } catch (error) {
-          console.error('Error processing payment:', error);
-          Alert.alert('Error', 'Failed to process payment. Please try again.');
-        } finally {
-          setLoading(false);
-        }
-      }, 2000);
+      await waitForSettlement(response.data.transaction_id);
     } catch (error) {
       console.error('Error initiating payment:', error);
       Alert.alert('Error', 'Failed to initiate payment. Please try again.');
@@ -214,6 +199,15 @@ export default function AddMoneyScreen() {
           )}
         </Pressable>
 
+        {pendingReference && (
+          <View style={styles.pendingNote}>
+            <Ionicons name="phone-portrait-outline" size={20} color={Colors[colorScheme].tint} />
+            <ThemedText style={styles.pendingText}>
+              Check your phone and enter your mobile money PIN to approve the payment.
+            </ThemedText>
+          </View>
+        )}
+
         {/* Security Note */}
         <View style={styles.securityNote}>
           <Ionicons name="shield-checkmark" size={20} color={Colors[colorScheme].text} />
@@ -293,6 +287,19 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginLeft: 8,
   },
+  pendingNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: Colors.light.tint + '10',
+    marginBottom: 16,
+  },
+  pendingText: {
+    flex: 1,
+    fontSize: 14,
+    marginLeft: 8,
+  },
   securityNote: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,21 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, RefreshControl, Share } from 'react-native';
+import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, RefreshControl } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useColorScheme } from '@/components/useColorScheme';
-import { ThemedText } from '@/components/ThemedText';
-import { ThemedView } from '@/components/ThemedView';
-import Colors from '@/constants/Colors';
-import { supabase } from '@/lib/supabase';
+import { useColorScheme, ThemedText, ThemedView } from '../components';
+import Colors from '../constants/Colors';
+import { supabase } from '../lib/supabase';
+import { walletRepository, TransactionRow } from '../repositories/wallet';
 
-interface Transaction {
-  id: string;
-  type: 'credit' | 'debit';
-  amount: number;
-  description: string;
-  created_at: string;
-  status: 'completed' | 'pending' | 'failed';
-}
+type Transaction = TransactionRow;
 
 type Filter = {
   type?: 'credit' | 'debit';
@@ -43,41 +35,29 @@ export default function TransactionHistoryScreen() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not found');
 
-      let query = supabase
-        .from('transactions')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      // Apply filters
-      if (filter.type) {
-        query = query.eq('type', filter.type);
-      }
-      if (filter.status) {
-        query = query.eq('status', filter.status);
-      }
+      let since: Date | undefined;
       if (filter.dateRange && filter.dateRange !== 'all') {
         const now = new Date();
-        let startDate = new Date();
-        
+        since = new Date();
+
         switch (filter.dateRange) {
           case 'today':
-            startDate.setHours(0, 0, 0, 0);
+            since.setHours(0, 0, 0, 0);
             break;
           case 'week':
-            startDate.setDate(now.getDate() - 7);
+            since.setDate(now.getDate() - 7);
             break;
           case 'month':
-            startDate.setMonth(now.getMonth() - 1);
+            since.setMonth(now.getMonth() - 1);
             break;
         }
-        
-        query = query.gte('created_at', startDate.toISOString());
       }
 
-      const { data, error } = await query;
-      if (error) throw error;
-      
+      const data = await walletRepository.getTransactions(user.id, {
+        type: filter.type,
+        status: filter.status,
+        since,
+      });
       setTransactions(data);
     } catch (error) {
       console.error('Error loading transactions:', error);
@@ -120,25 +100,6 @@ export default function TransactionHistoryScreen() {
     }
   };
 
-  const exportTransactions = async () => {
-    try {
-      // Format transactions for export
-      const csvContent = transactions.map(t => {
-        return `${new Date(t.created_at).toLocaleString()},${t.type},${t.amount},${t.status},${t.description}`;
-      }).join('\n');
-
-      const header = 'Date,Type,Amount,Status,Description\n';
-      const content = header + csvContent;
-
-      await Share.share({
-        message: content,
-        title: 'Transaction History',
-      });
-    } catch (error) {
-      console.error('Error exporting transactions:', error);
-    }
-  };
-
   const FilterButton = ({ label, value, current, onPress }: {
     label: string;
     value: string;
@@ -225,13 +186,13 @@ export default function TransactionHistoryScreen() {
         </ScrollView>
       </ThemedView>
 
-      {/* Export Button */}
+      {/* Statement Export */}
       <Pressable
         style={styles.exportButton}
-        onPress={exportTransactions}
+        onPress={() => router.push('/wallet/statement')}
       >
         <Ionicons name="download-outline" size={20} color={Colors[colorScheme].tint} />
-        <ThemedText style={styles.exportButtonText}>Export</ThemedText>
+        <ThemedText style={styles.exportButtonText}>Statement</ThemedText>
       </Pressable>
 
       {/* Transactions List */}
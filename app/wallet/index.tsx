@@ -1,35 +1,36 @@
 import React, { useEffect, useState } from 'react';
-import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, RefreshControl } from 'react-native';
+import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, RefreshControl, Alert } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useColorScheme } from '@/components/useColorScheme';
-import { ThemedText } from '@/components/ThemedText';
-import { ThemedView } from '@/components/ThemedView';
-import Colors from '@/constants/Colors';
-import { supabase } from '@/lib/supabase';
+import { useColorScheme, useWalletPin, ThemedText, ThemedView, WalletPinPrompt } from '../components';
+import Colors from '../constants/Colors';
+import { supabase } from '../lib/supabase';
+import { walletRepository, PayoutRow, TransactionRow, WalletRow } from '../repositories/wallet';
+import { transferService, TransferError } from '../services/transferService';
+import { SplitRequest, WalletTransfer } from '../types/payment';
 
-interface Transaction {
-  id: string;
-  type: 'credit' | 'debit';
-  amount: number;
-  description: string;
-  created_at: string;
-  status: 'completed' | 'pending' | 'failed';
-}
+type Transaction = TransactionRow;
 
-interface WalletBalance {
-  balance: number;
-  currency: string;
-  last_updated: string;
-}
+const PAYOUT_STATUS_LABELS: Record<PayoutRow['status'], string> = {
+  pending: 'Requested',
+  processing: 'Processing',
+  paid: 'Paid',
+  failed: 'Failed, refunded to wallet',
+};
 
 export default function WalletScreen() {
   const router = useRouter();
+  const { requestPinToken, pinPromptProps } = useWalletPin();
   const colorScheme = useColorScheme();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [balance, setBalance] = useState<WalletBalance | null>(null);
+  const [balance, setBalance] = useState<WalletRow | null>(null);
   const [recentTransactions, setRecentTransactions] = useState<Transaction[]>([]);
+  const [recentPayouts, setRecentPayouts] = useState<PayoutRow[]>([]);
+  const [recentTransfers, setRecentTransfers] = useState<WalletTransfer[]>([]);
+  const [splitRequests, setSplitRequests] = useState<SplitRequest[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
 
   useEffect(() => {
     loadWalletData();
@@ -41,26 +42,20 @@ export default function WalletScreen() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not found');
 
-      // Fetch wallet balance
-      const { data: walletData, error: walletError } = await supabase
-        .from('wallets')
-        .select('balance, currency, last_updated')
-        .eq('user_id', user.id)
-        .single();
-
-      if (walletError) throw walletError;
-      setBalance(walletData);
+      const [wallet, transactions, payouts, transfers, requests] = await Promise.all([
+        walletRepository.getWallet(user.id),
+        walletRepository.getTransactions(user.id, { limit: 5 }),
+        walletRepository.getPayouts(user.id, 3),
+        transferService.getTransfers(3),
+        transferService.getPendingSplitRequests(),
+      ]);
 
-      // Fetch recent transactions
-      const { data: transactionsData, error: transactionsError } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(5);
-
-      if (transactionsError) throw transactionsError;
-      setRecentTransactions(transactionsData);
+      setUserId(user.id);
+      setBalance(wallet);
+      setRecentTransactions(transactions);
+      setRecentPayouts(payouts);
+      setRecentTransfers(transfers);
+      setSplitRequests(requests);
     } catch (error) {
       console.error('Error loading wallet data:', error);
     } finally {
@@ -74,6 +69,36 @@ export default function WalletScreen() {
     setRefreshing(false);
   };
 
+  const respondToSplitRequest = async (request: SplitRequest, accept: boolean) => {
+    let pinToken: string | undefined;
+    if (accept) {
+      const token = await requestPinToken();
+      if (!token) return;
+      pinToken = token;
+    }
+
+    try {
+      setRespondingId(request.id);
+      await transferService.respondToSplitRequest(request.id, accept, pinToken);
+      await loadWalletData();
+    } catch (error) {
+      Alert.alert('Error', error instanceof TransferError ? error.message : 'Failed to answer the request');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const handleAcceptSplit = (request: SplitRequest) => {
+    Alert.alert(
+      'Pay Your Share',
+      `Send UGX ${request.amount.toLocaleString()} from your wallet to ${request.requester.full_name || 'your co-traveller'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Pay', onPress: () => respondToSplitRequest(request, true) },
+      ]
+    );
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-UG', {
       style: 'currency',
@@ -89,11 +114,13 @@ export default function WalletScreen() {
     return type === 'credit' ? '#4CAF50' : '#F44336';
   };
 
-  const getStatusColor = (status: Transaction['status']) => {
+  const getStatusColor = (status: Transaction['status'] | PayoutRow['status']) => {
     switch (status) {
       case 'completed':
+      case 'paid':
         return '#4CAF50';
       case 'pending':
+      case 'processing':
         return '#FFC107';
       case 'failed':
         return '#F44336';
@@ -130,15 +157,162 @@ export default function WalletScreen() {
         <ThemedText style={styles.lastUpdated}>
           Last updated: {new Date(balance?.last_updated || '').toLocaleString()}
         </ThemedText>
-        <Pressable
-          style={styles.addMoneyButton}
-          onPress={() => router.push('/wallet/add-money')}
-        >
-          <Ionicons name="add-circle" size={24} color="#fff" />
-          <ThemedText style={styles.addMoneyText}>Add Money</ThemedText>
-        </Pressable>
+        <View style={styles.balanceActions}>
+          <Pressable
+            style={styles.addMoneyButton}
+            onPress={() => router.push('/wallet/add-money')}
+          >
+            <Ionicons name="add-circle" size={24} color="#fff" />
+            <ThemedText style={styles.addMoneyText}>Add Money</ThemedText>
+          </Pressable>
+          <Pressable
+            style={[styles.addMoneyButton, styles.withdrawButton]}
+            onPress={() => router.push('/wallet/withdraw')}
+          >
+            <Ionicons name="arrow-up-circle" size={24} color={Colors.light.tint} />
+            <ThemedText style={[styles.addMoneyText, styles.withdrawText]}>Withdraw</ThemedText>
+          </Pressable>
+          <Pressable
+            style={[styles.addMoneyButton, styles.withdrawButton]}
+            onPress={() => router.push('/wallet/transfer')}
+          >
+            <Ionicons name="send" size={24} color={Colors.light.tint} />
+            <ThemedText style={[styles.addMoneyText, styles.withdrawText]}>Send</ThemedText>
+          </Pressable>
+          <Pressable
+            style={[styles.addMoneyButton, styles.withdrawButton]}
+            onPress={() => router.push('/wallet/referrals')}
+          >
+            <Ionicons name="gift" size={24} color={Colors.light.tint} />
+            <ThemedText style={[styles.addMoneyText, styles.withdrawText]}>Invite</ThemedText>
+          </Pressable>
+        </View>
       </ThemedView>
 
+      {/* Split-fare requests from co-travellers */}
+      {splitRequests.length > 0 && (
+        <ThemedView style={styles.transactionsCard}>
+          <View style={styles.sectionHeader}>
+            <ThemedText style={styles.sectionTitle}>Payment Requests</ThemedText>
+          </View>
+          <View style={styles.transactionsList}>
+            {splitRequests.map((request) => (
+              <View key={request.id}>
+                <View style={styles.transactionItem}>
+                  <View style={styles.transactionIcon}>
+                    <Ionicons name="people" size={22} color={Colors.light.tint} />
+                  </View>
+                  <View style={styles.transactionDetails}>
+                    <ThemedText style={styles.transactionDescription}>
+                      {request.requester.full_name || 'A co-traveller'} asked for your share
+                    </ThemedText>
+                    <ThemedText style={styles.transactionStatus}>
+                      {request.description} • {new Date(request.departure_time).toLocaleDateString()}
+                    </ThemedText>
+                  </View>
+                  <ThemedText style={styles.transactionAmount}>
+                    {formatCurrency(request.amount)}
+                  </ThemedText>
+                </View>
+                <View style={styles.requestActions}>
+                  {respondingId === request.id ? (
+                    <ActivityIndicator color={Colors[colorScheme].tint} />
+                  ) : (
+                    <>
+                      <Pressable
+                        style={[styles.requestButton, styles.withdrawButton]}
+                        onPress={() => respondToSplitRequest(request, false)}
+                        disabled={respondingId !== null}
+                      >
+                        <ThemedText style={styles.withdrawText}>Decline</ThemedText>
+                      </Pressable>
+                      <Pressable
+                        style={styles.requestButton}
+                        onPress={() => handleAcceptSplit(request)}
+                        disabled={respondingId !== null}
+                      >
+                        <ThemedText style={styles.requestButtonText}>Pay</ThemedText>
+                      </Pressable>
+                    </>
+                  )}
+                </View>
+              </View>
+            ))}
+          </View>
+        </ThemedView>
+      )}
+
+      {/* Recent Transfers */}
+      {recentTransfers.length > 0 && (
+        <ThemedView style={styles.transactionsCard}>
+          <View style={styles.sectionHeader}>
+            <ThemedText style={styles.sectionTitle}>Transfers</ThemedText>
+          </View>
+          <View style={styles.transactionsList}>
+            {recentTransfers.map((transfer) => {
+              const sent = transfer.sender_id === userId;
+              const other = sent ? transfer.recipient : transfer.sender;
+              const type = sent ? 'debit' : 'credit';
+
+              return (
+                <View key={transfer.id} style={styles.transactionItem}>
+                  <View style={styles.transactionIcon}>
+                    <Ionicons name={getTransactionIcon(type)} size={24} color={getTransactionColor(type)} />
+                  </View>
+                  <View style={styles.transactionDetails}>
+                    <ThemedText style={styles.transactionDescription}>
+                      {sent ? 'To' : 'From'} {other.full_name || other.phone || 'Makela user'}
+                    </ThemedText>
+                    <ThemedText style={styles.transactionStatus}>
+                      {transfer.note || new Date(transfer.created_at).toLocaleDateString()}
+                    </ThemedText>
+                  </View>
+                  <ThemedText style={[styles.transactionAmount, { color: getTransactionColor(type) }]}>
+                    {sent ? '-' : '+'}{formatCurrency(transfer.amount)}
+                  </ThemedText>
+                </View>
+              );
+            })}
+          </View>
+        </ThemedView>
+      )}
+
+      {/* Recent Withdrawals */}
+      {recentPayouts.length > 0 && (
+        <ThemedView style={styles.transactionsCard}>
+          <View style={styles.sectionHeader}>
+            <ThemedText style={styles.sectionTitle}>Withdrawals</ThemedText>
+          </View>
+          <View style={styles.transactionsList}>
+            {recentPayouts.map((payout) => (
+              <Pressable
+                key={payout.id}
+                style={styles.transactionItem}
+                onPress={() => router.push({
+                  pathname: '/wallet/transaction/[id]',
+                  params: { id: payout.id, kind: 'payout' },
+                })}
+              >
+                <View style={styles.transactionIcon}>
+                  <Ionicons name="arrow-up-circle" size={24} color={getTransactionColor('debit')} />
+                </View>
+                <View style={styles.transactionDetails}>
+                  <ThemedText style={styles.transactionDescription}>
+                    To {payout.phone_number}
+                  </ThemedText>
+                  <ThemedText style={[styles.transactionStatus, { color: getStatusColor(payout.status) }]}>
+                    {PAYOUT_STATUS_LABELS[payout.status]}
+                  </ThemedText>
+                </View>
+                <ThemedText style={[styles.transactionAmount, { color: getTransactionColor('debit') }]}>
+                  -{formatCurrency(payout.amount + payout.fee)}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+        </ThemedView>
+      )}
+
       {/* Recent Transactions */}
       <ThemedView style={styles.transactionsCard}>
         <View style={styles.sectionHeader}>
@@ -200,6 +374,8 @@ export default function WalletScreen() {
           </View>
         )}
       </ThemedView>
+
+      <WalletPinPrompt {...pinPromptProps} />
     </ScrollView>
   );
 }
@@ -232,6 +408,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.5,
   },
+  balanceActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 12,
+    marginTop: 16,
+  },
   addMoneyButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -239,7 +422,6 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingVertical: 12,
     borderRadius: 8,
-    marginTop: 16,
   },
   addMoneyText: {
     color: '#fff',
@@ -247,6 +429,14 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginLeft: 8,
   },
+  withdrawButton: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+  },
+  withdrawText: {
+    color: Colors.light.tint,
+  },
   transactionsCard: {
     margin: 16,
     padding: 16,
@@ -306,4 +496,20 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  requestActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  requestButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.light.tint,
+  },
+  requestButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
 }); 
\ No newline at end of file
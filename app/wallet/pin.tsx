@@ -0,0 +1,387 @@
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, Alert, TextInput, Switch } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useColorScheme, ThemedText, ThemedView } from '../components';
+import Colors from '../constants/Colors';
+import { supabase } from '../lib/supabase';
+import { walletPinService, WalletPinError } from '../services/walletPinService';
+import { WalletPinStatus } from '../types/payment';
+
+const PIN_PATTERN = /^[0-9]{4,6}$/;
+
+export default function WalletPinScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const [status, setStatus] = useState<WalletPinStatus | null>(null);
+  const [accountPhone, setAccountPhone] = useState<string | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [saving, setSaving] = useState(false);
+  // Setting a PIN needs a fresh OTP; set once a code has been sent to the account's phone
+  const [otpSent, setOtpSent] = useState(false);
+  const [otp, setOtp] = useState('');
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [biometricEnabled, setBiometricEnabled] = useState(false);
+  // Turning biometrics on asks for the current PIN first
+  const [enablingBiometric, setEnablingBiometric] = useState(false);
+  const [biometricPin, setBiometricPin] = useState('');
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not found');
+      setAccountPhone(user.phone ?? null);
+
+      const [pinStatus, available, enabled] = await Promise.all([
+        walletPinService.getStatus(),
+        walletPinService.isBiometricAvailable(),
+        walletPinService.isBiometricEnabled(),
+      ]);
+      setStatus(pinStatus);
+      setBiometricAvailable(available);
+      setBiometricEnabled(enabled);
+    } catch (error) {
+      console.error('Error loading wallet PIN:', error);
+    }
+  };
+
+  const validate = (): string | null => {
+    if (!PIN_PATTERN.test(pin)) return 'Your PIN must be 4 to 6 digits';
+    if (pin !== confirmPin) return "The PINs don't match";
+    return null;
+  };
+
+  const sendVerificationCode = async () => {
+    if (!accountPhone) {
+      Alert.alert('Error', 'Your account has no phone number to verify');
+      return;
+    }
+
+    const { error } = await supabase.auth.signInWithOtp({ phone: accountPhone });
+    if (error) {
+      Alert.alert('Error', error.message);
+      return;
+    }
+    setOtp('');
+    setOtpSent(true);
+  };
+
+  const savePin = async () => {
+    try {
+      await walletPinService.setPin(pin);
+    } catch (error) {
+      if (error instanceof WalletPinError && error.code === 'REAUTH_REQUIRED') {
+        await sendVerificationCode();
+        return;
+      }
+      Alert.alert('Error', error instanceof WalletPinError ? error.message : 'Failed to save your PIN');
+      return;
+    }
+
+    const hadPin = status?.has_pin;
+    setPin('');
+    setConfirmPin('');
+    Alert.alert(
+      hadPin ? 'PIN Changed' : 'PIN Set',
+      "You'll be asked for it before money leaves your wallet.",
+      [{ text: 'OK', onPress: () => (hadPin ? router.back() : loadStatus()) }]
+    );
+  };
+
+  const handleSave = async () => {
+    const error = validate();
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await savePin();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!accountPhone || otp.length !== 6) {
+      Alert.alert('Error', 'Please enter the 6-digit code');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.auth.verifyOtp({ phone: accountPhone, token: otp, type: 'sms' });
+      if (error) throw error;
+
+      setOtpSent(false);
+      await savePin();
+    } catch (error) {
+      console.error('Error verifying code:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Verification failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBiometricToggle = async (value: boolean) => {
+    if (value) {
+      setBiometricPin('');
+      setEnablingBiometric(true);
+      return;
+    }
+
+    await walletPinService.disableBiometric();
+    setBiometricEnabled(false);
+  };
+
+  const handleEnableBiometric = async () => {
+    try {
+      setSaving(true);
+      await walletPinService.enableBiometric(biometricPin);
+      setBiometricEnabled(true);
+      setEnablingBiometric(false);
+    } catch (error) {
+      Alert.alert('Error', error instanceof WalletPinError ? error.message : 'Failed to turn on biometric unlock');
+    } finally {
+      setBiometricPin('');
+      setSaving(false);
+    }
+  };
+
+  if (!status) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors[colorScheme].tint} />
+      </View>
+    );
+  }
+
+  const inputStyle = [
+    styles.input,
+    { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }
+  ];
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.title}>{status.has_pin ? 'Reset Wallet PIN' : 'Set a Wallet PIN'}</ThemedText>
+        <ThemedText style={styles.hint}>
+          Your PIN is needed for withdrawals, transfers and wallet payments over
+          UGX {status.required_above.toLocaleString()}, so nobody else can move your money from an unlocked phone.
+        </ThemedText>
+
+        {status.locked_until && (
+          <View style={styles.lockedNote}>
+            <Ionicons name="lock-closed" size={20} color="#F44336" />
+            <ThemedText style={styles.lockedText}>
+              Locked after too many wrong attempts until {format(new Date(status.locked_until), 'h:mm a')}.
+              Resetting your PIN unlocks it.
+            </ThemedText>
+          </View>
+        )}
+
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.label}>New PIN</ThemedText>
+          <TextInput
+            style={inputStyle}
+            placeholder="4 to 6 digits"
+            placeholderTextColor={Colors[colorScheme].text + '80'}
+            keyboardType="number-pad"
+            maxLength={6}
+            secureTextEntry
+            value={pin}
+            onChangeText={(value) => setPin(value.replace(/[^0-9]/g, ''))}
+            editable={!otpSent}
+          />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.label}>Confirm PIN</ThemedText>
+          <TextInput
+            style={inputStyle}
+            placeholder="Enter it again"
+            placeholderTextColor={Colors[colorScheme].text + '80'}
+            keyboardType="number-pad"
+            maxLength={6}
+            secureTextEntry
+            value={confirmPin}
+            onChangeText={(value) => setConfirmPin(value.replace(/[^0-9]/g, ''))}
+            editable={!otpSent}
+          />
+        </View>
+
+        {otpSent && (
+          <View style={styles.inputContainer}>
+            <ThemedText style={styles.label}>Confirm it's you</ThemedText>
+            <ThemedText style={styles.hint}>
+              Enter the code we sent to {accountPhone} to save your PIN.
+            </ThemedText>
+            <TextInput
+              style={inputStyle}
+              placeholder="6-digit code"
+              placeholderTextColor={Colors[colorScheme].text + '80'}
+              keyboardType="number-pad"
+              maxLength={6}
+              value={otp}
+              onChangeText={setOtp}
+            />
+          </View>
+        )}
+
+        <Pressable
+          style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+          onPress={otpSent ? handleVerify : handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="shield-checkmark" size={22} color="#fff" />
+              <ThemedText style={styles.saveButtonText}>{otpSent ? 'Verify & Save PIN' : 'Save PIN'}</ThemedText>
+            </>
+          )}
+        </Pressable>
+      </ThemedView>
+
+      {status.has_pin && biometricAvailable && (
+        <ThemedView style={styles.card}>
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <ThemedText style={styles.label}>Unlock with biometrics</ThemedText>
+              <ThemedText style={styles.hint}>Use your fingerprint or face instead of typing your PIN.</ThemedText>
+            </View>
+            <Switch
+              value={biometricEnabled || enablingBiometric}
+              onValueChange={handleBiometricToggle}
+              disabled={saving}
+            />
+          </View>
+
+          {enablingBiometric && !biometricEnabled && (
+            <View style={styles.biometricRow}>
+              <TextInput
+                style={[inputStyle, styles.biometricInput]}
+                placeholder="Current PIN"
+                placeholderTextColor={Colors[colorScheme].text + '80'}
+                keyboardType="number-pad"
+                maxLength={6}
+                secureTextEntry
+                value={biometricPin}
+                onChangeText={(value) => setBiometricPin(value.replace(/[^0-9]/g, ''))}
+              />
+              <Pressable
+                style={[styles.confirmButton, (saving || biometricPin.length < 4) && styles.saveButtonDisabled]}
+                onPress={handleEnableBiometric}
+                disabled={saving || biometricPin.length < 4}
+              >
+                <ThemedText style={styles.saveButtonText}>Turn On</ThemedText>
+              </Pressable>
+            </View>
+          )}
+        </ThemedView>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 20,
+    borderRadius: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  lockedNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(244, 67, 54, 0.08)',
+    marginBottom: 16,
+  },
+  lockedText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#F44336',
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  biometricRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  biometricInput: {
+    flex: 1,
+  },
+  confirmButton: {
+    height: 48,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+  },
+});
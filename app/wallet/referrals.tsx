@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, Alert, TextInput, Share } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Avatar, useColorScheme, ThemedText, ThemedView } from '../components';
+import Colors from '../constants/Colors';
+import { pricingService } from '../services/pricingService';
+import { promotionService, PromoError } from '../services/promotionService';
+import { PricingRules } from '../types/pricing';
+import { Referral } from '../types/promotions';
+
+export default function ReferralsScreen() {
+  const colorScheme = useColorScheme();
+  const [loading, setLoading] = useState(true);
+  const [referralCode, setReferralCode] = useState<string | null>(null);
+  const [rules, setRules] = useState<PricingRules | null>(null);
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [ownReferral, setOwnReferral] = useState<Referral | null>(null);
+  const [friendCode, setFriendCode] = useState('');
+  const [redeeming, setRedeeming] = useState(false);
+
+  useEffect(() => {
+    loadReferrals();
+  }, []);
+
+  const loadReferrals = async () => {
+    try {
+      const [code, pricingRules, loadedReferrals, loadedOwnReferral] = await Promise.all([
+        promotionService.getReferralCode(),
+        pricingService.getRules(),
+        promotionService.getReferrals(),
+        promotionService.getOwnReferral(),
+      ]);
+      setReferralCode(code);
+      setRules(pricingRules);
+      setReferrals(loadedReferrals);
+      setOwnReferral(loadedOwnReferral);
+    } catch (error) {
+      console.error('Error loading referrals:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!referralCode) return;
+
+    const reward = rules ? `UGX ${rules.referral_reward_referee.toLocaleString()}` : 'wallet credit';
+    try {
+      await Share.share({
+        message: `Join me on Makela and get ${reward} after your first ride. Enter my code ${referralCode} under Wallet → Invite Friends.`,
+      });
+    } catch (error) {
+      console.error('Error sharing referral code:', error);
+    }
+  };
+
+  const handleRedeem = async () => {
+    if (!friendCode.trim()) return;
+
+    try {
+      setRedeeming(true);
+      await promotionService.redeemReferralCode(friendCode.trim());
+      setFriendCode('');
+      Alert.alert('Code Added', "You'll both get wallet credit when you complete your first ride.");
+      await loadReferrals();
+    } catch (error) {
+      Alert.alert('Error', error instanceof PromoError ? error.message : 'Failed to add referral code');
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors[colorScheme].tint} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.card}>
+        <Ionicons name="gift" size={40} color={Colors.light.tint} style={styles.heroIcon} />
+        <ThemedText style={styles.title}>Invite Friends</ThemedText>
+        {rules && (
+          <ThemedText style={styles.hint}>
+            Your friend gets UGX {rules.referral_reward_referee.toLocaleString()} and you get
+            UGX {rules.referral_reward_referrer.toLocaleString()} in your wallets after their first completed ride.
+          </ThemedText>
+        )}
+
+        {referralCode && (
+          <View style={[styles.codeBox, { borderColor: Colors[colorScheme].border }]}>
+            <ThemedText style={styles.codeText}>{referralCode}</ThemedText>
+          </View>
+        )}
+
+        <Pressable style={styles.shareButton} onPress={handleShare} disabled={!referralCode}>
+          <Ionicons name="share-social" size={22} color="#fff" />
+          <ThemedText style={styles.shareButtonText}>Share Code</ThemedText>
+        </Pressable>
+      </ThemedView>
+
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.sectionTitle}>Were you invited?</ThemedText>
+        {ownReferral ? (
+          <ThemedText style={styles.hint}>
+            {ownReferral.status === 'rewarded'
+              ? `UGX ${(ownReferral.referee_reward ?? 0).toLocaleString()} was added to your wallet for joining with a friend's code.`
+              : "You joined with a friend's code. You'll both be credited after your first completed ride."}
+          </ThemedText>
+        ) : (
+          <View style={styles.redeemRow}>
+            <TextInput
+              style={[
+                styles.input,
+                { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }
+              ]}
+              placeholder="Friend's referral code"
+              placeholderTextColor={Colors[colorScheme].text + '80'}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              value={friendCode}
+              onChangeText={setFriendCode}
+              onSubmitEditing={handleRedeem}
+            />
+            <Pressable
+              style={[styles.redeemButton, redeeming && styles.buttonDisabled]}
+              onPress={handleRedeem}
+              disabled={redeeming}
+            >
+              {redeeming ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <ThemedText style={styles.redeemButtonText}>Add</ThemedText>
+              )}
+            </Pressable>
+          </View>
+        )}
+      </ThemedView>
+
+      {referrals.length > 0 && (
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.sectionTitle}>Your Referrals</ThemedText>
+          {referrals.map((referral) => (
+            <View key={referral.id} style={styles.referralRow}>
+              <Avatar
+                size={40}
+                imageUrl={referral.referee.avatar_url}
+                name={referral.referee.full_name || 'Makela user'}
+              />
+              <View style={styles.referralDetails}>
+                <ThemedText style={styles.referralName}>{referral.referee.full_name || 'Makela user'}</ThemedText>
+                <ThemedText style={styles.referralDate}>
+                  Joined {new Date(referral.created_at).toLocaleDateString()}
+                </ThemedText>
+              </View>
+              {referral.status === 'rewarded' ? (
+                <ThemedText style={[styles.referralStatus, styles.rewardedText]}>
+                  +UGX {(referral.referrer_reward ?? 0).toLocaleString()}
+                </ThemedText>
+              ) : (
+                <ThemedText style={styles.referralStatus}>Awaiting first ride</ThemedText>
+              )}
+            </View>
+          ))}
+        </ThemedView>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 20,
+    borderRadius: 12,
+  },
+  heroIcon: {
+    alignSelf: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  codeBox: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  codeText: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    letterSpacing: 4,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+    gap: 8,
+  },
+  shareButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  redeemRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  redeemButton: {
+    height: 48,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.light.tint,
+  },
+  redeemButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  referralRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  referralDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  referralName: {
+    fontSize: 16,
+  },
+  referralDate: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  referralStatus: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  rewardedText: {
+    color: '#4CAF50',
+    fontWeight: '600',
+    opacity: 1,
+  },
+});
@@ -0,0 +1,387 @@
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, Alert, TextInput } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { Avatar, useColorScheme, ThemedText, ThemedView } from '../../components';
+import Colors from '../../constants/Colors';
+import { bookingService } from '../../services/bookingService';
+import { transferService, TransferError } from '../../services/transferService';
+import { Trip } from '../../types/booking';
+import { SplitRequest, SplitRequestStatus, WalletRecipient } from '../../types/payment';
+
+const SPLIT_STATUS_LABELS: Record<SplitRequestStatus, string> = {
+  pending: 'Waiting',
+  paid: 'Paid',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+};
+
+const SPLIT_STATUS_COLORS: Record<SplitRequestStatus, string> = {
+  pending: '#FFC107',
+  paid: '#4CAF50',
+  declined: '#F44336',
+  cancelled: '#9E9E9E',
+};
+
+export default function SplitFareScreen() {
+  const colorScheme = useColorScheme();
+  const { bookingId } = useLocalSearchParams<{ bookingId: string }>();
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [requests, setRequests] = useState<SplitRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [payers, setPayers] = useState<WalletRecipient[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSplit();
+  }, [bookingId]);
+
+  const loadSplit = async () => {
+    try {
+      const [loadedTrip, loadedRequests] = await Promise.all([
+        bookingService.getTrip(bookingId),
+        transferService.getBookingSplitRequests(bookingId),
+      ]);
+      setTrip(loadedTrip);
+      setRequests(loadedRequests);
+    } catch (error) {
+      console.error('Error loading split:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Mirrors split_booking: equal whole-UGX shares, the booker keeps the remainder
+  const share = trip && payers.length > 0 ? Math.floor(trip.total_amount / (payers.length + 1)) : 0;
+  const openRequests = requests.filter((request) => request.status === 'pending' || request.status === 'paid');
+
+  const handleAddPayer = async () => {
+    if (!phoneNumber) return;
+
+    try {
+      setSearching(true);
+      const payer = await transferService.findRecipient(phoneNumber);
+      if (payers.some((existing) => existing.id === payer.id)) {
+        Alert.alert('Already Added', `${payer.full_name || 'This person'} is already on the list.`);
+        return;
+      }
+      setPayers((prev) => [...prev, payer]);
+      setPhoneNumber('');
+    } catch (error) {
+      console.error('Error finding co-traveller:', error);
+      Alert.alert('Error', error instanceof TransferError ? error.message : 'Failed to look up this number');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    Alert.alert(
+      'Split Fare',
+      `Ask ${payers.length === 1 ? 'your co-traveller' : `${payers.length} co-travellers`} for UGX ${share.toLocaleString()} each? They'll pay you back from their wallets.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Send Requests',
+          onPress: async () => {
+            try {
+              setSubmitting(true);
+              await transferService.splitBooking(bookingId, payers.map((payer) => payer.id));
+              setPayers([]);
+              await loadSplit();
+            } catch (error) {
+              Alert.alert('Error', error instanceof TransferError ? error.message : 'Failed to split this booking');
+            } finally {
+              setSubmitting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCancelRequest = async (request: SplitRequest) => {
+    try {
+      setCancellingId(request.id);
+      await transferService.cancelSplitRequest(request.id);
+      await loadSplit();
+    } catch (error) {
+      Alert.alert('Error', error instanceof TransferError ? error.message : 'Failed to cancel the request');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const renderPerson = (key: string, person: WalletRecipient, trailing: React.ReactNode) => (
+    <View key={key} style={styles.personRow}>
+      <Avatar size={40} imageUrl={person.avatar_url} name={person.full_name || 'Makela user'} />
+      <View style={styles.personDetails}>
+        <ThemedText style={styles.personName}>{person.full_name || 'Makela user'}</ThemedText>
+        {person.phone && <ThemedText style={styles.personPhone}>{person.phone}</ThemedText>}
+      </View>
+      {trailing}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors[colorScheme].tint} />
+      </View>
+    );
+  }
+
+  if (!trip) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ThemedText>Booking not found</ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.route}>
+          {trip.ride.origin_address} → {trip.ride.destination_address}
+        </ThemedText>
+        <ThemedText style={styles.meta}>
+          {format(new Date(trip.ride.departure_time), 'EEE, MMM d • h:mm a')} • {trip.seats_booked} {trip.seats_booked === 1 ? 'seat' : 'seats'}
+        </ThemedText>
+        <ThemedText style={styles.total}>UGX {trip.total_amount.toLocaleString()}</ThemedText>
+      </ThemedView>
+
+      {requests.length > 0 && (
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.sectionTitle}>Requests</ThemedText>
+          {requests.map((request) => renderPerson(
+            request.id,
+            request.payer,
+            <View style={styles.requestStatus}>
+              <ThemedText style={styles.requestAmount}>UGX {request.amount.toLocaleString()}</ThemedText>
+              <ThemedText style={[styles.statusText, { color: SPLIT_STATUS_COLORS[request.status] }]}>
+                {SPLIT_STATUS_LABELS[request.status]}
+              </ThemedText>
+              {request.status === 'pending' && (
+                <Pressable onPress={() => handleCancelRequest(request)} disabled={cancellingId !== null}>
+                  {cancellingId === request.id ? (
+                    <ActivityIndicator size="small" color={Colors[colorScheme].tint} />
+                  ) : (
+                    <ThemedText style={styles.linkText}>Cancel</ThemedText>
+                  )}
+                </Pressable>
+              )}
+            </View>
+          ))}
+        </ThemedView>
+      )}
+
+      {openRequests.length === 0 && (
+        <ThemedView style={styles.card}>
+          <ThemedText style={styles.sectionTitle}>Split with co-travellers</ThemedText>
+          <ThemedText style={styles.hint}>
+            Add the people travelling with you by phone number. Each of you pays an equal share, and theirs
+            comes back to your wallet when they accept.
+          </ThemedText>
+
+          <View style={styles.searchRow}>
+            <TextInput
+              style={[
+                styles.input,
+                { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }
+              ]}
+              placeholder="Co-traveller's phone number"
+              placeholderTextColor={Colors[colorScheme].text + '80'}
+              keyboardType="phone-pad"
+              value={phoneNumber}
+              onChangeText={setPhoneNumber}
+              onSubmitEditing={handleAddPayer}
+            />
+            <Pressable
+              style={[styles.addButton, searching && styles.buttonDisabled]}
+              onPress={handleAddPayer}
+              disabled={searching}
+            >
+              {searching ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Ionicons name="person-add" size={20} color="#fff" />
+              )}
+            </Pressable>
+          </View>
+
+          {payers.map((payer) => renderPerson(
+            payer.id,
+            payer,
+            <Pressable onPress={() => setPayers((prev) => prev.filter((existing) => existing.id !== payer.id))}>
+              <Ionicons name="close-circle" size={24} color={Colors[colorScheme].text + '80'} />
+            </Pressable>
+          ))}
+
+          {payers.length > 0 && (
+            <>
+              <View style={[styles.divider, { backgroundColor: Colors[colorScheme].border }]} />
+              <View style={styles.summaryRow}>
+                <ThemedText style={styles.summaryLabel}>Each co-traveller pays</ThemedText>
+                <ThemedText style={styles.summaryValue}>UGX {share.toLocaleString()}</ThemedText>
+              </View>
+              <View style={styles.summaryRow}>
+                <ThemedText style={styles.summaryLabel}>Your share</ThemedText>
+                <ThemedText style={styles.summaryValue}>
+                  UGX {(trip.total_amount - share * payers.length).toLocaleString()}
+                </ThemedText>
+              </View>
+
+              <Pressable
+                style={[styles.submitButton, submitting && styles.buttonDisabled]}
+                onPress={handleSubmit}
+                disabled={submitting}
+              >
+                {submitting ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <>
+                    <Ionicons name="people" size={20} color="#fff" />
+                    <ThemedText style={styles.submitButtonText}>Send Requests</ThemedText>
+                  </>
+                )}
+              </Pressable>
+            </>
+          )}
+        </ThemedView>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 12,
+  },
+  route: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 4,
+  },
+  total: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 16,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  input: {
+    flex: 1,
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  addButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.light.tint,
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  personDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  personName: {
+    fontSize: 16,
+  },
+  personPhone: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  requestStatus: {
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  requestAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  statusText: {
+    fontSize: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    color: Colors.light.tint,
+  },
+  divider: {
+    height: 1,
+    marginVertical: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+    marginTop: 8,
+    gap: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
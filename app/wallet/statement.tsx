@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { addDays, addMonths, format, startOfDay, startOfMonth, startOfYear } from 'date-fns';
+import { useColorScheme, ThemedText, ThemedView } from '../components';
+import Colors from '../constants/Colors';
+import { statementService } from '../services/statementService';
+import { WalletStatement } from '../types/payment';
+
+type Preset = 'this_month' | 'last_month' | 'last_3_months' | 'this_year';
+
+/** First and last day of each preset; the last day is included in the statement */
+const PRESETS: Record<Preset, { label: string; range: () => [Date, Date] }> = {
+  this_month: {
+    label: 'This Month',
+    range: () => [startOfMonth(new Date()), startOfDay(new Date())],
+  },
+  last_month: {
+    label: 'Last Month',
+    range: () => {
+      const start = startOfMonth(addMonths(new Date(), -1));
+      return [start, addDays(startOfMonth(new Date()), -1)];
+    },
+  },
+  last_3_months: {
+    label: 'Last 3 Months',
+    range: () => [startOfMonth(addMonths(new Date(), -2)), startOfDay(new Date())],
+  },
+  this_year: {
+    label: 'This Year',
+    range: () => [startOfYear(new Date()), startOfDay(new Date())],
+  },
+};
+
+type Exporting = 'csv' | 'pdf' | 'email' | null;
+
+export default function StatementScreen() {
+  const colorScheme = useColorScheme();
+  const [preset, setPreset] = useState<Preset | null>('last_month');
+  const [fromDate, setFromDate] = useState(() => PRESETS.last_month.range()[0]);
+  const [toDate, setToDate] = useState(() => PRESETS.last_month.range()[1]);
+  const [showPicker, setShowPicker] = useState<'from' | 'to' | null>(null);
+  const [statement, setStatement] = useState<WalletStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState<Exporting>(null);
+
+  useEffect(() => {
+    loadStatement();
+  }, [fromDate, toDate]);
+
+  // The statement runs to the end of the chosen last day
+  const getPeriod = (): [Date, Date] => [startOfDay(fromDate), addDays(startOfDay(toDate), 1)];
+
+  const loadStatement = async () => {
+    if (fromDate > toDate) {
+      setStatement(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [from, to] = getPeriod();
+      setStatement(await statementService.getStatement(from, to));
+    } catch (error) {
+      console.error('Error loading statement:', error);
+      setStatement(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectPreset = (value: Preset) => {
+    const [from, to] = PRESETS[value].range();
+    setPreset(value);
+    setFromDate(from);
+    setToDate(to);
+  };
+
+  const handleExport = async (kind: Exclude<Exporting, null>) => {
+    if (!statement) return;
+
+    try {
+      setExporting(kind);
+      if (kind === 'csv') {
+        await statementService.shareCsv(statement);
+      } else if (kind === 'pdf') {
+        await statementService.sharePdf(statement);
+      } else {
+        const [from, to] = getPeriod();
+        const message = await statementService.emailStatement(from, to);
+        Alert.alert('Statement Sent', message);
+      }
+    } catch (error) {
+      console.error('Error exporting statement:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export statement');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-UG', {
+      style: 'currency',
+      currency: 'UGX',
+    }).format(amount);
+  };
+
+  const renderDateField = (field: 'from' | 'to', label: string, value: Date) => (
+    <Pressable
+      style={[styles.dateField, { borderColor: Colors[colorScheme].border }]}
+      onPress={() => setShowPicker(field)}
+    >
+      <ThemedText style={styles.dateLabel}>{label}</ThemedText>
+      <View style={styles.dateValue}>
+        <Ionicons name="calendar-outline" size={18} color={Colors[colorScheme].text} />
+        <ThemedText style={styles.dateText}>{format(value, 'MMM d, yyyy')}</ThemedText>
+      </View>
+    </Pressable>
+  );
+
+  const renderSummaryRow = (label: string, amount: number, bold = false) => (
+    <View style={styles.summaryRow}>
+      <ThemedText style={bold ? styles.summaryTotal : styles.summaryLabel}>{label}</ThemedText>
+      <ThemedText style={bold ? styles.summaryTotal : styles.summaryValue}>{formatCurrency(amount)}</ThemedText>
+    </View>
+  );
+
+  const renderExportButton = (kind: Exclude<Exporting, null>, icon: keyof typeof Ionicons.glyphMap, label: string) => (
+    <Pressable
+      style={[styles.exportButton, (!statement || exporting !== null) && styles.exportButtonDisabled]}
+      onPress={() => handleExport(kind)}
+      disabled={!statement || exporting !== null}
+    >
+      {exporting === kind ? (
+        <ActivityIndicator color="#fff" />
+      ) : (
+        <>
+          <Ionicons name={icon} size={20} color="#fff" />
+          <ThemedText style={styles.exportButtonText}>{label}</ThemedText>
+        </>
+      )}
+    </Pressable>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.sectionTitle}>Period</ThemedText>
+        <View style={styles.presets}>
+          {(Object.keys(PRESETS) as Preset[]).map((value) => (
+            <Pressable
+              key={value}
+              style={[
+                styles.presetButton,
+                preset === value && styles.presetButtonActive,
+                { borderColor: Colors[colorScheme].border }
+              ]}
+              onPress={() => selectPreset(value)}
+            >
+              <ThemedText style={[styles.presetText, preset === value && styles.presetTextActive]}>
+                {PRESETS[value].label}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+
+        <View style={styles.dateFields}>
+          {renderDateField('from', 'From', fromDate)}
+          {renderDateField('to', 'To', toDate)}
+        </View>
+
+        {showPicker && (
+          <DateTimePicker
+            value={showPicker === 'from' ? fromDate : toDate}
+            mode="date"
+            display="default"
+            maximumDate={new Date()}
+            onChange={(event, selectedDate) => {
+              const field = showPicker;
+              setShowPicker(null);
+              if (!selectedDate) return;
+
+              setPreset(null);
+              if (field === 'from') setFromDate(selectedDate);
+              else setToDate(selectedDate);
+            }}
+          />
+        )}
+      </ThemedView>
+
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.sectionTitle}>Summary</ThemedText>
+        {loading ? (
+          <ActivityIndicator color={Colors[colorScheme].tint} />
+        ) : fromDate > toDate ? (
+          <ThemedText style={styles.emptyText}>The start date must be before the end date</ThemedText>
+        ) : !statement ? (
+          <ThemedText style={styles.emptyText}>Failed to load your statement</ThemedText>
+        ) : (
+          <>
+            {renderSummaryRow('Opening balance', statement.opening_balance)}
+            {renderSummaryRow('Money in', statement.total_credits)}
+            {renderSummaryRow('Money out', statement.total_debits)}
+            {renderSummaryRow('Fees included above', statement.total_fees)}
+            <View style={[styles.divider, { backgroundColor: Colors[colorScheme].border }]} />
+            {renderSummaryRow('Closing balance', statement.closing_balance, true)}
+            <ThemedText style={styles.entryCount}>
+              {statement.entries.length} {statement.entries.length === 1 ? 'transaction' : 'transactions'}
+            </ThemedText>
+          </>
+        )}
+      </ThemedView>
+
+      <View style={styles.exportButtons}>
+        {renderExportButton('pdf', 'document-text-outline', 'Share PDF')}
+        {renderExportButton('csv', 'grid-outline', 'Share CSV')}
+        {renderExportButton('email', 'mail-outline', 'Email Statement')}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  card: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  presetButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  presetButtonActive: {
+    backgroundColor: Colors.light.tint,
+    borderColor: Colors.light.tint,
+  },
+  presetText: {
+    fontSize: 14,
+  },
+  presetTextActive: {
+    color: '#fff',
+  },
+  dateFields: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateField: {
+    flex: 1,
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  dateLabel: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginBottom: 4,
+  },
+  dateValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dateText: {
+    fontSize: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  summaryValue: {
+    fontSize: 16,
+  },
+  summaryTotal: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  divider: {
+    height: 1,
+    marginVertical: 8,
+  },
+  entryCount: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 4,
+  },
+  emptyText: {
+    opacity: 0.5,
+  },
+  exportButtons: {
+    padding: 16,
+    gap: 12,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+  },
+  exportButtonDisabled: {
+    opacity: 0.7,
+  },
+  exportButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, Alert } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useColorScheme, ThemedText, ThemedView } from '../../components';
+import Colors from '../../constants/Colors';
+import { receiptService, RECEIPT_STATUS_LABELS } from '../../services/receiptService';
+import { Receipt } from '../../types/payment';
+
+/** What the `id` param points at; mobile money transactions are the default */
+type ReceiptSource = 'transaction' | 'payout' | 'booking';
+
+const STATUS_COLORS: Record<Receipt['status'], string> = {
+  pending: '#FFC107',
+  completed: '#4CAF50',
+  failed: '#F44336',
+  refunded: '#2196F3',
+};
+
+const loadReceipt = (id: string, source: ReceiptSource) => {
+  switch (source) {
+    case 'payout':
+      return receiptService.getPayoutReceipt(id);
+    case 'booking':
+      return receiptService.getBookingReceipt(id);
+    default:
+      return receiptService.getTransactionReceipt(id);
+  }
+};
+
+export default function TransactionDetailScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const { id, kind } = useLocalSearchParams<{ id: string; kind?: ReceiptSource }>();
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sharing, setSharing] = useState(false);
+
+  useEffect(() => {
+    loadDetails();
+  }, [id, kind]);
+
+  const loadDetails = async () => {
+    try {
+      setLoading(true);
+      setReceipt(await loadReceipt(id, kind ?? 'transaction'));
+    } catch (error) {
+      console.error('Error loading transaction:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!receipt) return;
+
+    try {
+      setSharing(true);
+      await receiptService.shareReceipt(receipt);
+    } catch (error) {
+      console.error('Error sharing receipt:', error);
+      Alert.alert('Error', 'Failed to create the receipt');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-UG', {
+      style: 'currency',
+      currency: 'UGX',
+    }).format(amount);
+  };
+
+  const renderRow = (label: string, value: string) => (
+    <View key={label} style={styles.row}>
+      <ThemedText style={styles.rowLabel}>{label}</ThemedText>
+      <ThemedText style={styles.rowValue} selectable>{value}</ThemedText>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors[colorScheme].tint} />
+      </View>
+    );
+  }
+
+  if (!receipt) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ThemedText style={styles.emptyText}>This transaction could not be found</ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      {/* Summary */}
+      <ThemedView style={styles.summaryCard}>
+        <ThemedText style={styles.title}>{receipt.title}</ThemedText>
+        <ThemedText style={styles.total}>{formatCurrency(receipt.total)}</ThemedText>
+        <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[receipt.status] }]}>
+          <ThemedText style={styles.statusText}>{RECEIPT_STATUS_LABELS[receipt.status]}</ThemedText>
+        </View>
+      </ThemedView>
+
+      {/* Amounts */}
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.sectionTitle}>Amount</ThemedText>
+        {receipt.lines.map((line) => renderRow(line.label, formatCurrency(line.amount)))}
+        <View style={[styles.row, styles.totalRow, { borderTopColor: Colors[colorScheme].border }]}>
+          <ThemedText style={styles.totalLabel}>Total</ThemedText>
+          <ThemedText style={styles.totalLabel}>{formatCurrency(receipt.total)}</ThemedText>
+        </View>
+      </ThemedView>
+
+      {/* Details */}
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.sectionTitle}>Details</ThemedText>
+        {renderRow('Date', format(new Date(receipt.created_at), 'MMM d, yyyy • h:mm a'))}
+        {renderRow('Reference', receipt.reference)}
+        {receipt.provider && renderRow('Provider', receipt.provider === 'MTN' ? 'MTN Mobile Money' : 'Airtel Money')}
+        {receipt.provider_reference && renderRow('Provider reference', receipt.provider_reference)}
+        {receipt.phone_number && renderRow('Phone number', receipt.phone_number)}
+        {receipt.verification_code && renderRow('Verification code', receipt.verification_code)}
+      </ThemedView>
+
+      {/* Related Booking */}
+      {receipt.booking && (
+        <Pressable
+          onPress={() => router.push({
+            pathname: '/booking/[rideId]',
+            params: { rideId: receipt.booking!.ride_id, bookingId: receipt.booking!.id },
+          })}
+        >
+          <ThemedView style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <ThemedText style={styles.sectionTitle}>Trip</ThemedText>
+              <Ionicons name="chevron-forward" size={16} color={Colors[colorScheme].tint} />
+            </View>
+            <ThemedText style={styles.route}>
+              {receipt.booking.origin_address} → {receipt.booking.destination_address}
+            </ThemedText>
+            <ThemedText style={styles.rowLabel}>
+              {format(new Date(receipt.booking.departure_time), 'EEE, MMM d • h:mm a')} • {receipt.booking.seats} {receipt.booking.seats === 1 ? 'seat' : 'seats'}
+              {receipt.booking.driver_name ? ` • ${receipt.booking.driver_name}` : ''}
+            </ThemedText>
+          </ThemedView>
+        </Pressable>
+      )}
+
+      {/* Status Timeline */}
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.sectionTitle}>Timeline</ThemedText>
+        {receipt.timeline.map((event, index) => (
+          <View key={`${event.label}-${event.at}`} style={styles.timelineItem}>
+            <View style={styles.timelineMarker}>
+              <View style={[styles.timelineDot, { backgroundColor: Colors[colorScheme].tint }]} />
+              {index < receipt.timeline.length - 1 && (
+                <View style={[styles.timelineLine, { backgroundColor: Colors[colorScheme].border }]} />
+              )}
+            </View>
+            <View style={styles.timelineContent}>
+              <ThemedText style={styles.timelineLabel}>{event.label}</ThemedText>
+              <ThemedText style={styles.rowLabel}>
+                {format(new Date(event.at), 'MMM d, yyyy • h:mm a')}
+              </ThemedText>
+            </View>
+          </View>
+        ))}
+      </ThemedView>
+
+      <Pressable
+        style={[styles.shareButton, sharing && styles.shareButtonDisabled]}
+        onPress={handleShare}
+        disabled={sharing}
+      >
+        {sharing ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <>
+            <Ionicons name="share-outline" size={24} color="#fff" />
+            <ThemedText style={styles.shareButtonText}>Share Receipt</ThemedText>
+          </>
+        )}
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  summaryCard: {
+    margin: 16,
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  total: {
+    fontSize: 36,
+    fontWeight: 'bold',
+    marginVertical: 8,
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 16,
+    marginBottom: 8,
+  },
+  rowLabel: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  rowValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    paddingTop: 8,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  route: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+  },
+  timelineMarker: {
+    alignItems: 'center',
+    width: 16,
+    marginRight: 12,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 5,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    marginVertical: 2,
+  },
+  timelineContent: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  timelineLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 16,
+    borderRadius: 8,
+    marginHorizontal: 16,
+    marginBottom: 32,
+  },
+  shareButtonDisabled: {
+    opacity: 0.7,
+  },
+  shareButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+});
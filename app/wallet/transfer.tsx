@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, Alert, TextInput } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Avatar, useColorScheme, useWalletPin, ThemedText, ThemedView, WalletPinPrompt } from '../components';
+import Colors from '../constants/Colors';
+import { supabase } from '../lib/supabase';
+import { walletRepository } from '../repositories/wallet';
+import { pricingService } from '../services/pricingService';
+import { transferService, TransferError } from '../services/transferService';
+import { WalletRecipient } from '../types/payment';
+import { PricingRules } from '../types/pricing';
+
+export default function TransferScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const [balance, setBalance] = useState<number | null>(null);
+  const [rules, setRules] = useState<PricingRules | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [recipient, setRecipient] = useState<WalletRecipient | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [amountText, setAmountText] = useState('');
+  const [note, setNote] = useState('');
+  const [sending, setSending] = useState(false);
+  const { requestPinToken, pinPromptProps } = useWalletPin();
+
+  useEffect(() => {
+    loadWallet();
+  }, []);
+
+  const loadWallet = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not found');
+
+      const [wallet, pricingRules] = await Promise.all([
+        walletRepository.getWallet(user.id),
+        pricingService.getRules(),
+      ]);
+      setBalance(wallet.balance);
+      setRules(pricingRules);
+    } catch (error) {
+      console.error('Error loading wallet:', error);
+    }
+  };
+
+  const amount = parseFloat(amountText);
+
+  const handleFindRecipient = async () => {
+    if (!phoneNumber) {
+      Alert.alert('Error', "Please enter the recipient's phone number");
+      return;
+    }
+
+    try {
+      setSearching(true);
+      setRecipient(await transferService.findRecipient(phoneNumber));
+    } catch (error) {
+      console.error('Error finding recipient:', error);
+      Alert.alert('Error', error instanceof TransferError ? error.message : 'Failed to look up this number');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const validate = (): string | null => {
+    if (isNaN(amount) || amount <= 0) return 'Please enter a valid amount';
+    if (rules && amount < rules.transfer_minimum) {
+      return `The minimum transfer is UGX ${rules.transfer_minimum.toLocaleString()}`;
+    }
+    if (balance !== null && amount > balance) return 'Your wallet balance is too low for this transfer';
+    return null;
+  };
+
+  const sendTransfer = async (to: WalletRecipient) => {
+    const pinToken = await requestPinToken();
+    if (!pinToken) return;
+
+    try {
+      setSending(true);
+      await transferService.sendTransfer(to.id, amount, note, pinToken);
+      Alert.alert(
+        'Money Sent',
+        `UGX ${amount.toLocaleString()} is now in ${to.full_name ? `${to.full_name}'s` : 'their'} wallet.`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error sending transfer:', error);
+      Alert.alert('Transfer Failed', error instanceof TransferError ? error.message : 'Failed to send money');
+      loadWallet();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSend = () => {
+    if (!recipient) return;
+
+    const error = validate();
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+
+    Alert.alert(
+      'Confirm Transfer',
+      `Send UGX ${amount.toLocaleString()} to ${recipient.full_name || recipient.phone}? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Send', onPress: () => sendTransfer(recipient) },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.title}>Send Money</ThemedText>
+        {balance !== null && (
+          <ThemedText style={styles.balanceText}>
+            Available: UGX {balance.toLocaleString()}
+          </ThemedText>
+        )}
+
+        {/* Recipient */}
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.label}>Recipient's Phone Number</ThemedText>
+          {recipient ? (
+            <View style={[styles.recipientCard, { borderColor: Colors[colorScheme].border }]}>
+              <Avatar size={48} imageUrl={recipient.avatar_url} name={recipient.full_name || 'Makela user'} />
+              <View style={styles.recipientDetails}>
+                <ThemedText style={styles.recipientName}>{recipient.full_name || 'Makela user'}</ThemedText>
+                {recipient.phone && (
+                  <ThemedText style={styles.recipientPhone}>{recipient.phone}</ThemedText>
+                )}
+              </View>
+              <Pressable onPress={() => setRecipient(null)} disabled={sending}>
+                <ThemedText style={styles.changeText}>Change</ThemedText>
+              </Pressable>
+            </View>
+          ) : (
+            <View style={styles.searchRow}>
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.searchInput,
+                  { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }
+                ]}
+                placeholder="e.g. 0772 123456"
+                placeholderTextColor={Colors[colorScheme].text + '80'}
+                keyboardType="phone-pad"
+                value={phoneNumber}
+                onChangeText={setPhoneNumber}
+                onSubmitEditing={handleFindRecipient}
+              />
+              <Pressable
+                style={[styles.searchButton, searching && styles.payButtonDisabled]}
+                onPress={handleFindRecipient}
+                disabled={searching}
+              >
+                {searching ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Ionicons name="search" size={22} color="#fff" />
+                )}
+              </Pressable>
+            </View>
+          )}
+        </View>
+
+        {recipient && (
+          <>
+            <View style={styles.inputContainer}>
+              <ThemedText style={styles.label}>Amount (UGX)</ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }
+                ]}
+                placeholder={rules ? `At least ${rules.transfer_minimum.toLocaleString()}` : 'Enter amount'}
+                placeholderTextColor={Colors[colorScheme].text + '80'}
+                keyboardType="numeric"
+                value={amountText}
+                onChangeText={setAmountText}
+              />
+            </View>
+
+            <View style={styles.inputContainer}>
+              <ThemedText style={styles.label}>Note (optional)</ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }
+                ]}
+                placeholder="What's it for?"
+                placeholderTextColor={Colors[colorScheme].text + '80'}
+                maxLength={140}
+                value={note}
+                onChangeText={setNote}
+              />
+            </View>
+
+            <Pressable
+              style={[styles.payButton, sending && styles.payButtonDisabled]}
+              onPress={handleSend}
+              disabled={sending}
+            >
+              {sending ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <>
+                  <Ionicons name="send" size={22} color="#fff" />
+                  <ThemedText style={styles.payButtonText}>Send</ThemedText>
+                </>
+              )}
+            </Pressable>
+          </>
+        )}
+
+        <View style={styles.securityNote}>
+          <Ionicons name="flash" size={20} color={Colors[colorScheme].text} />
+          <ThemedText style={styles.securityText}>
+            Transfers between Makela wallets are instant and free
+          </ThemedText>
+        </View>
+      </ThemedView>
+
+      <WalletPinPrompt {...pinPromptProps} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  card: {
+    margin: 16,
+    padding: 20,
+    borderRadius: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  balanceText: {
+    fontSize: 16,
+    opacity: 0.7,
+    marginBottom: 24,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+  },
+  searchButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.light.tint,
+  },
+  recipientCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  recipientDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  recipientName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  recipientPhone: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  changeText: {
+    fontSize: 14,
+    color: Colors.light.tint,
+  },
+  payButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 16,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  payButtonDisabled: {
+    opacity: 0.7,
+  },
+  payButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  securityNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    opacity: 0.7,
+  },
+  securityText: {
+    fontSize: 14,
+    marginLeft: 8,
+  },
+});
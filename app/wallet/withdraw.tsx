@@ -0,0 +1,411 @@
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, StyleSheet, Pressable, ActivityIndicator, Alert, TextInput } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useColorScheme, useWalletPin, ThemedText, ThemedView, WalletPinPrompt } from '../components';
+import Colors from '../constants/Colors';
+import { supabase } from '../lib/supabase';
+import { walletRepository } from '../repositories/wallet';
+import { paymentService } from '../services/paymentService';
+import { getPayoutFee, pricingService } from '../services/pricingService';
+import { PricingRules } from '../types/pricing';
+
+type PaymentMethod = 'mtn' | 'airtel';
+
+interface WithdrawalDetails {
+  amount: string;
+  phoneNumber: string;
+  method: PaymentMethod;
+}
+
+export default function WithdrawScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const [loading, setLoading] = useState(false);
+  const [balance, setBalance] = useState<number | null>(null);
+  const [rules, setRules] = useState<PricingRules | null>(null);
+  const [accountPhone, setAccountPhone] = useState<string | null>(null);
+  const [details, setDetails] = useState<WithdrawalDetails>({
+    amount: '',
+    phoneNumber: '',
+    method: 'mtn',
+  });
+  // Withdrawals need a fresh OTP; set once a code has been sent to the account's phone
+  const [otpSent, setOtpSent] = useState(false);
+  const [otp, setOtp] = useState('');
+  // Kept across the OTP step, since the PIN token is only spent by a successful withdrawal
+  const [pinToken, setPinToken] = useState<string | null>(null);
+  const { requestPinToken, pinPromptProps } = useWalletPin();
+
+  useEffect(() => {
+    loadWallet();
+  }, []);
+
+  const loadWallet = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not found');
+
+      setAccountPhone(user.phone ?? null);
+      setDetails(prev => ({ ...prev, phoneNumber: prev.phoneNumber || user.phone || '' }));
+
+      const [wallet, pricingRules] = await Promise.all([
+        walletRepository.getWallet(user.id),
+        pricingService.getRules(),
+      ]);
+      setBalance(wallet.balance);
+      setRules(pricingRules);
+    } catch (error) {
+      console.error('Error loading wallet:', error);
+    }
+  };
+
+  const amount = parseFloat(details.amount);
+  const fee = amount > 0 && rules ? getPayoutFee(rules, amount) : 0;
+  const total = amount > 0 ? amount + fee : 0;
+
+  const validate = (): string | null => {
+    if (!details.amount || !details.phoneNumber) return 'Please fill in all fields';
+    if (isNaN(amount) || amount <= 0) return 'Please enter a valid amount';
+    if (rules && amount < rules.payout_minimum) {
+      return `The minimum withdrawal is UGX ${rules.payout_minimum.toLocaleString()}`;
+    }
+    if (balance !== null && total > balance) return 'Your wallet balance is too low for this withdrawal';
+    return null;
+  };
+
+  const sendVerificationCode = async () => {
+    if (!accountPhone) {
+      Alert.alert('Error', 'Your account has no phone number to verify');
+      return;
+    }
+
+    const { error } = await supabase.auth.signInWithOtp({ phone: accountPhone });
+    if (error) {
+      Alert.alert('Error', error.message);
+      return;
+    }
+    setOtp('');
+    setOtpSent(true);
+  };
+
+  const submitWithdrawal = async (token: string) => {
+    const response = await paymentService.requestPayout({
+      amount,
+      phone_number: details.phoneNumber,
+      provider: details.method === 'mtn' ? 'MTN' : 'AIRTEL',
+      pin_token: token,
+    });
+
+    if (response.code === 'REAUTH_REQUIRED') {
+      await sendVerificationCode();
+      return;
+    }
+
+    setPinToken(null);
+
+    if (response.status === 'error') {
+      Alert.alert('Withdrawal Failed', response.message);
+      loadWallet();
+      return;
+    }
+
+    Alert.alert(
+      'Withdrawal Started',
+      `${response.message}. You'll see it under Withdrawals in your wallet.`,
+      [{ text: 'OK', onPress: () => router.back() }]
+    );
+  };
+
+  const handleWithdraw = async () => {
+    const error = validate();
+    if (error) {
+      Alert.alert('Error', error);
+      return;
+    }
+
+    const token = await requestPinToken();
+    if (!token) return;
+    setPinToken(token);
+
+    try {
+      setLoading(true);
+      await submitWithdrawal(token);
+    } catch (error) {
+      console.error('Error requesting withdrawal:', error);
+      Alert.alert('Error', 'Failed to start withdrawal. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!accountPhone || !pinToken || otp.length !== 6) {
+      Alert.alert('Error', 'Please enter the 6-digit code');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { error } = await supabase.auth.verifyOtp({ phone: accountPhone, token: otp, type: 'sms' });
+      if (error) throw error;
+
+      setOtpSent(false);
+      await submitWithdrawal(pinToken);
+    } catch (error) {
+      console.error('Error verifying code:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderMethod = (method: PaymentMethod, label: string) => (
+    <Pressable
+      style={[
+        styles.methodOption,
+        details.method === method && styles.methodOptionSelected,
+        { borderColor: Colors[colorScheme].border }
+      ]}
+      onPress={() => setDetails(prev => ({ ...prev, method }))}
+    >
+      <Ionicons
+        name="phone-portrait"
+        size={24}
+        color={details.method === method ? Colors[colorScheme].tint : Colors[colorScheme].text}
+      />
+      <ThemedText style={[
+        styles.methodText,
+        details.method === method && { color: Colors[colorScheme].tint }
+      ]}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <ThemedView style={styles.card}>
+        <ThemedText style={styles.title}>Withdraw</ThemedText>
+        {balance !== null && (
+          <ThemedText style={styles.balanceText}>
+            Available: UGX {balance.toLocaleString()}
+          </ThemedText>
+        )}
+
+        {/* Amount Input */}
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.label}>Amount (UGX)</ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }
+            ]}
+            placeholder={rules ? `At least ${rules.payout_minimum.toLocaleString()}` : 'Enter amount'}
+            placeholderTextColor={Colors[colorScheme].text + '80'}
+            keyboardType="numeric"
+            value={details.amount}
+            onChangeText={(text) => setDetails(prev => ({ ...prev, amount: text }))}
+            editable={!otpSent}
+          />
+        </View>
+
+        {/* Phone Number Input */}
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.label}>Mobile Money Number</ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }
+            ]}
+            placeholder="Enter phone number"
+            placeholderTextColor={Colors[colorScheme].text + '80'}
+            keyboardType="phone-pad"
+            value={details.phoneNumber}
+            onChangeText={(text) => setDetails(prev => ({ ...prev, phoneNumber: text }))}
+            editable={!otpSent}
+          />
+        </View>
+
+        {/* Payment Method Selection */}
+        <View style={styles.methodContainer}>
+          <ThemedText style={styles.label}>Send To</ThemedText>
+          <View style={styles.methodOptions}>
+            {renderMethod('mtn', 'MTN Mobile Money')}
+            {renderMethod('airtel', 'Airtel Money')}
+          </View>
+        </View>
+
+        {/* Fee Breakdown */}
+        {amount > 0 && rules && (
+          <View style={styles.summary}>
+            <View style={styles.summaryRow}>
+              <ThemedText style={styles.summaryLabel}>Withdrawal fee</ThemedText>
+              <ThemedText style={styles.summaryValue}>UGX {fee.toLocaleString()}</ThemedText>
+            </View>
+            <View style={styles.summaryRow}>
+              <ThemedText style={styles.summaryLabel}>Taken from wallet</ThemedText>
+              <ThemedText style={styles.summaryValue}>UGX {total.toLocaleString()}</ThemedText>
+            </View>
+          </View>
+        )}
+
+        {otpSent && (
+          <View style={styles.inputContainer}>
+            <ThemedText style={styles.label}>Confirm it's you</ThemedText>
+            <ThemedText style={styles.hint}>
+              Enter the code we sent to {accountPhone} to approve this withdrawal.
+            </ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                { color: Colors[colorScheme].text, borderColor: Colors[colorScheme].border }
+              ]}
+              placeholder="6-digit code"
+              placeholderTextColor={Colors[colorScheme].text + '80'}
+              keyboardType="number-pad"
+              maxLength={6}
+              value={otp}
+              onChangeText={setOtp}
+            />
+          </View>
+        )}
+
+        <Pressable
+          style={[
+            styles.payButton,
+            loading && styles.payButtonDisabled
+          ]}
+          onPress={otpSent ? handleVerify : handleWithdraw}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name={otpSent ? 'shield-checkmark' : 'arrow-up-circle'} size={24} color="#fff" />
+              <ThemedText style={styles.payButtonText}>
+                {otpSent ? 'Verify & Withdraw' : 'Withdraw'}
+              </ThemedText>
+            </>
+          )}
+        </Pressable>
+
+        {/* Security Note */}
+        <View style={styles.securityNote}>
+          <Ionicons name="shield-checkmark" size={20} color={Colors[colorScheme].text} />
+          <ThemedText style={styles.securityText}>
+            Failed withdrawals are refunded to your wallet automatically
+          </ThemedText>
+        </View>
+      </ThemedView>
+
+      <WalletPinPrompt {...pinPromptProps} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  card: {
+    margin: 16,
+    padding: 20,
+    borderRadius: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  balanceText: {
+    fontSize: 16,
+    opacity: 0.7,
+    marginBottom: 24,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  methodContainer: {
+    marginBottom: 24,
+  },
+  methodOptions: {
+    gap: 12,
+  },
+  methodOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  methodOptionSelected: {
+    borderColor: Colors.light.tint,
+    backgroundColor: Colors.light.tint + '10',
+  },
+  methodText: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+  summary: {
+    marginBottom: 24,
+    gap: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  payButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 16,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  payButtonDisabled: {
+    opacity: 0.7,
+  },
+  payButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  securityNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    opacity: 0.7,
+  },
+  securityText: {
+    fontSize: 14,
+    marginLeft: 8,
+  },
+});
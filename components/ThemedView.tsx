@@ -1,19 +0,0 @@
-import React from 'react';
-import { View, ViewProps } from 'react-native';
-import { useColorScheme } from './useColorScheme';
-import Colors from '../constants/Colors';
-
-export function ThemedView(props: ViewProps) {
-  const colorScheme = useColorScheme();
-  const { style, ...otherProps } = props;
-
-  return (
-    <View
-      style={[
-        { backgroundColor: Colors[colorScheme].background },
-        style,
-      ]}
-      {...otherProps}
-    />
-  );
-}
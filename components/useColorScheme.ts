@@ -1,5 +0,0 @@
-import { useColorScheme as _useColorScheme } from 'react-native';
-
-export function useColorScheme(): NonNullable<ReturnType<typeof _useColorScheme>> {
-  return _useColorScheme() ?? 'light';
-} 
\ No newline at end of file
@@ -1 +0,0 @@
-export { useColorScheme } from 'react-native';
@@ -0,0 +1,290 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the MTN MoMo and Airtel Money APIs, so payments can be
+ * exercised end to end without provider sandboxes.
+ *
+ *   MTN_BASE_URL=http://<host>:4010/mtn
+ *   AIRTEL_BASE_URL=http://<host>:4010/airtel
+ *
+ * The outcome of a payment or payout is chosen by the last digit of the
+ * phone number:
+ *
+ *   ...1  fails with insufficient funds
+ *   ...2  is rejected by the payer
+ *   ...3  is never approved and expires after MOCK_TIMEOUT_MS
+ *   ...4  stays pending for MOCK_SLOW_MS and never sends a callback
+ *   other succeeds after MOCK_DELAY_MS
+ *
+ * Environment:
+ *   PORT                         default 4010
+ *   MOCK_DELAY_MS                default 5000
+ *   MOCK_TIMEOUT_MS              default 60000
+ *   MOCK_SLOW_MS                 default 120000
+ *   MOCK_AIRTEL_CALLBACK_URL     Airtel has no per-request callback URL
+ *   MOCK_AIRTEL_CALLBACK_SECRET  signs Airtel callbacks when set
+ */
+
+const http = require("http");
+const crypto = require("crypto");
+
+const PORT = Number(process.env.PORT || 4010);
+const DELAY_MS = Number(process.env.MOCK_DELAY_MS || 5000);
+const TIMEOUT_MS = Number(process.env.MOCK_TIMEOUT_MS || 60000);
+const SLOW_MS = Number(process.env.MOCK_SLOW_MS || 120000);
+const AIRTEL_CALLBACK_URL = process.env.MOCK_AIRTEL_CALLBACK_URL;
+const AIRTEL_CALLBACK_SECRET = process.env.MOCK_AIRTEL_CALLBACK_SECRET;
+
+const OUTCOMES = {
+  success: { mtn: null, airtel: "DP00800001001", message: "Transaction is successful" },
+  insufficient_funds: { mtn: "NOT_ENOUGH_FUNDS", airtel: "DP00800001007", message: "Not enough balance" },
+  rejected: { mtn: "APPROVAL_REJECTED", airtel: "DP00800001008", message: "Transaction refused" },
+  timeout: { mtn: "EXPIRED", airtel: "DP00800001024", message: "Transaction timed out" },
+};
+
+/** reference -> { provider, kind, amount, currency, msisdn, status, outcome, callbackUrl, providerId } */
+const transactions = new Map();
+
+function scenarioFor(msisdn) {
+  switch (String(msisdn).slice(-1)) {
+    case "1":
+      return { outcome: "insufficient_funds", after: DELAY_MS, callback: true };
+    case "2":
+      return { outcome: "rejected", after: DELAY_MS, callback: true };
+    case "3":
+      return { outcome: "timeout", after: TIMEOUT_MS, callback: true };
+    case "4":
+      return { outcome: "success", after: SLOW_MS, callback: false };
+    default:
+      return { outcome: "success", after: DELAY_MS, callback: true };
+  }
+}
+
+function log(...args) {
+  console.log(new Date().toISOString(), ...args);
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+async function postCallback(url, method, payload) {
+  if (!url) return;
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    log(`callback ${method} ${url} -> ${response.status}`);
+  } catch (error) {
+    log(`callback ${method} ${url} failed: ${error.message}`);
+  }
+}
+
+function schedule(reference) {
+  const txn = transactions.get(reference);
+  const scenario = scenarioFor(txn.msisdn);
+
+  setTimeout(() => {
+    txn.status = scenario.outcome === "success" ? "successful" : "failed";
+    txn.outcome = scenario.outcome;
+    txn.providerId = crypto.randomInt(1e9, 1e10).toString();
+    log(`${txn.provider} ${txn.kind} ${reference} -> ${txn.outcome}`);
+
+    if (!scenario.callback) return;
+    if (txn.provider === "mtn") {
+      postCallback(txn.callbackUrl, "PUT", mtnStatus(reference, txn));
+    } else {
+      const transaction = {
+        id: reference,
+        message: OUTCOMES[txn.outcome].message,
+        status_code: txn.status === "successful" ? "TS" : "TF",
+        airtel_money_id: txn.providerId,
+      };
+      const hash = AIRTEL_CALLBACK_SECRET
+        ? crypto.createHmac("sha256", AIRTEL_CALLBACK_SECRET).update(JSON.stringify(transaction)).digest("base64")
+        : undefined;
+      postCallback(AIRTEL_CALLBACK_URL, "POST", { transaction, hash });
+    }
+  }, scenario.after);
+}
+
+// MTN MoMo ---------------------------------------------------------------
+
+function mtnStatus(reference, txn) {
+  const party = { partyIdType: "MSISDN", partyId: txn.msisdn };
+  return {
+    amount: String(txn.amount),
+    currency: txn.currency,
+    externalId: reference,
+    ...(txn.kind === "collection" ? { payer: party } : { payee: party }),
+    status: txn.status.toUpperCase(),
+    ...(txn.providerId && txn.status === "successful" ? { financialTransactionId: txn.providerId } : {}),
+    ...(txn.status === "failed" ? { reason: OUTCOMES[txn.outcome].mtn } : {}),
+  };
+}
+
+async function handleMtn(req, res, path) {
+  const token = path.match(/^\/(collection|disbursement)\/token\/?$/);
+  if (token && req.method === "POST") {
+    if (!String(req.headers.authorization || "").startsWith("Basic ")) {
+      return send(res, 401, { error: "invalid_client" });
+    }
+    return send(res, 200, { access_token: crypto.randomUUID(), token_type: "access_token", expires_in: 3600 });
+  }
+
+  if (!String(req.headers.authorization || "").startsWith("Bearer ")) {
+    return send(res, 401, { code: "UNAUTHORIZED" });
+  }
+
+  const create = path.match(/^\/(collection|disbursement)\/v1_0\/(requesttopay|transfer)$/);
+  if (create && req.method === "POST") {
+    const reference = req.headers["x-reference-id"];
+    const body = await readBody(req);
+    if (!reference || !body) {
+      return send(res, 400, { code: "INVALID_REQUEST" });
+    }
+    if (transactions.has(reference)) {
+      return send(res, 409, { code: "RESOURCE_ALREADY_EXIST", message: "Duplicated reference id" });
+    }
+
+    const party = body.payer || body.payee || {};
+    transactions.set(reference, {
+      provider: "mtn",
+      kind: create[1],
+      amount: Number(body.amount),
+      currency: body.currency,
+      msisdn: party.partyId,
+      status: "pending",
+      callbackUrl: req.headers["x-callback-url"],
+    });
+    schedule(reference);
+    log(`mtn ${create[1]} ${reference} created for ${party.partyId}`);
+    return send(res, 202);
+  }
+
+  const status = path.match(/^\/(collection|disbursement)\/v1_0\/(requesttopay|transfer)\/([^/]+)$/);
+  if (status && req.method === "GET") {
+    const txn = transactions.get(status[3]);
+    if (!txn || txn.provider !== "mtn") {
+      return send(res, 404, { code: "RESOURCE_NOT_FOUND" });
+    }
+    return send(res, 200, mtnStatus(status[3], txn));
+  }
+
+  return send(res, 404, { code: "NOT_FOUND" });
+}
+
+// Airtel Money -----------------------------------------------------------
+
+function airtelEnvelope(data, responseCode, message) {
+  return {
+    data,
+    status: {
+      code: "200",
+      message,
+      response_code: responseCode,
+      result_code: "ESB000010",
+      success: true,
+    },
+  };
+}
+
+async function handleAirtel(req, res, path) {
+  if (path === "/auth/oauth2/token" && req.method === "POST") {
+    const body = await readBody(req);
+    if (!body || !body.client_id || !body.client_secret) {
+      return send(res, 401, { error: "invalid_client" });
+    }
+    return send(res, 200, { access_token: crypto.randomUUID(), expires_in: "180", token_type: "bearer" });
+  }
+
+  if (!String(req.headers.authorization || "").startsWith("Bearer ")) {
+    return send(res, 401, { status: { code: "401", message: "Unauthorized", success: false } });
+  }
+
+  const create = path.match(/^\/(merchant\/v1\/payments|standard\/v1\/disbursements)\/?$/);
+  if (create && req.method === "POST") {
+    const body = await readBody(req);
+    const reference = body && body.transaction && body.transaction.id;
+    if (!reference) {
+      return send(res, 400, { status: { code: "400", message: "Invalid request", success: false } });
+    }
+    if (transactions.has(reference)) {
+      return send(res, 200, {
+        status: { code: "200", message: "Duplicate transaction id", response_code: "DP00800001005", success: false },
+      });
+    }
+
+    const msisdn = (body.subscriber || body.payee || {}).msisdn;
+    const kind = create[1].startsWith("merchant") ? "collection" : "disbursement";
+    transactions.set(reference, {
+      provider: "airtel",
+      kind,
+      amount: Number(body.transaction.amount),
+      currency: body.transaction.currency || "UGX",
+      msisdn,
+      status: "pending",
+    });
+    schedule(reference);
+    log(`airtel ${kind} ${reference} created for ${msisdn}`);
+    return send(res, 200, airtelEnvelope({ transaction: { id: reference, status: "Success." } }, "DP00800001006", "SUCCESS"));
+  }
+
+  const status = path.match(/^\/standard\/v1\/(payments|disbursements)\/([^/]+)$/);
+  if (status && req.method === "GET") {
+    const txn = transactions.get(status[2]);
+    if (!txn || txn.provider !== "airtel") {
+      return send(res, 404, { status: { code: "404", message: "Transaction not found", response_code: "DP00800001025", success: false } });
+    }
+
+    const code = txn.status === "pending" ? "TIP" : txn.status === "successful" ? "TS" : "TF";
+    const outcome = txn.outcome ? OUTCOMES[txn.outcome] : { airtel: "DP00800001006", message: "Transaction in progress" };
+    return send(
+      res,
+      200,
+      airtelEnvelope(
+        { transaction: { id: status[2], airtel_money_id: txn.providerId, message: outcome.message, status: code } },
+        outcome.airtel,
+        outcome.message,
+      ),
+    );
+  }
+
+  return send(res, 404, { status: { code: "404", message: "Not found", success: false } });
+}
+
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+
+  if (pathname.startsWith("/mtn/")) {
+    return handleMtn(req, res, pathname.slice("/mtn".length));
+  }
+  if (pathname.startsWith("/airtel/")) {
+    return handleAirtel(req, res, pathname.slice("/airtel".length));
+  }
+  if (pathname === "/__mock/transactions" && req.method === "GET") {
+    return send(res, 200, Object.fromEntries(transactions));
+  }
+  return send(res, 404, { message: "Unknown provider" });
+});
+
+server.listen(PORT, () => {
+  log(`Mock payment gateway listening on http://localhost:${PORT} (/mtn, /airtel)`);
+});
@@ -0,0 +1,49 @@
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+}
+
+export interface Email {
+  to: string;
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+function toBase64(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/** Whether `sendEmail` has what it needs to send */
+export function isEmailConfigured(): boolean {
+  return !!Deno.env.get('RESEND_API_KEY') && !!Deno.env.get('EMAIL_FROM');
+}
+
+/** Sends through the Resend API. Attachments are plain text and encoded here. */
+export async function sendEmail(email: Email): Promise<void> {
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('RESEND_API_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: Deno.env.get('EMAIL_FROM'),
+      to: [email.to],
+      subject: email.subject,
+      html: email.html,
+      attachments: email.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: toBase64(attachment.content),
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Sending email failed with ${response.status}: ${await response.text()}`);
+  }
+}
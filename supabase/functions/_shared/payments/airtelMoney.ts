@@ -0,0 +1,275 @@
+import { requestJson, toMsisdn, TokenCache } from './http.ts';
+import {
+  CallbackRequest,
+  DisbursementInput,
+  FailureReason,
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderResult,
+  ProviderStatus,
+  RequestToPayInput,
+} from './types.ts';
+
+export interface AirtelMoneyConfig {
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  country: string;
+  currency: string;
+  /** Key used to sign callbacks; without it callbacks are re-checked against the API */
+  callbackSecret?: string;
+  /** Disbursement PIN, already encrypted with Airtel's public key */
+  disbursementPin?: string;
+}
+
+type AirtelStatusCode = 'TS' | 'TF' | 'TA' | 'TIP';
+
+interface AirtelEnvelope<T> {
+  data?: T;
+  status: {
+    code: string;
+    message: string;
+    response_code?: string;
+    result_code?: string;
+    success: boolean;
+  };
+}
+
+interface AirtelTransaction {
+  id: string;
+  airtel_money_id?: string;
+  message?: string;
+  status: AirtelStatusCode | string;
+}
+
+interface AirtelCallback {
+  transaction: {
+    id: string;
+    message?: string;
+    status_code: AirtelStatusCode;
+    airtel_money_id?: string;
+  };
+  hash?: string;
+}
+
+const FAILURE_REASONS: Record<string, FailureReason> = {
+  DP00800001002: 'REJECTED', // Incorrect PIN
+  DP00800001007: 'INSUFFICIENT_FUNDS',
+  DP00800001008: 'REJECTED',
+  DP00800001024: 'TIMEOUT',
+  DP00800001029: 'TIMEOUT',
+};
+
+function toStatus(code: string): ProviderStatus {
+  if (code === 'TS') return 'successful';
+  if (code === 'TF') return 'failed';
+  // TA (ambiguous) and TIP (in progress) both need another status check
+  return 'pending';
+}
+
+/** Airtel Africa Open API: merchant collections and standard disbursements */
+export class AirtelMoneyProvider implements PaymentProvider {
+  readonly name = 'AIRTEL' as const;
+  private token = new TokenCache();
+
+  constructor(private config: AirtelMoneyConfig) {}
+
+  async requestToPay(input: RequestToPayInput): Promise<ProviderResult> {
+    const response = await requestJson<AirtelEnvelope<{ transaction: AirtelTransaction }>>(
+      `${this.config.baseUrl}/merchant/v1/payments/`,
+      {
+        method: 'POST',
+        headers: await this.headers(),
+        body: JSON.stringify({
+          reference: input.description ?? input.reference,
+          subscriber: {
+            country: this.config.country,
+            currency: input.currency,
+            msisdn: this.nationalNumber(input.phoneNumber),
+          },
+          transaction: {
+            amount: input.amount,
+            country: this.config.country,
+            currency: input.currency,
+            id: input.reference,
+          },
+        }),
+      },
+    );
+
+    return this.toResult(input.reference, response, true);
+  }
+
+  async getPaymentStatus(reference: string): Promise<ProviderResult> {
+    const response = await requestJson<AirtelEnvelope<{ transaction: AirtelTransaction }>>(
+      `${this.config.baseUrl}/standard/v1/payments/${reference}`,
+      { method: 'GET', headers: await this.headers() },
+    );
+    return this.toResult(reference, response, false);
+  }
+
+  async verifyCallback(request: CallbackRequest): Promise<ProviderResult> {
+    let payload: AirtelCallback;
+    try {
+      payload = JSON.parse(request.body);
+    } catch {
+      throw new PaymentProviderError('INVALID_CALLBACK', 'Airtel callback body is not JSON');
+    }
+
+    const transaction = payload.transaction;
+    if (!transaction?.id) {
+      throw new PaymentProviderError('INVALID_CALLBACK', 'Airtel callback has no transaction id');
+    }
+
+    // Unsigned callbacks are only trusted through the API, and Airtel keeps
+    // collections and disbursements on separate endpoints
+    if (!this.config.callbackSecret) {
+      return (await request.isPayout(transaction.id))
+        ? this.getDisbursementStatus(transaction.id)
+        : this.getPaymentStatus(transaction.id);
+    }
+
+    const expected = await this.sign(JSON.stringify(transaction));
+    if (!payload.hash || payload.hash !== expected) {
+      throw new PaymentProviderError('INVALID_CALLBACK', 'Airtel callback signature mismatch');
+    }
+
+    const status = toStatus(transaction.status_code);
+    return {
+      reference: transaction.id,
+      status,
+      providerReference: transaction.airtel_money_id ?? null,
+      ...(status === 'failed' ? { reason: 'UNKNOWN' as const, message: transaction.message } : {}),
+    };
+  }
+
+  async disburse(input: DisbursementInput): Promise<ProviderResult> {
+    if (!this.config.disbursementPin) {
+      throw new PaymentProviderError('NOT_CONFIGURED', 'Airtel disbursement PIN is not configured');
+    }
+
+    const response = await requestJson<AirtelEnvelope<{ transaction: AirtelTransaction }>>(
+      `${this.config.baseUrl}/standard/v1/disbursements/`,
+      {
+        method: 'POST',
+        headers: await this.headers(),
+        body: JSON.stringify({
+          payee: { msisdn: this.nationalNumber(input.phoneNumber) },
+          reference: input.description ?? input.reference,
+          pin: this.config.disbursementPin,
+          transaction: { amount: input.amount, id: input.reference },
+        }),
+      },
+    );
+
+    return this.toResult(input.reference, response, true);
+  }
+
+  async getDisbursementStatus(reference: string): Promise<ProviderResult> {
+    const response = await requestJson<AirtelEnvelope<{ transaction: AirtelTransaction }>>(
+      `${this.config.baseUrl}/standard/v1/disbursements/${reference}`,
+      { method: 'GET', headers: await this.headers() },
+    );
+    return this.toResult(reference, response, false);
+  }
+
+  /**
+   * Initiation responses only say whether Airtel accepted the request, so an
+   * accepted request is still pending; status lookups carry the final state.
+   */
+  private toResult(
+    reference: string,
+    response: AirtelEnvelope<{ transaction: AirtelTransaction }> | null,
+    initiation: boolean,
+  ): ProviderResult {
+    if (!response) {
+      throw new PaymentProviderError('REQUEST_FAILED', `Airtel returned no body for ${reference}`);
+    }
+
+    const transaction = response.data?.transaction;
+    const providerReference = transaction?.airtel_money_id ?? null;
+    const responseCode = response.status.response_code;
+
+    // A lookup Airtel couldn't answer says nothing about the transaction, and
+    // settling it as failed could refund a payout that was actually paid
+    if (!response.status.success && !initiation) {
+      throw new PaymentProviderError(
+        'REQUEST_FAILED',
+        `Airtel could not confirm the status of ${reference}: ${response.status.message}`,
+      );
+    }
+
+    if (!response.status.success) {
+      return {
+        reference,
+        status: 'failed',
+        providerReference,
+        reason: (responseCode && FAILURE_REASONS[responseCode]) || 'UNKNOWN',
+        message: response.status.message,
+      };
+    }
+
+    if (initiation || !transaction) {
+      return { reference, status: 'pending', providerReference };
+    }
+
+    const status = toStatus(transaction.status);
+    return {
+      reference,
+      status,
+      providerReference,
+      ...(status === 'failed'
+        ? {
+            reason: (responseCode && FAILURE_REASONS[responseCode]) || 'UNKNOWN',
+            message: transaction.message ?? response.status.message,
+          }
+        : {}),
+    };
+  }
+
+  /** Airtel expects the subscriber number without the country code */
+  private nationalNumber(phoneNumber: string): string {
+    return toMsisdn(phoneNumber).slice(3);
+  }
+
+  private async sign(payload: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(this.config.callbackSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+    return btoa(String.fromCharCode(...new Uint8Array(signature)));
+  }
+
+  private async headers(): Promise<Record<string, string>> {
+    const token = await this.token.get(async () => {
+      const data = await requestJson<{ access_token: string; expires_in: number | string }>(
+        `${this.config.baseUrl}/auth/oauth2/token`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            client_id: this.config.clientId,
+            client_secret: this.config.clientSecret,
+            grant_type: 'client_credentials',
+          }),
+        },
+      );
+      if (!data) {
+        throw new PaymentProviderError('AUTH_FAILED', 'Airtel token response was empty');
+      }
+      return { token: data.access_token, expiresIn: Number(data.expires_in) };
+    });
+
+    return {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      Accept: '*/*',
+      'X-Country': this.config.country,
+      'X-Currency': this.config.currency,
+    };
+  }
+}
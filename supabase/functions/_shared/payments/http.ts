@@ -0,0 +1,47 @@
+import { PaymentProviderError } from './types.ts';
+
+/** Digits-only MSISDN with the Ugandan country code, e.g. 256700000000 */
+export function toMsisdn(phoneNumber: string): string {
+  const digits = phoneNumber.replace(/\D/g, '');
+  if (digits.startsWith('256')) return digits;
+  if (digits.startsWith('0')) return `256${digits.slice(1)}`;
+  return `256${digits}`;
+}
+
+export async function requestJson<T>(url: string, init: RequestInit): Promise<T | null> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new PaymentProviderError('REQUEST_FAILED', `Could not reach ${url}: ${error}`);
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new PaymentProviderError(
+      response.status === 401 ? 'AUTH_FAILED' : 'REQUEST_FAILED',
+      `${init.method ?? 'GET'} ${url} failed with ${response.status}: ${text}`,
+      response.status,
+    );
+  }
+
+  return text ? (JSON.parse(text) as T) : null;
+}
+
+/** Caches an OAuth-style access token until shortly before it expires */
+export class TokenCache {
+  private token: string | null = null;
+  private expiresAt = 0;
+
+  async get(fetchToken: () => Promise<{ token: string; expiresIn: number }>): Promise<string> {
+    if (this.token && Date.now() < this.expiresAt) {
+      return this.token;
+    }
+
+    const { token, expiresIn } = await fetchToken();
+    this.token = token;
+    // Refresh a minute early so in-flight requests never carry an expired token
+    this.expiresAt = Date.now() + Math.max(expiresIn - 60, 0) * 1000;
+    return token;
+  }
+}
@@ -0,0 +1,70 @@
+import { AirtelMoneyProvider } from './airtelMoney.ts';
+import { MtnMomoProvider } from './mtnMomo.ts';
+import { PaymentProvider, PaymentProviderError, ProviderName } from './types.ts';
+
+export * from './types.ts';
+export { toMsisdn } from './http.ts';
+export { isAmbiguousProviderError, isNotFoundProviderError, requestToPayWithRetry } from './retry.ts';
+
+export const CURRENCY = 'UGX';
+
+function required(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new PaymentProviderError('NOT_CONFIGURED', `Missing ${name}`);
+  }
+  return value;
+}
+
+const providers = new Map<ProviderName, PaymentProvider>();
+
+/**
+ * Builds the adapter for a provider from the function's environment. Point
+ * `MTN_BASE_URL`/`AIRTEL_BASE_URL` at `scripts/mock-payment-gateway.js` to run
+ * the whole flow offline.
+ */
+export function getPaymentProvider(name: ProviderName): PaymentProvider {
+  const cached = providers.get(name);
+  if (cached) return cached;
+
+  const callbackBase = Deno.env.get('PAYMENT_CALLBACK_URL');
+  let provider: PaymentProvider;
+
+  if (name === 'MTN') {
+    const disbursementKey = Deno.env.get('MTN_DISBURSEMENT_SUBSCRIPTION_KEY');
+    provider = new MtnMomoProvider({
+      baseUrl: required('MTN_BASE_URL'),
+      targetEnvironment: Deno.env.get('MTN_TARGET_ENVIRONMENT') ?? 'sandbox',
+      callbackUrl: callbackBase ? `${callbackBase}?provider=MTN` : undefined,
+      collection: {
+        subscriptionKey: required('MTN_COLLECTION_SUBSCRIPTION_KEY'),
+        apiUser: required('MTN_COLLECTION_API_USER'),
+        apiKey: required('MTN_COLLECTION_API_KEY'),
+      },
+      disbursement: disbursementKey
+        ? {
+            subscriptionKey: disbursementKey,
+            apiUser: required('MTN_DISBURSEMENT_API_USER'),
+            apiKey: required('MTN_DISBURSEMENT_API_KEY'),
+          }
+        : undefined,
+    });
+  } else {
+    provider = new AirtelMoneyProvider({
+      baseUrl: required('AIRTEL_BASE_URL'),
+      clientId: required('AIRTEL_CLIENT_ID'),
+      clientSecret: required('AIRTEL_CLIENT_SECRET'),
+      country: 'UG',
+      currency: CURRENCY,
+      callbackSecret: Deno.env.get('AIRTEL_CALLBACK_SECRET'),
+      disbursementPin: Deno.env.get('AIRTEL_DISBURSEMENT_PIN'),
+    });
+  }
+
+  providers.set(name, provider);
+  return provider;
+}
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return value === 'MTN' || value === 'AIRTEL';
+}
@@ -0,0 +1,178 @@
+import { requestJson, toMsisdn, TokenCache } from './http.ts';
+import {
+  CallbackRequest,
+  DisbursementInput,
+  FailureReason,
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderResult,
+  RequestToPayInput,
+} from './types.ts';
+
+interface ProductCredentials {
+  subscriptionKey: string;
+  apiUser: string;
+  apiKey: string;
+}
+
+export interface MtnMomoConfig {
+  baseUrl: string;
+  /** `sandbox` or the market environment MTN assigns, e.g. `mtnuganda` */
+  targetEnvironment: string;
+  callbackUrl?: string;
+  collection: ProductCredentials;
+  disbursement?: ProductCredentials;
+}
+
+type Product = 'collection' | 'disbursement';
+
+interface MtnTransferStatus {
+  externalId?: string;
+  financialTransactionId?: string;
+  status: 'PENDING' | 'SUCCESSFUL' | 'FAILED';
+  reason?: string | { code: string; message?: string };
+}
+
+const FAILURE_REASONS: Record<string, FailureReason> = {
+  NOT_ENOUGH_FUNDS: 'INSUFFICIENT_FUNDS',
+  APPROVAL_REJECTED: 'REJECTED',
+  EXPIRED: 'TIMEOUT',
+  PAYER_NOT_FOUND: 'PAYER_NOT_FOUND',
+  PAYEE_NOT_FOUND: 'PAYER_NOT_FOUND',
+};
+
+/** MTN MoMo Open API: Collections for request-to-pay, Disbursements for payouts */
+export class MtnMomoProvider implements PaymentProvider {
+  readonly name = 'MTN' as const;
+  private tokens: Record<Product, TokenCache> = {
+    collection: new TokenCache(),
+    disbursement: new TokenCache(),
+  };
+
+  constructor(private config: MtnMomoConfig) {}
+
+  async requestToPay(input: RequestToPayInput): Promise<ProviderResult> {
+    await requestJson(`${this.config.baseUrl}/collection/v1_0/requesttopay`, {
+      method: 'POST',
+      headers: await this.headers('collection', input.reference),
+      body: JSON.stringify({
+        amount: String(input.amount),
+        currency: input.currency,
+        externalId: input.reference,
+        payer: { partyIdType: 'MSISDN', partyId: toMsisdn(input.phoneNumber) },
+        payerMessage: input.description ?? '',
+        payeeNote: input.description ?? '',
+      }),
+    });
+
+    // MTN answers 202 Accepted; the outcome arrives by callback or polling
+    return { reference: input.reference, status: 'pending', providerReference: null };
+  }
+
+  async getPaymentStatus(reference: string): Promise<ProviderResult> {
+    return this.getStatus('collection', `requesttopay/${reference}`, reference);
+  }
+
+  async verifyCallback(request: CallbackRequest): Promise<ProviderResult> {
+    let payload: MtnTransferStatus & { payee?: unknown };
+    try {
+      payload = JSON.parse(request.body);
+    } catch {
+      throw new PaymentProviderError('INVALID_CALLBACK', 'MTN callback body is not JSON');
+    }
+
+    if (!payload.externalId) {
+      throw new PaymentProviderError('INVALID_CALLBACK', 'MTN callback has no externalId');
+    }
+
+    // MTN callbacks are unsigned, so only the API's own answer is trusted
+    return payload.payee
+      ? this.getDisbursementStatus(payload.externalId)
+      : this.getPaymentStatus(payload.externalId);
+  }
+
+  async disburse(input: DisbursementInput): Promise<ProviderResult> {
+    await requestJson(`${this.config.baseUrl}/disbursement/v1_0/transfer`, {
+      method: 'POST',
+      headers: await this.headers('disbursement', input.reference),
+      body: JSON.stringify({
+        amount: String(input.amount),
+        currency: input.currency,
+        externalId: input.reference,
+        payee: { partyIdType: 'MSISDN', partyId: toMsisdn(input.phoneNumber) },
+        payerMessage: input.description ?? '',
+        payeeNote: input.description ?? '',
+      }),
+    });
+
+    return { reference: input.reference, status: 'pending', providerReference: null };
+  }
+
+  async getDisbursementStatus(reference: string): Promise<ProviderResult> {
+    return this.getStatus('disbursement', `transfer/${reference}`, reference);
+  }
+
+  private async getStatus(product: Product, path: string, reference: string): Promise<ProviderResult> {
+    const data = await requestJson<MtnTransferStatus>(`${this.config.baseUrl}/${product}/v1_0/${path}`, {
+      method: 'GET',
+      headers: await this.headers(product),
+    });
+
+    if (!data) {
+      throw new PaymentProviderError('REQUEST_FAILED', `MTN returned no status for ${reference}`);
+    }
+
+    const providerReference = data.financialTransactionId ?? null;
+    if (data.status === 'SUCCESSFUL') {
+      return { reference, status: 'successful', providerReference };
+    }
+    if (data.status === 'FAILED') {
+      const code = typeof data.reason === 'string' ? data.reason : data.reason?.code;
+      return {
+        reference,
+        status: 'failed',
+        providerReference,
+        reason: (code && FAILURE_REASONS[code]) || 'UNKNOWN',
+        message: code,
+      };
+    }
+    return { reference, status: 'pending', providerReference };
+  }
+
+  private credentials(product: Product): ProductCredentials {
+    const credentials = this.config[product];
+    if (!credentials) {
+      throw new PaymentProviderError('NOT_CONFIGURED', `MTN ${product} credentials are not configured`);
+    }
+    return credentials;
+  }
+
+  private async headers(product: Product, referenceId?: string): Promise<Record<string, string>> {
+    const credentials = this.credentials(product);
+    const token = await this.tokens[product].get(async () => {
+      const data = await requestJson<{ access_token: string; expires_in: number }>(
+        `${this.config.baseUrl}/${product}/token/`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${btoa(`${credentials.apiUser}:${credentials.apiKey}`)}`,
+            'Ocp-Apim-Subscription-Key': credentials.subscriptionKey,
+          },
+        },
+      );
+      if (!data) {
+        throw new PaymentProviderError('AUTH_FAILED', `MTN ${product} token response was empty`);
+      }
+      return { token: data.access_token, expiresIn: data.expires_in };
+    });
+
+    return {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      'Ocp-Apim-Subscription-Key': credentials.subscriptionKey,
+      'X-Target-Environment': this.config.targetEnvironment,
+      ...(referenceId ? { 'X-Reference-Id': referenceId } : {}),
+      ...(referenceId && this.config.callbackUrl ? { 'X-Callback-Url': this.config.callbackUrl } : {}),
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { PaymentProvider, PaymentProviderError, ProviderResult, RequestToPayInput } from './types.ts';
+
+/** Pauses before each retry; the length is the number of retries */
+const RETRY_DELAYS_MS = [500, 2000];
+
+/**
+ * The request may or may not have reached the provider: the connection
+ * failed, or the provider answered with a server error.
+ */
+export function isAmbiguousProviderError(error: unknown): boolean {
+  return error instanceof PaymentProviderError &&
+    error.code === 'REQUEST_FAILED' &&
+    (!error.httpStatus || error.httpStatus >= 500);
+}
+
+/** The provider has no record of the reference, so the request never reached it */
+export function isNotFoundProviderError(error: unknown): boolean {
+  return error instanceof PaymentProviderError && error.httpStatus === 404;
+}
+
+/**
+ * Calls `requestToPay`, retrying ambiguous failures with the same reference.
+ * Providers treat the reference as an idempotency key, so a retry can never
+ * prompt the payer twice; a 409 on a retry means an earlier attempt got
+ * through.
+ */
+export async function requestToPayWithRetry(
+  provider: PaymentProvider,
+  input: RequestToPayInput,
+): Promise<ProviderResult> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.requestToPay(input);
+    } catch (error) {
+      if (attempt > 0 && error instanceof PaymentProviderError && error.httpStatus === 409) {
+        return { reference: input.reference, status: 'pending', providerReference: null };
+      }
+      if (attempt >= RETRY_DELAYS_MS.length || !isAmbiguousProviderError(error)) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAYS_MS[attempt]));
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { ProviderResult } from './types.ts';
+
+/**
+ * Applies a provider's final answer through the `settle_transaction` RPC.
+ * Pending results are left alone; already-settled transactions are a no-op.
+ */
+export async function settleTransaction(admin: SupabaseClient, result: ProviderResult): Promise<boolean> {
+  if (result.status === 'pending') return false;
+
+  const { error } = await admin.rpc('settle_transaction', {
+    p_reference: result.reference,
+    p_status: result.status === 'successful' ? 'completed' : 'failed',
+    p_provider_reference: result.providerReference,
+    p_reason: result.reason ?? null,
+  });
+
+  if (error) throw error;
+  return true;
+}
+
+/**
+ * Applies a provider's final answer on a disbursement through the
+ * `settle_payout` RPC, which reverses failed payouts into the wallet.
+ */
+export async function settlePayout(admin: SupabaseClient, result: ProviderResult): Promise<boolean> {
+  if (result.status === 'pending') return false;
+
+  const { error } = await admin.rpc('settle_payout', {
+    p_reference: result.reference,
+    p_status: result.status === 'successful' ? 'paid' : 'failed',
+    p_provider_reference: result.providerReference,
+    p_reason: result.reason ?? null,
+  });
+
+  if (error) throw error;
+  return true;
+}
+
+export async function isPayoutReference(admin: SupabaseClient, reference: string): Promise<boolean> {
+  const { data: payout, error } = await admin
+    .from('payouts')
+    .select('id')
+    .eq('reference', reference)
+    .maybeSingle();
+
+  if (error) throw error;
+  return payout !== null;
+}
+
+/** Callbacks don't say whether they're about a payment or a payout, so look the reference up */
+export async function settleProviderResult(admin: SupabaseClient, result: ProviderResult): Promise<boolean> {
+  return (await isPayoutReference(admin, result.reference))
+    ? settlePayout(admin, result)
+    : settleTransaction(admin, result);
+}
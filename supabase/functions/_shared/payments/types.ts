@@ -0,0 +1,81 @@
+export type ProviderName = 'MTN' | 'AIRTEL';
+
+/** Provider-neutral state of a collection or disbursement */
+export type ProviderStatus = 'pending' | 'successful' | 'failed';
+
+export type FailureReason =
+  | 'INSUFFICIENT_FUNDS'
+  | 'REJECTED'
+  | 'TIMEOUT'
+  | 'PAYER_NOT_FOUND'
+  | 'UNKNOWN';
+
+export interface RequestToPayInput {
+  /** Our transaction reference, a UUID that doubles as the provider's idempotency key */
+  reference: string;
+  amount: number;
+  currency: string;
+  phoneNumber: string;
+  description?: string;
+}
+
+export interface DisbursementInput {
+  reference: string;
+  amount: number;
+  currency: string;
+  phoneNumber: string;
+  description?: string;
+}
+
+export interface ProviderResult {
+  reference: string;
+  status: ProviderStatus;
+  /** The provider's own transaction id, once it has assigned one */
+  providerReference: string | null;
+  reason?: FailureReason;
+  message?: string;
+}
+
+export interface CallbackRequest {
+  headers: Headers;
+  body: string;
+  /** Whether a reference is one of our payouts, for callbacks that don't say */
+  isPayout(reference: string): Promise<boolean>;
+}
+
+export interface PaymentProvider {
+  readonly name: ProviderName;
+
+  /** Starts a collection; the payer approves it on their handset afterwards */
+  requestToPay(input: RequestToPayInput): Promise<ProviderResult>;
+
+  getPaymentStatus(reference: string): Promise<ProviderResult>;
+
+  /**
+   * Authenticates a callback and returns the payment state it reports.
+   * Throws `PaymentProviderError('INVALID_CALLBACK')` if it can't be trusted.
+   */
+  verifyCallback(request: CallbackRequest): Promise<ProviderResult>;
+
+  /** Sends money from the merchant account to a mobile money wallet */
+  disburse(input: DisbursementInput): Promise<ProviderResult>;
+
+  getDisbursementStatus(reference: string): Promise<ProviderResult>;
+}
+
+export type PaymentProviderErrorCode =
+  | 'NOT_CONFIGURED'
+  | 'AUTH_FAILED'
+  | 'REQUEST_FAILED'
+  | 'INVALID_CALLBACK';
+
+export class PaymentProviderError extends Error {
+  constructor(
+    public code: PaymentProviderErrorCode,
+    message: string,
+    public httpStatus?: number,
+  ) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
@@ -0,0 +1,36 @@
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+/** Expo's answer for one message, in the order they were sent */
+export interface PushTicket {
+  status: 'ok' | 'error';
+  message?: string;
+  details?: { error?: string };
+}
+
+/**
+ * Sends through the Expo push service. `EXPO_ACCESS_TOKEN` is only needed
+ * when the project has enhanced push security turned on.
+ */
+export async function sendPushMessages(messages: PushMessage[]): Promise<PushTicket[]> {
+  const accessToken = Deno.env.get('EXPO_ACCESS_TOKEN');
+  const response = await fetch('https://exp.host/--/api/v2/push/send', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(messages.map((message) => ({ ...message, sound: 'default' }))),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Sending push failed with ${response.status}: ${await response.text()}`);
+  }
+  const { data } = await response.json();
+  return data;
+}
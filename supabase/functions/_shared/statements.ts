@@ -0,0 +1,207 @@
+/**
+ * Renders wallet statements from `statement_for` / `wallet_statement` as CSV
+ * and as HTML (which the app prints to PDF). This module has no imports so
+ * the app and the edge functions can share it.
+ */
+
+export type StatementEntryKind =
+  | 'top_up'
+  | 'booking_payment'
+  | 'escrow_release'
+  | 'refund'
+  | 'payout'
+  | 'payout_reversal'
+  | 'transfer'
+  | 'referral_reward'
+  | 'opening_balance';
+
+export interface StatementEntry {
+  id: string;
+  kind: StatementEntryKind;
+  reference: string;
+  description: string | null;
+  created_at: string;
+  credit: number;
+  debit: number;
+  /** Fee the user paid within this entry; negative when a fee was given back */
+  fee: number;
+  /** Wallet balance after this entry */
+  balance: number;
+}
+
+export interface WalletStatement {
+  /** Start of the period, inclusive */
+  from: string;
+  /** End of the period, exclusive */
+  to: string;
+  opening_balance: number;
+  total_credits: number;
+  total_debits: number;
+  total_fees: number;
+  closing_balance: number;
+  entries: StatementEntry[];
+}
+
+export interface StatementHolder {
+  name: string | null;
+  phone: string | null;
+}
+
+/** Statements are dated in Kampala time, whatever the device or server uses */
+export const STATEMENT_TIME_ZONE = 'Africa/Kampala';
+
+export const STATEMENT_ENTRY_LABELS: Record<StatementEntryKind, string> = {
+  top_up: 'Top-up',
+  booking_payment: 'Booking payment',
+  escrow_release: 'Driver earnings',
+  refund: 'Refund',
+  payout: 'Withdrawal',
+  payout_reversal: 'Withdrawal reversed',
+  transfer: 'Transfer',
+  referral_reward: 'Referral reward',
+  opening_balance: 'Opening balance',
+};
+
+const dateFormat = new Intl.DateTimeFormat('en-GB', {
+  timeZone: STATEMENT_TIME_ZONE,
+  day: '2-digit',
+  month: 'short',
+  year: 'numeric',
+});
+
+const dateTimeFormat = new Intl.DateTimeFormat('en-GB', {
+  timeZone: STATEMENT_TIME_ZONE,
+  day: '2-digit',
+  month: 'short',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+/** yyyy-mm-dd in Kampala time */
+const isoDate = (value: Date) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: STATEMENT_TIME_ZONE }).format(value);
+
+/** The last moment inside the period, since `to` itself is excluded */
+const periodEnd = (statement: WalletStatement) => new Date(new Date(statement.to).getTime() - 1);
+
+const formatAmount = (amount: number) => Math.round(amount).toLocaleString('en-US');
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatStatementPeriod = (statement: WalletStatement) =>
+  `${dateFormat.format(new Date(statement.from))} – ${dateFormat.format(periodEnd(statement))}`;
+
+/** e.g. makela-statement-2024-01-01-to-2024-01-31.csv */
+export const statementFileName = (statement: WalletStatement, extension: 'csv' | 'pdf' | 'html') =>
+  `makela-statement-${isoDate(new Date(statement.from))}-to-${isoDate(periodEnd(statement))}.${extension}`;
+
+/**
+ * One row per entry between an opening and a closing balance row, with
+ * plain numbers so spreadsheets can total the columns.
+ */
+export const renderStatementCsv = (statement: WalletStatement): string => {
+  const rows: (string | number)[][] = [
+    ['Date', 'Type', 'Description', 'Reference', 'Money in', 'Money out', 'Fee', 'Balance'],
+    [isoDate(new Date(statement.from)), 'Opening balance', '', '', '', '', '', statement.opening_balance],
+    ...statement.entries.map((entry) => [
+      dateTimeFormat.format(new Date(entry.created_at)),
+      STATEMENT_ENTRY_LABELS[entry.kind],
+      entry.description ?? '',
+      entry.reference,
+      entry.credit || '',
+      entry.debit || '',
+      entry.fee || '',
+      entry.balance,
+    ]),
+    [
+      isoDate(periodEnd(statement)),
+      'Closing balance',
+      '',
+      '',
+      statement.total_credits,
+      statement.total_debits,
+      statement.total_fees,
+      statement.closing_balance,
+    ],
+  ];
+
+  return rows.map((row) => row.map(escapeCsv).join(',')).join('\n');
+};
+
+/** A branded, printable statement page */
+export const renderStatementHtml = (statement: WalletStatement, holder: StatementHolder): string => {
+  const summary = [
+    ['Opening balance', statement.opening_balance],
+    ['Money in', statement.total_credits],
+    ['Money out', statement.total_debits],
+    ['Fees included above', statement.total_fees],
+    ['Closing balance', statement.closing_balance],
+  ]
+    .map(([label, amount]) => `<tr><td>${label}</td><td class="amount">UGX ${formatAmount(amount as number)}</td></tr>`)
+    .join('');
+
+  const entries = statement.entries.length
+    ? statement.entries
+      .map((entry) => `<tr>
+        <td>${dateTimeFormat.format(new Date(entry.created_at))}</td>
+        <td>${STATEMENT_ENTRY_LABELS[entry.kind]}${entry.description ? `<br /><span class="muted">${escapeHtml(entry.description)}</span>` : ''}</td>
+        <td class="amount">${entry.credit ? formatAmount(entry.credit) : ''}</td>
+        <td class="amount">${entry.debit ? formatAmount(entry.debit) : ''}</td>
+        <td class="amount">${entry.fee ? formatAmount(entry.fee) : ''}</td>
+        <td class="amount">${formatAmount(entry.balance)}</td>
+      </tr>`)
+      .join('')
+    : '<tr><td colspan="6" class="muted">No wallet activity in this period</td></tr>';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #151420; margin: 0; font-size: 12px; }
+  header { background: #3D1D72; color: #FFFFFF; padding: 24px 32px; }
+  header h1 { margin: 0; font-size: 28px; letter-spacing: 1px; }
+  header p { margin: 4px 0 0; opacity: 0.8; }
+  main { padding: 24px 32px; }
+  h2 { font-size: 16px; color: #6B4DE6; margin: 24px 0 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; border-bottom: 2px solid #3D1D72; padding: 6px 4px; }
+  td { padding: 6px 4px; border-bottom: 1px solid #F5F5F8; vertical-align: top; }
+  .amount { text-align: right; white-space: nowrap; }
+  .muted { color: #6E6E89; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Makela</h1>
+  <p>Wallet statement • ${formatStatementPeriod(statement)}</p>
+</header>
+<main>
+  <p>${escapeHtml(holder.name || 'Makela user')}${holder.phone ? `<br /><span class="muted">${escapeHtml(holder.phone)}</span>` : ''}</p>
+  <h2>Summary</h2>
+  <table>${summary}</table>
+  <h2>Transactions</h2>
+  <table>
+    <tr>
+      <th>Date</th>
+      <th>Details</th>
+      <th class="amount">In</th>
+      <th class="amount">Out</th>
+      <th class="amount">Fee</th>
+      <th class="amount">Balance</th>
+    </tr>
+    ${entries}
+  </table>
+  <p class="muted">Amounts in UGX. Times are East Africa Time.</p>
+</main>
+</body>
+</html>`;
+};
@@ -0,0 +1,40 @@
+import { createClient, SupabaseClient, User } from 'jsr:@supabase/supabase-js@2';
+
+/** Service-role client; bypasses RLS, so only use it after authorizing the caller */
+export function createAdminClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+}
+
+/** Resolves the user behind the request's bearer token, or null if there isn't one */
+export async function getRequestUser(req: Request): Promise<User | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data: { user } } = await client.auth.getUser();
+  return user;
+}
+
+/**
+ * When the caller last proved who they are (signed in, verified an OTP), in
+ * ms since the epoch. Read from the `amr` claim of a token that
+ * `getRequestUser` has already verified, so it is not checked again here.
+ */
+export function getAuthenticatedAt(req: Request): number | null {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    const timestamps: number[] = (claims.amr ?? []).map((entry: { timestamp: number }) => entry.timestamp);
+    return timestamps.length ? Math.max(...timestamps) * 1000 : null;
+  } catch {
+    return null;
+  }
+}
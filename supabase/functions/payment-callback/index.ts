@@ -0,0 +1,41 @@
+import { jsonResponse } from '../_shared/cors.ts';
+import { getPaymentProvider, isProviderName, PaymentProviderError } from '../_shared/payments/index.ts';
+import { isPayoutReference, settleProviderResult } from '../_shared/payments/settlement.ts';
+import { createAdminClient } from '../_shared/supabase.ts';
+
+/**
+ * Receives provider callbacks at `?provider=MTN|AIRTEL`, for payments and
+ * payouts alike. Providers call without a Supabase JWT, so every payload is
+ * verified by its adapter before it can settle anything.
+ */
+Deno.serve(async (req) => {
+  if (req.method !== 'POST' && req.method !== 'PUT') {
+    return jsonResponse({ message: 'Method not allowed' }, 405);
+  }
+
+  const provider = new URL(req.url).searchParams.get('provider');
+  if (!isProviderName(provider)) {
+    return jsonResponse({ message: 'Unknown provider' }, 400);
+  }
+
+  try {
+    const admin = createAdminClient();
+    const result = await getPaymentProvider(provider).verifyCallback({
+      headers: req.headers,
+      body: await req.text(),
+      isPayout: (reference) => isPayoutReference(admin, reference),
+    });
+
+    const settled = await settleProviderResult(admin, result);
+    return jsonResponse({ reference: result.reference, status: result.status, settled });
+  } catch (error) {
+    if (error instanceof PaymentProviderError && error.code === 'INVALID_CALLBACK') {
+      console.warn(`Rejected ${provider} callback:`, error.message);
+      return jsonResponse({ message: 'Invalid callback' }, 401);
+    }
+
+    // Anything else is our problem; a non-2xx makes the provider retry
+    console.error(`Error handling ${provider} callback:`, error);
+    return jsonResponse({ message: 'Callback processing failed' }, 500);
+  }
+});
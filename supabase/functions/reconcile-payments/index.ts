@@ -0,0 +1,131 @@
+import { jsonResponse } from '../_shared/cors.ts';
+import { getPaymentProvider, isNotFoundProviderError, isProviderName } from '../_shared/payments/index.ts';
+import { settlePayout, settleTransaction } from '../_shared/payments/settlement.ts';
+import { createAdminClient } from '../_shared/supabase.ts';
+
+/** Callbacks usually land within this window, so younger payments are left alone */
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+/**
+ * Providers expire unapproved requests well before this, so anything still
+ * open is flagged; it's only failed once the provider says it has no record
+ */
+const ABANDON_AFTER_MS = 24 * 60 * 60 * 1000;
+
+const BATCH_SIZE = 50;
+
+/**
+ * Polls providers for pending payments and payouts whose callback never
+ * arrived. Scheduled by pg_cron (see the payment settlement migration).
+ */
+Deno.serve(async (req) => {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return jsonResponse({ message: 'Forbidden' }, 403);
+  }
+
+  const admin = createAdminClient();
+  const { data: pending, error } = await admin
+    .from('transactions')
+    .select('reference, provider, created_at')
+    .eq('status', 'pending')
+    .lt('created_at', new Date(Date.now() - STALE_AFTER_MS).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('Error loading pending transactions:', error);
+    return jsonResponse({ message: 'Could not load pending transactions' }, 500);
+  }
+
+  const summary = { checked: 0, settled: 0, abandoned: 0, stuck: 0, failed: 0 };
+
+  for (const transaction of pending ?? []) {
+    summary.checked++;
+    const abandoned = Date.now() - new Date(transaction.created_at).getTime() > ABANDON_AFTER_MS;
+    try {
+      if (!transaction.reference || !isProviderName(transaction.provider)) {
+        continue;
+      }
+
+      const result = await getPaymentProvider(transaction.provider).getPaymentStatus(transaction.reference);
+      if (await settleTransaction(admin, result)) {
+        summary.settled++;
+      } else if (abandoned) {
+        // Only the provider can say whether the payer approved it
+        console.warn(`Transaction ${transaction.reference} has been pending for over a day`);
+        summary.stuck++;
+      }
+    } catch (error) {
+      // One unreachable provider shouldn't stop the rest of the batch
+      console.error(`Error reconciling ${transaction.reference}:`, error);
+      summary.failed++;
+
+      // Left pending when the request may not have reached the provider; if it
+      // still can't be found a day later, the payer was never prompted. Outages
+      // and server errors say nothing about the payment, so those stay pending.
+      if (abandoned && transaction.reference && isNotFoundProviderError(error)) {
+        await settleTransaction(admin, {
+          reference: transaction.reference,
+          status: 'failed',
+          providerReference: null,
+          reason: 'TIMEOUT',
+        }).catch((settleError) => console.error(`Error failing ${transaction.reference}:`, settleError));
+        summary.abandoned++;
+      } else if (abandoned) {
+        console.warn(`Transaction ${transaction.reference} has been pending for over a day and can't be checked`);
+        summary.stuck++;
+      }
+    }
+  }
+
+  const { data: payouts, error: payoutsError } = await admin
+    .from('payouts')
+    .select('reference, provider, status, created_at')
+    .in('status', ['pending', 'processing'])
+    .lt('created_at', new Date(Date.now() - STALE_AFTER_MS).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (payoutsError) {
+    console.error('Error loading open payouts:', payoutsError);
+    return jsonResponse({ message: 'Could not load open payouts' }, 500);
+  }
+
+  const payoutSummary = { checked: 0, settled: 0, abandoned: 0, failed: 0 };
+
+  for (const payout of payouts ?? []) {
+    payoutSummary.checked++;
+    const abandoned = Date.now() - new Date(payout.created_at).getTime() > ABANDON_AFTER_MS;
+    try {
+      if (!isProviderName(payout.provider)) {
+        continue;
+      }
+
+      const result = await getPaymentProvider(payout.provider).getDisbursementStatus(payout.reference);
+      if (await settlePayout(admin, result)) {
+        payoutSummary.settled++;
+      } else if (abandoned && payout.status === 'processing') {
+        // The provider accepted it, so only someone checking with them can say whether it was paid
+        console.warn(`Payout ${payout.reference} has been processing for over a day`);
+      }
+    } catch (error) {
+      console.error(`Error reconciling payout ${payout.reference}:`, error);
+      payoutSummary.failed++;
+
+      // A payout the provider never accepted and still can't find was never
+      // sent; any other error leaves it open rather than refund a paid payout
+      if (abandoned && payout.status === 'pending' && isNotFoundProviderError(error)) {
+        await settlePayout(admin, {
+          reference: payout.reference,
+          status: 'failed',
+          providerReference: null,
+          reason: 'TIMEOUT',
+        }).catch((settleError) => console.error(`Error reversing payout ${payout.reference}:`, settleError));
+        payoutSummary.abandoned++;
+      }
+    }
+  }
+
+  return jsonResponse({ ...summary, payouts: payoutSummary });
+});
@@ -0,0 +1,225 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import {
+  CURRENCY,
+  getPaymentProvider,
+  isAmbiguousProviderError,
+  isProviderName,
+  requestToPayWithRetry,
+} from '../_shared/payments/index.ts';
+import { settleTransaction } from '../_shared/payments/settlement.ts';
+import { createAdminClient, getRequestUser } from '../_shared/supabase.ts';
+
+/** Client-generated keys are UUIDs; anything of similar shape is accepted */
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+interface TransactionRecord {
+  reference: string;
+  amount: number;
+  phone_number: string | null;
+  provider: string | null;
+  booking_id: string | null;
+  status: 'pending' | 'completed' | 'failed';
+  metadata: { provider_reference?: string } | null;
+}
+
+/** What the original request got back, for a repeat of it */
+function replayResponse(transaction: TransactionRecord): Response {
+  const data = {
+    transaction_id: transaction.reference,
+    provider_reference: transaction.metadata?.provider_reference,
+  };
+
+  switch (transaction.status) {
+    case 'completed':
+      return jsonResponse({ status: 'success', message: 'This payment has already been received', data });
+    case 'failed':
+      return jsonResponse({ status: 'error', message: 'This payment was declined', data }, 402);
+    default:
+      return jsonResponse({
+        status: 'pending',
+        message: 'Approve the payment on your phone to complete it',
+        data,
+      });
+  }
+}
+
+/**
+ * Starts a wallet top-up: records a pending credit transaction and asks the
+ * provider to prompt the payer's handset. `payment-callback` or
+ * `reconcile-payments` settles it once the payer responds.
+ *
+ * With a `booking_id` the top-up is for the booking's fare, and settlement
+ * moves it straight on into escrow.
+ *
+ * An `idempotency_key` makes the request safe to repeat: a second request
+ * with the same key returns the first one's transaction instead of charging
+ * again.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ status: 'error', message: 'Not signed in' }, 401);
+  }
+
+  const { phone_number, provider, booking_id, idempotency_key, ...body } = await req.json().catch(() => ({}));
+  let { amount, description } = body;
+
+  if (idempotency_key !== undefined &&
+    (typeof idempotency_key !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(idempotency_key))) {
+    return jsonResponse({ status: 'error', message: 'Invalid idempotency key' }, 400);
+  }
+
+  const admin = createAdminClient();
+
+  const findByKey = async (): Promise<TransactionRecord | null> => {
+    const { data } = await admin
+      .from('transactions')
+      .select('reference, amount, phone_number, provider, booking_id, status, metadata')
+      .eq('user_id', user.id)
+      .eq('idempotency_key', idempotency_key)
+      .maybeSingle();
+    return data;
+  };
+
+  // A key is only for retrying the same payment
+  const replay = (transaction: TransactionRecord): Response => {
+    const sameRequest = transaction.phone_number === phone_number &&
+      transaction.provider === provider &&
+      transaction.booking_id === (booking_id ?? null) &&
+      (booking_id !== undefined || Number(transaction.amount) === amount);
+
+    if (!sameRequest) {
+      return jsonResponse(
+        { status: 'error', code: 'IDEMPOTENCY_KEY_REUSED', message: 'This payment key was already used for a different payment' },
+        422,
+      );
+    }
+    return replayResponse(transaction);
+  };
+
+  if (idempotency_key) {
+    const existing = await findByKey();
+    if (existing) return replay(existing);
+  }
+
+  if (booking_id !== undefined) {
+    const { data: booking } = await admin
+      .from('bookings')
+      .select('id, passenger_id, status, total_amount')
+      .eq('id', booking_id)
+      .maybeSingle();
+
+    if (!booking || booking.passenger_id !== user.id) {
+      return jsonResponse({ status: 'error', message: 'Booking not found' }, 404);
+    }
+    if (booking.status !== 'accepted') {
+      return jsonResponse({ status: 'error', message: 'This booking is not awaiting payment' }, 409);
+    }
+
+    amount = Number(booking.total_amount);
+    description = description ?? 'Booking payment';
+  }
+
+  if (typeof amount !== 'number' || !(amount > 0)) {
+    return jsonResponse({ status: 'error', message: 'Invalid amount' }, 400);
+  }
+  if (typeof phone_number !== 'string' || !phone_number) {
+    return jsonResponse({ status: 'error', message: 'Phone number is required' }, 400);
+  }
+  if (!isProviderName(provider)) {
+    return jsonResponse({ status: 'error', message: 'Unsupported provider' }, 400);
+  }
+
+  const reference = crypto.randomUUID();
+
+  const { error: insertError } = await admin.from('transactions').insert({
+    user_id: user.id,
+    type: 'credit',
+    amount,
+    phone_number,
+    provider,
+    reference,
+    description,
+    status: 'pending',
+    booking_id: booking_id ?? null,
+    idempotency_key: idempotency_key ?? null,
+  });
+  if (insertError) {
+    // A concurrent request with the same key won the race
+    if (insertError.code === '23505' && idempotency_key) {
+      const existing = await findByKey();
+      if (existing) return replay(existing);
+    }
+    console.error('Error recording transaction:', insertError);
+    return jsonResponse({ status: 'error', message: 'Could not start payment' }, 500);
+  }
+
+  const { error: requestError } = await admin.from('payment_requests').insert({
+    user_id: user.id,
+    amount,
+    phone_number,
+    payment_method: provider.toLowerCase(),
+    status: 'pending',
+    reference,
+  });
+  if (requestError) {
+    console.error('Error recording payment request:', requestError);
+  }
+
+  try {
+    const result = await requestToPayWithRetry(getPaymentProvider(provider), {
+      reference,
+      amount,
+      currency: CURRENCY,
+      phoneNumber: phone_number,
+      description,
+    });
+
+    if (result.status === 'failed') {
+      await settleTransaction(admin, result);
+      return jsonResponse({ status: 'error', message: result.message ?? 'Payment was declined' }, 402);
+    }
+
+    if (result.providerReference) {
+      await admin
+        .from('transactions')
+        .update({
+          metadata: { provider_reference: result.providerReference },
+        })
+        .eq('reference', reference);
+    }
+
+    return jsonResponse({
+      status: 'pending',
+      message: 'Approve the payment on your phone to complete it',
+      data: {
+        transaction_id: reference,
+        provider_reference: result.providerReference ?? undefined,
+      },
+    });
+  } catch (error) {
+    console.error('Payment provider error:', error);
+
+    // The payer may still get a prompt, so leave it for reconciliation to settle
+    if (isAmbiguousProviderError(error)) {
+      return jsonResponse({
+        status: 'pending',
+        message: "We're confirming your payment with the provider",
+        data: { transaction_id: reference },
+      });
+    }
+
+    await settleTransaction(admin, {
+      reference,
+      status: 'failed',
+      providerReference: null,
+      reason: 'UNKNOWN',
+    }).catch((settleError) => console.error('Error failing transaction:', settleError));
+
+    return jsonResponse({ status: 'error', message: 'Payment provider is unavailable' }, 502);
+  }
+});
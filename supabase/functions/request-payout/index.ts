@@ -0,0 +1,127 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { CURRENCY, getPaymentProvider, isProviderName, PaymentProviderError } from '../_shared/payments/index.ts';
+import { settlePayout } from '../_shared/payments/settlement.ts';
+import { createAdminClient, getAuthenticatedAt, getRequestUser } from '../_shared/supabase.ts';
+
+/** Withdrawals need a sign-in or OTP check at least this recent */
+const REAUTH_WINDOW_MS = 5 * 60 * 1000;
+
+const PAYOUT_ERROR_MESSAGES: Record<string, string> = {
+  PAYOUT_BELOW_MINIMUM: 'This amount is below the minimum withdrawal',
+  DAILY_LIMIT_EXCEEDED: 'This would take you over your daily withdrawal limit',
+  INSUFFICIENT_BALANCE: 'Your wallet balance is too low for this withdrawal',
+  PIN_REQUIRED: 'Please enter your wallet PIN to withdraw',
+};
+
+/**
+ * Withdraws from the caller's wallet to mobile money: `create_payout` spends
+ * the caller's wallet PIN token and debits the wallet, then the provider's
+ * disbursement API sends the money.
+ * `payment-callback` or `reconcile-payments` records the final outcome, and a
+ * failed payout is reversed back into the wallet.
+ *
+ * `PAYOUT_DAILY_LIMIT` optionally caps each user's withdrawals per day.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ status: 'error', message: 'Not signed in' }, 401);
+  }
+
+  const authenticatedAt = getAuthenticatedAt(req);
+  if (!authenticatedAt || Date.now() - authenticatedAt > REAUTH_WINDOW_MS) {
+    return jsonResponse(
+      { status: 'error', code: 'REAUTH_REQUIRED', message: "Please confirm it's you before withdrawing" },
+      401,
+    );
+  }
+
+  const { amount, phone_number, provider, pin_token } = await req.json().catch(() => ({}));
+  if (typeof amount !== 'number' || !(amount > 0)) {
+    return jsonResponse({ status: 'error', message: 'Invalid amount' }, 400);
+  }
+  if (typeof phone_number !== 'string' || !phone_number) {
+    return jsonResponse({ status: 'error', message: 'Phone number is required' }, 400);
+  }
+  if (!isProviderName(provider)) {
+    return jsonResponse({ status: 'error', message: 'Unsupported provider' }, 400);
+  }
+
+  const admin = createAdminClient();
+  const dailyLimit = Number(Deno.env.get('PAYOUT_DAILY_LIMIT')) || null;
+
+  const { data: payout, error: createError } = await admin.rpc('create_payout', {
+    p_user_id: user.id,
+    p_amount: amount,
+    p_phone_number: phone_number,
+    p_provider: provider,
+    p_daily_limit: dailyLimit,
+    p_pin_token: typeof pin_token === 'string' ? pin_token : null,
+  });
+  if (createError) {
+    const message = PAYOUT_ERROR_MESSAGES[createError.message];
+    if (message) {
+      return jsonResponse({ status: 'error', code: createError.message, message }, 422);
+    }
+    console.error('Error creating payout:', createError);
+    return jsonResponse({ status: 'error', message: 'Could not start withdrawal' }, 500);
+  }
+
+  const data = { payout_id: payout.id, reference: payout.reference };
+
+  try {
+    const result = await getPaymentProvider(provider).disburse({
+      reference: payout.reference,
+      amount,
+      currency: CURRENCY,
+      phoneNumber: phone_number,
+      description: 'Wallet withdrawal',
+    });
+
+    if (result.status === 'pending') {
+      const { error } = await admin.rpc('settle_payout', {
+        p_reference: payout.reference,
+        p_status: 'processing',
+        p_provider_reference: result.providerReference,
+      });
+      if (error) console.error('Error marking payout processing:', error);
+    } else {
+      await settlePayout(admin, result);
+    }
+
+    if (result.status === 'failed') {
+      return jsonResponse({ status: 'error', message: 'The withdrawal was declined and your wallet refunded' }, 402);
+    }
+
+    return jsonResponse({
+      status: result.status === 'successful' ? 'success' : 'pending',
+      message: 'Your withdrawal is on its way',
+      data,
+    });
+  } catch (error) {
+    console.error('Payout provider error:', error);
+
+    // These fail before anything reaches the provider, so it's safe to reverse now.
+    // Anything else may have gone through and is left for reconciliation.
+    if (error instanceof PaymentProviderError && (error.code === 'NOT_CONFIGURED' || error.code === 'AUTH_FAILED')) {
+      await settlePayout(admin, {
+        reference: payout.reference,
+        status: 'failed',
+        providerReference: null,
+        reason: 'UNKNOWN',
+      }).catch((settleError) => console.error('Error reversing payout:', settleError));
+
+      return jsonResponse({ status: 'error', message: 'Withdrawals are unavailable right now' }, 502);
+    }
+
+    return jsonResponse({
+      status: 'pending',
+      message: "We're confirming your withdrawal with the provider",
+      data,
+    });
+  }
+});
@@ -0,0 +1,71 @@
+import { jsonResponse } from '../_shared/cors.ts';
+import { sendPushMessages } from '../_shared/push.ts';
+import { createAdminClient } from '../_shared/supabase.ts';
+
+/**
+ * Pushes a notification from the in-app feed to each of the user's devices.
+ * Called by a trigger on `notifications` (see the saved searches migration).
+ * Devices Expo reports as unregistered are forgotten.
+ */
+Deno.serve(async (req) => {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return jsonResponse({ message: 'Forbidden' }, 403);
+  }
+
+  const { notification_id } = await req.json().catch(() => ({}));
+  if (!notification_id) {
+    return jsonResponse({ message: 'notification_id is required' }, 400);
+  }
+
+  const admin = createAdminClient();
+  const { data: notification, error } = await admin
+    .from('notifications')
+    .select('id, user_id, kind, title, body, data')
+    .eq('id', notification_id)
+    .maybeSingle();
+
+  if (error || !notification) {
+    console.error('Error loading notification:', error);
+    return jsonResponse({ message: 'Notification not found' }, 404);
+  }
+
+  const { data: tokens, error: tokensError } = await admin
+    .from('push_tokens')
+    .select('token')
+    .eq('user_id', notification.user_id);
+
+  if (tokensError) {
+    console.error('Error loading push tokens:', tokensError);
+    return jsonResponse({ message: 'Could not load push tokens' }, 500);
+  }
+  if (!tokens?.length) {
+    return jsonResponse({ sent: 0 });
+  }
+
+  try {
+    const tickets = await sendPushMessages(
+      tokens.map(({ token }) => ({
+        to: token,
+        title: notification.title,
+        body: notification.body,
+        data: { ...notification.data, kind: notification.kind, notification_id: notification.id },
+      }))
+    );
+
+    const unregistered = tokens
+      .filter((_, index) => tickets[index]?.details?.error === 'DeviceNotRegistered')
+      .map(({ token }) => token);
+    if (unregistered.length) {
+      await admin.from('push_tokens').delete().in('token', unregistered);
+    }
+
+    return jsonResponse({
+      sent: tickets.filter((ticket) => ticket.status === 'ok').length,
+      unregistered: unregistered.length,
+    });
+  } catch (error) {
+    console.error(`Error pushing notification ${notification.id}:`, error);
+    return jsonResponse({ message: 'Could not send push' }, 502);
+  }
+});
@@ -0,0 +1,82 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { isEmailConfigured, sendEmail } from '../_shared/email.ts';
+import {
+  formatStatementPeriod,
+  renderStatementCsv,
+  renderStatementHtml,
+  statementFileName,
+  WalletStatement,
+} from '../_shared/statements.ts';
+import { createAdminClient, getRequestUser } from '../_shared/supabase.ts';
+
+/**
+ * Emails the caller a wallet statement for [from, to): the formatted
+ * statement in the body and the CSV attached. Uses the same generator as the
+ * app's export, so both always agree.
+ *
+ * Needs `RESEND_API_KEY` and `EMAIL_FROM`.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ status: 'error', message: 'Not signed in' }, 401);
+  }
+
+  if (!isEmailConfigured()) {
+    return jsonResponse({ status: 'error', message: 'Emailed statements are unavailable right now' }, 503);
+  }
+
+  const { from, to } = await req.json().catch(() => ({}));
+  if (typeof from !== 'string' || typeof to !== 'string' || !(Date.parse(from) < Date.parse(to))) {
+    return jsonResponse({ status: 'error', message: 'Invalid statement period' }, 400);
+  }
+
+  const admin = createAdminClient();
+
+  const { data: profile } = await admin
+    .from('profiles')
+    .select('full_name, phone, email')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  const email = profile?.email || user.email;
+  if (!email) {
+    return jsonResponse({ status: 'error', message: 'Add an email address to your profile first' }, 422);
+  }
+
+  const { data: statement, error } = await admin.rpc('statement_for', {
+    p_user_id: user.id,
+    p_from: from,
+    p_to: to,
+  });
+  if (error) {
+    console.error('Error building statement:', error);
+    return jsonResponse({ status: 'error', message: 'Could not build your statement' }, 500);
+  }
+
+  const walletStatement = statement as WalletStatement;
+
+  try {
+    await sendEmail({
+      to: email,
+      subject: `Your Makela wallet statement, ${formatStatementPeriod(walletStatement)}`,
+      html: renderStatementHtml(walletStatement, {
+        name: profile?.full_name ?? null,
+        phone: profile?.phone ?? user.phone ?? null,
+      }),
+      attachments: [{
+        filename: statementFileName(walletStatement, 'csv'),
+        content: renderStatementCsv(walletStatement),
+      }],
+    });
+  } catch (sendError) {
+    console.error('Error emailing statement:', sendError);
+    return jsonResponse({ status: 'error', message: 'Could not email your statement' }, 502);
+  }
+
+  return jsonResponse({ status: 'success', message: `Statement sent to ${email}` });
+});
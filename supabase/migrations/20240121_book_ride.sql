@@ -0,0 +1,77 @@
+-- Seats can never go below zero
+alter table public.rides
+  add constraint rides_available_seats_non_negative check (available_seats >= 0);
+
+-- Bookings are only created through book_ride so seats are always reserved
+drop policy if exists "Users can insert own bookings" on public.bookings;
+
+-- Drivers need to see who booked their rides
+create policy "Drivers can view bookings on own rides" on public.bookings
+  for select using (
+    exists (
+      select 1 from public.rides
+      where rides.id = bookings.ride_id
+        and rides.driver_id = auth.uid()
+    )
+  );
+
+-- Reserve seats on a ride and create the booking in one transaction.
+-- Errors are raised with a stable code as the message so the client can map
+-- them to typed errors: NOT_AUTHENTICATED, INVALID_SEATS, RIDE_NOT_FOUND,
+-- OWN_RIDE, RIDE_DEPARTED, RIDE_UNAVAILABLE, SOLD_OUT.
+create or replace function public.book_ride(p_ride_id uuid, p_seats integer default 1)
+returns public.bookings as $$
+declare
+  v_passenger_id uuid := auth.uid();
+  v_ride public.rides%rowtype;
+  v_booking public.bookings%rowtype;
+begin
+  if v_passenger_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  if p_seats is null or p_seats < 1 then
+    raise exception 'INVALID_SEATS' using errcode = 'P0001';
+  end if;
+
+  -- Lock the ride row so concurrent bookings queue up behind each other
+  select * into v_ride
+  from public.rides
+  where id = p_ride_id
+  for update;
+
+  if not found then
+    raise exception 'RIDE_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_ride.driver_id = v_passenger_id then
+    raise exception 'OWN_RIDE' using errcode = 'P0001';
+  end if;
+
+  if v_ride.departure_time <= now() then
+    raise exception 'RIDE_DEPARTED' using errcode = 'P0001';
+  end if;
+
+  if v_ride.status not in ('pending', 'active') then
+    raise exception 'RIDE_UNAVAILABLE' using errcode = 'P0001';
+  end if;
+
+  if v_ride.available_seats < p_seats then
+    raise exception 'SOLD_OUT' using errcode = 'P0001',
+      detail = format('%s seat(s) left', v_ride.available_seats);
+  end if;
+
+  update public.rides
+  set available_seats = available_seats - p_seats
+  where id = p_ride_id;
+
+  insert into public.bookings (ride_id, passenger_id, seats_booked, total_amount, status)
+  values (p_ride_id, v_passenger_id, p_seats, v_ride.price_per_seat * p_seats, 'pending')
+  returning * into v_booking;
+
+  return v_booking;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.book_ride(uuid, integer) from public;
+grant execute on function public.book_ride(uuid, integer) to authenticated;
@@ -0,0 +1,222 @@
+-- Booking lifecycle:
+--   requested -> accepted | declined
+--   accepted  -> paid -> boarded -> completed
+-- with cancelled_by_passenger, cancelled_by_driver and no_show as exits.
+create type public.booking_status as enum (
+  'requested',
+  'accepted',
+  'declined',
+  'paid',
+  'boarded',
+  'completed',
+  'cancelled_by_passenger',
+  'cancelled_by_driver',
+  'no_show'
+);
+
+alter table public.bookings alter column status drop default;
+
+alter table public.bookings
+  alter column status type public.booking_status
+  using (
+    case status
+      when 'confirmed' then 'accepted'
+      when 'paid' then 'paid'
+      when 'completed' then 'completed'
+      when 'cancelled' then 'cancelled_by_passenger'
+      else 'requested'
+    end
+  )::public.booking_status;
+
+alter table public.bookings
+  alter column status set default 'requested',
+  add column status_changed_at timestamp with time zone default timezone('utc'::text, now()) not null;
+
+-- Drivers choose per ride whether seats are confirmed instantly or need approval
+alter table public.rides
+  add column booking_mode text default 'instant' not null
+    check (booking_mode in ('instant', 'manual'));
+
+-- Allowed transitions and who may perform them. 'system' transitions are
+-- performed by server-side functions (payments, scheduled jobs).
+create table public.booking_status_transitions (
+  from_status public.booking_status not null,
+  to_status public.booking_status not null,
+  actor text not null check (actor in ('passenger', 'driver', 'system')),
+  primary key (from_status, to_status, actor)
+);
+
+insert into public.booking_status_transitions (from_status, to_status, actor) values
+  ('requested', 'accepted', 'driver'),
+  ('requested', 'declined', 'driver'),
+  ('requested', 'cancelled_by_passenger', 'passenger'),
+  ('accepted', 'paid', 'passenger'),
+  ('accepted', 'paid', 'system'),
+  ('accepted', 'cancelled_by_passenger', 'passenger'),
+  ('accepted', 'cancelled_by_driver', 'driver'),
+  ('paid', 'boarded', 'driver'),
+  ('paid', 'no_show', 'driver'),
+  ('paid', 'cancelled_by_passenger', 'passenger'),
+  ('paid', 'cancelled_by_driver', 'driver'),
+  ('boarded', 'completed', 'driver'),
+  ('boarded', 'completed', 'system');
+
+alter table public.booking_status_transitions enable row level security;
+
+create policy "Booking transitions are viewable by everyone" on public.booking_status_transitions
+  for select using (true);
+
+-- Reject any status change that is not in the transition table, no matter
+-- which role or function performs the update
+create or replace function public.enforce_booking_transition()
+returns trigger as $$
+begin
+  if new.status is distinct from old.status then
+    if not exists (
+      select 1 from public.booking_status_transitions
+      where from_status = old.status and to_status = new.status
+    ) then
+      raise exception 'INVALID_TRANSITION' using errcode = 'P0001',
+        detail = format('%s -> %s', old.status, new.status);
+    end if;
+    new.status_changed_at = now();
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger bookings_enforce_transition
+  before update of status on public.bookings
+  for each row
+  execute procedure public.enforce_booking_transition();
+
+-- Move a booking to a new status on behalf of the signed-in passenger or driver.
+-- Seats go back to the ride when a booking is declined or cancelled.
+create or replace function public.transition_booking(p_booking_id uuid, p_status public.booking_status)
+returns public.bookings as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_booking public.bookings%rowtype;
+  v_ride public.rides%rowtype;
+  v_actor text;
+begin
+  if v_user_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id
+  for update;
+
+  if not found then
+    raise exception 'BOOKING_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  select * into v_ride
+  from public.rides
+  where id = v_booking.ride_id
+  for update;
+
+  if v_ride.driver_id = v_user_id then
+    v_actor := 'driver';
+  elsif v_booking.passenger_id = v_user_id then
+    v_actor := 'passenger';
+  else
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  if not exists (
+    select 1 from public.booking_status_transitions
+    where from_status = v_booking.status
+      and to_status = p_status
+      and actor = v_actor
+  ) then
+    raise exception 'INVALID_TRANSITION' using errcode = 'P0001',
+      detail = format('%s cannot move %s -> %s', v_actor, v_booking.status, p_status);
+  end if;
+
+  -- Boarding, finishing and no-shows release the escrow to the driver, so
+  -- they wait until the ride has actually left
+  if p_status in ('boarded', 'completed', 'no_show') and now() < v_ride.departure_time then
+    raise exception 'RIDE_NOT_DEPARTED' using errcode = 'P0001';
+  end if;
+
+  if p_status in ('declined', 'cancelled_by_passenger', 'cancelled_by_driver') then
+    update public.rides
+    set available_seats = available_seats + v_booking.seats_booked
+    where id = v_ride.id;
+  end if;
+
+  update public.bookings
+  set status = p_status
+  where id = p_booking_id
+  returning * into v_booking;
+
+  return v_booking;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.transition_booking(uuid, public.booking_status) from public;
+grant execute on function public.transition_booking(uuid, public.booking_status) to authenticated;
+
+-- Instant-book rides confirm straight away, manual rides wait for the driver
+create or replace function public.book_ride(p_ride_id uuid, p_seats integer default 1)
+returns public.bookings as $$
+declare
+  v_passenger_id uuid := auth.uid();
+  v_ride public.rides%rowtype;
+  v_booking public.bookings%rowtype;
+begin
+  if v_passenger_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  if p_seats is null or p_seats < 1 then
+    raise exception 'INVALID_SEATS' using errcode = 'P0001';
+  end if;
+
+  -- Lock the ride row so concurrent bookings queue up behind each other
+  select * into v_ride
+  from public.rides
+  where id = p_ride_id
+  for update;
+
+  if not found then
+    raise exception 'RIDE_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_ride.driver_id = v_passenger_id then
+    raise exception 'OWN_RIDE' using errcode = 'P0001';
+  end if;
+
+  if v_ride.departure_time <= now() then
+    raise exception 'RIDE_DEPARTED' using errcode = 'P0001';
+  end if;
+
+  if v_ride.status not in ('pending', 'active') then
+    raise exception 'RIDE_UNAVAILABLE' using errcode = 'P0001';
+  end if;
+
+  if v_ride.available_seats < p_seats then
+    raise exception 'SOLD_OUT' using errcode = 'P0001',
+      detail = format('%s seat(s) left', v_ride.available_seats);
+  end if;
+
+  update public.rides
+  set available_seats = available_seats - p_seats
+  where id = p_ride_id;
+
+  insert into public.bookings (ride_id, passenger_id, seats_booked, total_amount, status)
+  values (
+    p_ride_id,
+    v_passenger_id,
+    p_seats,
+    v_ride.price_per_seat * p_seats,
+    case when v_ride.booking_mode = 'instant' then 'accepted' else 'requested' end::public.booking_status
+  )
+  returning * into v_booking;
+
+  return v_booking;
+end;
+$$ language plpgsql security definer set search_path = public;
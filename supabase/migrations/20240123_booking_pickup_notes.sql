@@ -0,0 +1,27 @@
+-- Passengers can tell the driver where and how to pick them up
+alter table public.bookings
+  add column pickup_note text;
+
+-- Bookings have no update policy, so the note is set through this function
+create or replace function public.update_pickup_note(p_booking_id uuid, p_note text)
+returns public.bookings as $$
+declare
+  v_booking public.bookings%rowtype;
+begin
+  update public.bookings
+  set pickup_note = nullif(trim(p_note), '')
+  where id = p_booking_id
+    and passenger_id = auth.uid()
+  returning * into v_booking;
+
+  if not found then
+    raise exception 'BOOKING_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  return v_booking;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.update_pickup_note(uuid, text) from public;
+grant execute on function public.update_pickup_note(uuid, text) to authenticated;
+
@@ -0,0 +1,54 @@
+-- Passengers rate the driver once their trip is completed
+create table public.ride_ratings (
+  id uuid default gen_random_uuid() primary key,
+  booking_id uuid references public.bookings(id) on delete cascade not null unique,
+  ride_id uuid references public.rides(id) on delete cascade not null,
+  rater_id uuid references public.profiles(id) on delete cascade not null,
+  ratee_id uuid references public.profiles(id) on delete cascade not null,
+  rating integer not null check (rating between 1 and 5),
+  comment text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.ride_ratings enable row level security;
+
+create policy "Ratings are viewable by everyone" on public.ride_ratings
+  for select using (true);
+
+create policy "Passengers can rate completed trips" on public.ride_ratings
+  for insert with check (
+    auth.uid() = rater_id
+    and exists (
+      select 1
+      from public.bookings
+      join public.rides on rides.id = bookings.ride_id
+      where bookings.id = ride_ratings.booking_id
+        and bookings.passenger_id = auth.uid()
+        and bookings.status = 'completed'
+        and rides.id = ride_ratings.ride_id
+        and rides.driver_id = ride_ratings.ratee_id
+    )
+  );
+
+-- Keep the driver's average rating on their profile up to date
+create or replace function public.handle_ride_rating_created()
+returns trigger as $$
+begin
+  update public.profiles
+  set rating = (
+    select avg(rating)::double precision
+    from public.ride_ratings
+    where ratee_id = new.ratee_id
+  )
+  where id = new.ratee_id;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger on_ride_rating_created
+  after insert on public.ride_ratings
+  for each row
+  execute procedure public.handle_ride_rating_created();
+
+-- Trips refresh live when the driver changes a ride or booking
+alter publication supabase_realtime add table public.rides, public.bookings;
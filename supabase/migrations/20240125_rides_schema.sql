@@ -0,0 +1,28 @@
+-- Columns the post-ride form has always written
+alter table public.rides
+  add column origin_city text,
+  add column destination_city text,
+  add column description text,
+  add column pickup_location text,
+  add column dropoff_location text,
+  add column car_details jsonb;
+
+-- Existing rides were posted with the city name as the address
+update public.rides
+set origin_city = origin_address,
+    destination_city = destination_address
+where origin_city is null or destination_city is null;
+
+alter table public.rides
+  alter column origin_city set not null,
+  alter column destination_city set not null;
+
+-- 'active' is the single status for rides that are open for booking
+update public.rides set status = 'active' where status = 'pending';
+
+alter table public.rides
+  alter column status set default 'active',
+  add constraint rides_status_check
+    check (status in ('active', 'in_progress', 'completed', 'cancelled'));
+
+create index rides_route_idx on public.rides (origin_city, destination_city, departure_time);
@@ -0,0 +1,147 @@
+-- Tables and columns the app reads and writes that no migration created
+
+-- Profile fields edited on the profile screens
+alter table public.profiles
+  add column email text,
+  add column id_photo_url text,
+  add column vehicle_photo_url text,
+  add column verification_status jsonb default '{"phone": false, "id": false}'::jsonb not null;
+
+-- Wallets
+create table public.wallets (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null unique,
+  balance decimal(10,2) default 0 not null check (balance >= 0),
+  currency text default 'UGX' not null,
+  last_updated timestamp with time zone default timezone('utc'::text, now()) not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+insert into public.wallets (user_id, balance)
+select id, coalesce(wallet_balance, 0) from public.profiles;
+
+-- The balance lives on the wallet from now on
+alter table public.profiles drop column wallet_balance;
+
+alter table public.wallets enable row level security;
+
+create policy "Users can view own wallet" on public.wallets
+  for select using (auth.uid() = user_id);
+
+create or replace function public.handle_profile_created()
+returns trigger as $$
+begin
+  insert into public.wallets (user_id)
+  values (new.id)
+  on conflict (user_id) do nothing;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger on_profile_created
+  after insert on public.profiles
+  for each row
+  execute procedure public.handle_profile_created();
+
+-- Wallet transactions
+create table public.transactions (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  type text default 'credit' not null check (type in ('credit', 'debit')),
+  amount decimal(10,2) not null check (amount > 0),
+  phone_number text,
+  provider text,
+  reference text unique,
+  description text,
+  status text default 'pending' not null check (status in ('pending', 'completed', 'failed')),
+  metadata jsonb,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index transactions_user_id_created_at_idx on public.transactions (user_id, created_at desc);
+
+alter table public.transactions enable row level security;
+
+create policy "Users can view own transactions" on public.transactions
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own transactions" on public.transactions
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own transactions" on public.transactions
+  for update using (auth.uid() = user_id);
+
+create trigger transactions_updated_at
+  before update on public.transactions
+  for each row
+  execute procedure public.handle_updated_at();
+
+-- Mobile money top-up requests
+create table public.payment_requests (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  amount decimal(10,2) not null check (amount > 0),
+  phone_number text not null,
+  payment_method text not null check (payment_method in ('mtn', 'airtel')),
+  status text default 'pending' not null check (status in ('pending', 'completed', 'failed')),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.payment_requests enable row level security;
+
+create policy "Users can view own payment requests" on public.payment_requests
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own payment requests" on public.payment_requests
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own payment requests" on public.payment_requests
+  for update using (auth.uid() = user_id);
+
+create trigger payment_requests_updated_at
+  before update on public.payment_requests
+  for each row
+  execute procedure public.handle_updated_at();
+
+-- Per-user app settings
+create table public.user_settings (
+  user_id uuid references public.profiles(id) on delete cascade primary key,
+  settings jsonb default '{}'::jsonb not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.user_settings enable row level security;
+
+create policy "Users can view own settings" on public.user_settings
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own settings" on public.user_settings
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own settings" on public.user_settings
+  for update using (auth.uid() = user_id);
+
+-- Home, work and other saved pickup points
+create table public.saved_places (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  type text default 'other' not null check (type in ('home', 'work', 'other')),
+  address text not null,
+  latitude double precision not null,
+  longitude double precision not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.saved_places enable row level security;
+
+create policy "Users can view own saved places" on public.saved_places
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own saved places" on public.saved_places
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can delete own saved places" on public.saved_places
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,104 @@
+-- Mobile money payments settle asynchronously on the server: edge functions
+-- record them, provider callbacks and the reconciliation job finish them.
+
+-- Clients no longer write payment rows themselves
+drop policy "Users can insert own transactions" on public.transactions;
+drop policy "Users can update own transactions" on public.transactions;
+drop policy "Users can insert own payment requests" on public.payment_requests;
+drop policy "Users can update own payment requests" on public.payment_requests;
+
+-- A payment request is the user-facing side of a provider collection
+alter table public.payment_requests
+  add column reference text unique references public.transactions(reference) on delete set null;
+
+-- Finds stale pending payments for reconciliation
+create index transactions_pending_idx on public.transactions (created_at)
+  where status = 'pending';
+
+-- Moves a pending transaction (and its payment request) to its final status,
+-- crediting the wallet for completed top-ups. Settling an already-final
+-- transaction is a no-op, so duplicate callbacks are harmless.
+create or replace function public.settle_transaction(
+  p_reference text,
+  p_status text,
+  p_provider_reference text default null,
+  p_reason text default null
+)
+returns public.transactions as $$
+declare
+  v_transaction public.transactions%rowtype;
+begin
+  if p_status not in ('completed', 'failed') then
+    raise exception 'INVALID_STATUS' using errcode = 'P0001';
+  end if;
+
+  select * into v_transaction
+  from public.transactions
+  where reference = p_reference
+  for update;
+
+  if not found then
+    raise exception 'TRANSACTION_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_transaction.status <> 'pending' then
+    return v_transaction;
+  end if;
+
+  update public.transactions
+  set status = p_status,
+      metadata = coalesce(metadata, '{}'::jsonb) || jsonb_strip_nulls(jsonb_build_object(
+        'provider_reference', p_provider_reference,
+        'reason', p_reason,
+        'settled_at', now()
+      )),
+      updated_at = now()
+  where id = v_transaction.id
+  returning * into v_transaction;
+
+  update public.payment_requests
+  set status = p_status,
+      updated_at = now()
+  where reference = p_reference;
+
+  if p_status = 'completed' and v_transaction.type = 'credit' then
+    update public.wallets
+    set balance = balance + v_transaction.amount,
+        last_updated = now()
+    where user_id = v_transaction.user_id;
+  end if;
+
+  return v_transaction;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Supabase's default privileges grant execute on new functions to anon and
+-- authenticated directly, so revoking from public alone would leave clients
+-- able to mark their own top-ups completed
+revoke all on function public.settle_transaction(text, text, text, text) from public, anon, authenticated;
+grant execute on function public.settle_transaction(text, text, text, text) to service_role;
+
+-- The add-money screen waits on its transaction row
+alter publication supabase_realtime add table public.transactions;
+
+-- Poll providers for payments whose callback never arrived. Expects the
+-- project URL and service role key in Vault as `project_url` and
+-- `service_role_key`.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'reconcile-payments',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/reconcile-payments',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
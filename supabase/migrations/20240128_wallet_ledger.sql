@@ -0,0 +1,361 @@
+-- Double-entry ledger. Money only moves by posting a balanced journal entry;
+-- wallet balances are derived from the entries instead of being edited.
+--
+-- Every account's balance is kept as credits minus debits. Wallets, escrow
+-- and commission are what the platform owes or has earned, so they carry
+-- positive balances; provider clearing is money sitting with MTN/Airtel, so
+-- it carries a negative one.
+
+create table public.ledger_accounts (
+  id uuid default gen_random_uuid() primary key,
+  type text not null check (type in (
+    'user_wallet',
+    'escrow',
+    'platform_commission',
+    'provider_clearing',
+    'opening_balance'
+  )),
+  -- Accounting history outlives the profile, so owners can't be deleted from under it
+  user_id uuid references public.profiles(id) on delete restrict,
+  provider text check (provider in ('MTN', 'AIRTEL')),
+  currency text default 'UGX' not null,
+  -- Running total of this account's journal lines, maintained by post_journal_entry
+  balance decimal(12,2) default 0 not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  constraint ledger_accounts_owner check (
+    (type = 'user_wallet') = (user_id is not null)
+    and (type = 'provider_clearing') = (provider is not null)
+  ),
+  constraint ledger_accounts_non_negative check (
+    type not in ('user_wallet', 'escrow') or balance >= 0
+  ),
+  constraint ledger_accounts_key unique nulls not distinct (type, user_id, provider)
+);
+
+create table public.journal_entries (
+  id uuid default gen_random_uuid() primary key,
+  kind text not null check (kind in (
+    'top_up',
+    'booking_payment',
+    'refund',
+    'payout',
+    'opening_balance'
+  )),
+  -- What the entry is for, e.g. a transaction reference or booking id
+  reference text not null,
+  description text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  -- Reposting the same event is a no-op rather than a double charge
+  constraint journal_entries_kind_reference_key unique (kind, reference)
+);
+
+create table public.journal_lines (
+  id uuid default gen_random_uuid() primary key,
+  entry_id uuid references public.journal_entries(id) on delete restrict not null,
+  account_id uuid references public.ledger_accounts(id) on delete restrict not null,
+  direction text not null check (direction in ('debit', 'credit')),
+  amount decimal(12,2) not null check (amount > 0)
+);
+
+create index journal_lines_entry_id_idx on public.journal_lines (entry_id);
+create index journal_lines_account_id_idx on public.journal_lines (account_id);
+
+-- Journal rows are append-only
+create or replace function public.prevent_ledger_mutation()
+returns trigger as $$
+begin
+  raise exception 'LEDGER_IMMUTABLE' using errcode = 'P0001';
+end;
+$$ language plpgsql;
+
+create trigger journal_entries_immutable
+  before update or delete on public.journal_entries
+  for each row
+  execute procedure public.prevent_ledger_mutation();
+
+create trigger journal_lines_immutable
+  before update or delete on public.journal_lines
+  for each row
+  execute procedure public.prevent_ledger_mutation();
+
+-- Checked at commit so an entry's lines can be inserted one at a time
+create or replace function public.check_journal_entry_balanced()
+returns trigger as $$
+begin
+  if (
+    select coalesce(sum(case when direction = 'credit' then amount else -amount end), 0)
+    from public.journal_lines
+    where entry_id = new.entry_id
+  ) <> 0 then
+    raise exception 'UNBALANCED_ENTRY' using errcode = 'P0001';
+  end if;
+  return null;
+end;
+$$ language plpgsql;
+
+create constraint trigger journal_lines_balanced
+  after insert on public.journal_lines
+  deferrable initially deferred
+  for each row
+  execute procedure public.check_journal_entry_balanced();
+
+alter table public.ledger_accounts enable row level security;
+alter table public.journal_entries enable row level security;
+alter table public.journal_lines enable row level security;
+
+create policy "Users can view own ledger accounts" on public.ledger_accounts
+  for select using (auth.uid() = user_id);
+
+create policy "Users can view lines on own accounts" on public.journal_lines
+  for select using (
+    exists (
+      select 1 from public.ledger_accounts
+      where ledger_accounts.id = journal_lines.account_id
+        and ledger_accounts.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can view entries touching own accounts" on public.journal_entries
+  for select using (
+    exists (
+      select 1
+      from public.journal_lines
+      join public.ledger_accounts on ledger_accounts.id = journal_lines.account_id
+      where journal_lines.entry_id = journal_entries.id
+        and ledger_accounts.user_id = auth.uid()
+    )
+  );
+
+-- Finds (or opens) an account; user wallets take a user, provider clearing a provider
+create or replace function public.ledger_account_id(
+  p_type text,
+  p_user_id uuid default null,
+  p_provider text default null
+)
+returns uuid as $$
+declare
+  v_account_id uuid;
+begin
+  insert into public.ledger_accounts (type, user_id, provider)
+  values (p_type, p_user_id, p_provider)
+  on conflict (type, user_id, provider) do nothing;
+
+  select id into v_account_id
+  from public.ledger_accounts
+  where type = p_type
+    and user_id is not distinct from p_user_id
+    and provider is not distinct from p_provider;
+
+  return v_account_id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Posts a balanced entry. p_lines is a JSON array of
+-- { "account_id": uuid, "direction": "debit" | "credit", "amount": number }.
+-- Returns the existing entry if (p_kind, p_reference) was already posted.
+create or replace function public.post_journal_entry(
+  p_kind text,
+  p_reference text,
+  p_description text,
+  p_lines jsonb
+)
+returns public.journal_entries as $$
+declare
+  v_entry public.journal_entries%rowtype;
+  v_line record;
+  v_total decimal(12,2) := 0;
+begin
+  select * into v_entry
+  from public.journal_entries
+  where kind = p_kind and reference = p_reference;
+
+  if found then
+    return v_entry;
+  end if;
+
+  for v_line in
+    select (line->>'account_id')::uuid as account_id,
+           line->>'direction' as direction,
+           (line->>'amount')::decimal(12,2) as amount
+    from jsonb_array_elements(p_lines) as line
+  loop
+    if v_line.amount is null or v_line.amount <= 0 or v_line.direction not in ('debit', 'credit') then
+      raise exception 'INVALID_LINE' using errcode = 'P0001';
+    end if;
+    v_total := v_total + case when v_line.direction = 'credit' then v_line.amount else -v_line.amount end;
+  end loop;
+
+  if v_total <> 0 or jsonb_array_length(p_lines) < 2 then
+    raise exception 'UNBALANCED_ENTRY' using errcode = 'P0001';
+  end if;
+
+  -- Lock in a stable order so concurrent postings can't deadlock
+  perform 1
+  from public.ledger_accounts
+  where id in (select (line->>'account_id')::uuid from jsonb_array_elements(p_lines) as line)
+  order by id
+  for update;
+
+  insert into public.journal_entries (kind, reference, description)
+  values (p_kind, p_reference, p_description)
+  returning * into v_entry;
+
+  insert into public.journal_lines (entry_id, account_id, direction, amount)
+  select v_entry.id,
+         (line->>'account_id')::uuid,
+         line->>'direction',
+         (line->>'amount')::decimal(12,2)
+  from jsonb_array_elements(p_lines) as line;
+
+  begin
+    update public.ledger_accounts
+    set balance = balance + delta.amount,
+        updated_at = now()
+    from (
+      select (line->>'account_id')::uuid as account_id,
+             sum(case when line->>'direction' = 'credit'
+                      then (line->>'amount')::decimal(12,2)
+                      else -(line->>'amount')::decimal(12,2) end) as amount
+      from jsonb_array_elements(p_lines) as line
+      group by 1
+    ) as delta
+    where ledger_accounts.id = delta.account_id;
+  exception when check_violation then
+    raise exception 'INSUFFICIENT_BALANCE' using errcode = 'P0001';
+  end;
+
+  return v_entry;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Ledger writes only happen inside other security definer functions
+revoke all on function public.ledger_account_id(text, uuid, text) from public, anon, authenticated;
+revoke all on function public.post_journal_entry(text, text, text, jsonb) from public, anon, authenticated;
+
+-- Books a balance that existed before the ledger did
+create or replace function public.post_opening_balance(p_user_id uuid, p_amount decimal)
+returns public.journal_entries as $$
+begin
+  return public.post_journal_entry(
+    'opening_balance',
+    p_user_id::text,
+    'Opening balance',
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_account_id('opening_balance'), 'direction', 'debit', 'amount', p_amount),
+      jsonb_build_object('account_id', public.ledger_account_id('user_wallet', p_user_id), 'direction', 'credit', 'amount', p_amount)
+    )
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.post_opening_balance(uuid, decimal) from public, anon, authenticated;
+
+-- Carry existing wallets over into the ledger
+select public.ledger_account_id('user_wallet', id) from public.profiles;
+
+select public.post_opening_balance(user_id, balance)
+from public.wallets
+where balance > 0;
+
+drop table public.wallets;
+
+-- Wallets are now a read-only view over the ledger
+create view public.wallets with (security_invoker = true) as
+select
+  id,
+  user_id,
+  balance,
+  currency,
+  updated_at as last_updated,
+  created_at
+from public.ledger_accounts
+where type = 'user_wallet';
+
+create or replace function public.handle_profile_created()
+returns trigger as $$
+begin
+  perform public.ledger_account_id('user_wallet', new.id);
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Completed top-ups move money from provider clearing into the wallet
+create or replace function public.settle_transaction(
+  p_reference text,
+  p_status text,
+  p_provider_reference text default null,
+  p_reason text default null
+)
+returns public.transactions as $$
+declare
+  v_transaction public.transactions%rowtype;
+begin
+  if p_status not in ('completed', 'failed') then
+    raise exception 'INVALID_STATUS' using errcode = 'P0001';
+  end if;
+
+  select * into v_transaction
+  from public.transactions
+  where reference = p_reference
+  for update;
+
+  if not found then
+    raise exception 'TRANSACTION_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_transaction.status <> 'pending' then
+    return v_transaction;
+  end if;
+
+  update public.transactions
+  set status = p_status,
+      metadata = coalesce(metadata, '{}'::jsonb) || jsonb_strip_nulls(jsonb_build_object(
+        'provider_reference', p_provider_reference,
+        'reason', p_reason,
+        'settled_at', now()
+      )),
+      updated_at = now()
+  where id = v_transaction.id
+  returning * into v_transaction;
+
+  update public.payment_requests
+  set status = p_status,
+      updated_at = now()
+  where reference = p_reference;
+
+  if p_status = 'completed' and v_transaction.type = 'credit' then
+    perform public.post_journal_entry(
+      'top_up',
+      v_transaction.reference,
+      v_transaction.description,
+      jsonb_build_array(
+        jsonb_build_object(
+          'account_id', public.ledger_account_id('provider_clearing', null, v_transaction.provider),
+          'direction', 'debit',
+          'amount', v_transaction.amount
+        ),
+        jsonb_build_object(
+          'account_id', public.ledger_account_id('user_wallet', v_transaction.user_id),
+          'direction', 'credit',
+          'amount', v_transaction.amount
+        )
+      )
+    );
+  end if;
+
+  return v_transaction;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- For finance: every entry nets to zero, so this should always be zero too
+create view public.ledger_trial_balance as
+select
+  type,
+  provider,
+  count(*) as accounts,
+  sum(balance) as balance
+from public.ledger_accounts
+group by type, provider;
+
+revoke all on public.ledger_trial_balance from anon, authenticated;
@@ -0,0 +1,352 @@
+-- Booking payments are held in escrow until the trip is completed, then
+-- released to the driver less the platform commission. Cancelled bookings
+-- are refunded from escrow.
+
+-- Passengers pay through pay_booking or mobile money, never by setting the status
+delete from public.booking_status_transitions
+where from_status = 'accepted' and to_status = 'paid' and actor = 'passenger';
+
+-- A cancelled ride cancels the requests still waiting on it
+insert into public.booking_status_transitions (from_status, to_status, actor) values
+  ('requested', 'cancelled_by_driver', 'system');
+
+alter table public.journal_entries drop constraint journal_entries_kind_check;
+alter table public.journal_entries add constraint journal_entries_kind_check check (kind in (
+  'top_up',
+  'booking_payment',
+  'escrow_release',
+  'refund',
+  'payout',
+  'opening_balance'
+));
+
+-- The booking a mobile money payment was made for, if any
+alter table public.transactions
+  add column booking_id uuid references public.bookings(id) on delete set null;
+
+-- Share of a driver's fare the platform keeps
+create or replace function public.commission_rate()
+returns decimal as $$
+  select 0.02::decimal;
+$$ language sql immutable;
+
+-- Moves an accepted booking's fare from the passenger's wallet into escrow
+create or replace function public.charge_booking(p_booking_id uuid)
+returns public.bookings as $$
+declare
+  v_booking public.bookings%rowtype;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id
+  for update;
+
+  if not found then
+    raise exception 'BOOKING_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_booking.status <> 'accepted' then
+    raise exception 'BOOKING_NOT_PAYABLE' using errcode = 'P0001';
+  end if;
+
+  perform public.post_journal_entry(
+    'booking_payment',
+    v_booking.id::text,
+    'Booking payment',
+    jsonb_build_array(
+      jsonb_build_object(
+        'account_id', public.ledger_account_id('user_wallet', v_booking.passenger_id),
+        'direction', 'debit',
+        'amount', v_booking.total_amount
+      ),
+      jsonb_build_object(
+        'account_id', public.ledger_account_id('escrow'),
+        'direction', 'credit',
+        'amount', v_booking.total_amount
+      )
+    )
+  );
+
+  update public.bookings
+  set status = 'paid'
+  where id = p_booking_id
+  returning * into v_booking;
+
+  return v_booking;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.charge_booking(uuid) from public, anon, authenticated;
+
+-- Pays for the signed-in passenger's accepted booking from their wallet
+create or replace function public.pay_booking(p_booking_id uuid)
+returns public.bookings as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_passenger_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select passenger_id into v_passenger_id
+  from public.bookings
+  where id = p_booking_id;
+
+  if not found then
+    raise exception 'BOOKING_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_passenger_id <> v_user_id then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  return public.charge_booking(p_booking_id);
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.pay_booking(uuid) from public;
+grant execute on function public.pay_booking(uuid) to authenticated;
+
+-- Cancellation rules: how much of a paid booking goes back to the passenger
+-- when it ends in p_status. Whatever isn't refunded is released to the driver.
+create or replace function public.booking_refund_amount(p_booking_id uuid, p_status public.booking_status)
+returns decimal as $$
+declare
+  v_total decimal;
+  v_departure timestamp with time zone;
+begin
+  select bookings.total_amount, rides.departure_time
+  into v_total, v_departure
+  from public.bookings
+  join public.rides on rides.id = bookings.ride_id
+  where bookings.id = p_booking_id;
+
+  return case p_status
+    -- The driver backed out, so the passenger gets everything back
+    when 'cancelled_by_driver' then v_total
+    -- Passengers who cancel a day ahead get a full refund, later than that half
+    when 'cancelled_by_passenger' then
+      case when v_departure - now() >= interval '24 hours' then v_total else round(v_total / 2, 2) end
+    else 0
+  end;
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+revoke all on function public.booking_refund_amount(uuid, public.booking_status) from public, anon, authenticated;
+
+-- Splits a booking's escrow between a refund to the passenger and a release
+-- to the driver, less commission. Bookings that were never paid hold nothing.
+create or replace function public.settle_booking_escrow(p_booking_id uuid, p_refund decimal)
+returns void as $$
+declare
+  v_booking public.bookings%rowtype;
+  v_driver_id uuid;
+  v_refund decimal(12,2);
+  v_release decimal(12,2);
+  v_commission decimal(12,2);
+  v_lines jsonb;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id;
+
+  if not exists (
+    select 1 from public.journal_entries
+    where kind = 'booking_payment' and reference = p_booking_id::text
+  ) then
+    return;
+  end if;
+
+  select driver_id into v_driver_id
+  from public.rides
+  where id = v_booking.ride_id;
+
+  v_refund := least(greatest(coalesce(p_refund, 0), 0), v_booking.total_amount);
+  v_release := v_booking.total_amount - v_refund;
+  v_commission := round(v_release * public.commission_rate(), 2);
+
+  if v_refund > 0 then
+    perform public.post_journal_entry(
+      'refund',
+      p_booking_id::text,
+      'Booking refund',
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_account_id('escrow'), 'direction', 'debit', 'amount', v_refund),
+        jsonb_build_object(
+          'account_id', public.ledger_account_id('user_wallet', v_booking.passenger_id),
+          'direction', 'credit',
+          'amount', v_refund
+        )
+      )
+    );
+  end if;
+
+  if v_release > 0 then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_account_id('escrow'), 'direction', 'debit', 'amount', v_release),
+      jsonb_build_object(
+        'account_id', public.ledger_account_id('user_wallet', v_driver_id),
+        'direction', 'credit',
+        'amount', v_release - v_commission
+      )
+    );
+
+    if v_commission > 0 then
+      v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+        'account_id', public.ledger_account_id('platform_commission'),
+        'direction', 'credit',
+        'amount', v_commission
+      ));
+    end if;
+
+    perform public.post_journal_entry('escrow_release', p_booking_id::text, 'Driver earnings', v_lines);
+  end if;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.settle_booking_escrow(uuid, decimal) from public, anon, authenticated;
+
+-- Escrow settles whenever a paid booking reaches the end of its lifecycle,
+-- whichever function or job moved it there
+create or replace function public.handle_booking_escrow()
+returns trigger as $$
+begin
+  if old.status in ('paid', 'boarded')
+    and new.status in ('completed', 'cancelled_by_passenger', 'cancelled_by_driver', 'no_show') then
+    perform public.settle_booking_escrow(new.id, public.booking_refund_amount(new.id, new.status));
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger bookings_settle_escrow
+  after update of status on public.bookings
+  for each row
+  execute procedure public.handle_booking_escrow();
+
+-- Cancelling a ride cancels every booking still on it, which refunds the paid ones
+create or replace function public.handle_ride_cancelled()
+returns trigger as $$
+begin
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    update public.bookings
+    set status = 'cancelled_by_driver'
+    where ride_id = new.id
+      and status in ('requested', 'accepted', 'paid');
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger rides_cancel_bookings
+  after update of status on public.rides
+  for each row
+  execute procedure public.handle_ride_cancelled();
+
+-- Escrow is released on what the ride says: boarding waits for departure_time
+-- and the charge was worked out from price_per_seat. Drivers can still edit
+-- their own rides directly, so once anyone has paid those terms are fixed;
+-- seats and status then only move through book_ride, cancel_ride and the like,
+-- which run as the table owner. Not security definer, so current_user is
+-- still the caller; drivers can see the bookings on their own rides.
+create or replace function public.lock_paid_ride()
+returns trigger as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+  if (new.departure_time, new.price_per_seat, new.available_seats, new.status)
+      is distinct from (old.departure_time, old.price_per_seat, old.available_seats, old.status)
+    and exists (
+      select 1 from public.bookings
+      where ride_id = old.id and status in ('paid', 'boarded')
+    ) then
+    raise exception 'RIDE_HAS_PAID_BOOKINGS' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$ language plpgsql set search_path = public;
+
+create trigger rides_lock_paid
+  before update on public.rides
+  for each row
+  execute procedure public.lock_paid_ride();
+
+-- Mobile money paid for a booking lands in the wallet first and is then
+-- charged to the booking. If the booking can no longer be paid the money
+-- simply stays in the wallet.
+create or replace function public.settle_transaction(
+  p_reference text,
+  p_status text,
+  p_provider_reference text default null,
+  p_reason text default null
+)
+returns public.transactions as $$
+declare
+  v_transaction public.transactions%rowtype;
+begin
+  if p_status not in ('completed', 'failed') then
+    raise exception 'INVALID_STATUS' using errcode = 'P0001';
+  end if;
+
+  select * into v_transaction
+  from public.transactions
+  where reference = p_reference
+  for update;
+
+  if not found then
+    raise exception 'TRANSACTION_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_transaction.status <> 'pending' then
+    return v_transaction;
+  end if;
+
+  update public.transactions
+  set status = p_status,
+      metadata = coalesce(metadata, '{}'::jsonb) || jsonb_strip_nulls(jsonb_build_object(
+        'provider_reference', p_provider_reference,
+        'reason', p_reason,
+        'settled_at', now()
+      )),
+      updated_at = now()
+  where id = v_transaction.id
+  returning * into v_transaction;
+
+  update public.payment_requests
+  set status = p_status,
+      updated_at = now()
+  where reference = p_reference;
+
+  if p_status = 'completed' and v_transaction.type = 'credit' then
+    perform public.post_journal_entry(
+      'top_up',
+      v_transaction.reference,
+      v_transaction.description,
+      jsonb_build_array(
+        jsonb_build_object(
+          'account_id', public.ledger_account_id('provider_clearing', null, v_transaction.provider),
+          'direction', 'debit',
+          'amount', v_transaction.amount
+        ),
+        jsonb_build_object(
+          'account_id', public.ledger_account_id('user_wallet', v_transaction.user_id),
+          'direction', 'credit',
+          'amount', v_transaction.amount
+        )
+      )
+    );
+
+    if v_transaction.booking_id is not null then
+      begin
+        perform public.charge_booking(v_transaction.booking_id);
+      exception when sqlstate 'P0001' then
+        raise warning 'Booking % not charged: %', v_transaction.booking_id, sqlerrm;
+      end;
+    end if;
+  end if;
+
+  return v_transaction;
+end;
+$$ language plpgsql security definer set search_path = public;
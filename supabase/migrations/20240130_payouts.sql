@@ -0,0 +1,203 @@
+-- Withdrawals from a wallet to mobile money. The wallet is debited as soon as
+-- the payout is requested; a payout that fails is reversed back into it.
+--
+--   pending -> processing -> paid | failed
+--
+-- 'pending' payouts have not been accepted by the provider yet, 'processing'
+-- ones have and are waiting on its final answer.
+
+alter table public.journal_entries drop constraint journal_entries_kind_check;
+alter table public.journal_entries add constraint journal_entries_kind_check check (kind in (
+  'top_up',
+  'booking_payment',
+  'escrow_release',
+  'refund',
+  'payout',
+  'payout_reversal',
+  'opening_balance'
+));
+
+create table public.payouts (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete restrict not null,
+  -- Also the provider's idempotency key for the disbursement
+  reference text default gen_random_uuid()::text unique not null,
+  -- What reaches the phone; the wallet is debited amount + fee
+  amount decimal(12,2) not null check (amount > 0),
+  fee decimal(12,2) default 0 not null check (fee >= 0),
+  phone_number text not null,
+  provider text not null check (provider in ('MTN', 'AIRTEL')),
+  status text default 'pending' not null check (status in ('pending', 'processing', 'paid', 'failed')),
+  provider_reference text,
+  failure_reason text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index payouts_user_id_idx on public.payouts (user_id, created_at desc);
+
+-- Finds payouts still waiting on a provider for reconciliation
+create index payouts_open_idx on public.payouts (created_at)
+  where status in ('pending', 'processing');
+
+alter table public.payouts enable row level security;
+
+-- Payouts are only written by the request-payout function
+create policy "Users can view own payouts" on public.payouts
+  for select using (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.payouts;
+
+-- Smallest withdrawal worth sending to a phone
+create or replace function public.payout_minimum()
+returns decimal as $$
+  select 5000::decimal;
+$$ language sql immutable;
+
+-- 1% of the withdrawal, never less than UGX 500
+create or replace function public.payout_fee(p_amount decimal)
+returns decimal as $$
+  select greatest(500, round(p_amount * 0.01, 0))::decimal;
+$$ language sql immutable;
+
+-- Records a payout and takes amount + fee out of the wallet. p_daily_limit
+-- caps what a user can withdraw per (Kampala) calendar day; null means no cap.
+create or replace function public.create_payout(
+  p_user_id uuid,
+  p_amount decimal,
+  p_phone_number text,
+  p_provider text,
+  p_daily_limit decimal default null
+)
+returns public.payouts as $$
+declare
+  v_payout public.payouts%rowtype;
+  v_fee decimal(12,2);
+  v_withdrawn_today decimal(12,2);
+  v_lines jsonb;
+begin
+  if p_amount is null or p_amount < public.payout_minimum() then
+    raise exception 'PAYOUT_BELOW_MINIMUM' using errcode = 'P0001';
+  end if;
+
+  -- One payout at a time per user, so concurrent requests can't both fit under the limit
+  perform pg_advisory_xact_lock(hashtext('payout:' || p_user_id::text));
+
+  if p_daily_limit is not null then
+    select coalesce(sum(amount), 0) into v_withdrawn_today
+    from public.payouts
+    where user_id = p_user_id
+      and status <> 'failed'
+      and created_at >= date_trunc('day', now() at time zone 'Africa/Kampala') at time zone 'Africa/Kampala';
+
+    if v_withdrawn_today + p_amount > p_daily_limit then
+      raise exception 'DAILY_LIMIT_EXCEEDED' using errcode = 'P0001';
+    end if;
+  end if;
+
+  v_fee := public.payout_fee(p_amount);
+
+  insert into public.payouts (user_id, amount, fee, phone_number, provider)
+  values (p_user_id, p_amount, v_fee, p_phone_number, p_provider)
+  returning * into v_payout;
+
+  v_lines := jsonb_build_array(
+    jsonb_build_object(
+      'account_id', public.ledger_account_id('user_wallet', p_user_id),
+      'direction', 'debit',
+      'amount', p_amount + v_fee
+    ),
+    jsonb_build_object(
+      'account_id', public.ledger_account_id('provider_clearing', null, p_provider),
+      'direction', 'credit',
+      'amount', p_amount
+    )
+  );
+
+  if v_fee > 0 then
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'account_id', public.ledger_account_id('platform_commission'),
+      'direction', 'credit',
+      'amount', v_fee
+    ));
+  end if;
+
+  -- Raises INSUFFICIENT_BALANCE, undoing the insert, if the wallet can't cover it
+  perform public.post_journal_entry('payout', v_payout.reference, 'Withdrawal to mobile money', v_lines);
+
+  return v_payout;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.create_payout(uuid, decimal, text, text, decimal) from public, anon, authenticated;
+grant execute on function public.create_payout(uuid, decimal, text, text, decimal) to service_role;
+
+-- Moves a payout along its lifecycle. Failing it puts amount + fee back in the
+-- wallet; settling an already paid or failed payout is a no-op.
+create or replace function public.settle_payout(
+  p_reference text,
+  p_status text,
+  p_provider_reference text default null,
+  p_reason text default null
+)
+returns public.payouts as $$
+declare
+  v_payout public.payouts%rowtype;
+  v_lines jsonb;
+begin
+  if p_status not in ('processing', 'paid', 'failed') then
+    raise exception 'INVALID_STATUS' using errcode = 'P0001';
+  end if;
+
+  select * into v_payout
+  from public.payouts
+  where reference = p_reference
+  for update;
+
+  if not found then
+    raise exception 'PAYOUT_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_payout.status in ('paid', 'failed') or v_payout.status = p_status then
+    return v_payout;
+  end if;
+
+  update public.payouts
+  set status = p_status,
+      provider_reference = coalesce(p_provider_reference, provider_reference),
+      failure_reason = p_reason,
+      updated_at = now()
+  where id = v_payout.id
+  returning * into v_payout;
+
+  if p_status = 'failed' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object(
+        'account_id', public.ledger_account_id('provider_clearing', null, v_payout.provider),
+        'direction', 'debit',
+        'amount', v_payout.amount
+      ),
+      jsonb_build_object(
+        'account_id', public.ledger_account_id('user_wallet', v_payout.user_id),
+        'direction', 'credit',
+        'amount', v_payout.amount + v_payout.fee
+      )
+    );
+
+    if v_payout.fee > 0 then
+      v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+        'account_id', public.ledger_account_id('platform_commission'),
+        'direction', 'debit',
+        'amount', v_payout.fee
+      ));
+    end if;
+
+    perform public.post_journal_entry('payout_reversal', v_payout.reference, 'Withdrawal reversed', v_lines);
+  end if;
+
+  return v_payout;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.settle_payout(text, text, text, text) from public, anon, authenticated;
+grant execute on function public.settle_payout(text, text, text, text) to service_role;
@@ -0,0 +1,244 @@
+-- Fees and commission live in one row that ops can edit from the dashboard,
+-- and every fare is priced by quote_fare. Bookings keep the quote they were
+-- charged, so later rule changes never alter an existing booking or receipt.
+
+create table public.pricing_rules (
+  -- Single row
+  id boolean default true primary key check (id),
+  -- Charged to the passenger on top of the fare
+  service_fee_rate decimal(5,4) default 0.05 not null check (service_fee_rate >= 0),
+  service_fee_min decimal(12,0) default 0 not null check (service_fee_min >= 0),
+  -- Kept from the driver's fare when escrow is released
+  commission_rate decimal(5,4) default 0.02 not null check (commission_rate >= 0 and commission_rate < 1),
+  -- Withdrawals to mobile money
+  payout_fee_rate decimal(5,4) default 0.01 not null check (payout_fee_rate >= 0),
+  payout_fee_min decimal(12,0) default 500 not null check (payout_fee_min >= 0),
+  payout_minimum decimal(12,0) default 5000 not null check (payout_minimum > 0),
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+insert into public.pricing_rules default values;
+
+alter table public.pricing_rules enable row level security;
+
+-- The app shows fee breakdowns before anything is charged
+create policy "Pricing rules are viewable by everyone" on public.pricing_rules
+  for select using (true);
+
+-- Prices a booking in whole UGX:
+--   total           = seats * price_per_seat + service_fee - discount
+--   driver_earnings = seats * price_per_seat - commission
+-- The platform keeps the rest.
+create or replace function public.quote_fare(
+  p_price_per_seat decimal,
+  p_seats integer,
+  p_discount decimal default 0
+)
+returns jsonb as $$
+declare
+  v_rules public.pricing_rules%rowtype;
+  v_subtotal decimal;
+  v_service_fee decimal;
+  v_discount decimal;
+  v_commission decimal;
+begin
+  select * into v_rules from public.pricing_rules;
+
+  v_subtotal := round(p_price_per_seat * p_seats, 0);
+  v_service_fee := greatest(v_rules.service_fee_min, round(v_subtotal * v_rules.service_fee_rate, 0));
+  v_discount := least(round(greatest(coalesce(p_discount, 0), 0), 0), v_subtotal + v_service_fee);
+  v_commission := round(v_subtotal * v_rules.commission_rate, 0);
+
+  return jsonb_build_object(
+    'seats', p_seats,
+    'price_per_seat', p_price_per_seat,
+    'subtotal', v_subtotal,
+    'service_fee', v_service_fee,
+    'discount', v_discount,
+    'total', v_subtotal + v_service_fee - v_discount,
+    'commission', v_commission,
+    'driver_earnings', v_subtotal - v_commission,
+    'service_fee_rate', v_rules.service_fee_rate,
+    'commission_rate', v_rules.commission_rate
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+alter table public.bookings add column quote jsonb;
+
+-- Bookings made before quotes existed were charged seats * price with no fee
+update public.bookings
+set quote = jsonb_build_object(
+  'seats', seats_booked,
+  'price_per_seat', round(total_amount / seats_booked, 2),
+  'subtotal', total_amount,
+  'service_fee', 0,
+  'discount', 0,
+  'total', total_amount,
+  'commission', round(total_amount * 0.02, 0),
+  'driver_earnings', total_amount - round(total_amount * 0.02, 0),
+  'service_fee_rate', 0,
+  'commission_rate', 0.02
+);
+
+alter table public.bookings alter column quote set not null;
+
+-- Instant-book rides confirm straight away, manual rides wait for the driver
+create or replace function public.book_ride(p_ride_id uuid, p_seats integer default 1)
+returns public.bookings as $$
+declare
+  v_passenger_id uuid := auth.uid();
+  v_ride public.rides%rowtype;
+  v_booking public.bookings%rowtype;
+  v_quote jsonb;
+begin
+  if v_passenger_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  if p_seats is null or p_seats < 1 then
+    raise exception 'INVALID_SEATS' using errcode = 'P0001';
+  end if;
+
+  -- Lock the ride row so concurrent bookings queue up behind each other
+  select * into v_ride
+  from public.rides
+  where id = p_ride_id
+  for update;
+
+  if not found then
+    raise exception 'RIDE_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_ride.driver_id = v_passenger_id then
+    raise exception 'OWN_RIDE' using errcode = 'P0001';
+  end if;
+
+  if v_ride.departure_time <= now() then
+    raise exception 'RIDE_DEPARTED' using errcode = 'P0001';
+  end if;
+
+  if v_ride.status not in ('pending', 'active') then
+    raise exception 'RIDE_UNAVAILABLE' using errcode = 'P0001';
+  end if;
+
+  if v_ride.available_seats < p_seats then
+    raise exception 'SOLD_OUT' using errcode = 'P0001',
+      detail = format('%s seat(s) left', v_ride.available_seats);
+  end if;
+
+  update public.rides
+  set available_seats = available_seats - p_seats
+  where id = p_ride_id;
+
+  v_quote := public.quote_fare(v_ride.price_per_seat, p_seats);
+
+  insert into public.bookings (ride_id, passenger_id, seats_booked, total_amount, quote, status)
+  values (
+    p_ride_id,
+    v_passenger_id,
+    p_seats,
+    (v_quote->>'total')::decimal,
+    v_quote,
+    case when v_ride.booking_mode = 'instant' then 'accepted' else 'requested' end::public.booking_status
+  )
+  returning * into v_booking;
+
+  return v_booking;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Escrow now splits by the booking's quote: on completion the driver gets
+-- driver_earnings and the platform the rest. What a partial refund leaves
+-- behind is shared in the same proportion.
+create or replace function public.settle_booking_escrow(p_booking_id uuid, p_refund decimal)
+returns void as $$
+declare
+  v_booking public.bookings%rowtype;
+  v_driver_id uuid;
+  v_refund decimal(12,2);
+  v_retained decimal(12,2);
+  v_driver_share decimal(12,2);
+  v_platform_share decimal(12,2);
+  v_lines jsonb;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id;
+
+  if not exists (
+    select 1 from public.journal_entries
+    where kind = 'booking_payment' and reference = p_booking_id::text
+  ) then
+    return;
+  end if;
+
+  select driver_id into v_driver_id
+  from public.rides
+  where id = v_booking.ride_id;
+
+  v_refund := least(greatest(coalesce(p_refund, 0), 0), v_booking.total_amount);
+  v_retained := v_booking.total_amount - v_refund;
+  v_driver_share := case
+    when v_booking.total_amount = 0 then 0
+    else least(
+      v_retained,
+      round((v_booking.quote->>'driver_earnings')::decimal * v_retained / v_booking.total_amount, 0)
+    )
+  end;
+  v_platform_share := v_retained - v_driver_share;
+
+  if v_refund > 0 then
+    perform public.post_journal_entry(
+      'refund',
+      p_booking_id::text,
+      'Booking refund',
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_account_id('escrow'), 'direction', 'debit', 'amount', v_refund),
+        jsonb_build_object(
+          'account_id', public.ledger_account_id('user_wallet', v_booking.passenger_id),
+          'direction', 'credit',
+          'amount', v_refund
+        )
+      )
+    );
+  end if;
+
+  if v_retained > 0 then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_account_id('escrow'), 'direction', 'debit', 'amount', v_retained)
+    );
+
+    if v_driver_share > 0 then
+      v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+        'account_id', public.ledger_account_id('user_wallet', v_driver_id),
+        'direction', 'credit',
+        'amount', v_driver_share
+      ));
+    end if;
+
+    if v_platform_share > 0 then
+      v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+        'account_id', public.ledger_account_id('platform_commission'),
+        'direction', 'credit',
+        'amount', v_platform_share
+      ));
+    end if;
+
+    perform public.post_journal_entry('escrow_release', p_booking_id::text, 'Driver earnings', v_lines);
+  end if;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop function public.commission_rate();
+
+create or replace function public.payout_minimum()
+returns decimal as $$
+  select payout_minimum from public.pricing_rules;
+$$ language sql stable security definer set search_path = public;
+
+create or replace function public.payout_fee(p_amount decimal)
+returns decimal as $$
+  select greatest(payout_fee_min, round(p_amount * payout_fee_rate, 0))
+  from public.pricing_rules;
+$$ language sql stable security definer set search_path = public;
@@ -0,0 +1,323 @@
+-- Cancellation refunds come from cancellation_policy_tiers, which ops can edit
+-- from the dashboard, instead of rules written into booking_refund_amount.
+-- Drivers can cancel whole rides, and every booking a driver cancels after
+-- accepting it counts against their reliability score.
+
+create table public.cancellation_policy_tiers (
+  id uuid default gen_random_uuid() primary key,
+  -- Who cancelled: 'passenger' for cancelled_by_passenger, 'driver' for cancelled_by_driver
+  actor text not null check (actor in ('passenger', 'driver')),
+  -- Applies while at least this many hours are left before departure. Null
+  -- applies at any time, even after departure.
+  min_hours_before_departure decimal(6,2) check (min_hours_before_departure >= 0),
+  -- Share of the fare refunded to the passenger
+  refund_rate decimal(5,4) not null check (refund_rate between 0 and 1),
+  -- Shown to users before they confirm a cancellation
+  description text not null,
+  unique (actor, min_hours_before_departure)
+);
+
+-- Passengers: full refund a day ahead, half until departure, nothing after.
+-- Drivers: the passenger always gets everything back.
+insert into public.cancellation_policy_tiers (actor, min_hours_before_departure, refund_rate, description) values
+  ('passenger', 24, 1, 'Full refund when you cancel at least 24 hours before departure'),
+  ('passenger', 0, 0.5, 'Half refund when you cancel less than 24 hours before departure'),
+  ('driver', null, 1, 'Passengers are refunded in full when the driver cancels');
+
+alter table public.cancellation_policy_tiers enable row level security;
+
+create policy "Cancellation policy is viewable by everyone" on public.cancellation_policy_tiers
+  for select using (true);
+
+-- The tier that applies to a cancellation by p_actor right now, or null when
+-- none does (no refund)
+create or replace function public.cancellation_tier(p_actor text, p_departure timestamp with time zone)
+returns public.cancellation_policy_tiers as $$
+  select *
+  from public.cancellation_policy_tiers
+  where actor = p_actor
+    and (
+      min_hours_before_departure is null
+      or extract(epoch from p_departure - now()) / 3600 >= min_hours_before_departure
+    )
+  order by min_hours_before_departure desc nulls last
+  limit 1;
+$$ language sql stable security definer set search_path = public;
+
+-- Called by the escrow trigger as a booking is cancelled, so now() is the
+-- moment of cancellation
+create or replace function public.booking_refund_amount(p_booking_id uuid, p_status public.booking_status)
+returns decimal as $$
+declare
+  v_total decimal;
+  v_departure timestamp with time zone;
+  v_rate decimal;
+begin
+  if p_status not in ('cancelled_by_passenger', 'cancelled_by_driver') then
+    return 0;
+  end if;
+
+  select bookings.total_amount, rides.departure_time
+  into v_total, v_departure
+  from public.bookings
+  join public.rides on rides.id = bookings.ride_id
+  where bookings.id = p_booking_id;
+
+  select refund_rate into v_rate
+  from public.cancellation_tier(
+    case p_status when 'cancelled_by_driver' then 'driver' else 'passenger' end,
+    v_departure
+  );
+
+  return round(v_total * coalesce(v_rate, 0), 0);
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+-- What cancelling a booking now would refund, for the signed-in passenger or
+-- driver to see before they confirm. Unpaid bookings hold nothing to refund.
+create or replace function public.cancellation_quote(p_booking_id uuid)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_booking public.bookings%rowtype;
+  v_ride public.rides%rowtype;
+  v_actor text;
+  v_tier public.cancellation_policy_tiers%rowtype;
+  v_paid boolean;
+  v_rate decimal;
+begin
+  if v_user_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id;
+
+  if not found then
+    raise exception 'BOOKING_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  select * into v_ride
+  from public.rides
+  where id = v_booking.ride_id;
+
+  v_actor := case
+    when v_booking.passenger_id = v_user_id then 'passenger'
+    when v_ride.driver_id = v_user_id then 'driver'
+  end;
+
+  if v_actor is null then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  v_tier := public.cancellation_tier(v_actor, v_ride.departure_time);
+  v_rate := coalesce(v_tier.refund_rate, 0);
+  v_paid := exists (
+    select 1 from public.journal_entries
+    where kind = 'booking_payment' and reference = p_booking_id::text
+  );
+
+  return jsonb_build_object(
+    'actor', v_actor,
+    'paid', v_paid,
+    'total', v_booking.total_amount,
+    'refund_rate', v_rate,
+    'refund', case when v_paid then round(v_booking.total_amount * v_rate, 0) else 0 end,
+    'description', v_tier.description
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+revoke all on function public.cancellation_quote(uuid) from public;
+grant execute on function public.cancellation_quote(uuid) to authenticated;
+
+-- Bookings a driver cancelled after accepting them. Declining a request
+-- doesn't count, and neither does cancelling a ride nobody had booked.
+create table public.driver_cancellations (
+  booking_id uuid references public.bookings(id) on delete cascade primary key,
+  driver_id uuid references public.profiles(id) on delete cascade not null,
+  ride_id uuid references public.rides(id) on delete cascade not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index driver_cancellations_driver_id_idx on public.driver_cancellations (driver_id);
+
+alter table public.driver_cancellations enable row level security;
+
+create policy "Drivers can view own cancellations" on public.driver_cancellations
+  for select using (auth.uid() = driver_id);
+
+-- Share of the driver's accepted bookings that ended in a completed trip
+-- rather than a driver cancellation; null until there is any history
+alter table public.profiles add column reliability_score double precision;
+
+create or replace function public.refresh_driver_reliability(p_driver_id uuid)
+returns void as $$
+declare
+  v_completed integer;
+  v_cancelled integer;
+begin
+  select count(*) into v_completed
+  from public.bookings
+  join public.rides on rides.id = bookings.ride_id
+  where rides.driver_id = p_driver_id
+    and bookings.status = 'completed';
+
+  select count(*) into v_cancelled
+  from public.driver_cancellations
+  where driver_id = p_driver_id;
+
+  update public.profiles
+  set reliability_score = case
+    when v_completed + v_cancelled = 0 then null
+    else v_completed::double precision / (v_completed + v_cancelled)
+  end
+  where id = p_driver_id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.refresh_driver_reliability(uuid) from public, anon, authenticated;
+
+-- Rating and reliability are trust signals, written only by the functions
+-- that compute them. Those run as the table owner; a client saving its own
+-- profile runs as anon or authenticated and can't change either.
+create or replace function public.protect_profile_scores()
+returns trigger as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.rating is distinct from 0 or new.reliability_score is not null then
+      raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+    end if;
+  elsif (new.rating, new.reliability_score) is distinct from (old.rating, old.reliability_score) then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql set search_path = public;
+
+create trigger profiles_protect_scores
+  before insert or update on public.profiles
+  for each row
+  execute procedure public.protect_profile_scores();
+
+create or replace function public.handle_booking_reliability()
+returns trigger as $$
+declare
+  v_driver_id uuid;
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  select driver_id into v_driver_id
+  from public.rides
+  where id = new.ride_id;
+
+  if new.status = 'cancelled_by_driver' and old.status in ('accepted', 'paid') then
+    insert into public.driver_cancellations (booking_id, driver_id, ride_id)
+    values (new.id, v_driver_id, new.ride_id)
+    on conflict (booking_id) do nothing;
+
+    perform public.refresh_driver_reliability(v_driver_id);
+  elsif new.status = 'completed' then
+    perform public.refresh_driver_reliability(v_driver_id);
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger bookings_driver_reliability
+  after update of status on public.bookings
+  for each row
+  execute procedure public.handle_booking_reliability();
+
+select public.refresh_driver_reliability(driver_id)
+from (select distinct driver_id from public.rides) drivers;
+
+-- Totals for cancelling a whole ride: how many passengers lose a confirmed
+-- seat and what they get back
+create or replace function public.ride_cancellation_quote(p_ride_id uuid)
+returns jsonb as $$
+declare
+  v_ride public.rides%rowtype;
+  v_passengers integer;
+  v_refund decimal;
+begin
+  select * into v_ride
+  from public.rides
+  where id = p_ride_id;
+
+  if not found then
+    raise exception 'RIDE_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_ride.driver_id is distinct from auth.uid() then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  select
+    count(*),
+    coalesce(sum(public.booking_refund_amount(bookings.id, 'cancelled_by_driver')) filter (
+      where exists (
+        select 1 from public.journal_entries
+        where kind = 'booking_payment' and reference = bookings.id::text
+      )
+    ), 0)
+  into v_passengers, v_refund
+  from public.bookings
+  where ride_id = p_ride_id
+    and status in ('accepted', 'paid');
+
+  return jsonb_build_object('passengers', v_passengers, 'refund', v_refund);
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+revoke all on function public.ride_cancellation_quote(uuid) from public;
+grant execute on function public.ride_cancellation_quote(uuid) to authenticated;
+
+-- Cancels one of the signed-in driver's rides. rides_cancel_bookings then
+-- cancels every booking on it, which refunds the paid ones in full.
+create or replace function public.cancel_ride(p_ride_id uuid)
+returns public.rides as $$
+declare
+  v_ride public.rides%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select * into v_ride
+  from public.rides
+  where id = p_ride_id
+  for update;
+
+  if not found then
+    raise exception 'RIDE_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_ride.driver_id <> auth.uid() then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  if v_ride.status <> 'active' then
+    raise exception 'RIDE_NOT_CANCELLABLE' using errcode = 'P0001';
+  end if;
+
+  update public.rides
+  set status = 'cancelled'
+  where id = p_ride_id
+  returning * into v_ride;
+
+  return v_ride;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.cancel_ride(uuid) from public;
+grant execute on function public.cancel_ride(uuid) to authenticated;
@@ -0,0 +1,128 @@
+-- Wallet statements for any period, built from the ledger: the balance at the
+-- start, every entry that moved the wallet with the running balance after it,
+-- and the balance at the end. The app renders them as CSV or PDF, and the
+-- wallet-statement function emails them.
+
+-- Statement for [p_from, p_to). Each entry's fee is what the user paid on top
+-- of the underlying amount: the service fee on a booking or the withdrawal
+-- fee on a payout (given back if the payout is reversed).
+create or replace function public.statement_for(
+  p_user_id uuid,
+  p_from timestamp with time zone,
+  p_to timestamp with time zone
+)
+returns jsonb as $$
+declare
+  v_account_id uuid;
+  v_commission_id uuid;
+  v_opening decimal(12,2);
+  v_entries jsonb;
+begin
+  if p_from is null or p_to is null or p_from >= p_to then
+    raise exception 'INVALID_PERIOD' using errcode = 'P0001';
+  end if;
+
+  select id into v_account_id
+  from public.ledger_accounts
+  where type = 'user_wallet' and user_id = p_user_id;
+
+  select id into v_commission_id
+  from public.ledger_accounts
+  where type = 'platform_commission';
+
+  select coalesce(sum(case when journal_lines.direction = 'credit' then amount else -amount end), 0)
+  into v_opening
+  from public.journal_lines
+  join public.journal_entries on journal_entries.id = journal_lines.entry_id
+  where journal_lines.account_id = v_account_id
+    and journal_entries.created_at < p_from;
+
+  with movements as (
+    select
+      journal_entries.id,
+      journal_entries.kind,
+      journal_entries.reference,
+      journal_entries.description,
+      journal_entries.created_at,
+      sum(case when journal_lines.direction = 'credit' then journal_lines.amount else 0 end) as credit,
+      sum(case when journal_lines.direction = 'debit' then journal_lines.amount else 0 end) as debit
+    from public.journal_lines
+    join public.journal_entries on journal_entries.id = journal_lines.entry_id
+    where journal_lines.account_id = v_account_id
+      and journal_entries.created_at >= p_from
+      and journal_entries.created_at < p_to
+    group by journal_entries.id
+  ),
+  statement_lines as (
+    select
+      movements.*,
+      case movements.kind
+        when 'booking_payment' then coalesce((
+          select (bookings.quote->>'service_fee')::decimal
+          from public.bookings
+          where bookings.id::text = movements.reference
+        ), 0)
+        when 'payout' then coalesce((
+          select sum(amount) from public.journal_lines
+          where entry_id = movements.id and account_id = v_commission_id and direction = 'credit'
+        ), 0)
+        when 'payout_reversal' then -coalesce((
+          select sum(amount) from public.journal_lines
+          where entry_id = movements.id and account_id = v_commission_id and direction = 'debit'
+        ), 0)
+        else 0
+      end as fee,
+      v_opening + sum(movements.credit - movements.debit)
+        over (order by movements.created_at, movements.id) as balance
+    from movements
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'kind', kind,
+    'reference', reference,
+    'description', description,
+    'created_at', created_at,
+    'credit', credit,
+    'debit', debit,
+    'fee', fee,
+    'balance', balance
+  ) order by created_at, id), '[]'::jsonb)
+  into v_entries
+  from statement_lines;
+
+  return jsonb_build_object(
+    'from', p_from,
+    'to', p_to,
+    'opening_balance', v_opening,
+    'total_credits', coalesce((select sum((entry->>'credit')::decimal) from jsonb_array_elements(v_entries) entry), 0),
+    'total_debits', coalesce((select sum((entry->>'debit')::decimal) from jsonb_array_elements(v_entries) entry), 0),
+    'total_fees', coalesce((select sum((entry->>'fee')::decimal) from jsonb_array_elements(v_entries) entry), 0),
+    'closing_balance', v_opening + coalesce((
+      select sum((entry->>'credit')::decimal - (entry->>'debit')::decimal)
+      from jsonb_array_elements(v_entries) entry
+    ), 0),
+    'entries', v_entries
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+revoke all on function public.statement_for(uuid, timestamp with time zone, timestamp with time zone) from public, anon, authenticated;
+grant execute on function public.statement_for(uuid, timestamp with time zone, timestamp with time zone) to service_role;
+
+-- The signed-in user's own statement
+create or replace function public.wallet_statement(
+  p_from timestamp with time zone,
+  p_to timestamp with time zone
+)
+returns jsonb as $$
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  return public.statement_for(auth.uid(), p_from, p_to);
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+revoke all on function public.wallet_statement(timestamp with time zone, timestamp with time zone) from public;
+grant execute on function public.wallet_statement(timestamp with time zone, timestamp with time zone) to authenticated;
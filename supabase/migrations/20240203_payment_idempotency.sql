@@ -0,0 +1,9 @@
+-- Clients send an idempotency key with each payment attempt and reuse it when
+-- they retry, so a double tap or a retry after a dropped connection finds the
+-- original transaction instead of charging again.
+
+alter table public.transactions add column idempotency_key text;
+
+-- Keys are only unique per user; rows from before keys existed stay null
+alter table public.transactions
+  add constraint transactions_idempotency_key unique (user_id, idempotency_key);
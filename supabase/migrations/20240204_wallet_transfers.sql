@@ -0,0 +1,363 @@
+-- Wallet-to-wallet transfers, and split-fare requests built on them: the
+-- passenger who paid for a booking asks co-travellers for their share, and
+-- each request is paid as a transfer once the co-traveller accepts it.
+--
+--   pending -> paid | declined | cancelled
+
+alter table public.journal_entries drop constraint journal_entries_kind_check;
+alter table public.journal_entries add constraint journal_entries_kind_check check (kind in (
+  'top_up',
+  'booking_payment',
+  'escrow_release',
+  'refund',
+  'payout',
+  'payout_reversal',
+  'transfer',
+  'opening_balance'
+));
+
+create table public.split_requests (
+  id uuid default gen_random_uuid() primary key,
+  booking_id uuid references public.bookings(id) on delete cascade not null,
+  -- The passenger who paid for the booking and is owed the share
+  requester_id uuid references public.profiles(id) on delete cascade not null,
+  payer_id uuid references public.profiles(id) on delete cascade not null,
+  amount decimal(12,2) not null check (amount > 0),
+  -- Copied from the ride, since co-travellers can't see the booking itself
+  description text not null,
+  departure_time timestamp with time zone not null,
+  status text default 'pending' not null check (status in ('pending', 'paid', 'declined', 'cancelled')),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  constraint split_requests_not_self check (requester_id <> payer_id)
+);
+
+-- A co-traveller is asked for one share per booking at a time
+create unique index split_requests_open_key on public.split_requests (booking_id, payer_id)
+  where status in ('pending', 'paid');
+
+create index split_requests_payer_id_idx on public.split_requests (payer_id, created_at desc);
+
+create table public.wallet_transfers (
+  id uuid default gen_random_uuid() primary key,
+  -- Accounting history outlives the profiles, as with ledger accounts
+  sender_id uuid references public.profiles(id) on delete restrict not null,
+  recipient_id uuid references public.profiles(id) on delete restrict not null,
+  amount decimal(12,2) not null check (amount > 0),
+  note text check (char_length(note) <= 140),
+  -- Set when the transfer pays a split-fare request
+  split_request_id uuid references public.split_requests(id) on delete set null unique,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  constraint wallet_transfers_not_self check (sender_id <> recipient_id)
+);
+
+create index wallet_transfers_sender_id_idx on public.wallet_transfers (sender_id, created_at desc);
+create index wallet_transfers_recipient_id_idx on public.wallet_transfers (recipient_id, created_at desc);
+
+-- Both tables are only written by the functions below
+alter table public.split_requests enable row level security;
+alter table public.wallet_transfers enable row level security;
+
+create policy "Users can view own split requests" on public.split_requests
+  for select using (auth.uid() in (requester_id, payer_id));
+
+create policy "Users can view own transfers" on public.wallet_transfers
+  for select using (auth.uid() in (sender_id, recipient_id));
+
+alter publication supabase_realtime add table public.split_requests;
+
+create trigger split_requests_updated_at
+  before update on public.split_requests
+  for each row
+  execute procedure public.handle_updated_at();
+
+-- Smallest amount that can be sent between wallets
+alter table public.pricing_rules
+  add column transfer_minimum decimal(12,0) default 500 not null check (transfer_minimum > 0);
+
+create or replace function public.transfer_minimum()
+returns decimal as $$
+  select transfer_minimum from public.pricing_rules;
+$$ language sql stable security definer set search_path = public;
+
+-- Records a transfer and moves the money between the two wallets. Both
+-- parties see the same ledger entry, so it names both of them.
+create or replace function public.create_transfer(
+  p_sender_id uuid,
+  p_recipient_id uuid,
+  p_amount decimal,
+  p_note text default null,
+  p_split_request_id uuid default null
+)
+returns public.wallet_transfers as $$
+declare
+  v_transfer public.wallet_transfers%rowtype;
+  v_sender_name text;
+  v_recipient_name text;
+begin
+  if p_amount is null or p_amount < public.transfer_minimum() then
+    raise exception 'TRANSFER_BELOW_MINIMUM' using errcode = 'P0001';
+  end if;
+
+  if p_sender_id = p_recipient_id then
+    raise exception 'OWN_WALLET' using errcode = 'P0001';
+  end if;
+
+  select coalesce(full_name, 'Makela user') into v_recipient_name
+  from public.profiles
+  where id = p_recipient_id;
+
+  if not found then
+    raise exception 'RECIPIENT_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  select coalesce(full_name, 'Makela user') into v_sender_name
+  from public.profiles
+  where id = p_sender_id;
+
+  insert into public.wallet_transfers (sender_id, recipient_id, amount, note, split_request_id)
+  values (p_sender_id, p_recipient_id, p_amount, nullif(trim(p_note), ''), p_split_request_id)
+  returning * into v_transfer;
+
+  -- Raises INSUFFICIENT_BALANCE, undoing the insert, if the wallet can't cover it
+  perform public.post_journal_entry(
+    'transfer',
+    v_transfer.id::text,
+    format('Transfer from %s to %s', v_sender_name, v_recipient_name),
+    jsonb_build_array(
+      jsonb_build_object(
+        'account_id', public.ledger_account_id('user_wallet', p_sender_id),
+        'direction', 'debit',
+        'amount', p_amount
+      ),
+      jsonb_build_object(
+        'account_id', public.ledger_account_id('user_wallet', p_recipient_id),
+        'direction', 'credit',
+        'amount', p_amount
+      )
+    )
+  );
+
+  return v_transfer;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.create_transfer(uuid, uuid, decimal, text, uuid) from public, anon, authenticated;
+
+-- Sends money from the signed-in user's wallet to another user's
+create or replace function public.transfer_to_wallet(
+  p_recipient_id uuid,
+  p_amount decimal,
+  p_note text default null
+)
+returns public.wallet_transfers as $$
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  return public.create_transfer(auth.uid(), p_recipient_id, p_amount, p_note);
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.transfer_to_wallet(uuid, decimal, text) from public;
+grant execute on function public.transfer_to_wallet(uuid, decimal, text) to authenticated;
+
+-- Asks each co-traveller for an equal share of a paid booking. The passenger
+-- who booked keeps one share too, plus whatever rounding to whole UGX leaves.
+create or replace function public.split_booking(p_booking_id uuid, p_payer_ids uuid[])
+returns setof public.split_requests as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_booking public.bookings%rowtype;
+  v_ride public.rides%rowtype;
+  v_payer_count int := coalesce(array_length(p_payer_ids, 1), 0);
+  v_share decimal(12,2);
+begin
+  if v_user_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id
+  for update;
+
+  if not found then
+    raise exception 'BOOKING_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_booking.passenger_id <> v_user_id then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  if v_booking.status not in ('paid', 'boarded', 'completed') then
+    raise exception 'BOOKING_NOT_PAID' using errcode = 'P0001';
+  end if;
+
+  if v_payer_count = 0 or v_payer_count <> (select count(distinct payer_id) from unnest(p_payer_ids) as payer_id) then
+    raise exception 'INVALID_PAYERS' using errcode = 'P0001';
+  end if;
+
+  if v_user_id = any(p_payer_ids) then
+    raise exception 'OWN_WALLET' using errcode = 'P0001';
+  end if;
+
+  if (select count(*) from public.profiles where id = any(p_payer_ids)) <> v_payer_count then
+    raise exception 'RECIPIENT_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from public.split_requests
+    where booking_id = p_booking_id and status in ('pending', 'paid')
+  ) then
+    raise exception 'ALREADY_SPLIT' using errcode = 'P0001';
+  end if;
+
+  select * into v_ride
+  from public.rides
+  where id = v_booking.ride_id;
+
+  v_share := floor(v_booking.total_amount / (v_payer_count + 1));
+
+  if v_share < public.transfer_minimum() then
+    raise exception 'TRANSFER_BELOW_MINIMUM' using errcode = 'P0001';
+  end if;
+
+  return query
+  insert into public.split_requests (booking_id, requester_id, payer_id, amount, description, departure_time)
+  select
+    p_booking_id,
+    v_user_id,
+    payer_id,
+    v_share,
+    format('%s → %s', v_ride.origin_address, v_ride.destination_address),
+    v_ride.departure_time
+  from unnest(p_payer_ids) as payer_id
+  returning *;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.split_booking(uuid, uuid[]) from public;
+grant execute on function public.split_booking(uuid, uuid[]) to authenticated;
+
+-- The co-traveller's answer. Accepting pays the share to the requester's
+-- wallet straight away, so it fails with INSUFFICIENT_BALANCE if it can't.
+create or replace function public.respond_to_split_request(p_request_id uuid, p_accept boolean)
+returns public.split_requests as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_request public.split_requests%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select * into v_request
+  from public.split_requests
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_request.payer_id <> v_user_id then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  if v_request.status <> 'pending' then
+    raise exception 'REQUEST_NOT_PENDING' using errcode = 'P0001';
+  end if;
+
+  -- Shares the booking's row lock with cancellations, so a refund can't
+  -- slip in between this check and the payment
+  if p_accept and not exists (
+    select 1 from public.bookings
+    where id = v_request.booking_id and status in ('paid', 'boarded', 'completed')
+    for share
+  ) then
+    raise exception 'BOOKING_CANCELLED' using errcode = 'P0001';
+  end if;
+
+  if p_accept then
+    perform public.create_transfer(
+      v_request.payer_id,
+      v_request.requester_id,
+      v_request.amount,
+      'Split fare',
+      v_request.id
+    );
+  end if;
+
+  update public.split_requests
+  set status = case when p_accept then 'paid' else 'declined' end
+  where id = v_request.id
+  returning * into v_request;
+
+  return v_request;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.respond_to_split_request(uuid, boolean) from public;
+grant execute on function public.respond_to_split_request(uuid, boolean) to authenticated;
+
+-- Withdraws a request the co-traveller hasn't answered yet
+create or replace function public.cancel_split_request(p_request_id uuid)
+returns public.split_requests as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_request public.split_requests%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select * into v_request
+  from public.split_requests
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_request.requester_id <> v_user_id then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  if v_request.status <> 'pending' then
+    raise exception 'REQUEST_NOT_PENDING' using errcode = 'P0001';
+  end if;
+
+  update public.split_requests
+  set status = 'cancelled'
+  where id = v_request.id
+  returning * into v_request;
+
+  return v_request;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.cancel_split_request(uuid) from public;
+grant execute on function public.cancel_split_request(uuid) to authenticated;
+
+-- A booking that was cancelled, refunded or missed has nothing left to share
+create or replace function public.handle_booking_split_requests()
+returns trigger as $$
+begin
+  if new.status in ('cancelled_by_passenger', 'cancelled_by_driver', 'no_show')
+    and old.status is distinct from new.status then
+    update public.split_requests
+    set status = 'cancelled'
+    where booking_id = new.id
+      and status = 'pending';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger bookings_cancel_split_requests
+  after update of status on public.bookings
+  for each row
+  execute procedure public.handle_booking_split_requests();
@@ -0,0 +1,651 @@
+-- Promo codes and referral credits. Both are paid for from a 'promotions'
+-- ledger account, so a discounted booking still pays the driver their full
+-- earnings and referral rewards show up in the ledger like any other credit.
+--
+-- A promo code's discount is fixed into the booking's quote when it is made.
+-- Redemptions only count towards usage caps while their booking is alive, so
+-- a declined or cancelled booking gives the use back.
+
+alter table public.ledger_accounts drop constraint ledger_accounts_type_check;
+alter table public.ledger_accounts add constraint ledger_accounts_type_check check (type in (
+  'user_wallet',
+  'escrow',
+  'platform_commission',
+  'provider_clearing',
+  'promotions',
+  'opening_balance'
+));
+
+alter table public.journal_entries drop constraint journal_entries_kind_check;
+alter table public.journal_entries add constraint journal_entries_kind_check check (kind in (
+  'top_up',
+  'booking_payment',
+  'escrow_release',
+  'refund',
+  'payout',
+  'payout_reversal',
+  'transfer',
+  'referral_reward',
+  'opening_balance'
+));
+
+create table public.promo_codes (
+  id uuid default gen_random_uuid() primary key,
+  code text unique not null check (code = upper(code) and code ~ '^[A-Z0-9]{3,20}$'),
+  -- Shown to the passenger once the code is applied, e.g. "20% off your first ride"
+  description text,
+  discount_type text not null check (discount_type in ('percentage', 'fixed')),
+  -- A percentage of the fare (0-100], or a fixed amount in UGX
+  discount_value decimal(12,2) not null check (discount_value > 0),
+  -- Caps a percentage discount in UGX
+  max_discount decimal(12,0) check (max_discount > 0),
+  -- Null means no global cap
+  max_uses integer check (max_uses > 0),
+  max_uses_per_user integer default 1 not null check (max_uses_per_user > 0),
+  starts_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  expires_at timestamp with time zone,
+  -- Only for passengers who have never had a paid booking
+  first_ride_only boolean default false not null,
+  -- Only for rides between these cities; null matches any
+  origin_city text,
+  destination_city text,
+  active boolean default true not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  constraint promo_codes_percentage check (discount_type <> 'percentage' or discount_value <= 100)
+);
+
+create table public.promo_redemptions (
+  id uuid default gen_random_uuid() primary key,
+  promo_code_id uuid references public.promo_codes(id) on delete restrict not null,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  booking_id uuid references public.bookings(id) on delete cascade unique not null,
+  discount decimal(12,2) not null check (discount > 0),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index promo_redemptions_promo_code_id_idx on public.promo_redemptions (promo_code_id);
+create index promo_redemptions_user_id_idx on public.promo_redemptions (user_id);
+
+-- Codes are looked up through promo_quote, never listed
+alter table public.promo_codes enable row level security;
+alter table public.promo_redemptions enable row level security;
+
+create policy "Users can view own promo redemptions" on public.promo_redemptions
+  for select using (auth.uid() = user_id);
+
+alter table public.pricing_rules
+  add column referral_reward_referrer decimal(12,0) default 5000 not null check (referral_reward_referrer >= 0),
+  add column referral_reward_referee decimal(12,0) default 5000 not null check (referral_reward_referee >= 0);
+
+-- Bookings that still hold (or held) their seats
+create or replace function public.is_live_booking(p_status public.booking_status)
+returns boolean as $$
+  select p_status not in ('declined', 'cancelled_by_passenger', 'cancelled_by_driver');
+$$ language sql immutable;
+
+-- Checks a code against a ride for a passenger and prices its discount on
+-- the fare (seats * price_per_seat). Returns
+-- { promo_code_id, code, description, discount }.
+create or replace function public.promo_quote(
+  p_code text,
+  p_user_id uuid,
+  p_ride_id uuid,
+  p_seats integer
+)
+returns jsonb as $$
+declare
+  v_promo public.promo_codes%rowtype;
+  v_ride public.rides%rowtype;
+  v_fare decimal;
+  v_discount decimal;
+begin
+  select * into v_promo
+  from public.promo_codes
+  where code = upper(trim(p_code));
+
+  if not found or not v_promo.active then
+    raise exception 'PROMO_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_promo.starts_at > now() or v_promo.expires_at <= now() then
+    raise exception 'PROMO_EXPIRED' using errcode = 'P0001';
+  end if;
+
+  if v_promo.max_uses is not null and (
+    select count(*)
+    from public.promo_redemptions
+    join public.bookings on bookings.id = promo_redemptions.booking_id
+    where promo_redemptions.promo_code_id = v_promo.id
+      and public.is_live_booking(bookings.status)
+  ) >= v_promo.max_uses then
+    raise exception 'PROMO_EXHAUSTED' using errcode = 'P0001';
+  end if;
+
+  if (
+    select count(*)
+    from public.promo_redemptions
+    join public.bookings on bookings.id = promo_redemptions.booking_id
+    where promo_redemptions.promo_code_id = v_promo.id
+      and promo_redemptions.user_id = p_user_id
+      and public.is_live_booking(bookings.status)
+  ) >= v_promo.max_uses_per_user then
+    raise exception 'PROMO_ALREADY_USED' using errcode = 'P0001';
+  end if;
+
+  if v_promo.first_ride_only and exists (
+    select 1 from public.bookings
+    where passenger_id = p_user_id
+      and status in ('paid', 'boarded', 'completed', 'no_show')
+  ) then
+    raise exception 'PROMO_FIRST_RIDE_ONLY' using errcode = 'P0001';
+  end if;
+
+  select * into v_ride
+  from public.rides
+  where id = p_ride_id;
+
+  if not found then
+    raise exception 'RIDE_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if (v_promo.origin_city is not null and lower(v_promo.origin_city) <> lower(v_ride.origin_city))
+    or (v_promo.destination_city is not null and lower(v_promo.destination_city) <> lower(v_ride.destination_city)) then
+    raise exception 'PROMO_ROUTE_MISMATCH' using errcode = 'P0001';
+  end if;
+
+  v_fare := round(v_ride.price_per_seat * p_seats, 0);
+  v_discount := case v_promo.discount_type
+    when 'percentage' then least(round(v_fare * v_promo.discount_value / 100, 0), coalesce(v_promo.max_discount, v_fare))
+    else least(v_promo.discount_value, v_fare)
+  end;
+
+  return jsonb_build_object(
+    'promo_code_id', v_promo.id,
+    'code', v_promo.code,
+    'description', v_promo.description,
+    'discount', v_discount
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+revoke all on function public.promo_quote(text, uuid, uuid, integer) from public, anon, authenticated;
+
+-- What booking a ride would cost the signed-in passenger, with an optional
+-- promo code. Raises the promo's error if the code can't be used.
+create or replace function public.quote_booking(
+  p_ride_id uuid,
+  p_seats integer default 1,
+  p_promo_code text default null
+)
+returns jsonb as $$
+declare
+  v_price decimal;
+  v_promo jsonb;
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select price_per_seat into v_price
+  from public.rides
+  where id = p_ride_id;
+
+  if not found then
+    raise exception 'RIDE_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if nullif(trim(p_promo_code), '') is null then
+    return public.quote_fare(v_price, p_seats);
+  end if;
+
+  v_promo := public.promo_quote(p_promo_code, auth.uid(), p_ride_id, p_seats);
+
+  return public.quote_fare(v_price, p_seats, (v_promo->>'discount')::decimal)
+    || jsonb_build_object('promo_code', v_promo->>'code', 'promo_description', v_promo->>'description');
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+revoke all on function public.quote_booking(uuid, integer, text) from public;
+grant execute on function public.quote_booking(uuid, integer, text) to authenticated;
+
+-- book_ride takes an optional promo code; the old two-argument version would
+-- make calls without one ambiguous
+drop function public.book_ride(uuid, integer);
+
+create or replace function public.book_ride(
+  p_ride_id uuid,
+  p_seats integer default 1,
+  p_promo_code text default null
+)
+returns public.bookings as $$
+declare
+  v_passenger_id uuid := auth.uid();
+  v_ride public.rides%rowtype;
+  v_booking public.bookings%rowtype;
+  v_promo jsonb;
+  v_quote jsonb;
+begin
+  if v_passenger_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  if p_seats is null or p_seats < 1 then
+    raise exception 'INVALID_SEATS' using errcode = 'P0001';
+  end if;
+
+  -- Lock the ride row so concurrent bookings queue up behind each other
+  select * into v_ride
+  from public.rides
+  where id = p_ride_id
+  for update;
+
+  if not found then
+    raise exception 'RIDE_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_ride.driver_id = v_passenger_id then
+    raise exception 'OWN_RIDE' using errcode = 'P0001';
+  end if;
+
+  if v_ride.departure_time <= now() then
+    raise exception 'RIDE_DEPARTED' using errcode = 'P0001';
+  end if;
+
+  if v_ride.status not in ('pending', 'active') then
+    raise exception 'RIDE_UNAVAILABLE' using errcode = 'P0001';
+  end if;
+
+  if v_ride.available_seats < p_seats then
+    raise exception 'SOLD_OUT' using errcode = 'P0001',
+      detail = format('%s seat(s) left', v_ride.available_seats);
+  end if;
+
+  if nullif(trim(p_promo_code), '') is not null then
+    -- Lock the code so concurrent bookings can't both take its last use
+    perform 1 from public.promo_codes
+    where code = upper(trim(p_promo_code))
+    for update;
+
+    v_promo := public.promo_quote(p_promo_code, v_passenger_id, p_ride_id, p_seats);
+  end if;
+
+  update public.rides
+  set available_seats = available_seats - p_seats
+  where id = p_ride_id;
+
+  v_quote := public.quote_fare(v_ride.price_per_seat, p_seats, coalesce((v_promo->>'discount')::decimal, 0));
+  if v_promo is not null then
+    v_quote := v_quote || jsonb_build_object(
+      'promo_code', v_promo->>'code',
+      'promo_description', v_promo->>'description'
+    );
+  end if;
+
+  insert into public.bookings (ride_id, passenger_id, seats_booked, total_amount, quote, status)
+  values (
+    p_ride_id,
+    v_passenger_id,
+    p_seats,
+    (v_quote->>'total')::decimal,
+    v_quote,
+    case when v_ride.booking_mode = 'instant' then 'accepted' else 'requested' end::public.booking_status
+  )
+  returning * into v_booking;
+
+  if v_promo is not null and (v_quote->>'discount')::decimal > 0 then
+    insert into public.promo_redemptions (promo_code_id, user_id, booking_id, discount)
+    values ((v_promo->>'promo_code_id')::uuid, v_passenger_id, v_booking.id, (v_quote->>'discount')::decimal);
+  end if;
+
+  return v_booking;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.book_ride(uuid, integer, text) from public;
+grant execute on function public.book_ride(uuid, integer, text) to authenticated;
+
+-- The promotions account tops escrow up by the discount, so escrow always
+-- holds the booking's full undiscounted price
+create or replace function public.charge_booking(p_booking_id uuid)
+returns public.bookings as $$
+declare
+  v_booking public.bookings%rowtype;
+  v_discount decimal(12,2);
+  v_lines jsonb := '[]'::jsonb;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id
+  for update;
+
+  if not found then
+    raise exception 'BOOKING_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_booking.status <> 'accepted' then
+    raise exception 'BOOKING_NOT_PAYABLE' using errcode = 'P0001';
+  end if;
+
+  v_discount := coalesce((v_booking.quote->>'discount')::decimal, 0);
+
+  if v_booking.total_amount > 0 then
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'account_id', public.ledger_account_id('user_wallet', v_booking.passenger_id),
+      'direction', 'debit',
+      'amount', v_booking.total_amount
+    ));
+  end if;
+
+  if v_discount > 0 then
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'account_id', public.ledger_account_id('promotions'),
+      'direction', 'debit',
+      'amount', v_discount
+    ));
+  end if;
+
+  perform public.post_journal_entry(
+    'booking_payment',
+    v_booking.id::text,
+    'Booking payment',
+    v_lines || jsonb_build_array(jsonb_build_object(
+      'account_id', public.ledger_account_id('escrow'),
+      'direction', 'credit',
+      'amount', v_booking.total_amount + v_discount
+    ))
+  );
+
+  update public.bookings
+  set status = 'paid'
+  where id = p_booking_id
+  returning * into v_booking;
+
+  return v_booking;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Escrow holds total + discount. A refund (at most the total the passenger
+-- paid) takes the same share of the discount back to promotions, and what is
+-- left splits between driver and platform as before.
+create or replace function public.settle_booking_escrow(p_booking_id uuid, p_refund decimal)
+returns void as $$
+declare
+  v_booking public.bookings%rowtype;
+  v_driver_id uuid;
+  v_discount decimal(12,2);
+  v_refund decimal(12,2);
+  v_refund_rate decimal;
+  v_promo_return decimal(12,2);
+  v_retained decimal(12,2);
+  v_driver_share decimal(12,2);
+  v_platform_share decimal(12,2);
+  v_lines jsonb;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id;
+
+  if not exists (
+    select 1 from public.journal_entries
+    where kind = 'booking_payment' and reference = p_booking_id::text
+  ) then
+    return;
+  end if;
+
+  select driver_id into v_driver_id
+  from public.rides
+  where id = v_booking.ride_id;
+
+  v_discount := coalesce((v_booking.quote->>'discount')::decimal, 0);
+  v_refund := least(greatest(coalesce(p_refund, 0), 0), v_booking.total_amount);
+  v_refund_rate := case when v_booking.total_amount = 0 then 0 else v_refund / v_booking.total_amount end;
+  v_promo_return := round(v_discount * v_refund_rate, 0);
+  v_retained := v_booking.total_amount + v_discount - v_refund - v_promo_return;
+  v_driver_share := least(
+    v_retained,
+    round((v_booking.quote->>'driver_earnings')::decimal * (1 - v_refund_rate), 0)
+  );
+  v_platform_share := v_retained - v_driver_share;
+
+  if v_refund > 0 then
+    perform public.post_journal_entry(
+      'refund',
+      p_booking_id::text,
+      'Booking refund',
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_account_id('escrow'), 'direction', 'debit', 'amount', v_refund),
+        jsonb_build_object(
+          'account_id', public.ledger_account_id('user_wallet', v_booking.passenger_id),
+          'direction', 'credit',
+          'amount', v_refund
+        )
+      )
+    );
+  end if;
+
+  if v_retained > 0 or v_promo_return > 0 then
+    v_lines := jsonb_build_array(
+      jsonb_build_object(
+        'account_id', public.ledger_account_id('escrow'),
+        'direction', 'debit',
+        'amount', v_retained + v_promo_return
+      )
+    );
+
+    if v_promo_return > 0 then
+      v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+        'account_id', public.ledger_account_id('promotions'),
+        'direction', 'credit',
+        'amount', v_promo_return
+      ));
+    end if;
+
+    if v_driver_share > 0 then
+      v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+        'account_id', public.ledger_account_id('user_wallet', v_driver_id),
+        'direction', 'credit',
+        'amount', v_driver_share
+      ));
+    end if;
+
+    if v_platform_share > 0 then
+      v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+        'account_id', public.ledger_account_id('platform_commission'),
+        'direction', 'credit',
+        'amount', v_platform_share
+      ));
+    end if;
+
+    perform public.post_journal_entry('escrow_release', p_booking_id::text, 'Driver earnings', v_lines);
+  end if;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Referrals: every user has a code to share, and a new user can enter one
+-- before their first completed ride. Both get wallet credit once it happens.
+
+alter table public.profiles
+  add column referral_code text unique check (referral_code ~ '^[A-Z0-9]{6,12}$');
+
+create table public.referrals (
+  id uuid default gen_random_uuid() primary key,
+  referrer_id uuid references public.profiles(id) on delete cascade not null,
+  -- A user can only be referred once
+  referee_id uuid references public.profiles(id) on delete cascade unique not null,
+  status text default 'pending' not null check (status in ('pending', 'rewarded')),
+  -- Fixed when the reward is paid, from pricing_rules at that time
+  referrer_reward decimal(12,0),
+  referee_reward decimal(12,0),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  rewarded_at timestamp with time zone,
+  constraint referrals_not_self check (referrer_id <> referee_id)
+);
+
+create index referrals_referrer_id_idx on public.referrals (referrer_id, created_at desc);
+
+alter table public.referrals enable row level security;
+
+create policy "Users can view own referrals" on public.referrals
+  for select using (auth.uid() in (referrer_id, referee_id));
+
+-- The signed-in user's code, created on first use
+create or replace function public.my_referral_code()
+returns text as $$
+declare
+  v_code text;
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select referral_code into v_code
+  from public.profiles
+  where id = auth.uid();
+
+  while v_code is null loop
+    begin
+      update public.profiles
+      set referral_code = 'MK' || upper(substr(md5(gen_random_uuid()::text), 1, 6))
+      where id = auth.uid()
+      returning referral_code into v_code;
+    exception when unique_violation then
+      -- Try another code
+    end;
+  end loop;
+
+  return v_code;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.my_referral_code() from public;
+grant execute on function public.my_referral_code() to authenticated;
+
+-- Records that the signed-in user was referred by the owner of p_code
+create or replace function public.redeem_referral_code(p_code text)
+returns public.referrals as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_referrer_id uuid;
+  v_referral public.referrals%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select id into v_referrer_id
+  from public.profiles
+  where referral_code = upper(trim(p_code));
+
+  if not found then
+    raise exception 'REFERRAL_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_referrer_id = v_user_id then
+    raise exception 'OWN_REFERRAL' using errcode = 'P0001';
+  end if;
+
+  if exists (select 1 from public.referrals where referee_id = v_user_id) then
+    raise exception 'REFERRAL_ALREADY_USED' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from public.bookings
+    where passenger_id = v_user_id and status = 'completed'
+  ) then
+    raise exception 'NOT_NEW_USER' using errcode = 'P0001';
+  end if;
+
+  insert into public.referrals (referrer_id, referee_id)
+  values (v_referrer_id, v_user_id)
+  returning * into v_referral;
+
+  return v_referral;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.redeem_referral_code(text) from public;
+grant execute on function public.redeem_referral_code(text) to authenticated;
+
+-- Pays both sides of a pending referral from the promotions account
+create or replace function public.reward_referral(p_referee_id uuid)
+returns void as $$
+declare
+  v_referral public.referrals%rowtype;
+  v_rules public.pricing_rules%rowtype;
+  v_lines jsonb := '[]'::jsonb;
+begin
+  select * into v_referral
+  from public.referrals
+  where referee_id = p_referee_id and status = 'pending'
+  for update;
+
+  if not found then
+    return;
+  end if;
+
+  select * into v_rules from public.pricing_rules;
+
+  if v_rules.referral_reward_referrer > 0 then
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'account_id', public.ledger_account_id('user_wallet', v_referral.referrer_id),
+      'direction', 'credit',
+      'amount', v_rules.referral_reward_referrer
+    ));
+  end if;
+
+  if v_rules.referral_reward_referee > 0 then
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'account_id', public.ledger_account_id('user_wallet', v_referral.referee_id),
+      'direction', 'credit',
+      'amount', v_rules.referral_reward_referee
+    ));
+  end if;
+
+  if jsonb_array_length(v_lines) > 0 then
+    perform public.post_journal_entry(
+      'referral_reward',
+      v_referral.id::text,
+      'Referral reward',
+      v_lines || jsonb_build_array(jsonb_build_object(
+        'account_id', public.ledger_account_id('promotions'),
+        'direction', 'debit',
+        'amount', v_rules.referral_reward_referrer + v_rules.referral_reward_referee
+      ))
+    );
+  end if;
+
+  update public.referrals
+  set status = 'rewarded',
+      referrer_reward = v_rules.referral_reward_referrer,
+      referee_reward = v_rules.referral_reward_referee,
+      rewarded_at = now()
+  where id = v_referral.id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.reward_referral(uuid) from public, anon, authenticated;
+
+-- The referee's first completed ride triggers the reward. A ride driven by
+-- the referrer doesn't count, or two accounts could farm rewards between
+-- themselves for the price of a cheap seat.
+create or replace function public.handle_booking_referral()
+returns trigger as $$
+begin
+  if new.status = 'completed' and old.status is distinct from 'completed'
+     and not exists (
+       select 1
+       from public.referrals
+       join public.rides on rides.id = new.ride_id
+       where referrals.referee_id = new.passenger_id
+         and rides.driver_id = referrals.referrer_id
+     ) then
+    perform public.reward_referral(new.passenger_id);
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger bookings_reward_referral
+  after update of status on public.bookings
+  for each row
+  execute procedure public.handle_booking_referral();
@@ -0,0 +1,387 @@
+-- Wallet PIN: a second factor for moving money out of a wallet.
+--
+-- The PIN is checked on its own by verify_wallet_pin, which records failed
+-- attempts (a wrong PIN can't raise, or the count would roll back with it)
+-- and hands out a short-lived step-up token. Transfers, payouts and
+-- wallet-funded bookings over `pin_required_above` spend that token in the
+-- same transaction as the money movement, so a failed movement keeps it.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table public.wallet_pins (
+  user_id uuid references public.profiles(id) on delete cascade primary key,
+  -- bcrypt, through pgcrypto's crypt()
+  pin_hash text not null,
+  failed_attempts integer default 0 not null,
+  locked_until timestamp with time zone,
+  -- One step-up token at a time; verifying again replaces it
+  step_up_token uuid,
+  step_up_expires_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Only reachable through the functions below
+alter table public.wallet_pins enable row level security;
+
+create trigger wallet_pins_updated_at
+  before update on public.wallet_pins
+  for each row
+  execute procedure public.handle_updated_at();
+
+alter table public.pricing_rules
+  add column pin_required_above decimal(12,0) default 50000 not null check (pin_required_above >= 0);
+
+-- Whether the caller signed in or verified an OTP within p_window, from the
+-- `amr` claim of their token
+create or replace function public.authenticated_within(p_window interval)
+returns boolean as $$
+  select coalesce(max((entry->>'timestamp')::bigint), 0) >= extract(epoch from now() - p_window)
+  from jsonb_array_elements(coalesce(auth.jwt()->'amr', '[]'::jsonb)) as entry;
+$$ language sql stable;
+
+create or replace function public.wallet_pin_status()
+returns jsonb as $$
+declare
+  v_pin public.wallet_pins%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select * into v_pin
+  from public.wallet_pins
+  where user_id = auth.uid();
+
+  return jsonb_build_object(
+    'has_pin', found,
+    'locked_until', case when v_pin.locked_until > now() then v_pin.locked_until end,
+    'required_above', (select pin_required_above from public.pricing_rules)
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+revoke all on function public.wallet_pin_status() from public;
+grant execute on function public.wallet_pin_status() to authenticated;
+
+-- Sets or resets the caller's PIN. Both need a sign-in or OTP check from the
+-- last five minutes, so a forgotten PIN is reset by verifying an OTP again;
+-- resetting also lifts any lockout.
+create or replace function public.set_wallet_pin(p_pin text)
+returns void as $$
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  if p_pin is null or p_pin !~ '^[0-9]{4,6}$' then
+    raise exception 'PIN_INVALID' using errcode = 'P0001';
+  end if;
+
+  if not public.authenticated_within(interval '5 minutes') then
+    raise exception 'REAUTH_REQUIRED' using errcode = 'P0001';
+  end if;
+
+  insert into public.wallet_pins (user_id, pin_hash)
+  values (auth.uid(), extensions.crypt(p_pin, extensions.gen_salt('bf')))
+  on conflict (user_id) do update
+  set pin_hash = excluded.pin_hash,
+      failed_attempts = 0,
+      locked_until = null,
+      step_up_token = null,
+      step_up_expires_at = null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.set_wallet_pin(text) from public;
+grant execute on function public.set_wallet_pin(text) to authenticated;
+
+-- Checks the caller's PIN. Five wrong attempts in a row lock it for 30
+-- minutes. Returns { verified, token, expires_at } on success and
+-- { verified, attempts_left, locked_until } otherwise.
+create or replace function public.verify_wallet_pin(p_pin text)
+returns jsonb as $$
+declare
+  v_pin public.wallet_pins%rowtype;
+  v_max_attempts constant integer := 5;
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select * into v_pin
+  from public.wallet_pins
+  where user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'PIN_NOT_SET' using errcode = 'P0001';
+  end if;
+
+  if v_pin.locked_until > now() then
+    raise exception 'PIN_LOCKED' using errcode = 'P0001',
+      detail = v_pin.locked_until::text;
+  end if;
+
+  -- A lockout that has run out starts the count again
+  if v_pin.locked_until is not null then
+    v_pin.failed_attempts := 0;
+  end if;
+
+  if v_pin.pin_hash = extensions.crypt(coalesce(p_pin, ''), v_pin.pin_hash) then
+    update public.wallet_pins
+    set failed_attempts = 0,
+        locked_until = null,
+        step_up_token = gen_random_uuid(),
+        step_up_expires_at = now() + interval '5 minutes'
+    where user_id = auth.uid()
+    returning * into v_pin;
+
+    return jsonb_build_object(
+      'verified', true,
+      'token', v_pin.step_up_token,
+      'expires_at', v_pin.step_up_expires_at
+    );
+  end if;
+
+  update public.wallet_pins
+  set failed_attempts = v_pin.failed_attempts + 1,
+      locked_until = case
+        when v_pin.failed_attempts + 1 >= v_max_attempts then now() + interval '30 minutes'
+      end
+  where user_id = auth.uid()
+  returning * into v_pin;
+
+  return jsonb_build_object(
+    'verified', false,
+    'attempts_left', greatest(v_max_attempts - v_pin.failed_attempts, 0),
+    'locked_until', v_pin.locked_until
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.verify_wallet_pin(text) from public;
+grant execute on function public.verify_wallet_pin(text) to authenticated;
+
+-- Spends a step-up token from verify_wallet_pin; raises PIN_REQUIRED if it is
+-- missing, expired or someone else's
+create or replace function public.use_pin_token(p_user_id uuid, p_token uuid)
+returns void as $$
+begin
+  update public.wallet_pins
+  set step_up_token = null,
+      step_up_expires_at = null
+  where user_id = p_user_id
+    and step_up_token = p_token
+    and step_up_expires_at > now();
+
+  if not found then
+    raise exception 'PIN_REQUIRED' using errcode = 'P0001';
+  end if;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.use_pin_token(uuid, uuid) from public, anon, authenticated;
+
+drop function public.transfer_to_wallet(uuid, decimal, text);
+
+create or replace function public.transfer_to_wallet(
+  p_recipient_id uuid,
+  p_amount decimal,
+  p_note text default null,
+  p_pin_token uuid default null
+)
+returns public.wallet_transfers as $$
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  perform public.use_pin_token(auth.uid(), p_pin_token);
+
+  return public.create_transfer(auth.uid(), p_recipient_id, p_amount, p_note);
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.transfer_to_wallet(uuid, decimal, text, uuid) from public;
+grant execute on function public.transfer_to_wallet(uuid, decimal, text, uuid) to authenticated;
+
+-- Paying a split-fare share is a transfer too; declining needs no PIN
+drop function public.respond_to_split_request(uuid, boolean);
+
+create or replace function public.respond_to_split_request(
+  p_request_id uuid,
+  p_accept boolean,
+  p_pin_token uuid default null
+)
+returns public.split_requests as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_request public.split_requests%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select * into v_request
+  from public.split_requests
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'REQUEST_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_request.payer_id <> v_user_id then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  if v_request.status <> 'pending' then
+    raise exception 'REQUEST_NOT_PENDING' using errcode = 'P0001';
+  end if;
+
+  -- Shares the booking's row lock with cancellations, so a refund can't
+  -- slip in between this check and the payment
+  if p_accept and not exists (
+    select 1 from public.bookings
+    where id = v_request.booking_id and status in ('paid', 'boarded', 'completed')
+    for share
+  ) then
+    raise exception 'BOOKING_CANCELLED' using errcode = 'P0001';
+  end if;
+
+  if p_accept then
+    perform public.use_pin_token(v_user_id, p_pin_token);
+
+    perform public.create_transfer(
+      v_request.payer_id,
+      v_request.requester_id,
+      v_request.amount,
+      'Split fare',
+      v_request.id
+    );
+  end if;
+
+  update public.split_requests
+  set status = case when p_accept then 'paid' else 'declined' end
+  where id = v_request.id
+  returning * into v_request;
+
+  return v_request;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.respond_to_split_request(uuid, boolean, uuid) from public;
+grant execute on function public.respond_to_split_request(uuid, boolean, uuid) to authenticated;
+
+-- Wallet payments for bookings over pin_required_above need a PIN
+drop function public.pay_booking(uuid);
+
+create or replace function public.pay_booking(p_booking_id uuid, p_pin_token uuid default null)
+returns public.bookings as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_booking public.bookings%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id;
+
+  if not found then
+    raise exception 'BOOKING_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  if v_booking.passenger_id <> v_user_id then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+
+  if v_booking.total_amount > (select pin_required_above from public.pricing_rules) then
+    perform public.use_pin_token(v_user_id, p_pin_token);
+  end if;
+
+  return public.charge_booking(p_booking_id);
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.pay_booking(uuid, uuid) from public;
+grant execute on function public.pay_booking(uuid, uuid) to authenticated;
+
+-- request-payout passes the token through; it is spent with the wallet debit
+drop function public.create_payout(uuid, decimal, text, text, decimal);
+
+create or replace function public.create_payout(
+  p_user_id uuid,
+  p_amount decimal,
+  p_phone_number text,
+  p_provider text,
+  p_daily_limit decimal default null,
+  p_pin_token uuid default null
+)
+returns public.payouts as $$
+declare
+  v_payout public.payouts%rowtype;
+  v_fee decimal(12,2);
+  v_withdrawn_today decimal(12,2);
+  v_lines jsonb;
+begin
+  if p_amount is null or p_amount < public.payout_minimum() then
+    raise exception 'PAYOUT_BELOW_MINIMUM' using errcode = 'P0001';
+  end if;
+
+  perform public.use_pin_token(p_user_id, p_pin_token);
+
+  -- One payout at a time per user, so concurrent requests can't both fit under the limit
+  perform pg_advisory_xact_lock(hashtext('payout:' || p_user_id::text));
+
+  if p_daily_limit is not null then
+    select coalesce(sum(amount), 0) into v_withdrawn_today
+    from public.payouts
+    where user_id = p_user_id
+      and status <> 'failed'
+      and created_at >= date_trunc('day', now() at time zone 'Africa/Kampala') at time zone 'Africa/Kampala';
+
+    if v_withdrawn_today + p_amount > p_daily_limit then
+      raise exception 'DAILY_LIMIT_EXCEEDED' using errcode = 'P0001';
+    end if;
+  end if;
+
+  v_fee := public.payout_fee(p_amount);
+
+  insert into public.payouts (user_id, amount, fee, phone_number, provider)
+  values (p_user_id, p_amount, v_fee, p_phone_number, p_provider)
+  returning * into v_payout;
+
+  v_lines := jsonb_build_array(
+    jsonb_build_object(
+      'account_id', public.ledger_account_id('user_wallet', p_user_id),
+      'direction', 'debit',
+      'amount', p_amount + v_fee
+    ),
+    jsonb_build_object(
+      'account_id', public.ledger_account_id('provider_clearing', null, p_provider),
+      'direction', 'credit',
+      'amount', p_amount
+    )
+  );
+
+  if v_fee > 0 then
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'account_id', public.ledger_account_id('platform_commission'),
+      'direction', 'credit',
+      'amount', v_fee
+    ));
+  end if;
+
+  -- Raises INSUFFICIENT_BALANCE, undoing the insert, if the wallet can't cover it
+  perform public.post_journal_entry('payout', v_payout.reference, 'Withdrawal to mobile money', v_lines);
+
+  return v_payout;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.create_payout(uuid, decimal, text, text, decimal, uuid) from public, anon, authenticated;
+grant execute on function public.create_payout(uuid, decimal, text, text, decimal, uuid) to service_role;
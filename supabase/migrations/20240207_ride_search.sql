@@ -0,0 +1,9 @@
+-- Ride search filters open rides by route and departure window on the server
+-- and pages through them, so these indexes back each way the search narrows.
+
+-- Searches with no origin: browse everything, or by destination only
+create index rides_open_departure_idx on public.rides (departure_time)
+  where status = 'active';
+
+create index rides_destination_idx on public.rides (destination_city, departure_time)
+  where status = 'active';
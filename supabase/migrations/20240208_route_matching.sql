@@ -0,0 +1,131 @@
+-- Along-route matching: a passenger travelling part of a ride's way (Luweero
+-- to Gulu on a Kampala to Gulu ride) finds it even though neither city is
+-- the ride's origin or destination.
+
+create extension if not exists postgis with schema extensions;
+
+-- The path a ride takes. Until drivers share a driven route this is the
+-- straight line between the two town centres, which is close enough on
+-- Uganda's trunk roads for a radius measured in kilometres.
+alter table public.rides add column route extensions.geography(LineString, 4326);
+
+create or replace function public.set_ride_route()
+returns trigger as $$
+begin
+  if new.route is null
+     or (tg_op = 'UPDATE'
+       and (new.origin_lat, new.origin_lng, new.destination_lat, new.destination_lng)
+         is distinct from (old.origin_lat, old.origin_lng, old.destination_lat, old.destination_lng)) then
+    new.route := st_makeline(
+      st_setsrid(st_makepoint(new.origin_lng, new.origin_lat), 4326),
+      st_setsrid(st_makepoint(new.destination_lng, new.destination_lat), 4326)
+    )::geography;
+  end if;
+  return new;
+end;
+$$ language plpgsql set search_path = public, extensions;
+
+create trigger rides_set_route
+  before insert or update of origin_lat, origin_lng, destination_lat, destination_lng, route on public.rides
+  for each row
+  execute procedure public.set_ride_route();
+
+-- Fires the trigger for existing rides
+update public.rides set route = null;
+
+alter table public.rides alter column route set not null;
+
+create index rides_route_gix on public.rides using gist (route)
+  where status = 'active';
+
+-- Open rides whose route passes within p_radius_km of both the pickup and
+-- the drop-off, with the pickup coming first. For each match:
+--   pickup/dropoff_distance_km  how far each point is from the route
+--   detour_km                   what the driver adds leaving the route and
+--                               coming back, at the pickup and the drop-off
+--   trip_share                  the part of the route the passenger rides
+-- Prices filter and sort on price_per_seat, which is what book_ride charges
+-- however much of the route the passenger rides.
+create or replace function public.search_rides_along_route(
+  p_pickup_lat double precision,
+  p_pickup_lng double precision,
+  p_dropoff_lat double precision,
+  p_dropoff_lng double precision,
+  p_radius_km double precision default 10,
+  p_departs_after timestamp with time zone default null,
+  p_departs_before timestamp with time zone default null,
+  p_min_seats integer default 1,
+  p_min_price decimal default null,
+  p_max_price decimal default null,
+  p_sort text default 'date_asc',
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  ride_id uuid,
+  pickup_distance_km decimal,
+  dropoff_distance_km decimal,
+  detour_km decimal,
+  trip_share decimal
+) as $$
+  with points as (
+    select
+      st_setsrid(st_makepoint(p_pickup_lng, p_pickup_lat), 4326)::geography as pickup,
+      st_setsrid(st_makepoint(p_dropoff_lng, p_dropoff_lat), 4326)::geography as dropoff
+  ),
+  candidates as (
+    select
+      r.id,
+      r.departure_time,
+      r.available_seats,
+      r.price_per_seat,
+      st_distance(r.route, p.pickup) as pickup_m,
+      st_distance(r.route, p.dropoff) as dropoff_m,
+      -- Fractions along the line; measured in degrees, which is fine at
+      -- Uganda's latitudes
+      st_linelocatepoint(r.route::geometry, p.pickup::geometry) as pickup_at,
+      st_linelocatepoint(r.route::geometry, p.dropoff::geometry) as dropoff_at
+    from public.rides r
+    cross join points p
+    where r.status = 'active'
+      and r.departure_time >= greatest(coalesce(p_departs_after, now()), now())
+      and (p_departs_before is null or r.departure_time < p_departs_before)
+      and r.available_seats >= greatest(coalesce(p_min_seats, 1), 1)
+      and st_dwithin(r.route, p.pickup, p_radius_km * 1000)
+      and st_dwithin(r.route, p.dropoff, p_radius_km * 1000)
+  ),
+  matches as (
+    select c.*
+    from candidates c
+    where c.dropoff_at > c.pickup_at
+  )
+  select
+    m.id,
+    round((m.pickup_m / 1000)::numeric, 1),
+    round((m.dropoff_m / 1000)::numeric, 1),
+    round((2 * (m.pickup_m + m.dropoff_m) / 1000)::numeric, 1),
+    round((m.dropoff_at - m.pickup_at)::numeric, 3)
+  from matches m
+  where (p_min_price is null or m.price_per_seat >= p_min_price)
+    and (p_max_price is null or m.price_per_seat <= p_max_price)
+  order by
+    case when p_sort = 'price_asc' then m.price_per_seat end asc,
+    case when p_sort = 'price_desc' then m.price_per_seat end desc,
+    case when p_sort = 'seats_asc' then m.available_seats end asc,
+    case when p_sort = 'seats_desc' then m.available_seats end desc,
+    case when p_sort = 'date_desc' then m.departure_time end desc,
+    m.departure_time asc,
+    m.pickup_m + m.dropoff_m asc,
+    m.id
+  limit least(greatest(coalesce(p_limit, 20), 1), 100)
+  offset greatest(coalesce(p_offset, 0), 0);
+$$ language sql stable security definer set search_path = public, extensions;
+
+revoke all on function public.search_rides_along_route(
+  double precision, double precision, double precision, double precision, double precision,
+  timestamp with time zone, timestamp with time zone, integer, decimal, decimal, text, integer, integer
+) from public;
+grant execute on function public.search_rides_along_route(
+  double precision, double precision, double precision, double precision, double precision,
+  timestamp with time zone, timestamp with time zone, integer, decimal, decimal, text, integer, integer
+) to authenticated;
@@ -0,0 +1,205 @@
+-- Saved searches and new-ride alerts. A passenger saves a route with an
+-- optional date window, price cap and seat count; when a driver posts a ride
+-- that matches, the passenger gets an in-app notification, which is also
+-- pushed to their devices by the `send-push` function.
+
+create table public.notifications (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  kind text not null check (kind in ('ride_alert')),
+  title text not null,
+  body text not null,
+  -- What the app opens when the notification is tapped, e.g. { ride_id }
+  data jsonb default '{}'::jsonb not null,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index notifications_user_id_created_at_idx on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+create policy "Users can view own notifications" on public.notifications
+  for select using (auth.uid() = user_id);
+
+-- The feed updates while it's open
+alter publication supabase_realtime add table public.notifications;
+
+-- Expo push tokens, one row per device
+create table public.push_tokens (
+  token text primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  platform text not null check (platform in ('ios', 'android')),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index push_tokens_user_id_idx on public.push_tokens (user_id);
+
+-- Only reachable through the functions below and the service role
+alter table public.push_tokens enable row level security;
+
+create trigger push_tokens_updated_at
+  before update on public.push_tokens
+  for each row
+  execute procedure public.handle_updated_at();
+
+create table public.saved_searches (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  origin_city text not null,
+  origin_lat double precision not null,
+  origin_lng double precision not null,
+  destination_city text not null,
+  destination_lat double precision not null,
+  destination_lng double precision not null,
+  -- Either end of the date window may be left open
+  departs_after timestamp with time zone,
+  departs_before timestamp with time zone,
+  max_price decimal(12,0) check (max_price > 0),
+  min_seats integer default 1 not null check (min_seats between 1 and 8),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  constraint saved_searches_window_check check (departs_before is null or departs_after is null or departs_before > departs_after)
+);
+
+create index saved_searches_user_id_idx on public.saved_searches (user_id, created_at desc);
+
+alter table public.saved_searches enable row level security;
+
+create policy "Users can view own saved searches" on public.saved_searches
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own saved searches" on public.saved_searches
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own saved searches" on public.saved_searches
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete own saved searches" on public.saved_searches
+  for delete using (auth.uid() = user_id);
+
+create trigger saved_searches_updated_at
+  before update on public.saved_searches
+  for each row
+  execute procedure public.handle_updated_at();
+
+-- Registers this device for the signed-in user. A token moves with the
+-- device, so signing in as someone else takes it over.
+create or replace function public.register_push_token(p_token text, p_platform text)
+returns void as $$
+begin
+  if auth.uid() is null then
+    raise exception 'NOT_AUTHENTICATED' using errcode = 'P0001';
+  end if;
+
+  insert into public.push_tokens (token, user_id, platform)
+  values (p_token, auth.uid(), p_platform)
+  on conflict (token) do update
+    set user_id = excluded.user_id,
+        platform = excluded.platform;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.register_push_token(text, text) from public;
+grant execute on function public.register_push_token(text, text) to authenticated;
+
+-- Called on sign-out so the device stops getting the user's alerts
+create or replace function public.unregister_push_token(p_token text)
+returns void as $$
+  delete from public.push_tokens
+  where token = p_token and user_id = auth.uid();
+$$ language sql security definer set search_path = public;
+
+revoke all on function public.unregister_push_token(text) from public;
+grant execute on function public.unregister_push_token(text) to authenticated;
+
+-- Marks the given notifications read, or all of them when p_ids is null
+create or replace function public.mark_notifications_read(p_ids uuid[] default null)
+returns void as $$
+  update public.notifications
+  set read_at = now()
+  where user_id = auth.uid()
+    and read_at is null
+    and (p_ids is null or id = any(p_ids));
+$$ language sql security definer set search_path = public;
+
+revoke all on function public.mark_notifications_read(uuid[]) from public;
+grant execute on function public.mark_notifications_read(uuid[]) to authenticated;
+
+-- Notifies everyone whose saved search a newly posted ride matches. Routes
+-- match the way `search_rides_along_route` does, within the app's 15 km, and
+-- max_price applies to price_per_seat, which is what book_ride charges.
+create or replace function public.match_saved_searches()
+returns trigger as $$
+begin
+  if new.status <> 'active' then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, kind, title, body, data)
+  select
+    m.user_id,
+    'ride_alert',
+    format('New ride: %s → %s', m.origin_city, m.destination_city),
+    format(
+      '%s · UGX %s a seat · %s %s left',
+      to_char(new.departure_time at time zone 'Africa/Kampala', 'Dy DD Mon, HH24:MI'),
+      to_char(new.price_per_seat, 'FM999,999,999'),
+      new.available_seats,
+      case when new.available_seats = 1 then 'seat' else 'seats' end
+    ),
+    jsonb_build_object('ride_id', new.id, 'saved_search_id', m.id)
+  from (
+    select
+      ss.*,
+      st_linelocatepoint(new.route::geometry, st_setsrid(st_makepoint(ss.origin_lng, ss.origin_lat), 4326)) as pickup_at,
+      st_linelocatepoint(new.route::geometry, st_setsrid(st_makepoint(ss.destination_lng, ss.destination_lat), 4326)) as dropoff_at
+    from public.saved_searches ss
+    where ss.user_id <> new.driver_id
+      and (ss.departs_after is null or new.departure_time >= ss.departs_after)
+      and (ss.departs_before is null or new.departure_time < ss.departs_before)
+      and (ss.max_price is null or new.price_per_seat <= ss.max_price)
+      and new.available_seats >= ss.min_seats
+      and st_dwithin(new.route, st_setsrid(st_makepoint(ss.origin_lng, ss.origin_lat), 4326)::geography, 15000)
+      and st_dwithin(new.route, st_setsrid(st_makepoint(ss.destination_lng, ss.destination_lat), 4326)::geography, 15000)
+  ) m
+  where m.dropoff_at > m.pickup_at;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public, extensions;
+
+create trigger rides_match_saved_searches
+  after insert on public.rides
+  for each row
+  execute procedure public.match_saved_searches();
+
+-- Hands each new notification to `send-push`. Uses the same Vault secrets as
+-- the reconcile-payments schedule; pg_net sends the request after commit.
+-- Notifications are inserted inside other writes, such as a driver posting a
+-- ride, so a missing secret or a pg_net error only loses the push.
+create or replace function public.push_notification()
+returns trigger as $$
+begin
+  begin
+    perform net.http_post(
+      url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+        || '/functions/v1/send-push',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+      ),
+      body := jsonb_build_object('notification_id', new.id)
+    );
+  exception when others then
+    raise warning 'Notification % not pushed: %', new.id, sqlerrm;
+  end;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger notifications_push
+  after insert on public.notifications
+  for each row
+  execute procedure public.push_notification();
@@ -0,0 +1,270 @@
+-- Search filters for what a ride offers and who drives it: car features,
+-- the driver's rating and verification, and women-only rides.
+
+-- The features a driver switched on, copied out of car_details so searches
+-- can match them with an index. car_details keeps the full set for display.
+alter table public.rides
+  add column features text[] default '{}' not null,
+  add column women_only boolean default false not null;
+
+alter table public.rides add constraint rides_features_check check (
+  features <@ array['air_con', 'luggage_space', 'wifi', 'smoking', 'pets', 'child_seat', 'charger', 'refreshments', 'music']
+);
+
+create or replace function public.set_ride_features()
+returns trigger as $$
+begin
+  new.features := array(
+    select f.feature
+    from (values
+      ('hasAirCon', 'air_con'),
+      ('hasLuggageSpace', 'luggage_space'),
+      ('hasWifi', 'wifi'),
+      ('allowsSmoking', 'smoking'),
+      ('allowsPets', 'pets'),
+      ('hasChildSeat', 'child_seat'),
+      ('hasCharger', 'charger'),
+      ('hasRefreshments', 'refreshments'),
+      ('hasMusicSystem', 'music')
+    ) as f(flag, feature)
+    where new.car_details -> 'features' -> f.flag = 'true'::jsonb
+  );
+  return new;
+end;
+$$ language plpgsql set search_path = public;
+
+create trigger rides_set_features
+  before insert or update of car_details, features on public.rides
+  for each row
+  execute procedure public.set_ride_features();
+
+-- Fires the trigger for existing rides
+update public.rides set features = '{}';
+
+create index rides_features_idx on public.rides using gin (features)
+  where status = 'active';
+
+-- Recorded from the ID document by record_verification, and only used so
+-- women can offer and book women-only rides; null until then
+alter table public.profiles
+  add column gender text check (gender in ('female', 'male'));
+
+-- Both the driver's ID and vehicle have been checked
+alter table public.profiles
+  add column is_verified boolean generated always as (
+    coalesce(verification_status -> 'id' = 'true'::jsonb, false)
+    and coalesce(verification_status -> 'vehicle' = 'true'::jsonb, false)
+  ) stored;
+
+-- Verification and gender are set through record_verification, so, like the
+-- scores, clients can't write them through the profile policies
+create or replace function public.protect_profile_verification()
+returns trigger as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    if new.gender is not null
+      or new.verification_status is distinct from '{"phone": false, "id": false}'::jsonb then
+      raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+    end if;
+  elsif (new.gender, new.verification_status) is distinct from (old.gender, old.verification_status) then
+    raise exception 'NOT_ALLOWED' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$ language plpgsql set search_path = public;
+
+create trigger profiles_protect_verification
+  before insert or update on public.profiles
+  for each row
+  execute procedure public.protect_profile_verification();
+
+-- Records the outcome of a phone, ID or vehicle check. Whoever reviews the
+-- documents calls it with the service role. An ID check also records the
+-- gender on the document, and undoing one clears it again.
+create or replace function public.record_verification(
+  p_user_id uuid,
+  p_check text,
+  p_verified boolean,
+  p_gender text default null
+)
+returns public.profiles as $$
+declare
+  v_profile public.profiles%rowtype;
+begin
+  if p_check not in ('phone', 'id', 'vehicle') then
+    raise exception 'INVALID_CHECK' using errcode = 'P0001';
+  end if;
+
+  if p_gender is not null and p_check <> 'id' then
+    raise exception 'INVALID_CHECK' using errcode = 'P0001';
+  end if;
+
+  update public.profiles
+  set verification_status = jsonb_set(verification_status, array[p_check], to_jsonb(p_verified)),
+      gender = case
+        when p_check <> 'id' then gender
+        when p_verified then p_gender
+      end
+  where id = p_user_id
+  returning * into v_profile;
+
+  if not found then
+    raise exception 'USER_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  return v_profile;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke all on function public.record_verification(uuid, text, boolean, text) from public, anon, authenticated;
+grant execute on function public.record_verification(uuid, text, boolean, text) to service_role;
+
+-- Women-only rides are offered by women and booked by women
+create or replace function public.check_women_only_ride()
+returns trigger as $$
+begin
+  if not exists (
+    select 1 from public.profiles
+    where id = new.driver_id and gender = 'female'
+  ) then
+    raise exception 'WOMEN_ONLY_DRIVER' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger rides_check_women_only
+  before insert or update of women_only, driver_id on public.rides
+  for each row
+  when (new.women_only)
+  execute procedure public.check_women_only_ride();
+
+-- Covers book_ride and anything else that adds a passenger
+create or replace function public.check_women_only_booking()
+returns trigger as $$
+begin
+  if exists (select 1 from public.rides where id = new.ride_id and women_only)
+     and not exists (
+       select 1 from public.profiles
+       where id = new.passenger_id and gender = 'female'
+     ) then
+    raise exception 'WOMEN_ONLY_RIDE' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger bookings_check_women_only
+  before insert on public.bookings
+  for each row
+  execute procedure public.check_women_only_booking();
+
+-- search_rides_along_route takes the new filters. The signature changes, so
+-- the old function is dropped rather than replaced.
+drop function public.search_rides_along_route(
+  double precision, double precision, double precision, double precision, double precision,
+  timestamp with time zone, timestamp with time zone, integer, decimal, decimal, text, integer, integer
+);
+
+-- As in 20240208_route_matching, plus:
+--   p_features           rides offering all of these
+--   p_min_driver_rating  drivers rated at least this
+--   p_verified_only      drivers whose ID and vehicle are verified
+--   p_women_only         women-only rides
+create function public.search_rides_along_route(
+  p_pickup_lat double precision,
+  p_pickup_lng double precision,
+  p_dropoff_lat double precision,
+  p_dropoff_lng double precision,
+  p_radius_km double precision default 10,
+  p_departs_after timestamp with time zone default null,
+  p_departs_before timestamp with time zone default null,
+  p_min_seats integer default 1,
+  p_min_price decimal default null,
+  p_max_price decimal default null,
+  p_features text[] default null,
+  p_min_driver_rating decimal default null,
+  p_verified_only boolean default false,
+  p_women_only boolean default false,
+  p_sort text default 'date_asc',
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  ride_id uuid,
+  pickup_distance_km decimal,
+  dropoff_distance_km decimal,
+  detour_km decimal,
+  trip_share decimal
+) as $$
+  with points as (
+    select
+      st_setsrid(st_makepoint(p_pickup_lng, p_pickup_lat), 4326)::geography as pickup,
+      st_setsrid(st_makepoint(p_dropoff_lng, p_dropoff_lat), 4326)::geography as dropoff
+  ),
+  candidates as (
+    select
+      r.id,
+      r.departure_time,
+      r.available_seats,
+      r.price_per_seat,
+      st_distance(r.route, p.pickup) as pickup_m,
+      st_distance(r.route, p.dropoff) as dropoff_m,
+      -- Fractions along the line; measured in degrees, which is fine at
+      -- Uganda's latitudes
+      st_linelocatepoint(r.route::geometry, p.pickup::geometry) as pickup_at,
+      st_linelocatepoint(r.route::geometry, p.dropoff::geometry) as dropoff_at
+    from public.rides r
+    join public.profiles d on d.id = r.driver_id
+    cross join points p
+    where r.status = 'active'
+      and r.departure_time >= greatest(coalesce(p_departs_after, now()), now())
+      and (p_departs_before is null or r.departure_time < p_departs_before)
+      and r.available_seats >= greatest(coalesce(p_min_seats, 1), 1)
+      and (p_features is null or r.features @> p_features)
+      and (p_min_driver_rating is null or d.rating >= p_min_driver_rating)
+      and (not coalesce(p_verified_only, false) or d.is_verified)
+      and (not coalesce(p_women_only, false) or r.women_only)
+      and st_dwithin(r.route, p.pickup, p_radius_km * 1000)
+      and st_dwithin(r.route, p.dropoff, p_radius_km * 1000)
+  ),
+  matches as (
+    select c.*
+    from candidates c
+    where c.dropoff_at > c.pickup_at
+  )
+  select
+    m.id,
+    round((m.pickup_m / 1000)::numeric, 1),
+    round((m.dropoff_m / 1000)::numeric, 1),
+    round((2 * (m.pickup_m + m.dropoff_m) / 1000)::numeric, 1),
+    round((m.dropoff_at - m.pickup_at)::numeric, 3)
+  from matches m
+  where (p_min_price is null or m.price_per_seat >= p_min_price)
+    and (p_max_price is null or m.price_per_seat <= p_max_price)
+  order by
+    case when p_sort = 'price_asc' then m.price_per_seat end asc,
+    case when p_sort = 'price_desc' then m.price_per_seat end desc,
+    case when p_sort = 'seats_asc' then m.available_seats end asc,
+    case when p_sort = 'seats_desc' then m.available_seats end desc,
+    case when p_sort = 'date_desc' then m.departure_time end desc,
+    m.departure_time asc,
+    m.pickup_m + m.dropoff_m asc,
+    m.id
+  limit least(greatest(coalesce(p_limit, 20), 1), 100)
+  offset greatest(coalesce(p_offset, 0), 0);
+$$ language sql stable security definer set search_path = public, extensions;
+
+revoke all on function public.search_rides_along_route(
+  double precision, double precision, double precision, double precision, double precision,
+  timestamp with time zone, timestamp with time zone, integer, decimal, decimal,
+  text[], decimal, boolean, boolean, text, integer, integer
+) from public;
+grant execute on function public.search_rides_along_route(
+  double precision, double precision, double precision, double precision, double precision,
+  timestamp with time zone, timestamp with time zone, integer, decimal, decimal,
+  text[], decimal, boolean, boolean, text, integer, integer
+) to authenticated;